@@ -31,6 +31,11 @@ const nextConfig = {
     // Enable strict mode to catch potential issues during development
     reactStrictMode: true,
 
+    // === SERVER PACKAGES ===
+    // pdfkit (invoice PDFs) reads its font data from its own folder at runtime,
+    // so it is loaded from node_modules rather than bundled
+    serverExternalPackages: ['pdfkit'],
+
     // === SOURCE MAPS ===
     // Disable browser source maps in production for security/performance
     productionBrowserSourceMaps: false,
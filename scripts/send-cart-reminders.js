@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+
+/**
+ * @fileOverview Abandoned Cart Reminder Job
+ *
+ * Triggers POST /api/cron/cart-reminders on the running storefront, which
+ * emails customers whose saved carts have been idle long enough. Schedule it
+ * with cron, e.g. every 30 minutes:
+ *
+ *   0,30 * * * * cd /srv/buyjan && node scripts/send-cart-reminders.js
+ *
+ * Usage:
+ *   node scripts/send-cart-reminders.js
+ *   node scripts/send-cart-reminders.js --dry-run
+ *
+ * Environment:
+ *   CRON_SECRET            - must match the storefront's CRON_SECRET
+ *   CART_REMINDERS_URL     - storefront base URL (default NEXT_PUBLIC_SITE_URL or http://localhost:3000)
+ */
+
+async function main() {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        console.error('❌ CRON_SECRET is not set');
+        process.exit(1);
+    }
+
+    const baseUrl = (process.env.CART_REMINDERS_URL || process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/$/, '');
+    const dryRun = process.argv.includes('--dry-run');
+
+    const response = await fetch(`${baseUrl}/api/cron/cart-reminders`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${secret}`,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ dry_run: dryRun }),
+        signal: AbortSignal.timeout(5 * 60 * 1000),
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        console.error(`❌ Cart reminders failed (${response.status}):`, body.message || body.error || '');
+        process.exit(1);
+    }
+
+    const { checked, sent, skipped, failed } = body.data;
+    console.log(`✅ Cart reminders${dryRun ? ' (dry run)' : ''}: ${checked} checked, ${sent} sent, ${skipped} skipped, ${failed} failed`);
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error('❌ Cart reminders failed:', error.message);
+    process.exit(1);
+});
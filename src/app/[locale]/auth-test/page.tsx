@@ -62,7 +62,7 @@ export default function AuthTestPage() {
                 <div className="flex gap-4 mb-6">
                     {is_authenticated ? (
                         <button
-                            onClick={logout}
+                            onClick={() => logout()}
                             className="bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600"
                             id="logout-btn"
                         >
@@ -4,7 +4,10 @@ import { useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { useCartStore } from '@/store/cart';
 import { useCheckoutStore } from '@/store/checkout';
-import { CartItem, CartSummary, EmptyCart } from '@/components/cart';
+import { CartItem, CartSummary, EmptyCart, ReorderNotice } from '@/components/cart';
+import { validateCouponForCart } from '@/lib/api/coupons';
+import { useCartRevalidation } from '@/hooks/useCartRevalidation';
+import { AlertCircle } from 'lucide-react';
 
 interface CartPageContentProps {
     locale: string;
@@ -17,9 +20,19 @@ export default function CartPageContent({ locale }: CartPageContentProps) {
     const getTotal = useCartStore((state) => state.getTotal);
     const getItemCount = useCartStore((state) => state.getItemCount);
     const resetCheckout = useCheckoutStore((state) => state.resetCheckout);
+    const appliedCoupon = useCheckoutStore((state) => state.appliedCoupon);
+    const { notices, hasUnavailableItems } = useCartRevalidation();
     const isArabic = locale === 'ar';
 
-    const totals = getTotal();
+    const cartTotals = getTotal();
+    const discount = appliedCoupon
+        ? validateCouponForCart(appliedCoupon, cartTotals.subtotal).discount_amount
+        : 0;
+    const totals = {
+        ...cartTotals,
+        discount,
+        total: Number((cartTotals.total - discount).toFixed(3)),
+    };
     const itemCount = getItemCount();
 
     if (items.length === 0) {
@@ -40,8 +53,15 @@ export default function CartPageContent({ locale }: CartPageContentProps) {
         <div className={`grid grid-cols-1 lg:grid-cols-3 gap-2 sm:gap-4 lg:gap-8 ${isArabic ? 'lg:flex-row-reverse' : ''}`}>
             {/* Cart Items */}
             <div className="lg:col-span-2 space-y-1 sm:space-y-2 lg:space-y-4">
+                <ReorderNotice locale={locale} />
+                {hasUnavailableItems && (
+                    <div className={`flex items-start gap-2 p-2 sm:p-3 bg-red-50 border border-red-200 rounded-lg text-xs sm:text-sm text-red-800 ${isArabic ? 'flex-row-reverse text-right' : 'text-left'}`}>
+                        <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+                        <span>{t('cart.unavailable_items_notice')}</span>
+                    </div>
+                )}
                 {items.map((item) => (
-                    <CartItem key={item.id} item={item} locale={locale} />
+                    <CartItem key={item.id} item={item} locale={locale} notices={notices[item.id]} />
                 ))}
             </div>
 
@@ -51,8 +71,11 @@ export default function CartPageContent({ locale }: CartPageContentProps) {
                     subtotal={totals.subtotal}
                     shipping={totals.shipping}
                     tax={totals.tax}
+                    discount={totals.discount}
+                    couponCode={appliedCoupon?.code}
                     total={totals.total}
                     itemCount={itemCount}
+                    canCheckout={!hasUnavailableItems}
                     locale={locale}
                     onContinueShopping={handleContinueShopping}
                     onCheckout={handleCheckout}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { useCartStore } from '@/store/cart';
+import { fromServerCart, restoreCart } from '@/lib/api/cart';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+
+interface RestoreCartContentProps {
+    locale: string;
+    token: string;
+}
+
+/**
+ * Loads the cart from a reminder email link into this device's cart, keeping
+ * any other items already in it, then opens the cart page
+ */
+export default function RestoreCartContent({ locale, token }: RestoreCartContentProps) {
+    const router = useRouter();
+    const t = useTranslations();
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        restoreCart(token)
+            .then((cart) => {
+                if (cancelled) return;
+
+                const restored = fromServerCart(cart);
+                const restoredIds = new Set(restored.map((item) => item.id));
+                const deviceItems = useCartStore.getState().items.filter((item) => !restoredIds.has(item.id));
+
+                useCartStore.getState().setItems([...restored, ...deviceItems]);
+                router.replace(`/${locale}/cart`);
+            })
+            .catch((error) => {
+                console.warn('[RestoreCart] Failed to restore cart:', error?.response?.data || error?.message);
+                if (!cancelled) setFailed(true);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [token, locale, router]);
+
+    if (failed) {
+        return (
+            <div className="text-center py-12 space-y-4">
+                <p className="text-gray-700">{t('cart.restore_failed')}</p>
+                <Link href={`/${locale}/cart`}>
+                    <Button className="bg-blue-600 hover:bg-blue-700 text-white">{t('cart.view_cart')}</Button>
+                </Link>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex items-center justify-center gap-2 py-12 text-gray-600">
+            <Loader2 className="animate-spin" size={20} />
+            <span>{t('cart.restoring')}</span>
+        </div>
+    );
+}
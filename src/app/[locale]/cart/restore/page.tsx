@@ -0,0 +1,33 @@
+import { Metadata } from 'next';
+import { getTranslations } from 'next-intl/server';
+import { Container } from '@/components/layout';
+import RestoreCartContent from './RestoreCartContent';
+
+export async function generateMetadata({ params }: { params: Promise<{ locale: string }> }): Promise<Metadata> {
+    const { locale } = await params;
+    const t = await getTranslations({ locale });
+    return {
+        title: t('cart.shopping_cart'),
+        robots: { index: false },
+    };
+}
+
+export default async function RestoreCartPage({
+    params,
+    searchParams,
+}: {
+    params: Promise<{ locale: string }>;
+    searchParams: Promise<{ token?: string }>;
+}) {
+    const { locale } = await params;
+    const { token } = await searchParams;
+    const isArabic = locale === 'ar';
+
+    return (
+        <main className={isArabic ? 'rtl' : 'ltr'}>
+            <Container maxWidth="lg" padding="lg" marginTop="sm" marginBottom="sm">
+                <RestoreCartContent locale={locale} token={token || ''} />
+            </Container>
+        </main>
+    );
+}
@@ -11,10 +11,11 @@ import { InstagramProductCard } from '@/components/product';
 import { useCartStore } from '@/store/cart';
 import { cn, isRTL, getFontFamily, getLocalizedValue } from '@/lib/utils';
 import { getAssetUrl } from '@/lib/api/directus-config';
+import { ListingMode, getShownRange } from '@/lib/pagination';
 import CategoryFilterSidebar from './CategoryFilterSidebar';
 import SortDropdown from '../../../shop/components/SortDropdown';
 import SearchBar from '../../../shop/components/SearchBar';
-import Pagination from '../../../shop/components/Pagination';
+import ListingPagination from '../../../shop/components/ListingPagination';
 
 interface CategoryContentProps {
     category: Category;
@@ -26,6 +27,7 @@ interface CategoryContentProps {
         currentPage: number;
         totalPages: number;
         totalProducts: number;
+        mode: ListingMode;
     };
     locale: Locale;
 }
@@ -87,6 +89,10 @@ export default function CategoryContent({
             newActiveFilters.push(`${t('shop.max_price')}: ${filters.max_price} OMR`);
         }
 
+        if (filters.min_rating !== undefined) {
+            newActiveFilters.push(`${t('shop.rating')}: ${t('shop.rating_and_up', { rating: filters.min_rating })}`);
+        }
+
         if (filters.search) {
             newActiveFilters.push(`${t('shop.search')}: ${filters.search}`);
         }
@@ -119,6 +125,8 @@ export default function CategoryContent({
             params.delete('min_price');
         } else if (filter.startsWith(t('shop.max_price'))) {
             params.delete('max_price');
+        } else if (filter.startsWith(t('shop.rating'))) {
+            params.delete('rating');
         } else if (filter.startsWith(t('shop.search'))) {
             params.delete('search');
         }
@@ -146,12 +154,7 @@ export default function CategoryContent({
         router.replace(`${pathname}?${params.toString()}`);
     }, [searchParams, router, pathname]);
 
-    // Handle page change
-    const handlePageChange = useCallback((newPage: number) => {
-        const params = new URLSearchParams(searchParams.toString());
-        params.set('page', newPage.toString());
-        router.replace(`${pathname}?${params.toString()}`);
-    }, [searchParams, router, pathname]);
+    const shown = getShownRange(pagination.currentPage, pagination.mode, 12, pagination.totalProducts);
 
     // Get category image URL with access token
     const categoryImageUrl = category.image
@@ -376,8 +379,8 @@ export default function CategoryContent({
                             <div className="text-neutral-600">
                                 {pagination.totalProducts > 0 ? (
                                     <span>
-                                        {t('shop.showing')} {(pagination.currentPage - 1) * 12 + 1}-
-                                        {Math.min(pagination.currentPage * 12, pagination.totalProducts)} {t('shop.of')} {pagination.totalProducts} {t('shop.products')}
+                                        {t('shop.showing')} {shown.from}-
+                                        {shown.to} {t('shop.of')} {pagination.totalProducts} {t('shop.products')}
                                     </span>
                                 ) : (
                                     <span>{t('shop.no_products')}</span>
@@ -449,10 +452,10 @@ export default function CategoryContent({
                                 {/* Pagination */}
                                 {pagination.totalPages > 1 && (
                                     <div className="mt-8">
-                                        <Pagination
+                                        <ListingPagination
                                             currentPage={pagination.currentPage}
                                             totalPages={pagination.totalPages}
-                                            onPageChange={handlePageChange}
+                                            mode={pagination.mode}
                                             locale={locale}
                                         />
                                     </div>
@@ -7,6 +7,7 @@ import { ChevronDown } from 'lucide-react';
 
 import { Brand, Locale, ProductFilters } from '@/types';
 import { cn, getFontFamily, getLocalizedValue } from '@/lib/utils';
+import { RATING_THRESHOLDS } from '@/lib/search/facets';
 
 interface CategoryFilterSidebarProps {
     brands: Brand[];
@@ -28,6 +29,7 @@ export default function CategoryFilterSidebar({
     const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
         brand: true,
         price: true,
+        rating: true,
     });
 
     const [localMinPrice, setLocalMinPrice] = useState(filters.min_price || 0);
@@ -99,6 +101,20 @@ export default function CategoryFilterSidebar({
         router.replace(`${pathname}?${params.toString()}`);
     }, [searchParams, router, pathname]);
 
+    // Handle minimum rating change; choosing the selected rating clears it
+    const handleRatingChange = useCallback((rating: number) => {
+        const params = new URLSearchParams(searchParams.toString());
+
+        if (filters.min_rating === rating) {
+            params.delete('rating');
+        } else {
+            params.set('rating', rating.toString());
+        }
+
+        params.set('page', '1');
+        router.replace(`${pathname}?${params.toString()}`);
+    }, [filters.min_rating, searchParams, router, pathname]);
+
     return (
         <div className="space-y-4">
             {/* Brands Filter */}
@@ -218,6 +234,46 @@ export default function CategoryFilterSidebar({
                     </div>
                 )}
             </div>
+
+            {/* Rating Filter */}
+            <div className="bg-white rounded-lg border border-neutral-200 overflow-hidden">
+                <button
+                    onClick={() => toggleSection('rating')}
+                    className={cn(
+                        "w-full flex items-center justify-between px-4 py-3 hover:bg-neutral-50 transition-colors",
+                        fontFamily
+                    )}
+                >
+                    <span className="font-semibold text-neutral-800">
+                        {t('shop.rating')}
+                    </span>
+                    <ChevronDown
+                        size={18}
+                        className={cn(
+                            "text-neutral-600 transition-transform",
+                            expandedSections.rating && "rotate-180"
+                        )}
+                    />
+                </button>
+
+                {expandedSections.rating && (
+                    <div className="px-4 py-3 border-t border-neutral-100 space-y-1">
+                        {RATING_THRESHOLDS.map(rating => (
+                            <button
+                                key={rating}
+                                onClick={() => handleRatingChange(rating)}
+                                className={cn(
+                                    "w-full text-start px-2 py-1.5 rounded text-sm transition-colors",
+                                    filters.min_rating === rating ? "bg-primary/10 text-primary" : "text-neutral-700 hover:bg-neutral-100",
+                                    fontFamily
+                                )}
+                            >
+                                {t('shop.rating_and_up', { rating })}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
         </div>
     );
 }
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { getCategories } from '@/lib/api/categories';
 import { getProducts } from '@/lib/api/products';
 import { getBrands } from '@/lib/api/brands';
-import { Locale, Category, Product, SortOption } from '@/types';
+import { Locale, Category, SortOption } from '@/types';
+import { getListingWindow, getTotalPages, parseListingMode, parsePage } from '@/lib/pagination';
 import CategoryContent from './components/CategoryContent';
 
 interface CategoryPageProps {
@@ -13,8 +14,10 @@ interface CategoryPageProps {
         brand?: string | string[];
         min_price?: string;
         max_price?: string;
+        rating?: string;
         sort?: string;
         page?: string;
+        view?: string;
         search?: string;
     }>;
 }
@@ -26,19 +29,38 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
         brand,
         min_price,
         max_price,
+        rating,
         sort,
-        page = '1',
+        page,
+        view,
         search,
     } = sp;
 
     // Parse pagination parameters
-    const currentPage = parseInt(page, 10) || 1;
+    const currentPage = parsePage(page);
+    const mode = parseListingMode(view);
     const limit = 12; // Products per page
 
-    // Fetch categories, products, and brands in parallel
-    const [allCategories, allProducts, brands] = await Promise.all([
+    // Validate sort option
+    const validSortOptions: SortOption[] = ['newest', 'price_low_high', 'price_high_low', 'name_a_z', 'name_z_a', 'rating'];
+    const validatedSort = (sort && validSortOptions.includes(sort as SortOption) ? sort : undefined) as SortOption | undefined;
+
+    const filters = {
+        brand,
+        min_price: min_price ? parseFloat(min_price) : undefined,
+        max_price: max_price ? parseFloat(max_price) : undefined,
+        min_rating: rating ? parseFloat(rating) : undefined,
+        search,
+    };
+
+    // Fetch categories, this category's products, and brands in parallel
+    const [allCategories, productsResponse, brands] = await Promise.all([
         getCategories(),
-        getProducts(undefined, undefined, { page: 1, limit: 100, total: 0, total_pages: 0 }), // Get more products to filter
+        getProducts(
+            { ...filters, category: slug, in_stock: true },
+            validatedSort,
+            { ...getListingWindow(currentPage, mode, limit), total: 0, total_pages: 0 }
+        ),
         getBrands(),
     ]);
 
@@ -56,98 +78,23 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
         );
     }
 
-    // Helper function to convert string or array to array
-    const toArray = (value: string | string[] | undefined): string[] => {
-        if (!value) return [];
-        return Array.isArray(value) ? value : value.split(',');
-    };
-
-    // Filter products for this category
-    const categoryProducts = (allProducts?.data || []).filter((product: Product) => {
-        // Check if product belongs to this category
-        const productCategories = product.categories || (product.category ? [product.category] : []);
-        const categoryObjects = Array.isArray(productCategories) ? productCategories : [productCategories];
-
-        const hasCategory = categoryObjects.some(cat => {
-            const catSlug = typeof cat === 'string' ? cat : cat?.slug;
-            return catSlug && catSlug === slug;
-        });
-
-        if (!hasCategory) return false;
-
-        // Filter by brand if specified
-        const selectedBrands = toArray(brand);
-        if (selectedBrands.length > 0 && product.brand) {
-            const brandSlug = typeof product.brand === 'string' ? product.brand : product.brand?.slug;
-            if (!brandSlug || !selectedBrands.includes(brandSlug)) {
-                return false;
-            }
-        }
-
-        // Filter by price range
-        if (min_price !== undefined && product.price < parseFloat(min_price)) {
-            return false;
-        }
-        if (max_price !== undefined && product.price > parseFloat(max_price)) {
-            return false;
-        }
-
-        // Filter by search term
-        if (search) {
-            const searchTerm = search.toLowerCase();
-            const productName = (product.name || '').toLowerCase();
-            const productNameAr = (product.name_ar || '').toLowerCase();
-            const productDescription = (product.description || '').toLowerCase();
-
-            if (!productName.includes(searchTerm) &&
-                !productNameAr.includes(searchTerm) &&
-                !productDescription.includes(searchTerm)) {
-                return false;
-            }
-        }
-
-        // Filter by stock status
-        const inStock = typeof product.in_stock === 'boolean'
-            ? product.in_stock
-            : (typeof product.in_stock === 'number' ? product.in_stock > 0 : false);
-
-        if (!inStock) return false;
-
-        return true;
-    });
-
-    // Apply pagination
-    const totalProducts = categoryProducts.length;
-    const totalPages = Math.ceil(totalProducts / limit);
-    const startIndex = (currentPage - 1) * limit;
-    const endIndex = startIndex + limit;
-    const paginatedProducts = categoryProducts.slice(startIndex, endIndex);
-
     // Ensure we have proper data structures
     const brandsData = Array.isArray(brands.data) ? brands.data : (brands?.data || []);
 
-    const filters = {
-        brand,
-        min_price: min_price ? parseFloat(min_price) : undefined,
-        max_price: max_price ? parseFloat(max_price) : undefined,
-        search,
-    };
-
-    // Validate sort option
-    const validSortOptions: SortOption[] = ['newest', 'price_low_high', 'price_high_low', 'name_a_z', 'name_z_a', 'rating'];
-    const validatedSort = (sort && validSortOptions.includes(sort as SortOption) ? sort : undefined) as SortOption | undefined;
+    const totalProducts = productsResponse.meta.filter_count;
 
     return (
         <CategoryContent
             category={category}
-            products={paginatedProducts}
+            products={productsResponse.data}
             brands={brandsData}
             filters={filters}
             sort={validatedSort}
             pagination={{
                 currentPage,
-                totalPages,
+                totalPages: getTotalPages(totalProducts, limit),
                 totalProducts,
+                mode,
             }}
             locale={locale}
         />
@@ -4,13 +4,16 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { useAuth } from '@/store/auth';
-import { useCartStore } from '@/store/cart';
+import { useCartStore, getCartItemPrice } from '@/store/cart';
 import { useCheckoutStore, CheckoutStep } from '@/store/checkout';
 import { Address, PaymentMethod, ShippingMethod, Locale } from '@/types';
-import { CheckoutProgress, ShippingAddressForm, ShippingMethodSelector, PaymentMethodSelector, OrderReview, PayPalButton } from '@/components/checkout';
+import { CheckoutProgress, ShippingAddressForm, ShippingMethodSelector, PaymentMethodSelector, OrderReview, PayPalButton, StockShortageNotice } from '@/components/checkout';
 import { calculateCartTotals } from '@/lib/currency';
+import { validateCouponForCart } from '@/lib/api/coupons';
 import { useCheckoutData } from '@/hooks/useCheckoutData';
-import { createOrder } from '@/lib/api/orders';
+import { cancelPayPalPayment, createOrder } from '@/lib/api/orders';
+import { reserveCartStock, releaseStockReservation } from '@/lib/api/inventory';
+import { StockShortage } from '@/lib/inventory/stock';
 import { getCountryName, COUNTRY_NAMES_BY_ID } from '@/lib/api/countries';
 
 interface CheckoutPageContentProps {
@@ -25,6 +28,7 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
     const isArabic = locale === 'ar';
     const [isLoading, setIsLoading] = useState(false);
     const [isRedirectingToConfirmation, setIsRedirectingToConfirmation] = useState(false);
+    const [stockShortages, setStockShortages] = useState<StockShortage[]>([]);
 
     // Auth store
     const { user, access_token, refreshTokenIfNeeded, isTokenExpired } = useAuth();
@@ -50,6 +54,10 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
     const setPaymentMethod = useCheckoutStore((state) => state.setPaymentMethod);
     const setOrderInfo = useCheckoutStore((state) => state.setOrderInfo);
     const resetCheckout = useCheckoutStore((state) => state.resetCheckout);
+    const appliedCoupon = useCheckoutStore((state) => state.appliedCoupon);
+    const removeCoupon = useCheckoutStore((state) => state.removeCoupon);
+    const stockReservation = useCheckoutStore((state) => state.stockReservation);
+    const setStockReservation = useCheckoutStore((state) => state.setStockReservation);
 
     // ====== HOOKS SECTION - ALL HOOKS MUST BE CALLED BEFORE ANY EARLY RETURNS ======
 
@@ -84,12 +92,58 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
     }, [setShippingMethod]);
 
     // Memoize handleShippingMethodContinue to prevent infinite loops
-    const handleShippingMethodContinue = useCallback(() => {
-        const currentShippingMethod = useCheckoutStore.getState().shippingMethod;
-        if (currentShippingMethod) {
+    // Stock is checked and held for the cart before the payment step
+    const handleShippingMethodContinue = useCallback(async () => {
+        const { shippingMethod: currentShippingMethod, stockReservation: currentReservation } = useCheckoutStore.getState();
+        if (!currentShippingMethod) {
+            return;
+        }
+
+        // Only signed-in customers can hold stock; guests are checked when the order is placed
+        const token = useAuth.getState().access_token;
+        if (!token) {
             setStep('payment');
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            const { reservation, shortages } = await reserveCartStock(
+                useCartStore.getState().items,
+                token,
+                currentReservation?.id
+            );
+
+            if (shortages && shortages.length > 0) {
+                setStockReservation(null);
+                setStockShortages(shortages);
+                return;
+            }
+
+            setStockReservation(reservation || null);
+            setStockShortages([]);
+        } catch (error) {
+            // Stock is checked again when the order is placed, so don't block checkout here
+            console.warn('[Checkout] Could not reserve stock, continuing without a hold:', error);
+        } finally {
+            setIsLoading(false);
+        }
+
+        setStep('payment');
+    }, [setStep, setStockReservation]);
+
+    // Cancel the unpaid order and release the stock hold when the customer cancels the PayPal payment
+    const handlePayPalCancel = useCallback((orderId: string | null) => {
+        const currentReservation = useCheckoutStore.getState().stockReservation;
+        const token = useAuth.getState().access_token;
+        if (orderId && token) {
+            // Cancelling the order also releases its reservation and coupon use
+            cancelPayPalPayment(orderId, token);
+        } else if (currentReservation && token) {
+            releaseStockReservation(currentReservation.id, token);
         }
-    }, [setStep]);
+        setStockReservation(null);
+    }, [setStockReservation]);
 
     // ====== END HOOKS SECTION ======
 
@@ -97,15 +151,26 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
     // Only recalculate when cartItems or shippingCost changes
     const itemsData = useMemo(() =>
         cartItems.map((item) => ({
-            price: item.product.sale_price || item.product.price,
+            price: getCartItemPrice(item),
             quantity: item.quantity,
         })),
         [cartItems]
     );
 
+    const cartSubtotal = useMemo(() =>
+        calculateCartTotals(itemsData).subtotal,
+        [itemsData]
+    );
+
+    // The discount follows the cart - a coupon that no longer qualifies contributes nothing
+    const discountAmount = appliedCoupon
+        ? validateCouponForCart(appliedCoupon, cartSubtotal).discount_amount
+        : 0;
+    const couponCode = appliedCoupon && discountAmount > 0 ? appliedCoupon.code : undefined;
+
     const totals = useMemo(() =>
-        calculateCartTotals(itemsData, shippingCost, 0),
-        [itemsData, shippingCost]
+        calculateCartTotals(itemsData, shippingCost, 0, discountAmount),
+        [itemsData, shippingCost, discountAmount]
     );
 
     // Get default address from customer or first saved address
@@ -220,8 +285,12 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
                 product: item.product.id,
                 product_name: item.product.name,
                 quantity: item.quantity,
-                unit_price: item.product.sale_price || item.product.price,
-                line_total: (item.product.sale_price || item.product.price) * item.quantity,
+                unit_price: getCartItemPrice(item),
+                line_total: getCartItemPrice(item) * item.quantity,
+                ...(item.selected_variant && {
+                    variation: item.selected_variant.id,
+                    variation_name: item.selected_variant.name,
+                }),
             }));
 
             // Convert checkout Address format to Directus CustomerAddress JSON format
@@ -293,9 +362,13 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
                         tax_rate: 0,
                         tax_amount: totals.tax,
                         shipping_cost: totals.shipping,
-                        discount_amount: 0,
+                        discount_amount: totals.discount,
+                        coupon_code: couponCode,
+                        shipping_method: shippingMethod.id,
                         total: totals.total,
                         payment_method: paymentMethod?.type || paymentMethod?.id || 'cash_on_delivery',
+                        reservation_id: stockReservation?.id,
+                        locale: typedLocale,
                     });
 
                     break; // Success - exit retry loop
@@ -327,6 +400,7 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
                 subtotal: totals.subtotal,
                 shipping: totals.shipping,
                 tax: totals.tax,
+                discount: totals.discount,
                 total: totals.total,
             });
 
@@ -335,6 +409,8 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
 
             // Clear cart first
             clearCart();
+            removeCoupon();
+            setStockReservation(null);
 
             // NOTE: Do NOT reset checkout state immediately
             // This prevents the UI from showing step 1 before confirmation redirect
@@ -357,9 +433,13 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
             if (isTokenError) {
                 console.log('[Checkout] Token/auth error handled silently - login modal will be shown by interceptor');
                 // Silent handling - login modal is already shown or will be shown
+            } else if (error.response?.data?.code === 'OUT_OF_STOCK') {
+                // Listed per item above the review
+                setStockShortages(error.response.data.items || []);
             } else {
                 // Only show alert for non-token errors
-                alert(error.message || t('errors.something_went_wrong'));
+                // Server-side pricing and coupon errors carry a readable message
+                alert(error.response?.data?.error || error.message || t('errors.something_went_wrong'));
             }
         } finally {
             setIsLoading(false);
@@ -395,6 +475,8 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
 
             {/* Step Content */}
             <div className="bg-white rounded-lg p-4 md:p-6 lg:p-8 border border-gray-200 mb-6 md:mb-8">
+                <StockShortageNotice shortages={stockShortages} items={cartItems} locale={typedLocale} />
+
                 {step === 'shipping' && (
                     <div>
                         <h2 className="text-xl md:text-2xl font-bold text-gray-900 mb-4 md:mb-6">{t('checkout.step_address')}</h2>
@@ -501,8 +583,10 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
                                         subtotal: totals.subtotal,
                                         shipping: totals.shipping,
                                         tax: totals.tax,
+                                        discount: totals.discount,
                                         total: totals.total,
                                     }}
+                                    couponCode={couponCode}
                                     locale={typedLocale}
                                     onEdit={(section) => {
                                         if (section === 'address') setStep('shipping');
@@ -533,6 +617,9 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
                                         <PayPalButton
                                             cartItems={cartItems}
                                             totals={totals}
+                                            couponCode={couponCode}
+                                            shippingMethodId={shippingMethod.id}
+                                            reservationId={stockReservation?.id}
                                             customer_email={shippingAddress.email}
                                             shipping_address={shippingAddress}
                                             billing_address={billingAddress || shippingAddress}
@@ -545,6 +632,8 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
                                                 console.log('[Checkout] Order data:', orderData);
                                                 setIsRedirectingToConfirmation(true);
                                                 clearCart();
+                                                removeCoupon();
+                                                setStockReservation(null);
 
                                                 // Extract order ID and order number from the response
                                                 const orderId = orderData?.id;
@@ -564,6 +653,8 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
                                                 console.error('PayPal payment error:', error);
                                                 // Error is displayed in PayPalButton component
                                             }}
+                                            onCancel={handlePayPalCancel}
+                                            onStockShortage={setStockShortages}
                                         />
                                     )}
                                 </div>
@@ -580,8 +671,10 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
                                     subtotal: totals.subtotal,
                                     shipping: totals.shipping,
                                     tax: totals.tax,
+                                    discount: totals.discount,
                                     total: totals.total,
                                 }}
+                                couponCode={couponCode}
                                 locale={typedLocale}
                                 onEdit={(section) => {
                                     if (section === 'address') setStep('shipping');
@@ -4,7 +4,7 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { useAuth } from '@/store/auth';
-import { useCartStore } from '@/store/cart';
+import { useCartStore, getCartItemPrice } from '@/store/cart';
 import { useCheckoutStore, CheckoutStep } from '@/store/checkout';
 import { Address, PaymentMethod, ShippingMethod, Locale } from '@/types';
 import { CheckoutProgress, ShippingAddressForm, ShippingMethodSelector, PaymentMethodSelector, OrderReview } from '@/components/checkout';
@@ -97,7 +97,7 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
     // Only recalculate when cartItems or shippingCost changes
     const itemsData = useMemo(() =>
         cartItems.map((item) => ({
-            price: item.product.sale_price || item.product.price,
+            price: getCartItemPrice(item),
             quantity: item.quantity,
         })),
         [cartItems]
@@ -220,8 +220,12 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
                 product: item.product.id,
                 product_name: item.product.name,
                 quantity: item.quantity,
-                unit_price: item.product.sale_price || item.product.price,
-                line_total: (item.product.sale_price || item.product.price) * item.quantity,
+                unit_price: getCartItemPrice(item),
+                line_total: getCartItemPrice(item) * item.quantity,
+                ...(item.selected_variant && {
+                    variation: item.selected_variant.id,
+                    variation_name: item.selected_variant.name,
+                }),
             }));
 
             // Convert checkout Address format to Directus CustomerAddress JSON format
@@ -285,6 +289,7 @@ export default function CheckoutPageContent({ locale }: CheckoutPageContentProps
                         tax_amount: totals.tax,
                         shipping_cost: totals.shipping,
                         discount_amount: 0,
+                        shipping_method: shippingMethod.id,
                         total: totals.total,
                         payment_method: paymentMethod?.type || paymentMethod?.id || 'cash_on_delivery',
                     });
@@ -365,22 +365,22 @@ export default function ConfirmationPageContent({
                     <div className={`space-y-4 ${isArabic ? 'text-right' : 'text-left'}`}>
                         <div className={`flex justify-between items-center pb-4 border-b-2 border-gray-200 ${isArabic ? 'flex-row-reverse' : ''}`}>
                             <span className="text-gray-700 font-semibold">Subtotal</span>
-                            <Price amount={orderDetails.subtotal} locale={locale} className="font-bold text-lg" />
+                            <Price currency="OMR" amount={orderDetails.subtotal} locale={locale} className="font-bold text-lg" />
                         </div>
                         <div className={`flex justify-between items-center pb-4 border-b-2 border-gray-200 ${isArabic ? 'flex-row-reverse' : ''}`}>
                             <span className="text-gray-700 font-semibold">Shipping</span>
-                            <Price amount={orderDetails.shipping} locale={locale} className="font-bold text-lg" />
+                            <Price currency="OMR" amount={orderDetails.shipping} locale={locale} className="font-bold text-lg" />
                         </div>
                         {orderDetails.tax > 0 && (
                             <div className={`flex justify-between items-center pb-4 border-b-2 border-gray-200 ${isArabic ? 'flex-row-reverse' : ''}`}>
                                 <span className="text-gray-700 font-semibold">Tax</span>
-                                <Price amount={orderDetails.tax} locale={locale} className="font-bold text-lg" />
+                                <Price currency="OMR" amount={orderDetails.tax} locale={locale} className="font-bold text-lg" />
                             </div>
                         )}
                         <div className={`flex justify-between items-center pt-6 ${isArabic ? 'flex-row-reverse' : ''}`}>
                             <span className="text-2xl font-bold text-gray-900">Total Amount</span>
                             <div className="text-3xl font-bold text-[#D4AF37] bg-gradient-to-r from-[#D4AF37] to-[#C19B1A] bg-clip-text text-transparent">
-                                <Price amount={orderDetails.total} locale={locale} />
+                                <Price currency="OMR" amount={orderDetails.total} locale={locale} />
                             </div>
                         </div>
                     </div>
@@ -2,7 +2,7 @@
 
 import { useTranslations } from 'next-intl';
 import { useParams } from 'next/navigation';
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { Mail, Phone, MapPin, Clock, MessageCircle, Users, Send } from 'lucide-react';
 import { cn, getDirection, isRTL } from '@/lib/utils';
@@ -14,6 +14,7 @@ interface FormData {
     phone: string;
     subject: string;
     message: string;
+    orderNumber: string;
 }
 
 interface FormErrors {
@@ -38,11 +39,15 @@ export default function ContactContent() {
         phone: '',
         subject: '',
         message: '',
+        orderNumber: '',
     });
 
     const [errors, setErrors] = useState<FormErrors>({});
     const [isSubmitting, setIsSubmitting] = useState(false);
-    const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+    const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error' | 'rate_limited'>('idle');
+    // Spam checks: a field only bots fill in, and when the form was shown
+    const [honeypot, setHoneypot] = useState('');
+    const startedAt = useRef(Date.now());
 
     const containerVariants = {
         hidden: { opacity: 0 },
@@ -126,7 +131,7 @@ export default function ContactContent() {
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify(formData),
+                body: JSON.stringify({ ...formData, locale, website: honeypot, startedAt: startedAt.current }),
             });
 
             if (response.ok) {
@@ -137,8 +142,12 @@ export default function ContactContent() {
                     phone: '',
                     subject: '',
                     message: '',
+                    orderNumber: '',
                 });
+                startedAt.current = Date.now();
                 setTimeout(() => setSubmitStatus('idle'), 5000);
+            } else if (response.status === 429) {
+                setSubmitStatus('rate_limited');
             } else {
                 setSubmitStatus('error');
             }
@@ -310,13 +319,15 @@ export default function ContactContent() {
                                 </motion.div>
                             )}
 
-                            {submitStatus === 'error' && (
+                            {(submitStatus === 'error' || submitStatus === 'rate_limited') && (
                                 <motion.div
                                     className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 rounded"
                                     initial={{ opacity: 0, y: -10 }}
                                     animate={{ opacity: 1, y: 0 }}
                                 >
-                                    <p className="text-red-700 text-sm font-medium">{t('message_sent_error')}</p>
+                                    <p className="text-red-700 text-sm font-medium">
+                                        {submitStatus === 'rate_limited' ? t('too_many_messages') : t('message_sent_error')}
+                                    </p>
                                 </motion.div>
                             )}
 
@@ -419,6 +430,23 @@ export default function ContactContent() {
                                     )}
                                 </motion.div>
 
+                                {/* Order Number */}
+                                <motion.div variants={itemVariants}>
+                                    <label className="block text-sm font-semibold text-gray-900 mb-2">
+                                        {t('order_number')}
+                                    </label>
+                                    <input
+                                        type="text"
+                                        name="orderNumber"
+                                        dir="ltr"
+                                        value={formData.orderNumber}
+                                        onChange={handleChange}
+                                        placeholder={t('order_number_placeholder')}
+                                        maxLength={64}
+                                        className="w-full px-4 py-3 rounded-lg border-2 border-gray-200 bg-white hover:border-gray-300 focus:border-yellow-400 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-yellow-500/50"
+                                    />
+                                </motion.div>
+
                                 {/* Message */}
                                 <motion.div variants={itemVariants}>
                                     <label className="block text-sm font-semibold text-gray-900 mb-2">
@@ -430,6 +458,7 @@ export default function ContactContent() {
                                         onChange={handleChange}
                                         placeholder={t('message_placeholder')}
                                         rows={5}
+                                        maxLength={5000}
                                         className={cn(
                                             'w-full px-4 py-3 rounded-lg border-2 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-yellow-500/50 resize-none',
                                             errors.message
@@ -442,6 +471,21 @@ export default function ContactContent() {
                                     )}
                                 </motion.div>
 
+                                {/* Honeypot - hidden from people, left empty by them */}
+                                <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+                                    <label>
+                                        Website
+                                        <input
+                                            type="text"
+                                            name="website"
+                                            tabIndex={-1}
+                                            autoComplete="off"
+                                            value={honeypot}
+                                            onChange={(e) => setHoneypot(e.target.value)}
+                                        />
+                                    </label>
+                                </div>
+
                                 {/* Submit Button */}
                                 <motion.div variants={itemVariants}>
                                     <button
@@ -8,12 +8,14 @@ import { Heart, ShoppingCart, Share2, ChevronLeft, ChevronRight } from 'lucide-r
 import ProductGallery from '@/components/product/ProductGallery';
 import Price from '@/components/ui/Price';
 import ReviewsTab from '@/components/product/ReviewsTab';
+import VariantPicker from '@/components/product/VariantPicker';
 
-import { Product, Locale } from '@/types';
+import { Product, ProductVariant, Locale } from '@/types';
 import { cn, getDirection, isRTL, getFontFamily, getLocalizedValue, getDirectusAssetUrl } from '@/lib/utils';
 import { calculateDiscount, formatDiscount } from '@/lib/currency';
 import { useCartStore } from '@/store/cart';
 import { getProductReviews } from '@/lib/api/reviews';
+import { applyVariantPrice, isVariantInStock } from '@/lib/api/variants';
 
 // Placeholder product data for initial render
 const placeholderProduct: Product = {
@@ -51,6 +53,7 @@ export default function ProductPage() {
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [quantity, setQuantity] = useState(1);
+    const [selectedVariant, setSelectedVariant] = useState<ProductVariant | null>(null);
     const [currentImageIndex, setCurrentImageIndex] = useState(0);
     const [activeTab, setActiveTab] = useState('description');
     const [reviewCount, setReviewCount] = useState(0);
@@ -149,11 +152,14 @@ export default function ProductPage() {
                     is_new_arrival: data.is_new_arrival || false,
                     new_until: data.new_until || null,
                     cost_price: data.cost_price || null,
-                    excerpt: data.excerpt || null
+                    excerpt: data.excerpt || null,
+                    variants: Array.isArray(data.variants) ? data.variants : []
                 };
 
                 console.log('[Client] Processed product before setting state:', processedProduct);
                 setProduct(processedProduct);
+                // Preselect the first variant that can be bought
+                setSelectedVariant(processedProduct.variants.find(isVariantInStock) || null);
                 console.log('[Client] Product state should be updated now');
             } catch (err) {
                 console.error('[Client] Error fetching product:', err);
@@ -232,8 +238,8 @@ export default function ProductPage() {
 
     // Handle add to cart
     const handleAddToCart = () => {
-        if (product) {
-            addItem(product, quantity);
+        if (product && canAddToCart) {
+            addItem(product, quantity, selectedVariant || undefined);
             // Optional: Show confirmation message
         }
     };
@@ -360,6 +366,18 @@ export default function ProductPage() {
         ? calculateDiscount(product.price, product.sale_price!)
         : 0;
 
+    // Variant-aware price and stock
+    const hasVariants = !!product?.variants && product.variants.length > 0;
+    const displayPrice = applyVariantPrice(product?.price || 0, selectedVariant);
+    const displaySalePrice = hasDiscount ? applyVariantPrice(product!.sale_price!, selectedVariant) : undefined;
+    const isInStock = hasVariants
+        ? !!selectedVariant && isVariantInStock(selectedVariant)
+        : !!product?.in_stock;
+    const canAddToCart = isInStock && (!hasVariants || !!selectedVariant);
+    const lowStockCount = selectedVariant && typeof selectedVariant.stock === 'number' && selectedVariant.stock > 0 && selectedVariant.stock <= 5
+        ? selectedVariant.stock
+        : null;
+
     if (loading) {
         console.log('[Client] Rendering loading state');
         return (
@@ -477,7 +495,7 @@ export default function ProductPage() {
                         {/* Debug info for new_until date removed */}
 
                         {/* Out of Stock Overlay */}
-                        {!product.in_stock && (
+                        {!hasVariants && !product.in_stock && (
                             <div className="absolute inset-0 z-20 flex items-center justify-center bg-neutral-900/60 rounded-lg">
                                 <span className="rounded-md bg-neutral-900 px-4 py-2 text-base font-medium text-white">
                                     {t('product.out_of_stock')}
@@ -578,14 +596,14 @@ export default function ProductPage() {
                         {hasDiscount ? (
                             <>
                                 <Price
-                                    amount={product.sale_price!}
+                                    amount={displaySalePrice!}
                                     locale={locale}
                                     size="2xl"
                                     weight="bold"
                                     className="text-accent"
                                 />
                                 <Price
-                                    amount={product.price || 0}
+                                    amount={displayPrice}
                                     locale={locale}
                                     size="lg"
                                     strikethrough
@@ -597,7 +615,7 @@ export default function ProductPage() {
                             </>
                         ) : (
                             <Price
-                                amount={product.price || 0}
+                                amount={displayPrice}
                                 locale={locale}
                                 size="2xl"
                                 weight="bold"
@@ -653,6 +671,28 @@ export default function ProductPage() {
                         </div>
                     )}
 
+                    {/* Shade / Size Picker */}
+                    {hasVariants && (
+                        <VariantPicker
+                            variants={product.variants!}
+                            selectedVariant={selectedVariant}
+                            onSelect={setSelectedVariant}
+                            locale={locale}
+                        />
+                    )}
+
+                    {hasVariants && !isInStock && (
+                        <p className="mb-4 text-sm font-medium text-red-600">
+                            {selectedVariant ? t('product.variant_out_of_stock') : t('product.select_variant_first')}
+                        </p>
+                    )}
+
+                    {lowStockCount && (
+                        <p className="mb-4 text-sm font-medium text-amber-700">
+                            {t('product.only_left', { count: lowStockCount })}
+                        </p>
+                    )}
+
                     {/* Quantity Selector */}
                     <div className="flex items-center gap-4 mb-6">
                         <span className="text-neutral-700 font-medium">{t('product.quantity')}:</span>
@@ -678,10 +718,10 @@ export default function ProductPage() {
                     <div className="flex flex-col sm:flex-row gap-3 mb-6">
                         <button
                             onClick={handleAddToCart}
-                            disabled={!product.in_stock}
+                            disabled={!canAddToCart}
                             className={cn(
                                 "flex-1 py-3 px-6 flex items-center justify-center gap-2 rounded-md font-medium transition-colors",
-                                product.in_stock
+                                canAddToCart
                                     ? "bg-primary text-white hover:bg-primary-600"
                                     : "bg-neutral-200 text-neutral-500 cursor-not-allowed"
                             )}
@@ -30,8 +30,8 @@ export default function ReturnsExchangesContent() {
     const steps = [
         {
             number: 1,
-            title: 'Contact Us',
-            description: 'Initiate a return or exchange request within 30 days of purchase by contacting our customer service team via email or phone.',
+            title: 'Request a Return',
+            description: 'Within 30 days of purchase, open the order under My Account > Orders and choose Return items, or contact our customer service team via email or phone.',
             icon: '📞',
         },
         {
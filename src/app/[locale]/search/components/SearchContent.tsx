@@ -1,18 +1,32 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useCallback } from 'react';
+import { useRouter, usePathname, useSearchParams } from 'next/navigation';
 import { useTranslations } from 'next-intl';
-import { Search, Filter } from 'lucide-react';
+import { Search, ArrowUpDown } from 'lucide-react';
 
-import { Product, Category, Locale } from '@/types';
-import { cn, isRTL, getFontFamily, getLocalizedValue } from '@/lib/utils';
+import { Product, Category, Brand, Locale } from '@/types';
+import { cn, isRTL, getFontFamily } from '@/lib/utils';
+import { SEARCH_SORTS, SearchFacets, SearchFilters, SearchSort } from '@/lib/search/facets';
+import { ListingMode } from '@/lib/pagination';
 import { EnhancedSearchBar } from '@/components/search';
 import { LuxuryProductGrid } from '@/components/luxury';
+import FilterSidebar from '../../shop/components/FilterSidebar';
+import ListingPagination from '../../shop/components/ListingPagination';
 
 interface SearchContentProps {
     query: string;
     products: Product[];
     categories: Category[];
+    brands: Brand[];
+    facets: SearchFacets;
+    filters: SearchFilters;
+    sort: SearchSort;
+    pagination: {
+        currentPage: number;
+        totalPages: number;
+        mode: ListingMode;
+    };
     locale: Locale;
     totalResults: number;
 }
@@ -21,46 +35,32 @@ export default function SearchContent({
     query,
     products,
     categories,
+    brands,
+    facets,
+    filters,
+    sort,
+    pagination,
     locale,
     totalResults,
 }: SearchContentProps) {
     const t = useTranslations();
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
     const rtl = isRTL(locale);
     const fontFamily = getFontFamily(locale);
 
-    const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-    const [sortBy, setSortBy] = useState<'relevant' | 'newest' | 'price_low' | 'price_high' | 'name'>('relevant');
-
-    // Filter products by selected category
-    const filteredProducts = useMemo(() => {
-        let filtered = [...products];
-
-        if (selectedCategory) {
-            filtered = filtered.filter(product =>
-                product.category?.slug === selectedCategory
-            );
-        }
+    // Any filter narrowing the results; without one, no results means nothing matched the query
+    const hasActiveFilters = Object.values(filters).some(value => value !== undefined);
 
-        // Sort products
-        filtered.sort((a, b) => {
-            switch (sortBy) {
-                case 'price_low':
-                    return (a.price || 0) - (b.price || 0);
-                case 'price_high':
-                    return (b.price || 0) - (a.price || 0);
-                case 'name':
-                    const nameA = getLocalizedValue({ name: a.name || '', name_ar: a.name_ar || '' }, locale).toLowerCase();
-                    const nameB = getLocalizedValue({ name: b.name || '', name_ar: b.name_ar || '' }, locale).toLowerCase();
-                    return nameA.localeCompare(nameB);
-                case 'relevant':
-                default:
-                    // If products are already sorted by relevance from API, keep order
-                    return 0;
-            }
-        });
+    // Filters and sort live in the URL so results are rendered on the server
+    const updateParam = useCallback((key: string, value: string) => {
+        const params = new URLSearchParams(searchParams.toString());
+        params.set(key, value);
+        params.set('page', '1');
 
-        return filtered;
-    }, [products, selectedCategory, sortBy, locale]);
+        router.replace(`${pathname}?${params.toString()}`);
+    }, [searchParams, router, pathname]);
 
     // Highlight search query in text
     const highlightQuery = (text: string) => {
@@ -98,7 +98,7 @@ export default function SearchContent({
                         <p className="text-neutral-600">
                             {query ? (
                                 <>
-                                    {t('search.found')} <span className="font-semibold">{filteredProducts.length}</span> {t('search.results_for')} "<span className="font-semibold">{query}</span>"
+                                    {t('search.found')} <span className="font-semibold">{totalResults}</span> {t('search.results_for')} "<span className="font-semibold">{query}</span>"
                                 </>
                             ) : (
                                 t('search.enter_search')
@@ -111,7 +111,7 @@ export default function SearchContent({
             {/* Main Content */}
             <div className="max-w-6xl mx-auto px-4 md:px-8 py-12">
                 {/* No results state */}
-                {query && filteredProducts.length === 0 && (
+                {query && totalResults === 0 && !hasActiveFilters && (
                     <div className="text-center py-16">
                         <div className="inline-block p-4 bg-neutral-100 rounded-full mb-4">
                             <Search size={48} className="text-neutral-400" />
@@ -137,7 +137,7 @@ export default function SearchContent({
                 )}
 
                 {/* Results with filters */}
-                {query && filteredProducts.length > 0 && (
+                {query && (totalResults > 0 || hasActiveFilters) && (
                     <div className={cn(
                         "grid grid-cols-1 lg:grid-cols-4 gap-8",
                         rtl && "lg:grid-cols-4 lg:flex-row-reverse"
@@ -147,74 +147,41 @@ export default function SearchContent({
                             "lg:col-span-1",
                             rtl && "lg:order-last"
                         )}>
+                            <FilterSidebar
+                                categories={categories}
+                                brands={brands}
+                                filters={filters}
+                                facets={facets}
+                                locale={locale}
+                            />
+
+                            {/* Sort */}
                             <div className={cn(
-                                "bg-white rounded-lg border border-neutral-200 p-6",
+                                "mt-6 bg-white rounded-lg border border-neutral-200 p-4 space-y-3",
                                 fontFamily
                             )}>
-                                <h3 className={cn(
-                                    "text-lg font-bold text-neutral-900 mb-4 flex items-center gap-2",
+                                <h4 className={cn(
+                                    "font-medium text-neutral-800 flex items-center gap-2",
                                     rtl && "flex-row-reverse"
                                 )}>
-                                    <Filter size={20} />
-                                    {t('search.filter')}
-                                </h3>
-
-                                {/* Category Filter */}
-                                {categories.length > 0 && (
-                                    <div className="space-y-3">
-                                        <h4 className="text-sm font-semibold text-neutral-700 uppercase tracking-wide">
-                                            {t('shop.category')}
-                                        </h4>
-                                        <button
-                                            onClick={() => setSelectedCategory(null)}
-                                            className={cn(
-                                                "w-full px-3 py-2 rounded text-sm transition-colors",
-                                                !selectedCategory
-                                                    ? "bg-primary text-white"
-                                                    : "bg-neutral-100 text-neutral-700 hover:bg-neutral-200"
-                                            )}
-                                        >
-                                            {t('search.all_categories')}
-                                        </button>
-                                        {categories.map((category) => (
-                                            <button
-                                                key={category.id}
-                                                onClick={() => setSelectedCategory(category.slug)}
-                                                className={cn(
-                                                    "w-full px-3 py-2 rounded text-sm transition-colors text-left",
-                                                    rtl && "text-right",
-                                                    selectedCategory === category.slug
-                                                        ? "bg-primary text-white"
-                                                        : "bg-neutral-100 text-neutral-700 hover:bg-neutral-200"
-                                                )}
-                                            >
-                                                {getLocalizedValue({ name: category.name, name_ar: category.name_ar }, locale)}
-                                            </button>
-                                        ))}
-                                    </div>
-                                )}
-
-                                {/* Sort */}
-                                <div className="mt-6 pt-6 border-t border-neutral-200 space-y-3">
-                                    <h4 className="text-sm font-semibold text-neutral-700 uppercase tracking-wide">
-                                        {t('search.sort')}
-                                    </h4>
-                                    {(['relevant', 'price_low', 'price_high', 'name'] as const).map((option) => (
-                                        <button
-                                            key={option}
-                                            onClick={() => setSortBy(option)}
-                                            className={cn(
-                                                "w-full px-3 py-2 rounded text-sm transition-colors text-left",
-                                                rtl && "text-right",
-                                                sortBy === option
-                                                    ? "bg-primary text-white"
-                                                    : "bg-neutral-100 text-neutral-700 hover:bg-neutral-200"
-                                            )}
-                                        >
-                                            {t(`search.sort_${option}`)}
-                                        </button>
-                                    ))}
-                                </div>
+                                    <ArrowUpDown size={18} />
+                                    {t('search.sort')}
+                                </h4>
+                                {SEARCH_SORTS.map((option) => (
+                                    <button
+                                        key={option}
+                                        onClick={() => updateParam('sort', option)}
+                                        className={cn(
+                                            "w-full px-3 py-2 rounded text-sm transition-colors text-left",
+                                            rtl && "text-right",
+                                            sort === option
+                                                ? "bg-primary text-white"
+                                                : "bg-neutral-100 text-neutral-700 hover:bg-neutral-200"
+                                        )}
+                                    >
+                                        {t(`search.sort_${option}`)}
+                                    </button>
+                                ))}
                             </div>
                         </div>
 
@@ -228,14 +195,36 @@ export default function SearchContent({
                                     "text-sm text-neutral-600",
                                     fontFamily
                                 )}>
-                                    {t('search.showing')} <span className="font-semibold">{filteredProducts.length}</span> {t('search.results')}
+                                    {t('search.showing')} <span className="font-semibold">{products.length}</span> {t('shop.of')} <span className="font-semibold">{totalResults}</span> {t('search.results')}
                                 </p>
                             </div>
 
-                            <LuxuryProductGrid
-                                products={filteredProducts}
-                                locale={locale}
-                            />
+                            {products.length > 0 ? (
+                                <LuxuryProductGrid
+                                    products={products}
+                                    locale={locale}
+                                />
+                            ) : (
+                                <div className={cn("text-center py-16", fontFamily)}>
+                                    <h2 className="text-xl font-bold text-neutral-900 mb-2">
+                                        {t('shop.no_products_found')}
+                                    </h2>
+                                    <p className="text-neutral-600">
+                                        {t('shop.try_adjusting_filters')}
+                                    </p>
+                                </div>
+                            )}
+
+                            {pagination.totalPages > 1 && (
+                                <div className="mt-12">
+                                    <ListingPagination
+                                        currentPage={pagination.currentPage}
+                                        totalPages={pagination.totalPages}
+                                        mode={pagination.mode}
+                                        locale={locale}
+                                    />
+                                </div>
+                            )}
                         </div>
                     </div>
                 )}
@@ -2,15 +2,18 @@ import { Locale } from '@/types';
 import { Metadata } from 'next';
 import { getProducts } from '@/lib/api/products';
 import { getCategories } from '@/lib/api/categories';
+import { getBrands } from '@/lib/api/brands';
+import { searchCatalog } from '@/lib/search/catalog';
+import { facetedSearch, parseSearchOptions } from '@/lib/search/facets';
+import { recordSearchEvent } from '@/lib/search/analytics';
+import { getListingWindow, getTotalPages, parseListingMode } from '@/lib/pagination';
 import SearchContent from './components/SearchContent';
 
 interface SearchPageProps {
     params: Promise<{
         locale: Locale;
     }>;
-    searchParams: Promise<{
-        q?: string;
-    }>;
+    searchParams: Promise<Record<string, string | string[] | undefined>>;
 }
 
 export async function generateMetadata({ searchParams }: { searchParams: Promise<{ q?: string }> }): Promise<Metadata> {
@@ -25,23 +28,64 @@ export async function generateMetadata({ searchParams }: { searchParams: Promise
 export default async function SearchPage({ params, searchParams }: SearchPageProps) {
     const { locale } = await params;
     const sp = await searchParams;
-    const query = sp.q || '';
 
-    // Fetch all products and categories
-    const [products, categories] = await Promise.all([
-        getProducts({ search: query }, undefined, { page: 1, limit: 100, total: 0, total_pages: 0 }),
+    const urlParams = new URLSearchParams();
+    for (const [key, value] of Object.entries(sp)) {
+        if (value !== undefined) {
+            urlParams.set(key, Array.isArray(value) ? value.join(',') : value);
+        }
+    }
+
+    const query = urlParams.get('q') || '';
+    const options = parseSearchOptions(urlParams);
+    const mode = parseListingMode(urlParams.get('view'));
+
+    // Matches come from the search index, filtered, sorted and paged there
+    const hits = query.trim() ? await searchCatalog(query, { type: 'product' }) : [];
+    const result = facetedSearch(hits, { ...options, ...getListingWindow(options.page, mode, options.limit) }, locale);
+    const ids = result.hits.map((hit) => hit.item_id);
+
+    // Log the search once - filtering, sorting and paging add to the URL, so
+    // only a URL with nothing but the query is a new search. Not awaited:
+    // analytics must not slow down the results.
+    const isNewSearch = Array.from(urlParams.keys()).every((key) => key === 'q');
+    if (query.trim() && isNewSearch) {
+        void recordSearchEvent({ query, locale, event: 'search', result_count: result.meta.total });
+    }
+
+    const [products, categories, brands] = await Promise.all([
+        ids.length > 0
+            ? getProducts({ ids }, undefined, { page: 1, limit: ids.length, total: 0, total_pages: 0 })
+            : { data: [] },
         getCategories(),
+        getBrands(),
     ]);
 
     const categoriesData = Array.isArray(categories) ? categories : (categories?.data || []);
+    const brandsData = Array.isArray(brands.data) ? brands.data : [];
+
+    // Keep the order of the page of hits
+    const position = new Map(ids.map((id, index) => [id, index]));
+    const orderedProducts = [...(products.data || [])].sort(
+        (a: any, b: any) => (position.get(String(a.id)) ?? ids.length) - (position.get(String(b.id)) ?? ids.length)
+    );
 
     return (
         <SearchContent
             query={query}
-            products={products.data}
+            products={orderedProducts}
             categories={categoriesData}
+            brands={brandsData}
+            facets={result.facets}
+            filters={options.filters}
+            sort={options.sort}
+            pagination={{
+                currentPage: options.page,
+                totalPages: getTotalPages(result.meta.total, options.limit),
+                mode,
+            }}
             locale={locale}
-            totalResults={products.meta?.filter_count || 0}
+            totalResults={result.meta.total}
         />
     );
-}
\ No newline at end of file
+}
@@ -8,12 +8,15 @@ import { ChevronDown, ChevronUp } from 'lucide-react';
 import { Category, Brand, Locale, ProductFilters } from '@/types';
 import { cn, isRTL, getFontFamily, getLocalizedValue, debounce } from '@/lib/utils';
 import { Checkbox } from '@/components/ui/checkbox';
+import { FacetCount, PriceBucket, RATING_THRESHOLDS, SearchFacets } from '@/lib/search/facets';
 
 interface FilterSidebarProps {
     categories: Category[];
     brands: Brand[];
     filters: ProductFilters;
     locale: Locale;
+    // Result counts per option (search page); options with none are disabled
+    facets?: SearchFacets;
     isMobile?: boolean;
     onClose?: () => void;
 }
@@ -23,6 +26,7 @@ export default function FilterSidebar({
     brands,
     filters,
     locale,
+    facets,
     isMobile = false,
     onClose
 }: FilterSidebarProps) {
@@ -50,7 +54,9 @@ export default function FilterSidebar({
     const [expandedSections, setExpandedSections] = useState({
         categories: true,
         brands: true,
-        price: true
+        price: true,
+        rating: true,
+        availability: true
     });
 
     const [priceRange, setPriceRange] = useState({
@@ -177,6 +183,54 @@ export default function FilterSidebar({
         }
     }, [priceRange, searchParams, router, pathname, isMobile, onClose]);
 
+    // Set or remove a single URL parameter, e.g. from a facet option
+    const setParams = useCallback((values: Record<string, string | null>) => {
+        const params = new URLSearchParams(searchParams.toString());
+
+        for (const [key, value] of Object.entries(values)) {
+            if (value === null) {
+                params.delete(key);
+            } else {
+                params.set(key, value);
+            }
+        }
+
+        // Reset to page 1 when changing filters
+        params.set('page', '1');
+
+        router.replace(`${pathname}?${params.toString()}`);
+    }, [searchParams, router, pathname]);
+
+    // Select a price bucket, or unselect it when it is the current range
+    const togglePriceBucket = useCallback((bucket: PriceBucket) => {
+        const selected = filters.min_price === bucket.min && filters.max_price === bucket.max;
+
+        setPriceRange(selected
+            ? { min: '', max: '' }
+            : { min: bucket.min.toString(), max: bucket.max?.toString() || '' });
+        setParams({
+            min_price: selected ? null : bucket.min.toString(),
+            max_price: selected || bucket.max === undefined ? null : bucket.max.toString(),
+        });
+    }, [filters.min_price, filters.max_price, setParams]);
+
+    const selectedRating = searchParams.get('rating');
+    const inStockOnly = searchParams.get('in_stock') === 'true';
+
+    const getCount = (counts: FacetCount[] | undefined, value: string): number => {
+        return counts?.find(facet => facet.value === value)?.count ?? 0;
+    };
+
+    const getPriceBucketLabel = (bucket: PriceBucket): string => {
+        if (bucket.min === 0 && bucket.max !== undefined) {
+            return t('shop.price_under', { max: bucket.max });
+        }
+        if (bucket.max === undefined) {
+            return t('shop.price_over', { min: bucket.min });
+        }
+        return t('shop.price_between', { min: bucket.min, max: bucket.max });
+    };
+
     // Clear all filters
     const clearAllFilters = useCallback(() => {
         // Clear local state immediately
@@ -186,7 +240,12 @@ export default function FilterSidebar({
 
         const params = new URLSearchParams();
 
-        // Preserve sort parameter if it exists
+        // Preserve the search query and sort parameter if they exist
+        const query = searchParams.get('q');
+        if (query) {
+            params.set('q', query);
+        }
+
         const sort = searchParams.get('sort');
         if (sort) {
             params.set('sort', sort);
@@ -205,62 +264,86 @@ export default function FilterSidebar({
 
     // Memoize the rendered categories and brands to prevent unnecessary re-renders
     const renderedCategories = useMemo(() => {
-        return categories.map(category => (
-            <div key={category.id} className="flex items-center">
-                <Checkbox
-                    id={`category-${category.id}`}
-                    checked={isSelected('category', category.slug)}
-                    onCheckedChange={() => {
-                        toggleFilter('category', category.slug);
-                    }}
-                    className="mr-2"
-                />
-                <label
-                    htmlFor={`category-${category.id}`}
-                    className="text-sm text-neutral-700 cursor-pointer flex justify-between w-full"
-                >
-                    <span>{getLocalizedValue(
-                        { name: category.name, name_ar: category.name_ar || category.name },
-                        locale
-                    )}</span>
-                    {isSelected('category', category.slug) && (
-                        <span className="ml-2 text-xs bg-primary/10 text-primary px-1.5 py-0.5 rounded-full">
-                            ✓
+        return categories.map(category => {
+            const count = getCount(facets?.category, category.slug);
+            const disabled = !!facets && count === 0 && !isSelected('category', category.slug);
+
+            return (
+                <div key={category.id} className="flex items-center">
+                    <Checkbox
+                        id={`category-${category.id}`}
+                        checked={isSelected('category', category.slug)}
+                        disabled={disabled}
+                        onCheckedChange={() => {
+                            toggleFilter('category', category.slug);
+                        }}
+                        className="mr-2"
+                    />
+                    <label
+                        htmlFor={`category-${category.id}`}
+                        className={cn(
+                            "text-sm text-neutral-700 cursor-pointer flex justify-between w-full",
+                            disabled && "cursor-not-allowed opacity-50"
+                        )}
+                    >
+                        <span>
+                            {getLocalizedValue(
+                                { name: category.name, name_ar: category.name_ar || category.name },
+                                locale
+                            )}
+                            {facets && <span className="ml-1 text-neutral-500">({count})</span>}
                         </span>
-                    )}
-                </label>
-            </div>
-        ));
-    }, [categories, isSelected, toggleFilter, locale]);
+                        {isSelected('category', category.slug) && (
+                            <span className="ml-2 text-xs bg-primary/10 text-primary px-1.5 py-0.5 rounded-full">
+                                ✓
+                            </span>
+                        )}
+                    </label>
+                </div>
+            );
+        });
+    }, [categories, facets, isSelected, toggleFilter, locale]);
 
     const renderedBrands = useMemo(() => {
-        return brands.map(brand => (
-            <div key={brand.id} className="flex items-center">
-                <Checkbox
-                    id={`brand-${brand.id}`}
-                    checked={isSelected('brand', brand.slug)}
-                    onCheckedChange={() => {
-                        toggleFilter('brand', brand.slug);
-                    }}
-                    className="mr-2"
-                />
-                <label
-                    htmlFor={`brand-${brand.id}`}
-                    className="text-sm text-neutral-700 cursor-pointer flex justify-between w-full"
-                >
-                    <span>{getLocalizedValue(
-                        { name: brand.name, name_ar: brand.name_ar || brand.name },
-                        locale
-                    )}</span>
-                    {isSelected('brand', brand.slug) && (
-                        <span className="ml-2 text-xs bg-primary/10 text-primary px-1.5 py-0.5 rounded-full">
-                            ✓
+        return brands.map(brand => {
+            const count = getCount(facets?.brand, brand.slug);
+            const disabled = !!facets && count === 0 && !isSelected('brand', brand.slug);
+
+            return (
+                <div key={brand.id} className="flex items-center">
+                    <Checkbox
+                        id={`brand-${brand.id}`}
+                        checked={isSelected('brand', brand.slug)}
+                        disabled={disabled}
+                        onCheckedChange={() => {
+                            toggleFilter('brand', brand.slug);
+                        }}
+                        className="mr-2"
+                    />
+                    <label
+                        htmlFor={`brand-${brand.id}`}
+                        className={cn(
+                            "text-sm text-neutral-700 cursor-pointer flex justify-between w-full",
+                            disabled && "cursor-not-allowed opacity-50"
+                        )}
+                    >
+                        <span>
+                            {getLocalizedValue(
+                                { name: brand.name, name_ar: brand.name_ar || brand.name },
+                                locale
+                            )}
+                            {facets && <span className="ml-1 text-neutral-500">({count})</span>}
                         </span>
-                    )}
-                </label>
-            </div>
-        ));
-    }, [brands, isSelected, toggleFilter, locale]);
+                        {isSelected('brand', brand.slug) && (
+                            <span className="ml-2 text-xs bg-primary/10 text-primary px-1.5 py-0.5 rounded-full">
+                                ✓
+                            </span>
+                        )}
+                    </label>
+                </div>
+            );
+        });
+    }, [brands, facets, isSelected, toggleFilter, locale]);
 
     return (
         <div className={cn("bg-white rounded-lg shadow-sm border border-neutral-200 p-4", fontFamily)}>
@@ -341,6 +424,28 @@ export default function FilterSidebar({
 
                 {expandedSections.price && (
                     <div className="space-y-3">
+                        {facets && (
+                            <div className="space-y-1">
+                                {facets.price.map(bucket => {
+                                    const selected = filters.min_price === bucket.min && filters.max_price === bucket.max;
+                                    return (
+                                        <button
+                                            key={bucket.min}
+                                            onClick={() => togglePriceBucket(bucket)}
+                                            disabled={bucket.count === 0 && !selected}
+                                            className={cn(
+                                                "w-full flex justify-between px-2 py-1.5 rounded text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-50",
+                                                selected ? "bg-primary/10 text-primary" : "text-neutral-700 hover:bg-neutral-100"
+                                            )}
+                                        >
+                                            <span>{getPriceBucketLabel(bucket)}</span>
+                                            <span className="text-neutral-500">({bucket.count})</span>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+
                         <div className="flex items-center gap-2">
                             <div className="flex-1">
                                 <label htmlFor="min-price" className="text-xs text-neutral-500 mb-1 block">
@@ -385,6 +490,87 @@ export default function FilterSidebar({
                 )}
             </div>
 
+            {/* Rating Filter */}
+            <div className="mb-6">
+                <button
+                    onClick={() => toggleSection('rating')}
+                    className="flex items-center justify-between w-full text-left mb-3"
+                >
+                    <h4 className="font-medium text-neutral-800">
+                        {t('shop.rating')}
+                    </h4>
+                    {expandedSections.rating ? (
+                        <ChevronUp size={18} className="text-neutral-500" />
+                    ) : (
+                        <ChevronDown size={18} className="text-neutral-500" />
+                    )}
+                </button>
+
+                {expandedSections.rating && (
+                    <div className="space-y-1">
+                        {RATING_THRESHOLDS.map(rating => {
+                            const selected = selectedRating === rating.toString();
+                            const count = facets?.rating.find(option => option.value === rating)?.count ?? 0;
+                            return (
+                                <button
+                                    key={rating}
+                                    onClick={() => setParams({ rating: selected ? null : rating.toString() })}
+                                    disabled={!!facets && count === 0 && !selected}
+                                    className={cn(
+                                        "w-full flex justify-between px-2 py-1.5 rounded text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-50",
+                                        selected ? "bg-primary/10 text-primary" : "text-neutral-700 hover:bg-neutral-100"
+                                    )}
+                                >
+                                    <span>{t('shop.rating_and_up', { rating })}</span>
+                                    {facets && <span className="text-neutral-500">({count})</span>}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            {/* Availability Filter */}
+            {facets && (
+                <div className="mb-6">
+                    <button
+                        onClick={() => toggleSection('availability')}
+                        className="flex items-center justify-between w-full text-left mb-3"
+                    >
+                        <h4 className="font-medium text-neutral-800">
+                            {t('shop.availability')}
+                        </h4>
+                        {expandedSections.availability ? (
+                            <ChevronUp size={18} className="text-neutral-500" />
+                        ) : (
+                            <ChevronDown size={18} className="text-neutral-500" />
+                        )}
+                    </button>
+
+                    {expandedSections.availability && (
+                        <div className="flex items-center">
+                            <Checkbox
+                                id="in-stock-only"
+                                checked={inStockOnly}
+                                disabled={facets.in_stock === 0 && !inStockOnly}
+                                onCheckedChange={() => setParams({ in_stock: inStockOnly ? null : 'true' })}
+                                className="mr-2"
+                            />
+                            <label
+                                htmlFor="in-stock-only"
+                                className={cn(
+                                    "text-sm text-neutral-700 cursor-pointer",
+                                    facets.in_stock === 0 && !inStockOnly && "cursor-not-allowed opacity-50"
+                                )}
+                            >
+                                {t('shop.in_stock_only')}
+                                <span className="ml-1 text-neutral-500">({facets.in_stock})</span>
+                            </label>
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Mobile Apply Button */}
             {isMobile && (
                 <button
@@ -0,0 +1,151 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useTransition } from 'react';
+import { useRouter, usePathname, useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { ListOrdered, ChevronsDown } from 'lucide-react';
+
+import { Locale } from '@/types';
+import { cn, isRTL, getFontFamily } from '@/lib/utils';
+import { ListingMode, MAX_SCROLL_PAGES } from '@/lib/pagination';
+import Pagination from './Pagination';
+
+interface ListingPaginationProps {
+    currentPage: number;
+    totalPages: number;
+    mode: ListingMode;
+    locale: Locale;
+}
+
+/**
+ * Page numbers or infinite scroll for a product listing (see lib/pagination),
+ * with a switch between the two. Both keep the page in the URL.
+ */
+export default function ListingPagination({
+    currentPage,
+    totalPages,
+    mode,
+    locale
+}: ListingPaginationProps) {
+    const t = useTranslations();
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+    const rtl = isRTL(locale);
+    const fontFamily = getFontFamily(locale);
+    const [isLoading, startTransition] = useTransition();
+    const sentinelRef = useRef<HTMLDivElement>(null);
+
+    // Scroll mode shows pages 1 to MAX_SCROLL_PAGES; later pages are numbered
+    const isScrolling = mode === 'scroll' && currentPage <= MAX_SCROLL_PAGES;
+    const hasMore = currentPage < totalPages;
+
+    const navigate = useCallback((values: Record<string, string | null>, scroll: boolean) => {
+        const params = new URLSearchParams(searchParams.toString());
+
+        for (const [key, value] of Object.entries(values)) {
+            if (value === null) {
+                params.delete(key);
+            } else {
+                params.set(key, value);
+            }
+        }
+
+        startTransition(() => {
+            router.replace(`${pathname}?${params.toString()}`, { scroll });
+        });
+    }, [searchParams, router, pathname]);
+
+    const handlePageChange = useCallback((page: number) => {
+        navigate({ page: page.toString() }, true);
+    }, [navigate]);
+
+    const loadMore = useCallback(() => {
+        if (isLoading || !hasMore) return;
+        // Past the last scroll page the listing starts over on its own page
+        navigate({ page: (currentPage + 1).toString() }, currentPage + 1 > MAX_SCROLL_PAGES);
+    }, [isLoading, hasMore, currentPage, navigate]);
+
+    const changeMode = (newMode: ListingMode) => {
+        if (newMode === mode) return;
+        navigate({ view: newMode === 'scroll' ? 'scroll' : null }, false);
+    };
+
+    // Load the next page when the end of the list comes into view
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!isScrolling || !hasMore || !sentinel || typeof IntersectionObserver === 'undefined') {
+            return;
+        }
+
+        const observer = new IntersectionObserver(
+            (entries) => {
+                if (entries[0]?.isIntersecting) {
+                    loadMore();
+                }
+            },
+            { rootMargin: '400px 0px' }
+        );
+
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [isScrolling, hasMore, loadMore]);
+
+    if (totalPages <= 1) {
+        return null;
+    }
+
+    return (
+        <div className={cn("flex flex-col items-center gap-4", fontFamily)}>
+            {isScrolling ? (
+                hasMore && (
+                    <div ref={sentinelRef} className="flex justify-center">
+                        <button
+                            onClick={loadMore}
+                            disabled={isLoading}
+                            className="px-6 py-2 rounded-md border border-neutral-300 text-sm text-neutral-700 hover:bg-neutral-100 disabled:opacity-60"
+                        >
+                            {isLoading ? t('shop.loading_more') : t('shop.load_more')}
+                        </button>
+                    </div>
+                )
+            ) : (
+                <Pagination
+                    currentPage={currentPage}
+                    totalPages={totalPages}
+                    onPageChange={handlePageChange}
+                    locale={locale}
+                />
+            )}
+
+            {/* Mode switch */}
+            <div className={cn(
+                "flex items-center gap-1 text-xs text-neutral-600",
+                rtl && "flex-row-reverse"
+            )}>
+                <button
+                    onClick={() => changeMode('pages')}
+                    aria-pressed={mode === 'pages'}
+                    className={cn(
+                        "flex items-center gap-1 px-2 py-1 rounded",
+                        mode === 'pages' ? "bg-neutral-200 text-neutral-900" : "hover:bg-neutral-100"
+                    )}
+                >
+                    <ListOrdered size={14} />
+                    {t('shop.view_pages')}
+                </button>
+                <button
+                    onClick={() => changeMode('scroll')}
+                    aria-pressed={mode === 'scroll'}
+                    className={cn(
+                        "flex items-center gap-1 px-2 py-1 rounded",
+                        mode === 'scroll' ? "bg-neutral-200 text-neutral-900" : "hover:bg-neutral-100"
+                    )}
+                >
+                    <ChevronsDown size={14} />
+                    {t('shop.view_scroll')}
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -11,7 +11,8 @@ import { LuxuryProductGrid } from '@/components/luxury';
 import { InstagramProductCard } from '@/components/product';
 import { useCartStore } from '@/store/cart';
 import { cn, isRTL, getFontFamily, getLocalizedValue } from '@/lib/utils';
-import Pagination from './Pagination';
+import { ListingMode, getShownRange } from '@/lib/pagination';
+import ListingPagination from './ListingPagination';
 import FilterSidebar from './FilterSidebar';
 import SortDropdown from './SortDropdown';
 import SearchBar from './SearchBar';
@@ -27,6 +28,7 @@ interface ShopContentProps {
         currentPage: number;
         totalPages: number;
         totalProducts: number;
+        mode: ListingMode;
     };
     locale: Locale;
 }
@@ -99,6 +101,10 @@ export default function ShopContent({
             newActiveFilters.push(`${t('shop.max_price')}: ${filters.max_price} OMR`);
         }
 
+        if (filters.min_rating !== undefined) {
+            newActiveFilters.push(`${t('shop.rating')}: ${t('shop.rating_and_up', { rating: filters.min_rating })}`);
+        }
+
         if (filters.search) {
             newActiveFilters.push(`${t('shop.search')}: ${filters.search}`);
         }
@@ -158,6 +164,9 @@ export default function ShopContent({
         else if (filter.startsWith(t('shop.max_price'))) {
             params.delete('max_price');
         }
+        else if (filter.startsWith(t('shop.rating'))) {
+            params.delete('rating');
+        }
         else if (filter.startsWith(t('shop.search'))) {
             params.delete('search');
         }
@@ -193,13 +202,7 @@ export default function ShopContent({
         router.replace(`${pathname}?${params.toString()}`);
     }, [searchParams, router, pathname]);
 
-    // Handle page change with optimized performance
-    const handlePageChange = useCallback((newPage: number) => {
-        const params = new URLSearchParams(searchParams.toString());
-        params.set('page', newPage.toString());
-        // Use replace instead of push to avoid adding to history stack
-        router.replace(`${pathname}?${params.toString()}`);
-    }, [searchParams, router, pathname]);
+    const shown = getShownRange(pagination.currentPage, pagination.mode, 12, pagination.totalProducts);
 
     return (
         <div className="min-h-screen bg-neutral-50">
@@ -235,8 +238,8 @@ export default function ShopContent({
                             <div className="text-neutral-600">
                                 {pagination.totalProducts > 0 ? (
                                     <span>
-                                        {t('shop.showing')} {(pagination.currentPage - 1) * 12 + 1}-
-                                        {Math.min(pagination.currentPage * 12, pagination.totalProducts)} {t('shop.of')} {pagination.totalProducts} {t('shop.products')}
+                                        {t('shop.showing')} {shown.from}-
+                                        {shown.to} {t('shop.of')} {pagination.totalProducts} {t('shop.products')}
                                     </span>
                                 ) : (
                                     <span>{t('shop.no_products')}</span>
@@ -326,10 +329,10 @@ export default function ShopContent({
                         {/* Pagination */}
                         {pagination.totalPages > 1 && (
                             <div className="mt-8">
-                                <Pagination
+                                <ListingPagination
                                     currentPage={pagination.currentPage}
                                     totalPages={pagination.totalPages}
-                                    onPageChange={handlePageChange}
+                                    mode={pagination.mode}
                                     locale={locale}
                                 />
                             </div>
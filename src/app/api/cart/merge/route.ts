@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CallerError, findCustomerIdForToken } from '@/lib/auth/caller';
+import { CartError, mergeIntoCart, validateCartLines } from '@/lib/cart/carts';
+
+/**
+ * POST /api/cart/merge
+ * Add the lines of the device's guest cart to the signed-in customer's saved
+ * cart, as done on login. Quantities of lines in both carts are added up.
+ *
+ * Body: { items: [{ product, variant?, quantity, product_snapshot?, variant_snapshot? }] }
+ * Returns the combined cart.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const customerId = await findCustomerIdForToken(request.headers.get('Authorization'));
+        const body = await request.json();
+        const cart = await mergeIntoCart(customerId, validateCartLines(body.items ?? []));
+
+        return NextResponse.json({ data: cart });
+    } catch (error: any) {
+        if (error instanceof CallerError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: error.code === 'UNAUTHORIZED' ? 401 : 404 }
+            );
+        }
+
+        if (error instanceof CartError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: 400 }
+            );
+        }
+
+        if (error instanceof SyntaxError) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'Invalid request format' },
+                { status: 400 }
+            );
+        }
+
+        console.error('[Cart API] Error merging cart:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to merge cart', message: error.response?.data?.errors?.[0]?.message || error.message },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CartError } from '@/lib/cart/carts';
+import { getCartForRecovery } from '@/lib/cart/reminders';
+
+/**
+ * GET /api/cart/restore?token=...
+ * The cart behind a restore link from a cart reminder email, so it can be
+ * loaded on whatever device the link is opened on. The signed token is the
+ * only credential needed.
+ *
+ * Returns { data: { items } } - the saved lines with their product snapshots,
+ * nothing that identifies the customer.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const token = request.nextUrl.searchParams.get('token') || '';
+        const cart = await getCartForRecovery(token);
+
+        return NextResponse.json({ data: cart });
+    } catch (error: any) {
+        if (error instanceof CartError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: 400 }
+            );
+        }
+
+        console.error('[Cart API] Error restoring cart:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to restore cart', message: error.response?.data?.errors?.[0]?.message || error.message },
+            { status: 500 }
+        );
+    }
+}
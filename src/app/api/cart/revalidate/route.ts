@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CartError, validateCartLines } from '@/lib/cart/carts';
+import { revalidateCartLines } from '@/lib/cart/revalidate';
+
+/**
+ * POST /api/cart/revalidate
+ * Current price, sale price, stock and status of the lines in a cart, so the
+ * cart can flag lines whose saved price or availability has changed. Open to
+ * guests as well as signed-in customers.
+ *
+ * Body: { items: [{ product, variant?, quantity }] }
+ * Returns one state per line, in the order sent.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const lines = validateCartLines(body.items ?? []);
+        const states = await revalidateCartLines(lines);
+
+        return NextResponse.json({ data: states });
+    } catch (error: any) {
+        if (error instanceof CartError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: 400 }
+            );
+        }
+
+        if (error instanceof SyntaxError) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'Invalid request format' },
+                { status: 400 }
+            );
+        }
+
+        console.error('[Cart API] Error revalidating cart:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to revalidate cart', message: error.response?.data?.errors?.[0]?.message || error.message },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CallerError, findCustomerIdForToken } from '@/lib/auth/caller';
+import { CartError, getActiveCart, saveCart, validateCartLines } from '@/lib/cart/carts';
+
+function cartErrorResponse(error: any, action: string) {
+    if (error instanceof CallerError) {
+        return NextResponse.json(
+            { error: error.message, code: error.code },
+            { status: error.code === 'UNAUTHORIZED' ? 401 : 404 }
+        );
+    }
+
+    if (error instanceof CartError) {
+        return NextResponse.json(
+            { error: error.message, code: error.code },
+            { status: 400 }
+        );
+    }
+
+    if (error instanceof SyntaxError) {
+        return NextResponse.json(
+            { error: 'Bad Request', message: 'Invalid request format' },
+            { status: 400 }
+        );
+    }
+
+    console.error(`[Cart API] Error ${action} cart:`, error.response?.data || error.message);
+    return NextResponse.json(
+        { error: `Failed to ${action} cart`, message: error.response?.data?.errors?.[0]?.message || error.message },
+        { status: 500 }
+    );
+}
+
+/**
+ * GET /api/cart
+ * The signed-in customer's saved cart ({ data: null } when they have none)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const customerId = await findCustomerIdForToken(request.headers.get('Authorization'));
+        const cart = await getActiveCart(customerId);
+
+        return NextResponse.json({ data: cart });
+    } catch (error: any) {
+        return cartErrorResponse(error, 'load');
+    }
+}
+
+/**
+ * PUT /api/cart
+ * Replace the items of the signed-in customer's saved cart
+ *
+ * Body: { items: [{ product, variant?, quantity, product_snapshot?, variant_snapshot? }] }
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const customerId = await findCustomerIdForToken(request.headers.get('Authorization'));
+        const body = await request.json();
+        const cart = await saveCart(customerId, validateCartLines(body.items));
+
+        return NextResponse.json({ data: cart });
+    } catch (error: any) {
+        return cartErrorResponse(error, 'save');
+    }
+}
+
+/**
+ * DELETE /api/cart
+ * Empty the signed-in customer's saved cart
+ */
+export async function DELETE(request: NextRequest) {
+    try {
+        const customerId = await findCustomerIdForToken(request.headers.get('Authorization'));
+        const cart = await saveCart(customerId, []);
+
+        return NextResponse.json({ data: cart });
+    } catch (error: any) {
+        return cartErrorResponse(error, 'clear');
+    }
+}
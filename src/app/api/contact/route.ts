@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { RateLimiter } from '@/lib/rateLimit';
+import { createContactMessage, getSpamReason } from '@/lib/contact/messages';
+import { sendContactAcknowledgementEmail, sendContactStaffNotification } from '@/lib/mail/notifications';
+import { toEmailLocale } from '@/lib/mail/render';
 
 interface ContactFormData {
     fullName: string;
@@ -6,13 +10,39 @@ interface ContactFormData {
     phone: string;
     subject: string;
     message: string;
+    orderNumber?: string;
+    locale?: string;
+    website?: string; // Honeypot, hidden from people
+    startedAt?: number; // When the form was shown (ms since epoch)
 }
 
+const MAX_MESSAGE_LENGTH = 5000;
+
+// 5 messages an hour per IP, at most 3 in a row
+const contactLimiter = new RateLimiter({
+    requestsPerSecond: 5,
+    burst: 3,
+    windowSize: 60 * 60 * 1000,
+});
+
+/**
+ * POST /api/contact
+ * Store a contact form message for staff, notify them and acknowledge it to the sender.
+ * Submissions that look automated are answered as if accepted, but dropped.
+ */
 export async function POST(request: NextRequest) {
     try {
+        const clientKey = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'anonymous';
+        if (!contactLimiter.isAllowed(clientKey)) {
+            return NextResponse.json(
+                { error: 'Too many messages. Please try again later.', code: 'RATE_LIMITED' },
+                { status: 429 }
+            );
+        }
+
         const body = (await request.json()) as ContactFormData;
 
-        const { fullName, email, phone, subject, message } = body;
+        const { fullName, email, phone, subject, message, orderNumber, locale } = body;
 
         if (!fullName || !email || !phone || !subject || !message) {
             return NextResponse.json(
@@ -29,14 +59,35 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        console.log('Contact form submission:', {
-            fullName,
-            email,
-            phone,
-            subject,
-            message,
-            timestamp: new Date().toISOString(),
-        });
+        if (message.length > MAX_MESSAGE_LENGTH || (orderNumber && orderNumber.length > 64)) {
+            return NextResponse.json(
+                { error: 'Message is too long' },
+                { status: 400 }
+            );
+        }
+
+        const spamReason = getSpamReason({ honeypot: body.website, startedAt: body.startedAt });
+        if (spamReason) {
+            // Don't tell bots they were caught
+            console.warn('[Contact API] Dropped likely spam:', spamReason, clientKey);
+            return NextResponse.json(
+                { success: true, message: 'Contact form submitted successfully' },
+                { status: 200 }
+            );
+        }
+
+        const saved = await createContactMessage(
+            { fullName, email, phone, subject, message, orderNumber, locale: toEmailLocale(locale) },
+            clientKey === 'anonymous' ? undefined : clientKey
+        );
+
+        console.log('[Contact API] Stored message:', saved.id, saved.order ? `for order ${saved.order_number}` : '');
+
+        await sendContactStaffNotification(saved);
+        await sendContactAcknowledgementEmail(
+            { name: fullName, email, subject, message },
+            toEmailLocale(locale)
+        );
 
         return NextResponse.json(
             {
@@ -45,8 +96,8 @@ export async function POST(request: NextRequest) {
             },
             { status: 200 }
         );
-    } catch (error) {
-        console.error('Contact form error:', error);
+    } catch (error: any) {
+        console.error('[Contact API] Failed to store message:', error.response?.data || error.message);
         return NextResponse.json(
             { error: 'Failed to process contact form' },
             { status: 500 }
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import axios from 'axios';
+import { Coupon } from '@/types/collections';
+import { normalizeCouponCode, validateCouponInput } from '@/lib/api/coupons';
+
+const DIRECTUS_URL = process.env.NEXT_PUBLIC_DIRECTUS_URL || 'https://admin.buyjan.com';
+
+/**
+ * Fields an admin may change; used_count is only changed by order placement
+ */
+const UPDATABLE_FIELDS: Array<keyof Coupon> = [
+    'code',
+    'type',
+    'value',
+    'minimum_cart_amount',
+    'max_users',
+    'valid_from',
+    'valid_until',
+    'is_active',
+];
+
+/**
+ * GET /api/coupons/[couponId]
+ * Get a coupon by ID (admin only)
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ couponId: string }> }
+) {
+    try {
+        const { couponId } = await params;
+        const authHeader = request.headers.get('Authorization');
+
+        if (!authHeader) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'No authentication token provided' },
+                { status: 401 }
+            );
+        }
+
+        const response = await axios.get(`${DIRECTUS_URL}/items/coupons/${couponId}`, {
+            headers: { 'Authorization': authHeader },
+        });
+
+        return NextResponse.json({ data: response.data.data });
+    } catch (error: any) {
+        console.error('[Coupons API] Error fetching coupon:', error.message);
+        return NextResponse.json(
+            { error: 'Failed to fetch coupon', message: error.message },
+            { status: error.response?.status || 500 }
+        );
+    }
+}
+
+/**
+ * PATCH /api/coupons/[couponId]
+ * Update a coupon (admin only)
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ couponId: string }> }
+) {
+    try {
+        const { couponId } = await params;
+        const authHeader = request.headers.get('Authorization');
+
+        if (!authHeader) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'No authentication token provided' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json() as Partial<Coupon>;
+
+        const updates: Record<string, any> = {};
+        for (const field of UPDATABLE_FIELDS) {
+            if (field in body) {
+                updates[field] = body[field];
+            }
+        }
+
+        if (Object.keys(updates).length === 0) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'No updatable fields provided' },
+                { status: 400 }
+            );
+        }
+
+        const validationError = validateCouponInput(updates, false);
+        if (validationError) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: validationError },
+                { status: 400 }
+            );
+        }
+
+        if (typeof updates.code === 'string') {
+            updates.code = normalizeCouponCode(updates.code);
+        }
+
+        const response = await axios.patch(`${DIRECTUS_URL}/items/coupons/${couponId}`, updates, {
+            headers: {
+                'Authorization': authHeader,
+                'Content-Type': 'application/json',
+            },
+        });
+
+        console.log('[Coupons API] Updated coupon:', couponId, Object.keys(updates));
+
+        return NextResponse.json({ data: response.data.data });
+    } catch (error: any) {
+        console.error('[Coupons API] Error updating coupon:', error.message);
+        return NextResponse.json(
+            {
+                error: 'Failed to update coupon',
+                message: error.response?.data?.errors?.[0]?.message || error.message,
+            },
+            { status: error.response?.status || 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/coupons/[couponId]
+ * Delete a coupon (admin only)
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ couponId: string }> }
+) {
+    try {
+        const { couponId } = await params;
+        const authHeader = request.headers.get('Authorization');
+
+        if (!authHeader) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'No authentication token provided' },
+                { status: 401 }
+            );
+        }
+
+        await axios.delete(`${DIRECTUS_URL}/items/coupons/${couponId}`, {
+            headers: { 'Authorization': authHeader },
+        });
+
+        console.log('[Coupons API] Deleted coupon:', couponId);
+
+        return NextResponse.json(
+            { success: true, message: 'Coupon deleted' },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        console.error('[Coupons API] Error deleting coupon:', error.message);
+        return NextResponse.json(
+            { error: 'Failed to delete coupon', message: error.message },
+            { status: error.response?.status || 500 }
+        );
+    }
+}
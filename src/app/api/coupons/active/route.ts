@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import axios from 'axios';
+import { Coupon } from '@/types/collections';
+import { isCouponValid } from '@/lib/api/coupons';
+
+const DIRECTUS_URL = process.env.NEXT_PUBLIC_DIRECTUS_URL || 'https://admin.buyjan.com';
+const API_TOKEN = process.env.DIRECTUS_API_TOKEN || process.env.NEXT_PUBLIC_DIRECTUS_API_TOKEN;
+
+/**
+ * GET /api/coupons/active
+ * Public list of coupons that can be used right now
+ */
+export async function GET() {
+    try {
+        const now = new Date().toISOString();
+
+        const response = await axios.get(`${DIRECTUS_URL}/items/coupons`, {
+            params: {
+                filter: JSON.stringify({
+                    is_active: { _eq: true },
+                    valid_from: { _lte: now },
+                    valid_until: { _gte: now },
+                }),
+                fields: 'id,code,type,value,minimum_cart_amount,max_users,used_count,valid_from,valid_until,is_active',
+                sort: 'valid_until',
+                limit: 50,
+            },
+            headers: {
+                'Authorization': `Bearer ${API_TOKEN}`,
+            },
+        });
+
+        // Usage limits can't be compared field-to-field in a Directus filter
+        const coupons = (response.data.data || []).filter((coupon: Coupon) => isCouponValid(coupon));
+
+        return NextResponse.json({ data: coupons });
+    } catch (error: any) {
+        console.error('[Coupons API] Error fetching active coupons:', error.message);
+        return NextResponse.json(
+            { error: 'Failed to fetch active coupons', message: error.message },
+            { status: error.response?.status || 500 }
+        );
+    }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findCouponByCode } from '@/lib/coupons/store';
+import { validateCouponForCart } from '@/lib/api/coupons';
+
+interface ApplyCouponRequest {
+    code: string;
+    customer_id: string;
+    cart_total: number;
+}
+
+/**
+ * POST /api/coupons/apply
+ * Confirm a coupon for a signed-in customer's checkout.
+ *
+ * Returns the coupon and discount to attach to the order. The redemption itself
+ * (incrementing used_count) happens in POST /api/orders when the order is placed,
+ * so abandoned checkouts never consume a coupon.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const authHeader = request.headers.get('Authorization');
+        if (!authHeader) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'No authentication token provided' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json() as ApplyCouponRequest;
+        const cartTotal = Number(body.cart_total);
+
+        if (!body.code || typeof body.code !== 'string' || !body.code.trim()) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'Coupon code is required' },
+                { status: 400 }
+            );
+        }
+
+        if (!body.customer_id) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'customer_id is required' },
+                { status: 400 }
+            );
+        }
+
+        if (!Number.isFinite(cartTotal) || cartTotal < 0) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'cart_total must be a non-negative number' },
+                { status: 400 }
+            );
+        }
+
+        const coupon = await findCouponByCode(body.code);
+
+        if (!coupon) {
+            return NextResponse.json(
+                { error: 'Not Found', message: 'Invalid coupon code' },
+                { status: 404 }
+            );
+        }
+
+        const result = validateCouponForCart(coupon, cartTotal);
+
+        if (!result.valid) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: result.error, reason: result.reason },
+                { status: 400 }
+            );
+        }
+
+        console.log('[Coupons API] Coupon applied for customer:', body.customer_id, coupon.code, result.discount_amount);
+
+        return NextResponse.json({
+            data: {
+                coupon,
+                discount_amount: result.discount_amount,
+            },
+        });
+    } catch (error: any) {
+        if (error instanceof SyntaxError) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'Invalid request format' },
+                { status: 400 }
+            );
+        }
+
+        console.error('[Coupons API] Error applying coupon:', error.message);
+        return NextResponse.json(
+            { error: 'Failed to apply coupon', message: error.message },
+            { status: error.response?.status || 500 }
+        );
+    }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findCouponByCode } from '@/lib/coupons/store';
+
+/**
+ * GET /api/coupons/by-code/[code]
+ * Look up a coupon by its code (case-insensitive)
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ code: string }> }
+) {
+    try {
+        const { code } = await params;
+
+        if (!code || !code.trim()) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'Coupon code is required' },
+                { status: 400 }
+            );
+        }
+
+        const coupon = await findCouponByCode(code);
+
+        if (!coupon) {
+            return NextResponse.json(
+                { error: 'Not Found', message: 'Coupon not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ data: coupon });
+    } catch (error: any) {
+        console.error('[Coupons API] Error fetching coupon by code:', error.message);
+        return NextResponse.json(
+            { error: 'Failed to fetch coupon', message: error.message },
+            { status: error.response?.status || 500 }
+        );
+    }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import axios from 'axios';
+import { Coupon } from '@/types/collections';
+import { normalizeCouponCode, validateCouponInput } from '@/lib/api/coupons';
+
+const DIRECTUS_URL = process.env.NEXT_PUBLIC_DIRECTUS_URL || 'https://admin.buyjan.com';
+
+/**
+ * GET /api/coupons?is_active=true&limit=20&offset=0
+ * List coupons (admin only - Directus enforces permissions on the caller's token)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const authHeader = request.headers.get('Authorization');
+        if (!authHeader) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'No authentication token provided' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const isActive = searchParams.get('is_active');
+        const limit = parseInt(searchParams.get('limit') || '50');
+        const offset = parseInt(searchParams.get('offset') || '0');
+
+        const params: Record<string, any> = {
+            limit,
+            offset,
+            sort: '-valid_until',
+            meta: 'filter_count',
+        };
+
+        if (isActive !== null) {
+            params.filter = JSON.stringify({ is_active: { _eq: isActive === 'true' } });
+        }
+
+        const response = await axios.get(`${DIRECTUS_URL}/items/coupons`, {
+            params,
+            headers: { 'Authorization': authHeader },
+        });
+
+        const coupons = response.data.data || [];
+
+        return NextResponse.json({
+            data: coupons,
+            meta: { total_count: response.data.meta?.filter_count ?? coupons.length },
+        });
+    } catch (error: any) {
+        console.error('[Coupons API] Error listing coupons:', error.message);
+        return NextResponse.json(
+            { error: 'Failed to fetch coupons', message: error.message },
+            { status: error.response?.status || 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/coupons
+ * Create a coupon (admin only)
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const authHeader = request.headers.get('Authorization');
+        if (!authHeader) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'No authentication token provided' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json() as Partial<Coupon>;
+
+        const validationError = validateCouponInput(body, true);
+        if (validationError) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: validationError },
+                { status: 400 }
+            );
+        }
+
+        const payload = {
+            code: normalizeCouponCode(body.code as string),
+            type: body.type,
+            value: Number(body.value),
+            minimum_cart_amount: body.minimum_cart_amount ?? null,
+            max_users: body.max_users ?? null,
+            used_count: 0,
+            valid_from: body.valid_from,
+            valid_until: body.valid_until,
+            is_active: body.is_active ?? true,
+        };
+
+        const response = await axios.post(`${DIRECTUS_URL}/items/coupons`, payload, {
+            headers: {
+                'Authorization': authHeader,
+                'Content-Type': 'application/json',
+            },
+        });
+
+        console.log('[Coupons API] Created coupon:', payload.code);
+
+        return NextResponse.json({ data: response.data.data }, { status: 201 });
+    } catch (error: any) {
+        console.error('[Coupons API] Error creating coupon:', error.message);
+        if (error.response?.data) {
+            console.error('[Coupons API] Response data:', error.response.data);
+        }
+        return NextResponse.json(
+            {
+                error: 'Failed to create coupon',
+                message: error.response?.data?.errors?.[0]?.message || error.message,
+            },
+            { status: error.response?.status || 500 }
+        );
+    }
+}
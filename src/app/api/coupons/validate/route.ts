@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findCouponByCode } from '@/lib/coupons/store';
+import { validateCouponForCart } from '@/lib/api/coupons';
+
+interface ValidateCouponRequest {
+    code: string;
+    cart_total: number;
+}
+
+/**
+ * POST /api/coupons/validate
+ * Check a coupon code against a cart total and return the discount it would give.
+ * Does not redeem the coupon - used_count only changes when an order is placed.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json() as ValidateCouponRequest;
+        const cartTotal = Number(body.cart_total);
+
+        if (!body.code || typeof body.code !== 'string' || !body.code.trim()) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'Coupon code is required' },
+                { status: 400 }
+            );
+        }
+
+        if (!Number.isFinite(cartTotal) || cartTotal < 0) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'cart_total must be a non-negative number' },
+                { status: 400 }
+            );
+        }
+
+        const coupon = await findCouponByCode(body.code);
+
+        if (!coupon) {
+            return NextResponse.json(
+                { error: 'Not Found', message: 'Invalid coupon code' },
+                { status: 404 }
+            );
+        }
+
+        const result = validateCouponForCart(coupon, cartTotal);
+
+        console.log('[Coupons API] Validated coupon:', coupon.code, {
+            cartTotal,
+            valid: result.valid,
+            reason: result.reason,
+            discount: result.discount_amount,
+        });
+
+        return NextResponse.json({
+            data: {
+                ...result,
+                coupon,
+            },
+        });
+    } catch (error: any) {
+        if (error instanceof SyntaxError) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'Invalid request format' },
+                { status: 400 }
+            );
+        }
+
+        console.error('[Coupons API] Error validating coupon:', error.message);
+        return NextResponse.json(
+            { error: 'Failed to validate coupon', message: error.message },
+            { status: error.response?.status || 500 }
+        );
+    }
+}
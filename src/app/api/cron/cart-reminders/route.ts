@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth/cron';
+import { sendCartReminders } from '@/lib/cart/reminders';
+
+/**
+ * POST /api/cron/cart-reminders
+ * Email customers whose saved carts have been idle long enough (see
+ * lib/cart/reminders). Called on a schedule, e.g. by
+ * scripts/send-cart-reminders.js.
+ *
+ * Headers: Authorization: Bearer <CRON_SECRET>
+ * Body (optional): { dry_run?: boolean } - count who is due without sending
+ * Returns { data: { checked, sent, skipped, failed } }
+ */
+export async function POST(request: NextRequest) {
+    if (!isCronRequest(request)) {
+        return NextResponse.json(
+            { error: 'Unauthorized', message: 'Invalid or missing cron secret' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const body = await request.json().catch(() => ({}));
+        const summary = await sendCartReminders({ dryRun: body?.dry_run === true });
+
+        return NextResponse.json({ data: summary });
+    } catch (error: any) {
+        console.error('[Cron API] Error sending cart reminders:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to send cart reminders', message: error.response?.data?.errors?.[0]?.message || error.message },
+            { status: 500 }
+        );
+    }
+}
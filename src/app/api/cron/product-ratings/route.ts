@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth/cron';
+import { refreshAllProductRatings } from '@/lib/reviews/ratings';
+
+/**
+ * POST /api/cron/product-ratings
+ * Recount every product's rating_average and rating_count from its
+ * published reviews (see lib/reviews/ratings). Run it once to fill in the
+ * aggregates, then on a schedule to pick up reviews moderated in Directus.
+ *
+ * Headers: Authorization: Bearer <CRON_SECRET>
+ * Returns { data: { checked, updated, failed } }
+ */
+export async function POST(request: NextRequest) {
+    if (!isCronRequest(request)) {
+        return NextResponse.json(
+            { error: 'Unauthorized', message: 'Invalid or missing cron secret' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const summary = await refreshAllProductRatings();
+        return NextResponse.json({ data: summary });
+    } catch (error: any) {
+        console.error('[Cron API] Error refreshing product ratings:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to refresh product ratings', message: error.response?.data?.errors?.[0]?.message || error.message },
+            { status: 500 }
+        );
+    }
+}
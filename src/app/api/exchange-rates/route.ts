@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getExchangeRates } from '@/lib/exchange-rates/provider';
+import { DISPLAY_CURRENCIES } from '@/lib/currency';
+
+/**
+ * GET /api/exchange-rates
+ *
+ * Rates per 1 OMR for the display currencies. Used to show prices in the
+ * shopper's currency; checkout always charges in OMR.
+ *
+ * Returns:
+ * {
+ *   data: { base: 'OMR', rates: { AED: 9.5514, ... }, source, fetched_at }
+ * }
+ */
+export async function GET() {
+    try {
+        const table = await getExchangeRates();
+
+        const rates: Record<string, number> = {};
+        for (const code of Object.keys(DISPLAY_CURRENCIES)) {
+            if (table.rates[code]) {
+                rates[code] = table.rates[code];
+            }
+        }
+
+        return NextResponse.json(
+            { data: { ...table, rates } },
+            { headers: { 'Cache-Control': 'public, max-age=300' } }
+        );
+    } catch (error: any) {
+        console.error('[Exchange Rates API] Failed to read rates:', error.message);
+        return NextResponse.json(
+            { error: 'Failed to load exchange rates' },
+            { status: 500 }
+        );
+    }
+}
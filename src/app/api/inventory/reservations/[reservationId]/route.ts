@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { releaseReservation } from '@/lib/inventory/reservations';
+import { CallerError, findCustomerIdForToken } from '@/lib/auth/caller';
+import { createRateLimiters } from '@/lib/rateLimit';
+
+const limiters = createRateLimiters();
+
+/**
+ * DELETE /api/inventory/reservations/[reservationId]
+ * Release one of the caller's stock holds, e.g. when they cancel the PayPal
+ * payment. Other customers' holds and reservations of placed orders are not
+ * affected.
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ reservationId: string }> }
+) {
+    const clientKey = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'anonymous';
+    if (!limiters.customer.isAllowed(clientKey)) {
+        return NextResponse.json(
+            { error: 'Too many requests. Please try again later.', code: 'RATE_LIMITED' },
+            { status: 429 }
+        );
+    }
+
+    try {
+        const { reservationId } = await params;
+        const customerId = await findCustomerIdForToken(request.headers.get('Authorization'));
+
+        await releaseReservation(reservationId, customerId);
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        if (error instanceof CallerError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: error.code === 'UNAUTHORIZED' ? 401 : 404 }
+            );
+        }
+
+        console.error('[Inventory API] Error releasing stock:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to release stock' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reserveStock, InsufficientStockError } from '@/lib/inventory/reservations';
+import { StockLine, mergeStockLines } from '@/lib/inventory/stock';
+import { CallerError, findCustomerIdForToken } from '@/lib/auth/caller';
+import { MAX_CART_LINES, MAX_CART_LINE_QUANTITY } from '@/lib/cart/carts';
+import { createRateLimiters } from '@/lib/rateLimit';
+
+interface ReserveStockRequest {
+    items: StockLine[];
+    reservation_id?: string; // Previous hold of this checkout, replaced by the new one
+}
+
+const limiters = createRateLimiters();
+
+/**
+ * POST /api/inventory/reservations
+ * Check the cart against stock and hold it while the customer pays.
+ * Only signed-in customers can hold stock, no more of a line than a cart can
+ * take, and only their own previous hold is replaced.
+ * Returns 409 with one entry per short line when the stock is not available.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const clientKey = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'anonymous';
+        if (!limiters.checkout.isAllowed(clientKey)) {
+            return NextResponse.json(
+                { error: 'Too many requests. Please try again later.', code: 'RATE_LIMITED' },
+                { status: 429 }
+            );
+        }
+
+        const customerId = await findCustomerIdForToken(request.headers.get('Authorization'));
+        const body = await request.json() as ReserveStockRequest;
+
+        const validItems = Array.isArray(body.items) && body.items.length > 0 && body.items.length <= MAX_CART_LINES
+            && body.items.every((item) =>
+                item && item.product && Number.isInteger(Number(item.quantity)) && Number(item.quantity) > 0
+            );
+        const lines = validItems
+            ? mergeStockLines(body.items.map((item) => ({
+                product: String(item.product),
+                ...(item.variation && { variation: String(item.variation) }),
+                quantity: Number(item.quantity),
+            })))
+            : [];
+        if (!validItems || lines.some((line) => line.quantity > MAX_CART_LINE_QUANTITY)) {
+            return NextResponse.json(
+                {
+                    error: 'Bad Request',
+                    message: `Each item needs a product and a whole quantity from 1 to ${MAX_CART_LINE_QUANTITY}`,
+                },
+                { status: 400 }
+            );
+        }
+
+        const reservation = await reserveStock(lines, customerId, body.reservation_id);
+
+        return NextResponse.json(
+            {
+                data: {
+                    id: reservation.id,
+                    expires_at: reservation.expires_at,
+                },
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        if (error instanceof CallerError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: error.code === 'UNAUTHORIZED' ? 401 : 404 }
+            );
+        }
+
+        if (error instanceof InsufficientStockError) {
+            console.warn('[Inventory API] Not enough stock:', error.shortages);
+            return NextResponse.json(
+                { error: error.message, code: 'OUT_OF_STOCK', items: error.shortages },
+                { status: 409 }
+            );
+        }
+
+        if (error instanceof SyntaxError) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'Invalid request format' },
+                { status: 400 }
+            );
+        }
+
+        console.error('[Inventory API] Error reserving stock:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to reserve stock', message: error.message },
+            { status: 500 }
+        );
+    }
+}
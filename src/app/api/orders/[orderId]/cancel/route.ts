@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CallerError, findCustomerIdForToken } from '@/lib/auth/caller';
+import { cancelCustomerOrder, CancellationError } from '@/lib/orders/cancellation';
+import { RefundError } from '@/lib/orders/refunds';
+import { PayPalError } from '@/lib/paypal/errors';
+
+/**
+ * PATCH /api/orders/[orderId]/cancel
+ * Cancel one of the caller's orders, refunding it when it was paid by PayPal
+ *
+ * Body: { reason: string }
+ */
+export async function PATCH(
+    request: NextRequest,
+    context: { params: Promise<{ orderId: string }> }
+) {
+    try {
+        const { orderId } = await context.params;
+
+        const customerId = await findCustomerIdForToken(request.headers.get('Authorization'));
+        const body = await request.json();
+        const order = await cancelCustomerOrder(orderId, customerId, typeof body?.reason === 'string' ? body.reason : '');
+
+        return NextResponse.json({ data: order }, { status: 200 });
+    } catch (error: any) {
+        if (error instanceof CallerError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: error.code === 'UNAUTHORIZED' ? 401 : 404 }
+            );
+        }
+
+        if (error instanceof CancellationError) {
+            const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'NOT_CANCELLABLE' ? 409 : 400;
+            return NextResponse.json(
+                { error: error.message, code: error.code, ...(error.reason && { reason: error.reason }) },
+                { status }
+            );
+        }
+
+        if (error instanceof SyntaxError) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'Invalid request format' },
+                { status: 400 }
+            );
+        }
+
+        // The payment couldn't be refunded, so the order was left as it was
+        if (error instanceof RefundError) {
+            return NextResponse.json(
+                { error: error.message, code: 'REFUND_FAILED' },
+                { status: error.code === 'REFUND_IN_PROGRESS' ? 409 : 400 }
+            );
+        }
+
+        if (error instanceof PayPalError) {
+            console.error('[Cancel API] PayPal refund failed:', error.toJSON());
+            return NextResponse.json(
+                { error: error.userMessage, code: 'REFUND_FAILED' },
+                { status: 502 }
+            );
+        }
+
+        console.error('[Cancel API] Failed to cancel order:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to cancel order' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CallerError, findCustomerIdForToken } from '@/lib/auth/caller';
+import { getCustomerInvoice, InvoiceError } from '@/lib/invoices/invoice';
+
+/**
+ * GET /api/orders/[orderId]/invoice
+ * Bilingual (English/Arabic) PDF invoice of one of the caller's orders
+ */
+export async function GET(
+    request: NextRequest,
+    context: { params: Promise<{ orderId: string }> }
+) {
+    try {
+        const { orderId } = await context.params;
+
+        const customerId = await findCustomerIdForToken(request.headers.get('Authorization'));
+        const invoice = await getCustomerInvoice(orderId, customerId);
+
+        // Order numbers are generated by us, but keep the file name to safe characters
+        const fileName = `invoice-${invoice.orderNumber.replace(/[^\w-]/g, '')}.pdf`;
+
+        return new NextResponse(new Uint8Array(invoice.pdf), {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+                'Content-Length': String(invoice.pdf.length),
+                'Cache-Control': 'private, no-store',
+            },
+        });
+    } catch (error: any) {
+        if (error instanceof CallerError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: error.code === 'UNAUTHORIZED' ? 401 : 404 }
+            );
+        }
+
+        if (error instanceof InvoiceError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: 404 }
+            );
+        }
+
+        console.error('[Invoice API] Failed to generate invoice:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to generate invoice' },
+            { status: 500 }
+        );
+    }
+}
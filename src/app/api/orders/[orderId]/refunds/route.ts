@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refundOrder, RefundError, RefundLineInput } from '@/lib/orders/refunds';
+import { PayPalError } from '@/lib/paypal/errors';
+
+/**
+ * POST /api/orders/[orderId]/refunds
+ * Refund a paid PayPal order (admin only - Directus permissions on
+ * payment_refunds are checked with the caller's token)
+ *
+ * Body: { items?: [{ order_item, quantity }], reason?: string }
+ * Without items the whole amount left on the order is refunded.
+ */
+export async function POST(
+    request: NextRequest,
+    context: { params: Promise<{ orderId: string }> }
+) {
+    try {
+        const { orderId } = await context.params;
+
+        const authHeader = request.headers.get('Authorization');
+        if (!authHeader) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'No authentication token provided' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        if (body.items !== undefined && !Array.isArray(body.items)) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'items must be an array' },
+                { status: 400 }
+            );
+        }
+
+        const items: RefundLineInput[] | undefined = body.items?.map((item: any) => ({
+            order_item: String(item.order_item),
+            quantity: Number(item.quantity),
+        }));
+
+        const result = await refundOrder(
+            orderId,
+            {
+                items,
+                reason: typeof body.reason === 'string' ? body.reason.trim() || undefined : undefined,
+            },
+            authHeader
+        );
+
+        return NextResponse.json({ data: result }, { status: 201 });
+    } catch (error: any) {
+        if (error instanceof RefundError) {
+            const status = error.code === 'ORDER_NOT_FOUND' ? 404 : error.code === 'REFUND_IN_PROGRESS' ? 409 : 400;
+            return NextResponse.json(
+                { error: error.message, code: error.code, ...error.details },
+                { status }
+            );
+        }
+
+        if (error instanceof PayPalError) {
+            console.error('[Refunds API] PayPal error:', error.toJSON());
+            return NextResponse.json(
+                { error: error.userMessage, errorType: error.errorType },
+                { status: 502 }
+            );
+        }
+
+        console.error('[Refunds API] Error refunding order:', error.message);
+        if (error.response?.data) {
+            console.error('[Refunds API] Response data:', error.response.data);
+        }
+        return NextResponse.json(
+            {
+                error: 'Failed to refund order',
+                message: error.response?.data?.errors?.[0]?.message || error.message,
+            },
+            { status: error.response?.status || 500 }
+        );
+    }
+}
@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { OrderHistorySource } from '@/types/collections';
+import { CallerError, findCustomerIdForToken } from '@/lib/auth/caller';
+import { isOrderOwnedBy } from '@/lib/api/orders';
+import { findOrderById } from '@/lib/orders/payment';
+import { findActorForToken, isServerToken, OrderChangeContext, recordOrderHistory } from '@/lib/orders/history';
+import { sendOrderShippedEmail } from '@/lib/mail/notifications';
 
 /**
  * GET /api/orders/[orderId]
- * Get a specific order by ID
+ * Get one of the caller's orders with its items, refunds, returns and history
  */
 export async function GET(
     request: NextRequest,
@@ -11,23 +17,8 @@ export async function GET(
     try {
         const { orderId } = await context.params;
 
-        // Get authorization header
-        const authHeader = request.headers.get('Authorization');
-        if (!authHeader) {
-            return NextResponse.json(
-                { error: 'Missing authorization header' },
-                { status: 401 }
-            );
-        }
-
-        // Extract token from Bearer scheme
-        const token = authHeader.split(' ')[1];
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Invalid authorization header' },
-                { status: 401 }
-            );
-        }
+        // The order is read with the admin token, so only its owner may see it
+        const customerId = await findCustomerIdForToken(request.headers.get('Authorization'));
 
         // Build Directus URL
         const directusUrl = process.env.NEXT_PUBLIC_DIRECTUS_URL || 'https://admin.buyjan.com';
@@ -76,6 +67,14 @@ export async function GET(
         // Transform data to map Directus field names to Order type expectations
         const order = data.data || data;
 
+        // Someone else's order is reported as missing, so order IDs can't be probed
+        if (!isOrderOwnedBy(order, customerId)) {
+            return NextResponse.json(
+                { error: 'Order not found' },
+                { status: 404 }
+            );
+        }
+
         // Fetch order items for this order
         let orderItems: any[] = [];
         try {
@@ -98,6 +97,70 @@ export async function GET(
             console.error('[Orders API] Failed to fetch order items:', e);
         }
 
+        // Fetch refunds issued on this order
+        let refunds: any[] = [];
+        try {
+            const refundsUrl = new URL(`${directusUrl}/items/payment_refunds`);
+            refundsUrl.searchParams.append('filter', JSON.stringify({ order: { _eq: orderId }, status: { _neq: 'failed' } }));
+            refundsUrl.searchParams.append('sort', 'date_created');
+
+            const refundsResponse = await fetch(refundsUrl.toString(), {
+                headers: {
+                    'Authorization': `Bearer ${adminToken}`,
+                },
+            });
+
+            if (refundsResponse.ok) {
+                const refundsData = await refundsResponse.json();
+                refunds = refundsData.data || [];
+            }
+        } catch (e) {
+            console.error('[Orders API] Failed to fetch order refunds:', e);
+        }
+
+        // Fetch returns filed for this order
+        let returns: any[] = [];
+        try {
+            const returnsUrl = new URL(`${directusUrl}/items/returns`);
+            returnsUrl.searchParams.append('filter', JSON.stringify({ order: { _eq: orderId } }));
+            returnsUrl.searchParams.append('sort', 'date_created');
+
+            const returnsResponse = await fetch(returnsUrl.toString(), {
+                headers: {
+                    'Authorization': `Bearer ${adminToken}`,
+                },
+            });
+
+            if (returnsResponse.ok) {
+                const returnsData = await returnsResponse.json();
+                returns = returnsData.data || [];
+            }
+        } catch (e) {
+            console.error('[Orders API] Failed to fetch order returns:', e);
+        }
+
+        // Fetch the status history for the timeline (who made each change stays with staff)
+        let history: any[] = [];
+        try {
+            const historyUrl = new URL(`${directusUrl}/items/order_status_history`);
+            historyUrl.searchParams.append('filter', JSON.stringify({ order: { _eq: orderId } }));
+            historyUrl.searchParams.append('fields', 'id,field,old_value,new_value,source,date_created');
+            historyUrl.searchParams.append('sort', 'date_created');
+
+            const historyResponse = await fetch(historyUrl.toString(), {
+                headers: {
+                    'Authorization': `Bearer ${adminToken}`,
+                },
+            });
+
+            if (historyResponse.ok) {
+                const historyData = await historyResponse.json();
+                history = historyData.data || [];
+            }
+        } catch (e) {
+            console.error('[Orders API] Failed to fetch order history:', e);
+        }
+
         const transformedOrder = {
             ...order,
             // Map Directus system fields to expected field names
@@ -107,6 +170,9 @@ export async function GET(
             items: orderItems.map((item: any) => ({
                 ...item,
             })),
+            refunds,
+            returns,
+            history,
         };
 
         return NextResponse.json(
@@ -116,6 +182,13 @@ export async function GET(
             { status: 200 }
         );
     } catch (error: any) {
+        if (error instanceof CallerError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: error.code === 'UNAUTHORIZED' ? 401 : 404 }
+            );
+        }
+
         console.error('[Orders API] Failed to fetch order:', error);
 
         return NextResponse.json(
@@ -123,4 +196,122 @@ export async function GET(
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Fields that can be changed through PATCH /api/orders/[orderId]
+ */
+const UPDATABLE_ORDER_FIELDS = ['status', 'payment_status', 'payment_intent_id', 'tracking_number'] as const;
+
+const HISTORY_SOURCES: OrderHistorySource[] = ['customer', 'admin', 'webhook', 'system'];
+
+/**
+ * Where a change came from. Requests made with the server token (payments,
+ * webhooks) say so themselves; anyone else is staff using their own token.
+ */
+async function getChangeContext(authHeader: string, history: any): Promise<OrderChangeContext> {
+    const note = typeof history?.note === 'string' ? history.note.slice(0, 500) : null;
+
+    if (isServerToken(authHeader)) {
+        return {
+            source: HISTORY_SOURCES.includes(history?.source) ? history.source : 'system',
+            actor: typeof history?.actor === 'string' ? history.actor : null,
+            note,
+        };
+    }
+
+    return { source: 'admin', actor: await findActorForToken(authHeader), note };
+}
+
+/**
+ * PATCH /api/orders/[orderId]
+ * Update the status, payment status or tracking number of an order.
+ * The caller's token is forwarded so Directus permissions decide who may change what.
+ * Every change is added to the order's status history, with the optional
+ * `history: { source, actor, note }` of the body.
+ * Moving an order to `shipped` emails the customer its tracking number.
+ */
+export async function PATCH(
+    request: NextRequest,
+    context: { params: Promise<{ orderId: string }> }
+) {
+    try {
+        const { orderId } = await context.params;
+
+        const authHeader = request.headers.get('Authorization');
+        if (!authHeader) {
+            return NextResponse.json(
+                { error: 'Missing authorization header' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const updateData: Record<string, any> = {};
+        for (const field of UPDATABLE_ORDER_FIELDS) {
+            if (body[field] !== undefined) {
+                updateData[field] = body[field];
+            }
+        }
+
+        if (Object.keys(updateData).length === 0) {
+            return NextResponse.json(
+                { error: `Nothing to update. Allowed fields: ${UPDATABLE_ORDER_FIELDS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        // Read the order before the change for its history, and so the shipping email goes out only once
+        const previous = await findOrderById(orderId).catch(() => null);
+
+        const directusUrl = process.env.NEXT_PUBLIC_DIRECTUS_URL || 'https://admin.buyjan.com';
+        const response = await fetch(`${directusUrl}/items/orders/${orderId}`, {
+            method: 'PATCH',
+            headers: {
+                'Authorization': authHeader,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(updateData),
+        });
+
+        if (response.status === 404) {
+            return NextResponse.json(
+                { error: 'Order not found' },
+                { status: 404 }
+            );
+        }
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ error: 'Failed to update order' }));
+            return NextResponse.json(error, { status: response.status });
+        }
+
+        const data = await response.json();
+        console.log('[Orders API] Updated order:', orderId, Object.keys(updateData));
+
+        await recordOrderHistory(orderId, previous, updateData, await getChangeContext(authHeader, body.history));
+
+        if (updateData.status === 'shipped' && previous && previous.status !== 'shipped') {
+            await sendOrderShippedEmail({ ...previous, ...data.data });
+        }
+
+        return NextResponse.json(
+            { data: data.data },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        if (error instanceof SyntaxError) {
+            return NextResponse.json(
+                { error: 'Invalid request format' },
+                { status: 400 }
+            );
+        }
+
+        console.error('[Orders API] Failed to update order:', error);
+
+        return NextResponse.json(
+            { error: 'Failed to update order' },
+            { status: 500 }
+        );
+    }
+}
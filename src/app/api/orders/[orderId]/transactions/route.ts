@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchOrderTransactions } from '@/lib/orders/transactions';
+
+/**
+ * GET /api/orders/[orderId]/transactions
+ * Payment ledger of an order - every authorization, capture, failure and refund
+ * (support/admin only - Directus enforces permissions on the caller's token)
+ */
+export async function GET(
+    request: NextRequest,
+    context: { params: Promise<{ orderId: string }> }
+) {
+    try {
+        const { orderId } = await context.params;
+
+        const authHeader = request.headers.get('Authorization');
+        if (!authHeader) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'No authentication token provided' },
+                { status: 401 }
+            );
+        }
+
+        const transactions = await fetchOrderTransactions(orderId, authHeader);
+
+        return NextResponse.json({ data: transactions }, { status: 200 });
+    } catch (error: any) {
+        console.error('[Transactions API] Error fetching transactions:', error.message);
+        return NextResponse.json(
+            {
+                error: 'Failed to fetch transactions',
+                message: error.response?.data?.errors?.[0]?.message || error.message,
+            },
+            { status: error.response?.status || 500 }
+        );
+    }
+}
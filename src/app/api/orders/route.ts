@@ -1,16 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
+import { Coupon } from '@/types/collections';
+import { redeemCoupon, releaseCoupon } from '@/lib/coupons/store';
+import { priceOrder, findPricingMismatches, getPricingTotals, PricingError, OrderPricing } from '@/lib/orders/pricing';
+import { checkStock, commitStock, findCustomerReservation, restockLines, InsufficientStockError } from '@/lib/inventory/reservations';
+import { CallerError, findCustomerIdForToken } from '@/lib/auth/caller';
+import { sendOrderConfirmationEmail } from '@/lib/mail/notifications';
+import { toEmailLocale } from '@/lib/mail/render';
+import { recordOrderHistory } from '@/lib/orders/history';
 
 interface CreateOrderRequest {
-    customer: string;
+    customer?: string; // Must be the signed-in customer; the order is always placed for them
     customer_email: string;
-    status: string;
-    payment_status: string;
     shipping_address: Record<string, any>;
     billing_address: Record<string, any>;
     items: Array<{
         product: string;
         product_name: string;
+        variation?: string;
+        variation_name?: string;
         quantity: number;
         unit_price: number;
         line_total: number;
@@ -20,9 +28,13 @@ interface CreateOrderRequest {
     tax_amount: number;
     shipping_cost: number;
     discount_amount?: number;
+    coupon_code?: string;
+    shipping_method: string; // Shipping method ID, used to recompute shipping_cost
     total: number;
     payment_method: string;
     payment_intent_id?: string;
+    reservation_id?: string; // Stock reservation made when checkout reached the payment step
+    locale?: string; // Storefront language, for the emails about this order
 }
 
 /**
@@ -61,13 +73,6 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        if (!body.customer) {
-            return NextResponse.json(
-                { error: 'Customer ID is required' },
-                { status: 400 }
-            );
-        }
-
         if (!body.shipping_address) {
             return NextResponse.json(
                 { error: 'Shipping address is required' },
@@ -98,6 +103,129 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // The order belongs to whoever is signed in, never to a customer named in the body
+        let customerId: string;
+        try {
+            customerId = await findCustomerIdForToken(authHeader);
+        } catch (callerError: any) {
+            if (callerError instanceof CallerError) {
+                return NextResponse.json(
+                    { error: callerError.message, code: callerError.code },
+                    { status: callerError.code === 'UNAUTHORIZED' ? 401 : 404 }
+                );
+            }
+
+            console.error('[Orders API] Failed to identify customer:', callerError.response?.data || callerError.message);
+            return NextResponse.json(
+                { error: 'Failed to create order' },
+                { status: 500 }
+            );
+        }
+
+        if (body.customer && String(body.customer) !== customerId) {
+            console.warn('[Orders API] Order rejected, customer does not match the signed-in account:', body.customer);
+            return NextResponse.json(
+                { error: 'You can only place orders for your own account' },
+                { status: 403 }
+            );
+        }
+
+        // Reprice the order from Directus - the client's prices are only used to detect a stale cart
+        let pricing: OrderPricing;
+        try {
+            pricing = await priceOrder({
+                items: body.items,
+                shipping_method: body.shipping_method,
+                coupon_code: body.coupon_code,
+            });
+        } catch (pricingError: any) {
+            if (pricingError instanceof PricingError) {
+                console.warn('[Orders API] Order rejected by pricing:', pricingError.code, pricingError.message);
+                return NextResponse.json(
+                    { error: pricingError.message, code: pricingError.code, ...pricingError.details },
+                    { status: 400 }
+                );
+            }
+
+            console.error('[Orders API] Failed to price order:', pricingError.response?.data || pricingError.message);
+            return NextResponse.json(
+                { error: 'Failed to price order' },
+                { status: 500 }
+            );
+        }
+
+        const mismatches = findPricingMismatches(body, pricing);
+        if (mismatches.length > 0) {
+            console.warn('[Orders API] Client totals do not match server pricing:', mismatches, {
+                client: { subtotal: body.subtotal, shipping_cost: body.shipping_cost, discount_amount: body.discount_amount, total: body.total },
+                server: getPricingTotals(pricing),
+            });
+            return NextResponse.json(
+                {
+                    error: 'Prices in your cart have changed. Please review your order and try again.',
+                    code: 'PRICE_MISMATCH',
+                    fields: mismatches,
+                    pricing: getPricingTotals(pricing),
+                },
+                { status: 409 }
+            );
+        }
+
+        // A hold only counts for the customer who made it - anyone else's
+        // reservation ID is ignored, so it can't be used to skip their hold
+        let reservationId: string | undefined;
+        if (body.reservation_id) {
+            const reservation = await findCustomerReservation(String(body.reservation_id), customerId).catch(() => null);
+            reservationId = reservation?.id;
+            if (!reservationId) {
+                console.warn('[Orders API] Ignoring reservation not held by the caller:', body.reservation_id);
+            }
+        }
+
+        // Take the ordered units out of stock before placing the order.
+        // PayPal orders are placed before the customer pays: their reservation keeps
+        // holding the stock, which is taken once the capture completes.
+        const awaitingPayment = body.payment_method === 'paypal';
+        try {
+            if (awaitingPayment) {
+                const shortages = await checkStock(pricing.items, reservationId);
+                if (shortages.length > 0) {
+                    throw new InsufficientStockError(shortages);
+                }
+            } else {
+                await commitStock(pricing.items, reservationId);
+            }
+        } catch (stockError: any) {
+            if (stockError instanceof InsufficientStockError) {
+                console.warn('[Orders API] Order rejected, not enough stock:', stockError.shortages);
+                return NextResponse.json(
+                    { error: stockError.message, code: 'OUT_OF_STOCK', items: stockError.shortages },
+                    { status: 409 }
+                );
+            }
+
+            console.error('[Orders API] Failed to update stock:', stockError.response?.data || stockError.message);
+            return NextResponse.json(
+                { error: 'Failed to update stock' },
+                { status: 500 }
+            );
+        }
+
+        // Claim one use of the coupon before placing the order
+        let redeemedCoupon: Coupon | null = null;
+        if (pricing.coupon) {
+            if (!(await redeemCoupon(pricing.coupon.id))) {
+                if (!awaitingPayment) {
+                    await restockLines(pricing.items);
+                }
+                return NextResponse.json(
+                    { error: 'This coupon has reached its usage limit', code: 'INVALID_COUPON', reason: 'usage_limit_reached' },
+                    { status: 409 }
+                );
+            }
+            redeemedCoupon = pricing.coupon;
+        }
+
         try {
             // Generate order number and tracking number
             const orderNumber = generateOrderNumber();
@@ -105,26 +233,30 @@ export async function POST(request: NextRequest) {
 
             // Create order in Directus
             // Note: Directus will auto-generate 'created_at' and 'updated_at' timestamps
+            // Every order starts unpaid; only the payment flow moves it on, never the client
             const orderPayload = {
                 order_number: orderNumber,
-                customer: body.customer,
+                customer: customerId,
                 customer_email: body.customer_email,
-                status: body.status || 'pending',
-                payment_status: body.payment_status || 'pending',
+                status: 'pending',
+                payment_status: 'pending',
                 shipping_address: body.shipping_address,
                 billing_address: body.billing_address,
-                subtotal: body.subtotal,
-                tax_rate: body.tax_rate || 0,
-                tax_amount: body.tax_amount || 0,
-                shipping_cost: body.shipping_cost,
-                discount_amount: body.discount_amount || 0,
-                total: body.total,
+                subtotal: pricing.subtotal,
+                tax_rate: pricing.tax_rate,
+                tax_amount: pricing.tax_amount,
+                shipping_cost: pricing.shipping_cost,
+                discount_amount: pricing.discount_amount,
+                ...(redeemedCoupon && { coupon_code: redeemedCoupon.code }),
+                total: pricing.total,
                 payment_method: body.payment_method,
                 tracking_number: trackingNumber,
+                ...(body.locale && { locale: toEmailLocale(body.locale) }),
                 ...(body.payment_intent_id && { payment_intent_id: body.payment_intent_id }),
+                ...(awaitingPayment && reservationId && { stock_reservation: reservationId }),
             };
 
-            console.log('[Orders API] Creating order in Directus with customer:', body.customer);
+            console.log('[Orders API] Creating order in Directus with customer:', customerId);
             console.log('[Orders API] Order number:', orderNumber);
             console.log('[Orders API] Tracking number:', trackingNumber);
             console.log('[Orders API] Shipping address JSON:', JSON.stringify(body.shipping_address, null, 2));
@@ -146,9 +278,9 @@ export async function POST(request: NextRequest) {
             console.log('[Orders API] Order created successfully in Directus:', createdOrder.id);
 
             // Create order items in Directus
-            if (body.items && body.items.length > 0) {
+            if (pricing.items.length > 0) {
                 console.log('[Orders API] Creating order items...');
-                for (const item of body.items) {
+                for (const item of pricing.items) {
                     try {
                         await axios.post(
                             `${directusUrl}/items/order_items`,
@@ -156,6 +288,7 @@ export async function POST(request: NextRequest) {
                                 order: createdOrder.id,  // ✅ FIXED: Changed from orders_id to order
                                 product: item.product,
                                 product_name: item.product_name,
+                                ...(item.variation && { variation: item.variation, variation_name: item.variation_name }),
                                 quantity: item.quantity,
                                 unit_price: item.unit_price,
                                 line_total: item.line_total,
@@ -176,6 +309,18 @@ export async function POST(request: NextRequest) {
                 console.log('[Orders API] All order items created successfully');
             }
 
+            await recordOrderHistory(
+                String(createdOrder.id),
+                null,
+                { status: orderPayload.status, payment_status: orderPayload.payment_status },
+                { source: 'customer', actor: customerId, note: 'Order placed' }
+            );
+
+            // PayPal orders are confirmed by email once they are paid (see markOrderPaid)
+            if (!awaitingPayment) {
+                await sendOrderConfirmationEmail(createdOrder);
+            }
+
             return NextResponse.json(
                 {
                     success: true,
@@ -190,6 +335,18 @@ export async function POST(request: NextRequest) {
 
             console.error('[Orders API] Directus error:', status, errorData);
 
+            if (redeemedCoupon) {
+                await releaseCoupon(redeemedCoupon.id).catch((releaseError) => {
+                    console.error('[Orders API] Failed to release coupon:', releaseError.message);
+                });
+            }
+
+            if (!awaitingPayment) {
+                await restockLines(pricing.items).catch((restockError) => {
+                    console.error('[Orders API] Failed to restock order lines:', restockError.message);
+                });
+            }
+
             // ⏰ Handle 401 token expired errors specifically
             if (status === 401) {
                 const errorMessage = errorData?.errors?.[0]?.message || errorData?.error || 'Token expired';
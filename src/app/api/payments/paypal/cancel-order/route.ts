@@ -0,0 +1,96 @@
+/**
+ * API Endpoint: POST /api/payments/paypal/cancel-order
+ *
+ * Called when the customer closes the PayPal window without paying. Cancels
+ * the order placed by create-order, giving back its stock hold and coupon use.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRateLimiters } from '@/lib/rateLimit';
+import { CallerError, findCustomerIdForToken } from '@/lib/auth/caller';
+import { isOrderOwnedBy } from '@/lib/api/orders';
+import { findOrderById, markOrderPaymentFailed } from '@/lib/orders/payment';
+
+// Create rate limiters
+const limiters = createRateLimiters();
+
+/**
+ * POST /api/payments/paypal/cancel-order
+ *
+ * Only the customer who placed the order can cancel it, and only while its
+ * PayPal payment is still pending; paid orders are left alone.
+ *
+ * Request Body:
+ * {
+ *   order_id: string (order returned by create-order)
+ * }
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   order: { id, status, payment_status }
+ * }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const clientKey = request.headers.get('x-forwarded-for') || 'anonymous';
+        if (!limiters.customer.isAllowed(clientKey)) {
+            return NextResponse.json(
+                { error: 'Too many requests. Please try again later.', code: 'RATE_LIMITED' },
+                { status: 429 }
+            );
+        }
+
+        const customerId = await findCustomerIdForToken(request.headers.get('Authorization'));
+
+        const body = await request.json();
+        if (!body.order_id) {
+            return NextResponse.json(
+                { error: 'Order ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const orderId = String(body.order_id);
+        const order = await findOrderById(orderId);
+        if (!order || !isOrderOwnedBy(order, customerId) || order.payment_method !== 'paypal') {
+            return NextResponse.json(
+                { error: 'Order not found' },
+                { status: 404 }
+            );
+        }
+
+        const updated = await markOrderPaymentFailed(orderId, undefined, 'customer');
+        const result = updated || order;
+
+        return NextResponse.json({
+            success: true,
+            order: {
+                id: result.id,
+                status: result.status,
+                payment_status: result.payment_status,
+            },
+        });
+    } catch (error: any) {
+        if (error instanceof CallerError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: error.code === 'UNAUTHORIZED' ? 401 : 404 }
+            );
+        }
+
+        if (error instanceof SyntaxError) {
+            return NextResponse.json(
+                { error: 'Invalid request format' },
+                { status: 400 }
+            );
+        }
+
+        console.error('[API] Failed to cancel PayPal order:', error.response?.data || error.message);
+
+        return NextResponse.json(
+            { error: 'Failed to cancel the payment' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,8 +1,8 @@
 /**
  * API Endpoint: POST /api/payments/paypal/capture-order
  * 
- * Captures a PayPal order that has been approved by the customer.
- * Creates the order in Directus and sets payment status to completed.
+ * Captures a PayPal order that has been approved by the customer and marks
+ * the order placed by create-order as paid.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,8 +10,15 @@ import { capturePayPalOrder } from '@/lib/paypal/capture-order';
 import { PayPalError } from '@/lib/paypal/errors';
 import { isPayPalConfigured } from '@/lib/paypal/config';
 import { createRateLimiters } from '@/lib/rateLimit';
-import { createOrder, formatAddressAsJSON } from '@/lib/api/orders';
-import { Address } from '@/types';
+import { checkStock } from '@/lib/inventory/reservations';
+import {
+    fetchOrderStockLines,
+    findOrderById,
+    getExpectedAmount,
+    markOrderPaid,
+    markOrderPaymentFailed,
+} from '@/lib/orders/payment';
+import { getPayPalChargeFields, recordPaymentTransaction } from '@/lib/orders/transactions';
 
 // Create rate limiters
 const limiters = createRateLimiters();
@@ -19,17 +26,14 @@ const limiters = createRateLimiters();
 /**
  * POST /api/payments/paypal/capture-order
  * 
- * Captures an approved PayPal order and creates order in database.
+ * Captures an approved PayPal order and marks the matching order as paid.
+ * Safe to call after the PayPal webhook already completed the payment.
  * 
  * Request Body:
  * {
  *   orderID: string (PayPal order ID),
+ *   order_id: string (order returned by create-order),
  *   customerId: string,
- *   cartItems: Array,
- *   totals: { subtotal, tax, shipping, total },
- *   customer_email: string,
- *   shipping_address: Address,
- *   billing_address: Address,
  *   accessToken: string
  * }
  * 
@@ -105,30 +109,75 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        if (!body.cartItems || !Array.isArray(body.cartItems)) {
+        if (!body.order_id) {
             return NextResponse.json(
-                { error: 'Cart items are required' },
+                { error: 'Order ID is required' },
                 { status: 400 }
             );
         }
 
-        if (!body.totals || typeof body.totals !== 'object') {
+        // The order was priced and placed by create-order; it must be the one this PayPal order pays for
+        const orderId = String(body.order_id);
+        const order = await findOrderById(orderId);
+        const orderCustomer = order?.customer && typeof order.customer === 'object' ? (order.customer as any).id : order?.customer;
+        if (!order || order.paypal_order_id !== body.orderID || String(orderCustomer) !== body.customerId) {
+            console.warn('[API] Capture rejected, order does not match PayPal order:', orderId, body.orderID);
             return NextResponse.json(
-                { error: 'Order totals are required' },
-                { status: 400 }
+                { error: 'Order not found' },
+                { status: 404 }
             );
         }
 
-        if (!body.customer_email) {
+        // Cancelled orders (e.g. by the customer before paying) must not be charged
+        if (order.status === 'cancelled') {
+            console.warn('[API] Capture rejected, order is cancelled:', order.order_number);
             return NextResponse.json(
-                { error: 'Customer email is required' },
-                { status: 400 }
+                { error: 'This order can no longer be paid. Please place a new order.' },
+                { status: 409 }
+            );
+        }
+
+        if (order.payment_status === 'pending') {
+            // Make sure the items are still in stock before the customer pays
+            const shortages = await checkStock(await fetchOrderStockLines(orderId), order.stock_reservation || undefined);
+            if (shortages.length > 0) {
+                console.warn('[API] Capture rejected, not enough stock:', shortages);
+                await markOrderPaymentFailed(orderId);
+                return NextResponse.json(
+                    {
+                        error: 'Some items in your cart are no longer available in the requested quantity',
+                        code: 'OUT_OF_STOCK',
+                        items: shortages,
+                    },
+                    { status: 409 }
+                );
+            }
+        } else if (order.payment_status !== 'completed') {
+            return NextResponse.json(
+                { error: 'This order can no longer be paid. Please place a new order.' },
+                { status: 409 }
             );
         }
 
         // Capture the PayPal order
         console.log('[API] Capturing PayPal order:', body.orderID);
-        const captureResult = await capturePayPalOrder(body.orderID);
+        let captureResult;
+        try {
+            captureResult = await capturePayPalOrder(body.orderID, getExpectedAmount(order));
+        } catch (captureError: any) {
+            // Keep failed attempts in the ledger; the order stays pending so the customer can retry
+            await recordPaymentTransaction({
+                order: orderId,
+                provider: 'paypal',
+                type: 'failure',
+                status: 'CAPTURE_FAILED',
+                provider_order_id: body.orderID,
+                provider_transaction_id: body.orderID,
+                ...getPayPalChargeFields(order),
+                details: { error: captureError.message },
+            });
+            throw captureError;
+        }
 
         if (!captureResult.success) {
             throw new PayPalError(
@@ -140,47 +189,31 @@ export async function POST(request: NextRequest) {
 
         const { transactionDetails } = captureResult;
 
-        // Prepare order items for Directus
-        const orderItems = body.cartItems.map((item: any) => ({
-            product: item.product?.id || item.product_id || item.id,
-            product_name: item.product?.name || item.name || 'Product',
-            quantity: item.quantity || 1,
-            unit_price: item.product?.price || parseFloat(item.unit_price) || 0,
-            line_total: (item.product?.price || parseFloat(item.unit_price) || 0) * (item.quantity || 1),
-        }));
-
-        // Format addresses for Directus
-        const shippingAddress = formatAddressAsJSON(body.shipping_address as Address, 'shipping');
-        const billingAddress = formatAddressAsJSON(body.billing_address as Address, 'billing');
-
-        // Create order in Directus
-        console.log('[API] Creating order in Directus with PayPal payment');
-        const directusOrder = await createOrder(
-            body.customerId,
-            body.accessToken,
-            {
-                customer_email: body.customer_email,
-                shipping_address: shippingAddress,
-                billing_address: billingAddress,
-                items: orderItems,
-                subtotal: parseFloat(body.totals.subtotal) || 0,
-                tax_rate: 0.05, // Default tax rate
-                tax_amount: parseFloat(body.totals.tax) || 0,
-                shipping_cost: parseFloat(body.totals.shipping) || 0,
-                discount_amount: 0,
-                total: parseFloat(body.totals.total) || 0,
-                payment_method: 'paypal',
-                payment_intent_id: transactionDetails.transactionId,
-            }
-        );
+        const directusOrder = await markOrderPaid(orderId, {
+            captureId: transactionDetails.transactionId,
+            paypalOrderId: body.orderID,
+            status: transactionDetails.status,
+            amountUSD: transactionDetails.amount,
+            payerId: transactionDetails.payerId,
+            payerEmail: transactionDetails.payerEmail,
+        }, 'customer');
+
+        // The order was cancelled while the customer was paying; markOrderPaid refunded the capture
+        if (directusOrder?.payment_status !== 'completed') {
+            console.warn('[API] Order cancelled during capture, payment refunded:', order.order_number);
+            return NextResponse.json(
+                { error: 'This order was cancelled before the payment went through. Your payment has been refunded.' },
+                { status: 409 }
+            );
+        }
 
-        console.log('[API] Order created successfully in Directus:', directusOrder.order_number);
+        console.log('[API] Order paid:', order.order_number);
 
         return NextResponse.json({
             success: true,
             transactionId: transactionDetails.transactionId,
             orderData: directusOrder,
-            message: 'Payment captured and order created successfully',
+            message: 'Payment captured successfully',
         });
     } catch (error: any) {
         // Handle PayPal errors
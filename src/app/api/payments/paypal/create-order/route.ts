@@ -2,7 +2,8 @@
  * API Endpoint: POST /api/payments/paypal/create-order
  * 
  * Creates a PayPal order for the checkout process.
- * Validates order totals and customer data before creating the order.
+ * Validates order totals and customer data, then places the order in Directus
+ * awaiting payment so webhooks can complete it even if the shopper leaves.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,6 +11,11 @@ import { createPayPalOrder, CreatePayPalOrderRequest } from '@/lib/paypal/create
 import { PayPalError } from '@/lib/paypal/errors';
 import { isPayPalConfigured } from '@/lib/paypal/config';
 import { createRateLimiters } from '@/lib/rateLimit';
+import { priceOrder, findPricingMismatches, getPricingTotals, PricingError, OrderPricing } from '@/lib/orders/pricing';
+import { createOrder, formatAddressAsJSON } from '@/lib/api/orders';
+import { attachPayPalOrder, markOrderPaymentFailed } from '@/lib/orders/payment';
+import { getExchangeRate } from '@/lib/exchange-rates/provider';
+import { Address } from '@/types';
 
 // Create rate limiters
 const limiters = createRateLimiters();
@@ -21,17 +27,24 @@ const limiters = createRateLimiters();
  * 
  * Request Body:
  * {
- *   items: Array<{ product_id, name, quantity, unit_price }>,
- *   totals: { subtotal, tax, shipping, total },
+ *   items: Array<{ product_id, variation?, name, quantity, unit_price }>,
+ *   totals: { subtotal, tax, shipping, discount?, total },
+ *   shipping_method: string (shipping method ID),
+ *   coupon_code?: string,
+ *   reservation_id?: string (stock reservation of the checkout),
  *   customer_email: string,
  *   shipping_address: Address,
- *   billing_address: Address
+ *   billing_address: Address,
+ *   customerId: string,
+ *   accessToken: string,
+ *   locale?: 'ar' | 'en' (language of the order emails)
  * }
  * 
  * Response:
  * {
  *   success: true,
- *   orderID: string
+ *   orderID: string (PayPal order ID),
+ *   order: { id, order_number } (order awaiting payment)
  * }
  */
 export async function POST(request: NextRequest) {
@@ -93,15 +106,31 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (!body.customerId || typeof body.customerId !== 'string' || body.customerId === 'anonymous') {
+            return NextResponse.json(
+                { error: 'You must be logged in to complete your purchase. Please log in and try again.' },
+                { status: 401 }
+            );
+        }
+
+        if (!body.accessToken || typeof body.accessToken !== 'string') {
+            return NextResponse.json(
+                { error: 'Authentication required. Please log in to complete your purchase.' },
+                { status: 401 }
+            );
+        }
+
         // Validate totals have required fields
         const totalsObj = body.totals as Record<string, any>;
         const subtotal = typeof totalsObj.subtotal === 'string' ? parseFloat(totalsObj.subtotal) : totalsObj.subtotal;
         const tax = typeof totalsObj.tax === 'string' ? parseFloat(totalsObj.tax) : totalsObj.tax;
         const shipping = typeof totalsObj.shipping === 'string' ? parseFloat(totalsObj.shipping) : totalsObj.shipping;
         const total = typeof totalsObj.total === 'string' ? parseFloat(totalsObj.total) : totalsObj.total;
+        const discount = typeof totalsObj.discount === 'string' ? parseFloat(totalsObj.discount) : (totalsObj.discount || 0);
 
         if (typeof subtotal !== 'number' || typeof tax !== 'number' ||
-            typeof shipping !== 'number' || typeof total !== 'number') {
+            typeof shipping !== 'number' || typeof total !== 'number' ||
+            typeof discount !== 'number') {
             return NextResponse.json(
                 { error: 'Invalid totals provided' },
                 { status: 400 }
@@ -116,24 +145,66 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Reprice from Directus so the PayPal charge never depends on browser prices
+        let pricing: OrderPricing;
+        try {
+            pricing = await priceOrder({
+                items: body.items.map((item: any) => ({
+                    product: item.product_id || item.id,
+                    variation: item.variation,
+                    quantity: item.quantity,
+                })),
+                shipping_method: body.shipping_method,
+                coupon_code: body.coupon_code,
+            });
+        } catch (pricingError: any) {
+            if (pricingError instanceof PricingError) {
+                console.warn('[API] PayPal order rejected by pricing:', pricingError.code, pricingError.message);
+                return NextResponse.json(
+                    { error: pricingError.message, code: pricingError.code },
+                    { status: 400 }
+                );
+            }
+            throw pricingError;
+        }
+
+        const mismatches = findPricingMismatches(
+            { subtotal, shipping_cost: shipping, discount_amount: discount, total },
+            pricing
+        );
+        if (mismatches.length > 0) {
+            console.warn('[API] PayPal order totals do not match server pricing:', mismatches, getPricingTotals(pricing));
+            return NextResponse.json(
+                {
+                    error: 'Prices in your cart have changed. Please review your order and try again.',
+                    code: 'PRICE_MISMATCH',
+                    fields: mismatches,
+                    pricing: getPricingTotals(pricing),
+                },
+                { status: 409 }
+            );
+        }
+
         // Format amounts to OMR currency (3 decimal places)
-        const formattedSubtotal: string = subtotal.toFixed(3);
-        const formattedTax: string = tax.toFixed(3);
-        const formattedShipping: string = shipping.toFixed(3);
-        const formattedTotal: string = total.toFixed(3);
+        const formattedSubtotal: string = pricing.subtotal.toFixed(3);
+        const formattedTax: string = pricing.tax_amount.toFixed(3);
+        const formattedShipping: string = pricing.shipping_cost.toFixed(3);
+        const formattedTotal: string = pricing.total.toFixed(3);
+        const formattedDiscount: string = pricing.discount_amount.toFixed(3);
 
         // Prepare PayPal order request
         const paypalOrderRequest: CreatePayPalOrderRequest = {
-            items: body.items.map((item: any) => ({
-                product_id: item.product_id || item.id || 'unknown',
-                name: item.name || 'Product',
-                quantity: Math.max(1, parseInt(item.quantity) || 1),
-                unit_price: parseFloat(item.unit_price) || 0,
+            items: pricing.items.map((item) => ({
+                product_id: item.product,
+                name: item.product_name,
+                quantity: item.quantity,
+                unit_price: item.unit_price,
             })),
             totals: {
                 subtotal: formattedSubtotal,
                 tax: formattedTax,
                 shipping: formattedShipping,
+                discount: formattedDiscount,
                 total: formattedTotal,
             },
             customer_email: body.customer_email.toLowerCase().trim(),
@@ -165,15 +236,73 @@ export async function POST(request: NextRequest) {
             },
         };
 
+        // Place the order awaiting payment, so a capture reported by webhook always has an order to complete
+        let order;
+        try {
+            order = await createOrder(body.customerId, body.accessToken, {
+                customer_email: body.customer_email,
+                shipping_address: formatAddressAsJSON(body.shipping_address as Address, 'shipping'),
+                billing_address: formatAddressAsJSON(body.billing_address as Address, 'billing'),
+                items: pricing.items.map((item) => ({
+                    product: item.product,
+                    product_name: item.product_name,
+                    ...(item.variation && { variation: item.variation, variation_name: item.variation_name }),
+                    quantity: item.quantity,
+                    unit_price: item.unit_price,
+                    line_total: item.line_total,
+                })),
+                subtotal: pricing.subtotal,
+                tax_rate: pricing.tax_rate,
+                tax_amount: pricing.tax_amount,
+                shipping_cost: pricing.shipping_cost,
+                discount_amount: pricing.discount_amount,
+                ...(pricing.coupon && { coupon_code: pricing.coupon.code }),
+                shipping_method: String(body.shipping_method),
+                total: pricing.total,
+                payment_method: 'paypal',
+                ...(body.reservation_id && { reservation_id: String(body.reservation_id) }),
+                ...(body.locale && { locale: String(body.locale) }),
+            });
+        } catch (orderError: any) {
+            // Stock, coupon and session errors from the orders API are passed through as-is
+            if (orderError.response?.status && orderError.response.status < 500) {
+                return NextResponse.json(orderError.response.data, { status: orderError.response.status });
+            }
+            throw orderError;
+        }
+
         // Create PayPal order
-        console.log('[API] Creating PayPal order for customer:', body.customer_email);
-        const result = await createPayPalOrder(paypalOrderRequest);
+        console.log('[API] Creating PayPal order for customer:', body.customer_email, 'order', order.order_number);
+        let result;
+        try {
+            result = await createPayPalOrder({
+                ...paypalOrderRequest,
+                order_id: String(order.id),
+                order_number: order.order_number,
+                exchange_rate: await getExchangeRate('USD'),
+            });
+        } catch (paypalError) {
+            await markOrderPaymentFailed(String(order.id)).catch((cancelError) => {
+                console.error('[API] Failed to cancel order after PayPal error:', cancelError.message);
+            });
+            throw paypalError;
+        }
+
+        // The capture is checked against exactly this amount
+        await attachPayPalOrder(String(order.id), result.orderID, {
+            amountUSD: result.amountUSD,
+            exchangeRate: result.exchangeRate,
+        });
 
         console.log('[API] PayPal order created successfully:', result.orderID);
 
         return NextResponse.json({
             success: true,
             orderID: result.orderID,
+            order: {
+                id: order.id,
+                order_number: order.order_number,
+            },
         });
     } catch (error: any) {
         // Handle PayPal errors
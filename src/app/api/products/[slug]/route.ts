@@ -108,7 +108,10 @@ export async function GET(
             cost_price: product.cost_price || null,
 
             // Excerpt for short description
-            excerpt: product.excerpt || null
+            excerpt: product.excerpt || null,
+
+            // Shades / sizes
+            variants: product.variants || []
         };
 
         // Log the image data for debugging
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ReturnStatus } from '@/types/collections';
+import { ReturnError, updateReturnStatus } from '@/lib/returns/returns';
+import { RefundError } from '@/lib/orders/refunds';
+import { PayPalError } from '@/lib/paypal/errors';
+
+/**
+ * PATCH /api/returns/[returnId]
+ * Move a return to its next status (staff only - the caller's token is
+ * forwarded so Directus permissions on returns decide)
+ *
+ * Body: { status: 'approved' | 'rejected' | 'received' | 'refunded' | 'exchanged', staff_note?: string }
+ */
+export async function PATCH(
+    request: NextRequest,
+    context: { params: Promise<{ returnId: string }> }
+) {
+    try {
+        const { returnId } = await context.params;
+
+        const authHeader = request.headers.get('Authorization');
+        if (!authHeader) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'No authentication token provided' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        if (typeof body?.status !== 'string') {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'status is required' },
+                { status: 400 }
+            );
+        }
+
+        const updated = await updateReturnStatus(
+            returnId,
+            {
+                status: body.status as ReturnStatus,
+                staff_note: typeof body.staff_note === 'string' ? body.staff_note : undefined,
+            },
+            authHeader
+        );
+
+        return NextResponse.json({ data: updated }, { status: 200 });
+    } catch (error: any) {
+        if (error instanceof ReturnError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: error.code === 'NOT_FOUND' ? 404 : 409 }
+            );
+        }
+
+        if (error instanceof SyntaxError) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'Invalid request format' },
+                { status: 400 }
+            );
+        }
+
+        // The return stays received, so the refund can be tried again
+        if (error instanceof RefundError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code, ...error.details },
+                { status: error.code === 'REFUND_IN_PROGRESS' ? 409 : 400 }
+            );
+        }
+
+        if (error instanceof PayPalError) {
+            console.error('[Returns API] PayPal refund failed:', error.toJSON());
+            return NextResponse.json(
+                { error: error.userMessage, errorType: error.errorType },
+                { status: 502 }
+            );
+        }
+
+        console.error('[Returns API] Failed to update return:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to update return' },
+            { status: error.response?.status || 500 }
+        );
+    }
+}
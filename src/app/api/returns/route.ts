@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CallerError, findCustomerIdForToken } from '@/lib/auth/caller';
+import { createCustomerReturn, fetchCustomerReturns, ReturnError } from '@/lib/returns/returns';
+
+function callerErrorResponse(error: CallerError) {
+    return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'UNAUTHORIZED' ? 401 : 404 }
+    );
+}
+
+/**
+ * GET /api/returns
+ * List the caller's returns, optionally only those of one order (?order=<id>)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const customerId = await findCustomerIdForToken(request.headers.get('Authorization'));
+        const orderId = request.nextUrl.searchParams.get('order') || undefined;
+        const returns = await fetchCustomerReturns(customerId, orderId);
+
+        return NextResponse.json({ data: returns }, { status: 200 });
+    } catch (error: any) {
+        if (error instanceof CallerError) {
+            return callerErrorResponse(error);
+        }
+
+        console.error('[Returns API] Failed to fetch returns:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to fetch returns' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/returns
+ * File a return for one of the caller's delivered orders
+ *
+ * Multipart form: order, items (JSON: [{ order_item, quantity }]), reason,
+ * resolution ('refund' | 'exchange'), details?, photos (up to 5 images)
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const customerId = await findCustomerIdForToken(request.headers.get('Authorization'));
+        const form = await request.formData().catch(() => null);
+        if (!form) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'Expected multipart form data' },
+                { status: 400 }
+            );
+        }
+
+        const orderId = form.get('order');
+        if (typeof orderId !== 'string' || !orderId) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'order is required' },
+                { status: 400 }
+            );
+        }
+
+        const items = JSON.parse(String(form.get('items') || '[]'));
+        if (!Array.isArray(items)) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'items must be an array' },
+                { status: 400 }
+            );
+        }
+
+        const details = form.get('details');
+        const created = await createCustomerReturn(customerId, {
+            orderId,
+            items: items.map((item: any) => ({
+                order_item: String(item?.order_item),
+                quantity: Number(item?.quantity),
+            })),
+            reason: String(form.get('reason') || ''),
+            resolution: String(form.get('resolution') || ''),
+            details: typeof details === 'string' ? details : undefined,
+            photos: form.getAll('photos').filter((photo): photo is File => photo instanceof File),
+        });
+
+        return NextResponse.json({ data: created }, { status: 201 });
+    } catch (error: any) {
+        if (error instanceof CallerError) {
+            return callerErrorResponse(error);
+        }
+
+        if (error instanceof ReturnError) {
+            const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'NOT_RETURNABLE' ? 409 : 400;
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status }
+            );
+        }
+
+        // Malformed items JSON
+        if (error instanceof SyntaxError) {
+            return NextResponse.json(
+                { error: 'Bad Request', message: 'Invalid request format' },
+                { status: 400 }
+            );
+        }
+
+        console.error('[Returns API] Failed to create return:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to create return' },
+            { status: 500 }
+        );
+    }
+}
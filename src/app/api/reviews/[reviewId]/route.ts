@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
+import { findReviewProductId, refreshProductRating, toProductId } from '@/lib/reviews/ratings';
 
 const DIRECTUS_URL = process.env.NEXT_PUBLIC_DIRECTUS_URL || 'https://admin.buyjan.com';
 const API_TOKEN = process.env.DIRECTUS_API_TOKEN || process.env.NEXT_PUBLIC_DIRECTUS_API_TOKEN;
@@ -42,6 +43,12 @@ export async function PATCH(
 
         console.log('[Reviews API] Successfully updated review:', reviewId);
 
+        // Publishing, unpublishing or re-rating changes the product's rating
+        const productId = toProductId(updatedReview.product);
+        if (productId && ('rating' in body || 'status' in body)) {
+            await refreshProductRating(productId);
+        }
+
         return NextResponse.json({ data: updatedReview });
     } catch (error: any) {
         console.error('[Reviews API] Error updating review:', error.message);
@@ -77,6 +84,9 @@ export async function DELETE(
 
         console.log('[Reviews API] Deleting review:', reviewId);
 
+        // Looked up first - once deleted, the review no longer says whose it was
+        const productId = await findReviewProductId(reviewId);
+
         const response = await axios.delete(
             `${DIRECTUS_URL}/items/product_reviews/${reviewId}`,
             {
@@ -88,6 +98,10 @@ export async function DELETE(
 
         console.log('[Reviews API] Successfully deleted review:', reviewId);
 
+        if (productId) {
+            await refreshProductRating(productId);
+        }
+
         return NextResponse.json({ data: { success: true } });
     } catch (error: any) {
         console.error('[Reviews API] Error deleting review:', error.message);
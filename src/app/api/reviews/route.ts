@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
+import { isPublishedReview, refreshProductRating } from '@/lib/reviews/ratings';
 
 const DIRECTUS_URL = process.env.NEXT_PUBLIC_DIRECTUS_URL || 'https://admin.buyjan.com';
 const API_TOKEN = process.env.DIRECTUS_API_TOKEN || process.env.NEXT_PUBLIC_DIRECTUS_API_TOKEN;
@@ -62,6 +63,11 @@ export async function POST(request: NextRequest) {
 
         console.log('[Reviews API] Successfully created review:', createdReview.id);
 
+        // Drafts don't count towards the product's rating until published
+        if (isPublishedReview(createdReview)) {
+            await refreshProductRating(body.product);
+        }
+
         return NextResponse.json(
             { data: createdReview },
             { status: 201 }
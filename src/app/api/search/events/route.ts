@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RateLimiter } from '@/lib/rateLimit';
+import { recordSearchEvent } from '@/lib/search/analytics';
+
+interface SearchClickData {
+    query?: string;
+    locale?: string;
+    result_type?: string;
+    result_id?: string | number;
+    result_count?: number;
+}
+
+// About a click a second per IP, at most 20 in a row; the IP is only used here, never stored
+const clickLimiter = new RateLimiter({
+    requestsPerSecond: 1,
+    burst: 20,
+    windowSize: 60 * 1000,
+});
+
+/**
+ * POST /api/search/events
+ * Log a click on a search suggestion. Searches themselves are logged by the
+ * search page, where their result count is known.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const clientKey = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'anonymous';
+        if (!clickLimiter.isAllowed(clientKey)) {
+            return NextResponse.json(
+                { error: 'Too many requests', code: 'RATE_LIMITED' },
+                { status: 429 }
+            );
+        }
+
+        const body = (await request.json().catch(() => null)) as SearchClickData | null;
+
+        if (
+            !body ||
+            typeof body.query !== 'string' ||
+            (body.result_type !== 'product' && body.result_type !== 'category') ||
+            !body.result_id
+        ) {
+            return NextResponse.json(
+                { error: 'query, result_type and result_id are required', code: 'INVALID_EVENT' },
+                { status: 400 }
+            );
+        }
+
+        await recordSearchEvent({
+            query: body.query,
+            locale: body.locale === 'en' ? 'en' : 'ar',
+            event: 'click',
+            result_count: Math.max(0, Math.floor(Number(body.result_count) || 0)),
+            result_type: body.result_type,
+            result_id: String(body.result_id),
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[Search Events API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to record search event' },
+            { status: 500 }
+        );
+    }
+}
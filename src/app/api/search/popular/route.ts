@@ -1,28 +1,23 @@
-import { NextResponse } from 'next/server';
-import { getDirectusClient } from '@/lib/api/directus';
-import { readItems } from '@directus/sdk';
+import { NextRequest, NextResponse } from 'next/server';
+import { Locale } from '@/types';
+import { getPopularSearches } from '@/lib/search/analytics';
 
-export async function GET() {
-    try {
-        const client = await getDirectusClient();
+const DEFAULT_LIMIT = 6;
+const MAX_LIMIT = 20;
 
-        try {
-            const categories = await (client as any).request(
-                (readItems as any)('categiries', {
-                    fields: ['name'],
-                    limit: 6,
-                })
-            ) as any[];
+/**
+ * GET /api/search/popular?locale=ar|en&limit=6
+ * Most searched queries in a locale over a rolling window (see lib/search/analytics)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const searchParams = request.nextUrl.searchParams;
+        const locale: Locale = searchParams.get('locale') === 'en' ? 'en' : 'ar';
+        const limit = Math.min(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, MAX_LIMIT);
 
-            const results = (categories || []).map(cat => cat.name).filter(Boolean);
-            return NextResponse.json(results);
-        } catch (searchError) {
-            console.error('[Popular Search API] Error fetching categories:', searchError);
-            // Return empty array on error
-            return NextResponse.json([]);
-        }
+        return NextResponse.json(await getPopularSearches(locale, limit));
     } catch (error) {
         console.error('[Popular Search API] Error:', error);
         return NextResponse.json([], { status: 500 });
     }
-}
\ No newline at end of file
+}
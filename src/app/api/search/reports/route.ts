@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Locale } from '@/types';
+import { getSearchReport } from '@/lib/search/analytics';
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 90;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function parseBounded(value: string | null, fallback: number, max: number): number {
+    const number = parseInt(value || '', 10);
+    return Number.isFinite(number) && number > 0 ? Math.min(number, max) : fallback;
+}
+
+/**
+ * GET /api/search/reports?days=7&locale=ar|en&limit=20
+ * Trending and zero-result search queries (staff only - the caller's token
+ * is forwarded so Directus permissions on search_queries decide)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const authHeader = request.headers.get('Authorization');
+        if (!authHeader) {
+            return NextResponse.json(
+                { error: 'Unauthorized', message: 'No authentication token provided' },
+                { status: 401 }
+            );
+        }
+
+        const searchParams = request.nextUrl.searchParams;
+        const locale = searchParams.get('locale');
+
+        const report = await getSearchReport({
+            days: parseBounded(searchParams.get('days'), DEFAULT_DAYS, MAX_DAYS),
+            locale: locale === 'ar' || locale === 'en' ? (locale as Locale) : null,
+            limit: parseBounded(searchParams.get('limit'), DEFAULT_LIMIT, MAX_LIMIT),
+        }, authHeader);
+
+        return NextResponse.json({ data: report }, { status: 200 });
+    } catch (error: any) {
+        const status = error.response?.status;
+        if (status === 401 || status === 403) {
+            return NextResponse.json(
+                { error: 'Forbidden', message: 'Not allowed to read search reports' },
+                { status: 403 }
+            );
+        }
+
+        console.error('[Search Reports API] Failed to build report:', error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Failed to build search report' },
+            { status: 500 }
+        );
+    }
+}
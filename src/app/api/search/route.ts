@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDirectusClient } from '@/lib/api/directus';
-import { readItems } from '@directus/sdk';
-import { processDirectusImage } from '@/lib/api/directus-config';
+import { Locale } from '@/types';
+import { searchCatalog, SearchHit } from '@/lib/search/catalog';
+import { facetedSearch, parseSearchOptions, SearchFacets } from '@/lib/search/facets';
 
 export interface SearchResponse {
     id: string;
@@ -11,104 +11,101 @@ export interface SearchResponse {
     image?: string;
 }
 
+export interface SearchProductResponse extends SearchResponse {
+    name_ar?: string;
+    price?: number;
+    in_stock?: boolean;
+    rating?: number;
+    category?: string;
+    brand?: string;
+}
+
+export interface FacetedSearchResponse {
+    products: SearchProductResponse[];
+    categories: SearchResponse[];
+    facets: SearchFacets | null;
+    meta: {
+        total: number;
+        page: number;
+        limit: number;
+        total_pages: number;
+    };
+}
+
+const CATEGORY_LIMIT = 3;
+
+function toSearchResponse(hit: SearchHit): SearchResponse {
+    return {
+        id: hit.item_id,
+        name: hit.name,
+        type: hit.type,
+        slug: hit.slug,
+        image: hit.image,
+    };
+}
+
+function toProductResponse(hit: SearchHit): SearchProductResponse {
+    return {
+        ...toSearchResponse(hit),
+        name_ar: hit.name_ar,
+        price: hit.price,
+        in_stock: hit.in_stock,
+        rating: hit.rating,
+        category: hit.category_slug,
+        brand: hit.brand_slug,
+    };
+}
+
+/**
+ * GET /api/search?q=<query>&type=all|products|categories
+ * Search the catalog index (see lib/search/catalog).
+ *
+ * Products can be filtered, sorted and paged (see parseSearchOptions):
+ * category, brand, min_price, max_price, rating, in_stock, sort, page, limit
+ * and locale (for name sorting). The response has the page of products,
+ * up to 3 matching categories, and facet counts over all matching products.
+ */
 export async function GET(request: NextRequest) {
     try {
         const searchParams = request.nextUrl.searchParams;
         const query = searchParams.get('q')?.trim();
         const type = searchParams.get('type') || 'all'; // 'all', 'products', 'categories'
+        const locale: Locale = searchParams.get('locale') === 'en' ? 'en' : 'ar';
+        const options = parseSearchOptions(searchParams);
+
+        const empty: FacetedSearchResponse = {
+            products: [],
+            categories: [],
+            facets: null,
+            meta: { total: 0, page: options.page, limit: options.limit, total_pages: 0 },
+        };
 
         if (!query || query.length < 2) {
             console.log('[Search API] Query too short:', query);
-            return NextResponse.json([]);
+            return NextResponse.json(empty);
         }
 
         console.log('[Search API] Searching for:', query, 'type:', type);
 
-        const client = await getDirectusClient();
-        const directusUrl = process.env.NEXT_PUBLIC_DIRECTUS_URL || 'https://admin.buyjan.com';
-        const results: SearchResponse[] = [];
-
-        try {
-            // Search products
-            if (type === 'all' || type === 'products') {
-                console.log('[Search API] Searching products for:', query);
-                try {
-                    const products = await (client as any).request(
-                        (readItems as any)('products', {
-                            filter: {
-                                _or: [
-                                    { name: { _contains: query } },
-                                    { name_ar: { _contains: query } },
-                                    { description: { _contains: query } },
-                                    { description_ar: { _contains: query } },
-                                    { slug: { _contains: query } },
-                                ]
-                            },
-                            fields: ['id', 'name', 'name_ar', 'slug', 'main_image'],
-                            limit: 5,
-                        })
-                    ) as any[];
-
-                    console.log('[Search API] Found', products?.length || 0, 'products');
-
-                    (products || []).forEach(product => {
-                        results.push({
-                            id: product.id,
-                            name: product.name || product.name_ar,
-                            type: 'product',
-                            slug: product.slug,
-                            image: product.main_image ? processDirectusImage(directusUrl, product.main_image)?.url : undefined,
-                        });
-                    });
-                } catch (productError) {
-                    console.error('[Search API] Error searching products:', productError);
-                }
-            }
-
-            // Search categories
-            if (type === 'all' || type === 'categories') {
-                console.log('[Search API] Searching categories for:', query);
-                try {
-                    const categories = await (client as any).request(
-                        (readItems as any)('categiries', {
-                            filter: {
-                                _or: [
-                                    { name: { _contains: query } },
-                                    { name_ar: { _contains: query } },
-                                    { description: { _contains: query } },
-                                    { description_ar: { _contains: query } },
-                                    { slug: { _contains: query } },
-                                ]
-                            },
-                            fields: ['id', 'name', 'name_ar', 'slug', 'image'],
-                            limit: 3,
-                        } as any)
-                    ) as any[];
-
-                    console.log('[Search API] Found', categories?.length || 0, 'categories');
-
-                    (categories || []).forEach(category => {
-                        results.push({
-                            id: category.id,
-                            name: category.name || category.name_ar,
-                            type: 'category',
-                            slug: category.slug,
-                            image: category.image ? processDirectusImage(directusUrl, category.image)?.url : undefined,
-                        });
-                    });
-                } catch (categoryError) {
-                    console.error('[Search API] Error searching categories:', categoryError);
-                }
-            }
-
-            console.log('[Search API] Returning', results.length, 'total results');
-        } catch (searchError) {
-            console.error('[Search API] Error performing search:', searchError);
-            // Return empty results on search error instead of crashing
-            return NextResponse.json([]);
-        }
+        const [productHits, categoryHits] = await Promise.all([
+            type === 'all' || type === 'products' ? searchCatalog(query, { type: 'product' }) : null,
+            type === 'all' || type === 'categories'
+                ? searchCatalog(query, { type: 'category', limit: CATEGORY_LIMIT })
+                : [],
+        ]);
+
+        const products = productHits ? facetedSearch(productHits, options, locale) : null;
 
-        return NextResponse.json(results);
+        const response: FacetedSearchResponse = {
+            products: products ? products.hits.map(toProductResponse) : [],
+            categories: categoryHits.map(toSearchResponse),
+            facets: products ? products.facets : null,
+            meta: products ? products.meta : empty.meta,
+        };
+
+        console.log('[Search API] Returning', response.products.length, 'of', response.meta.total, 'products and', response.categories.length, 'categories');
+
+        return NextResponse.json(response);
     } catch (error) {
         console.error('[Search API] Fatal error:', error);
 
@@ -120,4 +117,4 @@ export async function GET(request: NextRequest) {
 
         return NextResponse.json(errorResponse, { status: 500 });
     }
-}
\ No newline at end of file
+}
@@ -1,261 +1,262 @@
 /**
  * PayPal Webhook Handler
- * 
- * Receives and processes PayPal Instant Payment Notifications (IPN)
- * Validates webhook signatures and updates order status based on payment events
- * 
+ *
+ * Receives PayPal webhook events, verifies them with PayPal's
+ * verify-webhook-signature API and updates order payment state.
+ * Events are recorded in webhook_events so retried deliveries are only
+ * processed once.
+ *
  * Webhook events handled:
  * - CHECKOUT.ORDER.APPROVED
- * - CHECKOUT.ORDER.COMPLETED
  * - PAYMENT.CAPTURE.COMPLETED
  * - PAYMENT.CAPTURE.REFUNDED
  * - PAYMENT.CAPTURE.DENIED
- * 
+ *
  * @route POST /api/webhooks/paypal
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
+import { Order } from '@/types/collections';
+import {
+    PayPalWebhookEvent,
+    verifyWebhookSignature,
+    getWebhookOrderId,
+    getWebhookCaptureId,
+} from '@/lib/paypal/webhooks';
+import { claimWebhookEvent, completeWebhookEvent, failWebhookEvent } from '@/lib/paypal/webhook-events';
+import { capturePayPalOrder } from '@/lib/paypal/capture-order';
+import { checkStock } from '@/lib/inventory/reservations';
+import {
+    fetchOrderStockLines,
+    findOrderById,
+    findOrderByPaymentReference,
+    getExpectedAmount,
+    markOrderPaid,
+    markOrderPaymentFailed,
+} from '@/lib/orders/payment';
+import { recordPayPalRefund } from '@/lib/orders/refunds';
+import { getPayPalChargeFields, recordPaymentTransaction } from '@/lib/orders/transactions';
 
 /**
- * Verify PayPal webhook signature
- * This is critical for security - ensures the webhook came from PayPal
+ * Find the order an event belongs to
+ * Uses the order ID carried in custom_id, falling back to the stored PayPal references
  */
-function verifyWebhookSignature(
-    webhookBody: string,
-    webhookId: string,
-    eventBody: any,
-    cert: string
-): boolean {
-    try {
-        // Construct the expected signature string
-        const expectedSig = crypto
-            .createHmac('sha256', cert)
-            .update(webhookBody)
-            .digest('base64');
-
-        // Compare with transmitted signature
-        const transmittedSig = eventBody['webhook_signature'];
-
-        // Use constant-time comparison to prevent timing attacks
-        return crypto.timingSafeEqual(
-            Buffer.from(expectedSig),
-            Buffer.from(transmittedSig || '')
-        );
-    } catch (error) {
-        console.error('[PayPal Webhook] Signature verification failed:', error);
-        return false;
+async function resolveOrder(event: PayPalWebhookEvent, reference?: string | null): Promise<Order | null> {
+    const orderId = getWebhookOrderId(event);
+    if (orderId) {
+        const order = await findOrderById(orderId);
+        if (order) {
+            return order;
+        }
     }
+
+    return reference ? findOrderByPaymentReference(reference) : null;
 }
 
 /**
- * Verify webhook authenticity with PayPal
- * For production, verify with PayPal API
+ * Handle order approved event
+ * Captures the payment if the shopper approved it but never returned to the shop,
+ * unless the items ran out meanwhile - then the order is cancelled unpaid
  */
-async function verifyWebhookAuthenticity(eventId: string): Promise<boolean> {
-    try {
-        // In production, you would verify with PayPal API:
-        // POST https://api.paypal.com/v1/notifications/verify-webhook-signature
-        // with the event data
-
-        // For now, we use signature verification as primary security
-        // TODO: Implement PayPal API verification for production
-
-        console.log('[PayPal Webhook] Webhook event:', eventId);
-        return true;
-    } catch (error) {
-        console.error('[PayPal Webhook] Authenticity verification failed:', error);
-        return false;
+async function handleOrderApproved(event: PayPalWebhookEvent): Promise<void> {
+    const paypalOrderId = event.resource?.id;
+    const order = await resolveOrder(event, paypalOrderId);
+
+    if (!order) {
+        console.warn('[PayPal Webhook] No order for approved PayPal order:', paypalOrderId);
+        return;
     }
-}
 
-/**
- * Handle payment completion event
- */
-async function handlePaymentCompleted(eventData: any): Promise<void> {
-    try {
-        const { resource } = eventData;
-        const transactionId = resource?.id;
-        const paymentStatus = resource?.status;
-        const orderId = resource?.custom_id || resource?.reference_id;
-
-        console.log('[PayPal Webhook] Payment completed:', {
-            transactionId,
-            status: paymentStatus,
-            orderId,
-        });
-
-        // TODO: Update order payment_status in Directus
-        // Update order to payment_status: 'completed'
-
-        // Record transaction in payment_transactions collection
-        // await createPaymentTransaction({
-        //   order_id: orderId,
-        //   transaction_id: transactionId,
-        //   provider: 'paypal',
-        //   status: 'completed',
-        //   amount: resource?.amount?.value,
-        //   currency: resource?.amount?.currency_code,
-        //   payment_method: 'paypal',
-        //   timestamp: new Date(),
-        // });
-    } catch (error) {
-        console.error('[PayPal Webhook] Error handling payment completion:', error);
-        throw error;
+    if (order.payment_status !== 'pending' || order.status === 'cancelled') {
+        console.log('[PayPal Webhook] Approved order already settled:', order.order_number, order.status, order.payment_status);
+        return;
     }
+
+    const payer = event.resource?.payer || {};
+    await recordPaymentTransaction({
+        order: String(order.id),
+        provider: 'paypal',
+        type: 'authorization',
+        status: event.resource?.status || 'APPROVED',
+        provider_order_id: paypalOrderId,
+        provider_transaction_id: paypalOrderId,
+        ...getPayPalChargeFields(order, event.resource?.purchase_units?.[0]?.amount?.value),
+        payer_id: payer.payer_id || null,
+        payer_email: payer.email_address || null,
+    });
+
+    // Same check as the capture route: never take money for items that are gone
+    const shortages = await checkStock(await fetchOrderStockLines(String(order.id)), order.stock_reservation || undefined);
+    if (shortages.length > 0) {
+        console.warn('[PayPal Webhook] Not capturing approved order, not enough stock:', order.order_number, shortages);
+        await markOrderPaymentFailed(String(order.id), undefined, 'webhook');
+        return;
+    }
+
+    const { transactionDetails } = await capturePayPalOrder(paypalOrderId, getExpectedAmount(order));
+    await markOrderPaid(String(order.id), {
+        captureId: transactionDetails.transactionId,
+        paypalOrderId,
+        status: transactionDetails.status,
+        amountUSD: transactionDetails.amount,
+        payerId: transactionDetails.payerId,
+        payerEmail: transactionDetails.payerEmail,
+    }, 'webhook');
 }
 
 /**
- * Handle payment refund event
+ * Handle payment completion event
  */
-async function handlePaymentRefunded(eventData: any): Promise<void> {
-    try {
-        const { resource } = eventData;
-        const refundId = resource?.id;
-        const transactionId = resource?.links?.[0]?.href?.split('/')?.[1];
-        const refundAmount = resource?.amount?.value;
-        const orderId = resource?.custom_id;
-
-        console.log('[PayPal Webhook] Payment refunded:', {
-            refundId,
-            transactionId,
-            refundAmount,
-            orderId,
-        });
-
-        // TODO: Record refund in payment_refunds collection
-        // await createPaymentRefund({
-        //   order_id: orderId,
-        //   transaction_id: transactionId,
-        //   refund_id: refundId,
-        //   amount: refundAmount,
-        //   currency: resource?.amount?.currency_code,
-        //   status: 'completed',
-        //   reason: resource?.reason_code,
-        //   timestamp: new Date(),
-        // });
-
-        // Update order status to refunded
-        // await updateOrderStatus(orderId, 'refunded');
-    } catch (error) {
-        console.error('[PayPal Webhook] Error handling payment refund:', error);
-        throw error;
+async function handlePaymentCompleted(event: PayPalWebhookEvent): Promise<void> {
+    const captureId = getWebhookCaptureId(event);
+    const paypalOrderId = event.resource?.supplementary_data?.related_ids?.order_id;
+    const order = await resolveOrder(event, paypalOrderId || captureId);
+
+    if (!order || !captureId) {
+        throw new Error(`No order found for completed capture ${captureId}`);
     }
+
+    await markOrderPaid(String(order.id), {
+        captureId,
+        paypalOrderId,
+        status: event.resource?.status,
+        amountUSD: event.resource?.amount?.value,
+    }, 'webhook');
 }
 
 /**
  * Handle payment denial event
  */
-async function handlePaymentDenied(eventData: any): Promise<void> {
-    try {
-        const { resource } = eventData;
-        const transactionId = resource?.id;
-        const orderId = resource?.custom_id;
-
-        console.error('[PayPal Webhook] Payment denied:', {
-            transactionId,
-            orderId,
-            reason: resource?.status_details,
-        });
-
-        // TODO: Update order payment_status to failed
-        // await updateOrderPaymentStatus(orderId, 'failed');
-    } catch (error) {
-        console.error('[PayPal Webhook] Error handling payment denial:', error);
-        throw error;
+async function handlePaymentDenied(event: PayPalWebhookEvent): Promise<void> {
+    const captureId = getWebhookCaptureId(event);
+    const order = await resolveOrder(event, captureId);
+
+    console.warn('[PayPal Webhook] Payment denied:', {
+        captureId,
+        orderId: order?.id,
+        reason: event.resource?.status_details,
+    });
+
+    if (order) {
+        await markOrderPaymentFailed(String(order.id), captureId ? {
+            captureId,
+            paypalOrderId: event.resource?.supplementary_data?.related_ids?.order_id,
+            status: event.resource?.status,
+            amountUSD: event.resource?.amount?.value,
+        } : undefined, 'webhook');
     }
 }
 
 /**
- * Handle order approved event
+ * Handle payment refund event
  */
-async function handleOrderApproved(eventData: any): Promise<void> {
-    try {
-        const { resource } = eventData;
-        const paypalOrderId = resource?.id;
-        const customerId = resource?.custom_id;
-
-        console.log('[PayPal Webhook] Order approved:', {
-            paypalOrderId,
-            customerId,
-        });
-
-        // Optional: Track order approval for analytics
-    } catch (error) {
-        console.error('[PayPal Webhook] Error handling order approval:', error);
-        throw error;
+async function handlePaymentRefunded(event: PayPalWebhookEvent): Promise<void> {
+    const captureId = getWebhookCaptureId(event);
+    const order = await resolveOrder(event, captureId);
+
+    if (!order) {
+        throw new Error(`No order found for refunded capture ${captureId}`);
     }
+
+    await recordPayPalRefund(order, event.resource);
 }
 
 /**
  * Main webhook handler
  */
 export async function POST(request: NextRequest) {
+    // Keep the body as received - the signature is verified against these exact bytes
+    const rawBody = await request.text();
+    let event: PayPalWebhookEvent;
+    try {
+        event = JSON.parse(rawBody);
+    } catch {
+        return NextResponse.json(
+            { error: 'Invalid request format' },
+            { status: 400 }
+        );
+    }
+
+    const { id: eventId, event_type: eventType } = event || ({} as PayPalWebhookEvent);
+    if (!eventId || !eventType) {
+        return NextResponse.json(
+            { error: 'Invalid webhook event' },
+            { status: 400 }
+        );
+    }
+
+    console.log('[PayPal Webhook] Received event:', {
+        eventId,
+        eventType,
+        createTime: event.create_time,
+    });
+
+    const verified = await verifyWebhookSignature(request.headers, rawBody);
+    if (!verified) {
+        return NextResponse.json(
+            { error: 'Webhook verification failed' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const claimed = await claimWebhookEvent(eventId, eventType);
+        if (!claimed) {
+            return NextResponse.json(
+                { id: eventId, status: 'duplicate' },
+                { status: 200 }
+            );
+        }
+    } catch (error: any) {
+        console.error('[PayPal Webhook] Could not record event:', eventId, error.response?.data || error.message);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+
     try {
-        // Get webhook body as raw text for signature verification
-        const bodyText = await request.text();
-        const body = JSON.parse(bodyText);
-
-        const {
-            id: eventId,
-            event_type: eventType,
-            resource,
-            create_time: createTime,
-        } = body;
-
-        console.log('[PayPal Webhook] Received event:', {
-            eventId,
-            eventType,
-            createTime,
-        });
-
-        // Verify webhook authenticity
-        // In production, implement full PayPal signature verification
-        // const isAuthentic = await verifyWebhookAuthenticity(eventId);
-        // if (!isAuthentic) {
-        //   console.error('[PayPal Webhook] Webhook authenticity verification failed');
-        //   return NextResponse.json({ verified: false }, { status: 401 });
-        // }
-
-        // Handle different event types
         switch (eventType) {
             case 'CHECKOUT.ORDER.APPROVED':
-                await handleOrderApproved(body);
+                await handleOrderApproved(event);
                 break;
 
             case 'PAYMENT.CAPTURE.COMPLETED':
-                await handlePaymentCompleted(body);
+                await handlePaymentCompleted(event);
                 break;
 
             case 'PAYMENT.CAPTURE.REFUNDED':
-                await handlePaymentRefunded(body);
+                await handlePaymentRefunded(event);
                 break;
 
             case 'PAYMENT.CAPTURE.DENIED':
-                await handlePaymentDenied(body);
+                await handlePaymentDenied(event);
                 break;
 
             default:
                 console.log('[PayPal Webhook] Unhandled event type:', eventType);
         }
 
+        await completeWebhookEvent(eventId);
+
         // Acknowledge receipt to PayPal (must respond within 5 seconds)
         return NextResponse.json(
             {
                 id: eventId,
-                status: 'received',
+                status: 'processed',
             },
             { status: 200 }
         );
-    } catch (error) {
-        console.error('[PayPal Webhook] Error processing webhook:', error);
+    } catch (error: any) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('[PayPal Webhook] Error processing event:', eventId, error.response?.data || message);
+        await failWebhookEvent(eventId, message);
 
-        // Still acknowledge to PayPal to prevent retries
-        // Only return 500 for critical errors
+        // A non-2xx response makes PayPal deliver the event again
         return NextResponse.json(
             {
                 error: 'Internal server error',
-                message: error instanceof Error ? error.message : 'Unknown error',
+                message,
             },
             { status: 500 }
         );
@@ -274,4 +275,4 @@ export async function GET(request: NextRequest) {
         },
         { status: 200 }
     );
-}
\ No newline at end of file
+}
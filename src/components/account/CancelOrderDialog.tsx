@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { cancelOrder } from '@/lib/api/orders';
+import { Order } from '@/types/collections';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { AlertCircle } from 'lucide-react';
+
+const CANCELLATION_REASONS = ['changed_mind', 'ordered_by_mistake', 'found_better_price', 'delivery_too_slow', 'other'] as const;
+type CancellationReason = typeof CANCELLATION_REASONS[number];
+
+interface CancelOrderDialogProps {
+    order: Order;
+    accessToken: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onCancelled: (order: Order) => void;
+}
+
+/**
+ * Asks the customer why they are cancelling and cancels the order
+ */
+export default function CancelOrderDialog({ order, accessToken, open, onOpenChange, onCancelled }: CancelOrderDialogProps) {
+    const t = useTranslations();
+    const [reason, setReason] = useState<CancellationReason | null>(null);
+    const [details, setDetails] = useState('');
+    const [isCancelling, setIsCancelling] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const isPaid = order.payment_status === 'completed' || order.payment_status === 'partially_refunded';
+    // Preset reasons are sent as their code; "other" sends what the customer wrote
+    const reasonText = reason === 'other' ? details.trim() : reason;
+
+    const handleCancel = async () => {
+        if (!reasonText) return;
+
+        try {
+            setIsCancelling(true);
+            setError(null);
+            const cancelled = await cancelOrder(String(order.id), reasonText, accessToken);
+            onCancelled(cancelled);
+            onOpenChange(false);
+        } catch (err: any) {
+            const code = err?.response?.data?.code;
+            setError(
+                code === 'NOT_CANCELLABLE'
+                    ? t('orders.cancel_not_allowed')
+                    : code === 'REFUND_FAILED' ? t('orders.cancel_refund_failed') : t('orders.cancel_failed')
+            );
+        } finally {
+            setIsCancelling(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(next) => !isCancelling && onOpenChange(next)}>
+            <DialogContent className="sm:max-w-md bg-white">
+                <DialogHeader>
+                    <DialogTitle>{t('orders.cancel_title', { number: order.order_number })}</DialogTitle>
+                    <DialogDescription>
+                        {isPaid ? t('orders.cancel_refund_note') : t('orders.cancel_description')}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <fieldset className="space-y-2" disabled={isCancelling}>
+                    <legend className="text-sm font-medium text-gray-700 mb-2">{t('orders.cancel_reason')}</legend>
+                    {CANCELLATION_REASONS.map((option) => (
+                        <label key={option} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                            <input
+                                type="radio"
+                                name="cancellation-reason"
+                                value={option}
+                                checked={reason === option}
+                                onChange={() => setReason(option)}
+                                className="accent-gold"
+                            />
+                            {t(`orders.cancel_reasons.${option}`)}
+                        </label>
+                    ))}
+                    {reason === 'other' && (
+                        <textarea
+                            value={details}
+                            onChange={(e) => setDetails(e.target.value)}
+                            maxLength={500}
+                            rows={3}
+                            placeholder={t('orders.cancel_details_placeholder')}
+                            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+                        />
+                    )}
+                </fieldset>
+
+                {error && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 flex items-start gap-2">
+                        <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                <DialogFooter className="gap-2">
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCancelling}>
+                        {t('orders.keep_order')}
+                    </Button>
+                    <Button variant="destructive" onClick={handleCancel} disabled={isCancelling || !reasonText}>
+                        {isCancelling ? t('orders.cancelling') : t('orders.confirm_cancel')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -2,10 +2,15 @@
 
 import React, { useEffect, useState } from 'react';
 import { useTranslations, useLocale } from 'next-intl';
-import { getOrder } from '@/lib/api/orders';
-import { Order } from '@/types/collections';
-import { Package, MapPin, CreditCard, Truck, Download, Copy, Phone, Mail, MessageSquare, RotateCcw, AlertCircle, CheckCircle, Clock } from 'lucide-react';
+import { downloadOrderInvoice, getCancellationBlocker, getOrder, getStatusReachedDates } from '@/lib/api/orders';
+import { getReturnableQuantities, isOrderReturnable, RETURN_STEPS } from '@/lib/api/returns';
+import { getOrderItemName } from '@/lib/api/reorder';
+import { Order, OrderStatus, ReturnRequest, ReturnStatus } from '@/types/collections';
+import { Package, MapPin, CreditCard, Truck, Download, Copy, Phone, Mail, MessageSquare, RotateCcw, AlertCircle, CheckCircle, Clock, XCircle, Undo2 } from 'lucide-react';
 import { formatOMR } from '@/lib/currency';
+import { useReorder } from '@/hooks/useReorder';
+import CancelOrderDialog from './CancelOrderDialog';
+import ReturnRequestDialog from './ReturnRequestDialog';
 
 interface OrderDetailsProps {
     orderId: string;
@@ -19,6 +24,11 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [copiedTracking, setCopiedTracking] = useState(false);
+    const [downloadingInvoice, setDownloadingInvoice] = useState(false);
+    const [invoiceError, setInvoiceError] = useState<string | null>(null);
+    const { reorderOrder, isReordering, error: reorderError } = useReorder(accessToken, locale);
+    const [cancelOpen, setCancelOpen] = useState(false);
+    const [returnOpen, setReturnOpen] = useState(false);
 
     useEffect(() => {
         const fetchOrder = async () => {
@@ -43,6 +53,27 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
         setTimeout(() => setCopiedTracking(false), 2000);
     };
 
+    const handleDownloadInvoice = async (orderNumber: string) => {
+        try {
+            setDownloadingInvoice(true);
+            setInvoiceError(null);
+            const pdf = await downloadOrderInvoice(orderId, accessToken);
+
+            const url = URL.createObjectURL(pdf);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `invoice-${orderNumber}.pdf`;
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+            URL.revokeObjectURL(url);
+        } catch {
+            setInvoiceError(t('orders.invoice_failed'));
+        } finally {
+            setDownloadingInvoice(false);
+        }
+    };
+
     if (loading) {
         return (
             <div className="space-y-4">
@@ -66,7 +97,7 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
     }
 
     const getStatusTimeline = () => {
-        const statuses: Array<{ status: string; label: string; description: string }> = [
+        const statuses: Array<{ status: OrderStatus; label: string; description: string }> = [
             { status: 'pending', label: t('orders.order_placed'), description: t('orders.order_placed') },
             { status: 'confirmed', label: t('orders.confirmed'), description: t('orders.payment_confirmed') },
             { status: 'processing', label: t('orders.processing'), description: t('orders.preparing_shipment') },
@@ -74,11 +105,28 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
             { status: 'delivered', label: t('orders.delivered'), description: t('orders.order_delivered') },
         ];
 
-        const currentIndex = statuses.findIndex(s => s.status === order.status);
-        return statuses.map((s, idx) => ({
+        // Dates come from the status history; orders from before it only know when they were placed
+        const reachedAt = getStatusReachedDates(order.history || []);
+        reachedAt.pending = reachedAt.pending || order.created_at;
+
+        // A cancelled or refunded order shows the steps it went through, then how it ended
+        const steps = order.status === 'cancelled' || order.status === 'refunded'
+            ? [
+                ...statuses.filter((s) => reachedAt[s.status]),
+                {
+                    status: order.status,
+                    label: t(`orders.${order.status}`),
+                    description: order.status === 'cancelled' ? t('orders.order_was_cancelled') : t('orders.order_was_refunded'),
+                },
+            ]
+            : statuses;
+
+        const currentIndex = steps.findIndex(s => s.status === order.status);
+        return steps.map((s, idx) => ({
             ...s,
             active: idx <= currentIndex,
             current: idx === currentIndex,
+            date: idx <= currentIndex ? reachedAt[s.status] : undefined,
         }));
     };
 
@@ -91,6 +139,10 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
                 return <Truck className="w-6 h-6" />;
             case 'processing':
                 return <Package className="w-6 h-6" />;
+            case 'cancelled':
+                return <XCircle className="w-6 h-6" />;
+            case 'refunded':
+                return <RotateCcw className="w-6 h-6" />;
             case 'pending':
             default:
                 return <Clock className="w-6 h-6" />;
@@ -110,6 +162,38 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
         return colors[status] || { bg: 'bg-gray-100', text: 'text-gray-800' };
     };
 
+    /**
+     * Steps of a return with when each was reached; a rejected return ends at the
+     * step it was rejected from
+     */
+    const getReturnSteps = (ret: ReturnRequest) => {
+        const reachedAt: Partial<Record<ReturnStatus, string | null | undefined>> = {
+            requested: ret.date_created,
+            approved: ret.approved_at,
+            received: ret.received_at,
+            rejected: ret.resolved_at,
+            refunded: ret.resolved_at,
+            exchanged: ret.resolved_at,
+        };
+        const steps: ReturnStatus[] = ret.status === 'rejected'
+            ? [...RETURN_STEPS.filter((status) => status === 'requested' || reachedAt[status]), 'rejected']
+            : [...RETURN_STEPS, ret.resolution === 'exchange' ? 'exchanged' : 'refunded'];
+
+        const currentIndex = steps.indexOf(ret.status);
+        return steps.map((status, idx) => ({
+            status,
+            active: idx <= currentIndex,
+            date: idx <= currentIndex ? reachedAt[status] : null,
+        }));
+    };
+
+    const returns = order.returns || [];
+    const canReturn = isOrderReturnable(order)
+        && Object.values(getReturnableQuantities(order.items || [], returns)).some((quantity) => quantity > 0);
+
+    const refunds = (order.refunds || []).filter((refund) => refund.status !== 'failed');
+    const refundedAmount = refunds.reduce((sum, refund) => sum + (Number(refund.amount) || 0), 0);
+
     const timeline = getStatusTimeline();
     const statusColor = getStatusBadgeColor(order.status);
 
@@ -128,6 +212,11 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
                                     ✓ {t('orders.paid')}
                                 </div>
                             )}
+                            {order.payment_status === 'partially_refunded' && (
+                                <div className="bg-amber-100 text-amber-800 px-3 py-1 rounded-full text-xs md:text-sm font-semibold">
+                                    ↩ {t('orders.partially_refunded')}
+                                </div>
+                            )}
                         </div>
                         <h2 className="text-xl md:text-3xl font-bold text-gray-900 mb-1 break-words">
                             {t('orders.order_number')}{order.order_number}
@@ -142,15 +231,53 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
                             {formatOMR(order.total, locale as 'ar' | 'en')}
                         </p>
                         <div className="flex flex-col sm:flex-row gap-2 md:justify-end">
-                            <button className="px-3 md:px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition flex items-center justify-center gap-2 font-medium text-sm flex-1 sm:flex-none">
-                                <Download className="w-4 h-4" />
-                                <span className="hidden sm:inline">{t('orders.invoice')}</span>
+                            <button
+                                onClick={() => handleDownloadInvoice(order.order_number)}
+                                disabled={downloadingInvoice}
+                                className="px-3 md:px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition flex items-center justify-center gap-2 font-medium text-sm flex-1 sm:flex-none disabled:opacity-60 disabled:cursor-wait"
+                            >
+                                <Download className={`w-4 h-4 ${downloadingInvoice ? 'animate-pulse' : ''}`} />
+                                <span className="hidden sm:inline">
+                                    {downloadingInvoice ? t('orders.downloading_invoice') : t('orders.invoice')}
+                                </span>
                             </button>
-                            <button className="px-3 md:px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition flex items-center justify-center gap-2 font-medium text-sm flex-1 sm:flex-none">
-                                <RotateCcw className="w-4 h-4" />
-                                <span className="hidden sm:inline">{t('orders.reorder')}</span>
+                            <button
+                                onClick={() => reorderOrder(orderId)}
+                                disabled={isReordering}
+                                className="px-3 md:px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition flex items-center justify-center gap-2 font-medium text-sm flex-1 sm:flex-none disabled:opacity-60 disabled:cursor-wait"
+                            >
+                                <RotateCcw className={`w-4 h-4 ${isReordering ? 'animate-spin' : ''}`} />
+                                <span className="hidden sm:inline">
+                                    {isReordering ? t('orders.reordering') : t('orders.reorder')}
+                                </span>
                             </button>
+                            {getCancellationBlocker(order) === null && (
+                                <button
+                                    onClick={() => setCancelOpen(true)}
+                                    className="px-3 md:px-4 py-2 bg-white border border-red-200 text-red-700 rounded-lg hover:bg-red-50 transition flex items-center justify-center gap-2 font-medium text-sm flex-1 sm:flex-none"
+                                >
+                                    <XCircle className="w-4 h-4" />
+                                    <span className="hidden sm:inline">{t('orders.cancel_order')}</span>
+                                </button>
+                            )}
+                            {canReturn && (
+                                <button
+                                    onClick={() => setReturnOpen(true)}
+                                    className="px-3 md:px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition flex items-center justify-center gap-2 font-medium text-sm flex-1 sm:flex-none"
+                                >
+                                    <Undo2 className="w-4 h-4" />
+                                    <span className="hidden sm:inline">{t('orders.return_items_button')}</span>
+                                </button>
+                            )}
                         </div>
+                        {invoiceError && (
+                            <p className="text-xs text-red-600 mt-2">{invoiceError}</p>
+                        )}
+                        {reorderError && (
+                            <p className="text-xs text-red-600 mt-2">
+                                {reorderError === 'none_available' ? t('orders.reorder_none_available') : t('orders.reorder_failed')}
+                            </p>
+                        )}
                     </div>
                 </div>
             </div>
@@ -188,6 +315,11 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
                                     <p className={`text-xs md:text-sm ${item.active ? 'text-gray-600' : 'text-gray-400'}`}>
                                         {item.description}
                                     </p>
+                                    {item.date && (
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            {new Date(item.date).toLocaleDateString()} {new Date(item.date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                        </p>
+                                    )}
                                     {item.current && item.status !== 'delivered' && (
                                         <div className="mt-2 inline-block px-3 py-1 bg-gold/10 text-gold text-xs font-semibold rounded-full">
                                             {t('orders.current_status')}
@@ -198,6 +330,52 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
                         ))}
                     </div>
                 </div>
+
+                {/* Returns */}
+                {returns.length > 0 && (
+                    <div className="mt-8 pt-6 border-t border-gray-200 space-y-6">
+                        {returns.map((ret) => (
+                            <div key={ret.id}>
+                                <div className="flex items-start justify-between gap-2 mb-3">
+                                    <div>
+                                        <h4 className="font-bold text-gray-900 text-sm md:text-base flex items-center gap-2">
+                                            <Undo2 className="w-4 h-4 text-gold" />
+                                            {t('orders.return_number', { number: ret.return_number })}
+                                        </h4>
+                                        <p className="text-xs md:text-sm text-gray-600 mt-1">
+                                            {(ret.items || []).map((line) => {
+                                                const item = order.items?.find((orderItem) => String(orderItem.id) === String(line.order_item));
+                                                return `${item ? getOrderItemName(item, locale) : t('orders.product')} ×${line.quantity}`;
+                                            }).join(locale === 'ar' ? '، ' : ', ')}
+                                        </p>
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            {t(`orders.return_reasons.${ret.reason}`)} · {t(`orders.return_resolutions.${ret.resolution}`)}
+                                        </p>
+                                    </div>
+                                </div>
+                                <ol className="flex flex-wrap gap-x-4 gap-y-2">
+                                    {getReturnSteps(ret).map((step) => (
+                                        <li key={step.status} className="flex items-center gap-2 text-xs md:text-sm">
+                                            <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${step.active
+                                                ? step.status === 'rejected' ? 'bg-red-500' : 'bg-green-500'
+                                                : 'bg-gray-300'
+                                                }`}></span>
+                                            <span className={step.active ? 'text-gray-900 font-medium' : 'text-gray-400'}>
+                                                {t(`orders.return_statuses.${step.status}`)}
+                                            </span>
+                                            {step.date && (
+                                                <span className="text-gray-500">{new Date(step.date).toLocaleDateString()}</span>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ol>
+                                {ret.staff_note && (
+                                    <p className="mt-2 text-xs md:text-sm text-gray-600 bg-gray-50 rounded-lg p-2 md:p-3">{ret.staff_note}</p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
             </div>
 
             {/* Order Items */}
@@ -279,6 +457,12 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
                             <p className="font-bold text-gray-900">{t('orders.total')}</p>
                             <p className="text-lg md:text-xl font-bold text-gold">{formatOMR(order.total, locale as 'ar' | 'en')}</p>
                         </div>
+                        {refundedAmount > 0 && (
+                            <div className="flex justify-between text-amber-700">
+                                <p>{t('orders.total_refunded')}</p>
+                                <p className="font-semibold">-{formatOMR(refundedAmount, locale as 'ar' | 'en')}</p>
+                            </div>
+                        )}
                     </div>
                 </div>
 
@@ -314,6 +498,47 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
                 )}
             </div>
 
+            {/* Refund History */}
+            {refunds.length > 0 && (
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 md:p-6">
+                    <h3 className="font-bold text-gray-900 mb-4 md:mb-6 flex items-center gap-2 text-base md:text-lg">
+                        <RotateCcw className="w-4 md:w-5 h-4 md:h-5 text-gold" />
+                        {t('orders.refund_history')}
+                    </h3>
+                    <div className="space-y-3">
+                        {refunds.map((refund) => (
+                            <div key={refund.id} className="bg-gray-50 rounded-lg p-3 md:p-4 text-xs md:text-sm">
+                                <div className="flex justify-between items-start gap-2">
+                                    <div>
+                                        <p className="font-semibold text-gray-900">
+                                            {refund.items?.length
+                                                ? refund.items.map((line) => {
+                                                    const item = order.items?.find((orderItem) => String(orderItem.id) === String(line.order_item));
+                                                    const name = locale === 'ar' && item?.product_name_ar ? item.product_name_ar : item?.product_name;
+                                                    return `${name || t('orders.product')} ×${line.quantity}`;
+                                                }).join(locale === 'ar' ? '، ' : ', ')
+                                                : t('orders.full_refund')}
+                                        </p>
+                                        {refund.date_created && (
+                                            <p className="text-gray-500 mt-1">{new Date(refund.date_created).toLocaleDateString()}</p>
+                                        )}
+                                        {refund.reason && (
+                                            <p className="text-gray-600 mt-1">{refund.reason}</p>
+                                        )}
+                                    </div>
+                                    <div className="text-right flex-shrink-0">
+                                        <p className="font-bold text-amber-700">-{formatOMR(refund.amount, locale as 'ar' | 'en')}</p>
+                                        <p className={`mt-1 ${refund.status === 'completed' ? 'text-green-600' : 'text-yellow-700'}`}>
+                                            {refund.status === 'completed' ? t('orders.refund_completed') : t('orders.refund_processing')}
+                                        </p>
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Shipping & Billing Addresses */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
                 {/* Shipping Address */}
@@ -405,6 +630,22 @@ export default function OrderDetails({ orderId, accessToken }: OrderDetailsProps
                     </button>
                 </div>
             )}
+
+            <CancelOrderDialog
+                order={order}
+                accessToken={accessToken}
+                open={cancelOpen}
+                onOpenChange={setCancelOpen}
+                onCancelled={(cancelled) => setOrder((current) => current && { ...current, ...cancelled })}
+            />
+
+            <ReturnRequestDialog
+                order={order}
+                accessToken={accessToken}
+                open={returnOpen}
+                onOpenChange={setReturnOpen}
+                onCreated={(created) => setOrder((current) => current && { ...current, returns: [...(current.returns || []), created] })}
+            />
         </div>
     );
 }
\ No newline at end of file
@@ -3,10 +3,11 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { useTranslations } from 'next-intl';
 import Link from 'next/link';
-import { getCustomerOrders } from '@/lib/api/orders';
+import { getCancellationBlocker, getCustomerOrders } from '@/lib/api/orders';
 import { Order, OrderStatus } from '@/types/collections';
-import { Package, ChevronRight, Search, Filter, Truck, RotateCcw, Download, TrendingUp } from 'lucide-react';
+import { Package, ChevronRight, Search, Filter, Truck, RotateCcw, Download, TrendingUp, XCircle } from 'lucide-react';
 import { formatOMR } from '@/lib/currency';
+import CancelOrderDialog from './CancelOrderDialog';
 
 interface OrdersListProps {
     customerId: string;
@@ -26,6 +27,7 @@ export default function OrdersList({ customerId, accessToken, locale }: OrdersLi
     const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
     const [sortBy, setSortBy] = useState<SortOption>('newest');
     const [showFilters, setShowFilters] = useState(false);
+    const [cancellingOrder, setCancellingOrder] = useState<Order | null>(null);
 
     useEffect(() => {
         const fetchOrders = async () => {
@@ -413,6 +415,15 @@ export default function OrdersList({ customerId, accessToken, locale }: OrdersLi
                                             <span className="hidden sm:inline">{t('orders.track')}</span>
                                         </button>
                                     )}
+                                    {getCancellationBlocker(order) === null && (
+                                        <button
+                                            onClick={() => setCancellingOrder(order)}
+                                            className="px-3 md:px-4 py-1 md:py-2 bg-white border border-red-200 text-red-700 rounded-lg hover:bg-red-50 font-medium transition text-xs md:text-sm flex items-center gap-1.5"
+                                        >
+                                            <XCircle className="w-3 md:w-4 h-3 md:h-4" />
+                                            <span className="hidden sm:inline">{t('orders.cancel_order')}</span>
+                                        </button>
+                                    )}
                                     {order.status === 'delivered' && (
                                         <button className="px-3 md:px-4 py-1 md:py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition text-xs md:text-sm flex items-center gap-1.5">
                                             <RotateCcw className="w-3 md:w-4 h-3 md:h-4" />
@@ -429,6 +440,18 @@ export default function OrdersList({ customerId, accessToken, locale }: OrdersLi
                     })}
                 </div>
             )}
+
+            {cancellingOrder && (
+                <CancelOrderDialog
+                    order={cancellingOrder}
+                    accessToken={accessToken}
+                    open
+                    onOpenChange={(open) => !open && setCancellingOrder(null)}
+                    onCancelled={(cancelled) => setOrders((current) => current.map((order) =>
+                        order.id === cancelled.id ? { ...order, ...cancelled } : order
+                    ))}
+                />
+            )}
         </div>
     );
 }
\ No newline at end of file
@@ -0,0 +1,237 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import {
+    createReturn,
+    getReturnableQuantities,
+    MAX_RETURN_DETAILS_LENGTH,
+    MAX_RETURN_PHOTO_BYTES,
+    MAX_RETURN_PHOTOS,
+    RETURN_REASONS,
+    RETURN_RESOLUTIONS,
+    RETURN_WINDOW_DAYS,
+} from '@/lib/api/returns';
+import { getOrderItemName } from '@/lib/api/reorder';
+import { Order, ReturnReason, ReturnRequest, ReturnResolution } from '@/types/collections';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, ImagePlus, X } from 'lucide-react';
+
+interface ReturnRequestDialogProps {
+    order: Order;
+    accessToken: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onCreated: (ret: ReturnRequest) => void;
+}
+
+/**
+ * Lets the customer pick delivered items to send back, say why, attach
+ * photos and choose a refund or an exchange
+ */
+export default function ReturnRequestDialog({ order, accessToken, open, onOpenChange, onCreated }: ReturnRequestDialogProps) {
+    const t = useTranslations();
+    const locale = useLocale();
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+    const [reason, setReason] = useState<ReturnReason | null>(null);
+    const [resolution, setResolution] = useState<ReturnResolution>('refund');
+    const [details, setDetails] = useState('');
+    const [photos, setPhotos] = useState<File[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const returnable = getReturnableQuantities(order.items || [], order.returns || []);
+    const returnableItems = (order.items || []).filter((item) => returnable[String(item.id)] > 0);
+    const lines = Object.entries(quantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([order_item, quantity]) => ({ order_item, quantity }));
+    const canSubmit = lines.length > 0 && reason !== null && (reason !== 'other' || details.trim() !== '');
+
+    const toggleItem = (itemId: string, checked: boolean) => {
+        setQuantities((current) => ({ ...current, [itemId]: checked ? returnable[itemId] : 0 }));
+    };
+
+    const handleAddPhotos = (files: FileList | null) => {
+        const added = Array.from(files || []);
+        if (added.some((file) => !file.type.startsWith('image/') || file.size > MAX_RETURN_PHOTO_BYTES)) {
+            setError(t('orders.return_invalid_photos', { max: MAX_RETURN_PHOTOS }));
+            return;
+        }
+        setError(null);
+        setPhotos((current) => [...current, ...added].slice(0, MAX_RETURN_PHOTOS));
+    };
+
+    const handleSubmit = async () => {
+        if (!canSubmit) return;
+
+        try {
+            setIsSubmitting(true);
+            setError(null);
+            const created = await createReturn(
+                {
+                    orderId: String(order.id),
+                    items: lines,
+                    reason: reason!,
+                    resolution,
+                    details: details.trim() || undefined,
+                    photos,
+                },
+                accessToken
+            );
+            onCreated(created);
+            onOpenChange(false);
+            setQuantities({});
+            setReason(null);
+            setDetails('');
+            setPhotos([]);
+        } catch (err: any) {
+            const code = err?.response?.data?.code;
+            setError(
+                code === 'NOT_RETURNABLE'
+                    ? t('orders.return_not_allowed')
+                    : code === 'INVALID_PHOTO' ? t('orders.return_invalid_photos', { max: MAX_RETURN_PHOTOS }) : t('orders.return_failed')
+            );
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(next) => !isSubmitting && onOpenChange(next)}>
+            <DialogContent className="sm:max-w-lg bg-white max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{t('orders.return_title', { number: order.order_number })}</DialogTitle>
+                    <DialogDescription>{t('orders.return_description', { days: RETURN_WINDOW_DAYS })}</DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-5">
+                    <fieldset className="space-y-2" disabled={isSubmitting}>
+                        <legend className="text-sm font-medium text-gray-700 mb-2">{t('orders.return_items')}</legend>
+                        {returnableItems.map((item) => {
+                            const itemId = String(item.id);
+                            const selected = (quantities[itemId] || 0) > 0;
+                            return (
+                                <div key={itemId} className="flex items-center justify-between gap-3 text-sm">
+                                    <label className="flex items-center gap-2 text-gray-700 cursor-pointer min-w-0">
+                                        <input
+                                            type="checkbox"
+                                            checked={selected}
+                                            onChange={(e) => toggleItem(itemId, e.target.checked)}
+                                            className="accent-gold"
+                                        />
+                                        <span className="truncate">{getOrderItemName(item, locale)}</span>
+                                    </label>
+                                    {selected && returnable[itemId] > 1 && (
+                                        <select
+                                            value={quantities[itemId]}
+                                            onChange={(e) => setQuantities((current) => ({ ...current, [itemId]: Number(e.target.value) }))}
+                                            aria-label={t('orders.qty')}
+                                            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                                        >
+                                            {Array.from({ length: returnable[itemId] }, (_, i) => i + 1).map((quantity) => (
+                                                <option key={quantity} value={quantity}>{quantity}</option>
+                                            ))}
+                                        </select>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </fieldset>
+
+                    <fieldset className="space-y-2" disabled={isSubmitting}>
+                        <legend className="text-sm font-medium text-gray-700 mb-2">{t('orders.return_reason')}</legend>
+                        {RETURN_REASONS.map((option) => (
+                            <label key={option} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    name="return-reason"
+                                    value={option}
+                                    checked={reason === option}
+                                    onChange={() => setReason(option)}
+                                    className="accent-gold"
+                                />
+                                {t(`orders.return_reasons.${option}`)}
+                            </label>
+                        ))}
+                        <textarea
+                            value={details}
+                            onChange={(e) => setDetails(e.target.value)}
+                            maxLength={MAX_RETURN_DETAILS_LENGTH}
+                            rows={3}
+                            placeholder={reason === 'other' ? t('orders.return_details_required') : t('orders.return_details_placeholder')}
+                            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+                        />
+                    </fieldset>
+
+                    <fieldset className="space-y-2" disabled={isSubmitting}>
+                        <legend className="text-sm font-medium text-gray-700 mb-2">{t('orders.return_photos')}</legend>
+                        <div className="flex flex-wrap gap-2">
+                            {photos.map((photo, index) => (
+                                <span key={`${photo.name}-${index}`} className="flex items-center gap-1 bg-gray-100 rounded-full px-3 py-1 text-xs text-gray-700">
+                                    <span className="max-w-[10rem] truncate">{photo.name}</span>
+                                    <button
+                                        type="button"
+                                        onClick={() => setPhotos((current) => current.filter((_, i) => i !== index))}
+                                        aria-label={t('orders.return_remove_photo')}
+                                    >
+                                        <X className="w-3 h-3" />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                        {photos.length < MAX_RETURN_PHOTOS && (
+                            <label className="inline-flex items-center gap-2 text-sm text-gold cursor-pointer">
+                                <ImagePlus className="w-4 h-4" />
+                                {t('orders.return_add_photos', { max: MAX_RETURN_PHOTOS })}
+                                <input
+                                    type="file"
+                                    accept="image/jpeg,image/png,image/webp,image/heic"
+                                    multiple
+                                    className="sr-only"
+                                    onChange={(e) => {
+                                        handleAddPhotos(e.target.files);
+                                        e.target.value = '';
+                                    }}
+                                />
+                            </label>
+                        )}
+                    </fieldset>
+
+                    <fieldset className="space-y-2" disabled={isSubmitting}>
+                        <legend className="text-sm font-medium text-gray-700 mb-2">{t('orders.return_resolution')}</legend>
+                        {RETURN_RESOLUTIONS.map((option) => (
+                            <label key={option} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    name="return-resolution"
+                                    value={option}
+                                    checked={resolution === option}
+                                    onChange={() => setResolution(option)}
+                                    className="accent-gold"
+                                />
+                                {t(`orders.return_resolutions.${option}`)}
+                            </label>
+                        ))}
+                    </fieldset>
+                </div>
+
+                {error && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 flex items-start gap-2">
+                        <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                <DialogFooter className="gap-2">
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                        {t('common.cancel')}
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={isSubmitting || !canSubmit}>
+                        {isSubmitting ? t('orders.return_submitting') : t('orders.return_submit')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -4,11 +4,12 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useTranslations } from 'next-intl';
 import { useCartStore } from '@/store/cart';
+import { useCartRevalidation } from '@/hooks/useCartRevalidation';
 import { formatOMR } from '@/lib/currency';
 import { Button } from '@/components/ui/button';
 import CartItem from './CartItem';
 import EmptyCart from './EmptyCart';
-import { X, ShoppingCart } from 'lucide-react';
+import { X, ShoppingCart, AlertCircle } from 'lucide-react';
 
 interface CartDrawerProps {
     isOpen: boolean;
@@ -21,6 +22,7 @@ export default function CartDrawer({ isOpen, onClose, locale }: CartDrawerProps)
     const items = useCartStore((state) => state.items);
     const getTotal = useCartStore((state) => state.getTotal);
     const getItemCount = useCartStore((state) => state.getItemCount);
+    const { notices, hasUnavailableItems } = useCartRevalidation(isOpen);
     const isArabic = locale === 'ar';
 
     const totals = getTotal();
@@ -75,8 +77,14 @@ export default function CartDrawer({ isOpen, onClose, locale }: CartDrawerProps)
                         <EmptyCart locale={locale} />
                     ) : (
                         <div className="space-y-4">
+                            {hasUnavailableItems && (
+                                <div className={`flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800 ${isArabic ? 'flex-row-reverse text-right' : 'text-left'}`}>
+                                    <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+                                    <span>{t('cart.unavailable_items_notice')}</span>
+                                </div>
+                            )}
                             {items.map((item) => (
-                                <CartItem key={item.id} item={item} locale={locale} />
+                                <CartItem key={item.id} item={item} locale={locale} notices={notices[item.id]} />
                             ))}
                         </div>
                     )}
@@ -123,11 +131,17 @@ export default function CartDrawer({ isOpen, onClose, locale }: CartDrawerProps)
                                     {t('cart.view_cart')}
                                 </Button>
                             </Link>
-                            <Link href={`/${locale}/checkout`} onClick={onClose} className="block">
-                                <Button className="w-full bg-green-600 hover:bg-green-700 text-white py-6 font-semibold">
+                            {hasUnavailableItems ? (
+                                <Button disabled className="w-full bg-green-600 text-white py-6 font-semibold">
                                     {t('cart.checkout')}
                                 </Button>
-                            </Link>
+                            ) : (
+                                <Link href={`/${locale}/checkout`} onClick={onClose} className="block">
+                                    <Button className="w-full bg-green-600 hover:bg-green-700 text-white py-6 font-semibold">
+                                        {t('cart.checkout')}
+                                    </Button>
+                                </Link>
+                            )}
                         </div>
                     </div>
                 )}
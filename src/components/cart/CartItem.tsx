@@ -5,45 +5,51 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { useTranslations } from 'next-intl';
 import { CartItem as CartItemType, Locale } from '@/types';
-import { useCartStore } from '@/store/cart';
+import { useCartStore, getCartItemPrice } from '@/store/cart';
+import { applyVariantPrice, getVariantName } from '@/lib/api/variants';
+import type { CartLineNotice } from '@/lib/api/cart';
 import Price from '@/components/ui/Price';
 import { Button } from '@/components/ui/button';
-import { X, Plus, Minus } from 'lucide-react';
+import { X, Plus, Minus, AlertCircle } from 'lucide-react';
 
 interface CartItemProps {
     item: CartItemType;
     locale: string;
+    notices?: CartLineNotice[]; // What changed since the item was added (see useCartRevalidation)
     onRemove?: () => void;
 }
 
-export default function CartItem({ item, locale, onRemove }: CartItemProps) {
+export default function CartItem({ item, locale, notices = [], onRemove }: CartItemProps) {
     const t = useTranslations();
     const { updateQuantity, removeItem } = useCartStore();
     const [isRemoving, setIsRemoving] = useState(false);
 
     const product = item.product;
-    const price = product.sale_price || product.price;
+    const variant = item.selected_variant;
+    const price = getCartItemPrice(item);
     const image = product.mainImageUrl || product.image || '/images/placeholder-product.jpg';
     const isArabic = locale === 'ar';
+    const isUnavailable = notices.some((notice) => notice.type === 'unavailable');
 
     const handleQuantityChange = (newQuantity: number) => {
         if (newQuantity <= 0) return;
-        updateQuantity(product.id, newQuantity);
+        updateQuantity(item.id, newQuantity);
     };
 
     const handleRemove = async () => {
         setIsRemoving(true);
         await new Promise((resolve) => setTimeout(resolve, 300));
-        removeItem(product.id);
+        removeItem(item.id);
         onRemove?.();
     };
 
     const productName = isArabic && product.name_ar ? product.name_ar : product.name;
+    const variantName = variant ? getVariantName(variant, locale) : null;
 
     return (
         <div
             className={`flex flex-col sm:flex-row gap-2 sm:gap-4 p-2 sm:p-4 border border-gray-200 rounded-lg hover:border-gray-300 transition-colors ${isRemoving ? 'opacity-50' : ''
-                }`}
+                } ${isUnavailable ? 'border-red-300 bg-red-50/40' : ''}`}
         >
             {/* Product Image */}
             <div className="flex-shrink-0 w-full sm:w-24 h-24 sm:h-24">
@@ -74,21 +80,26 @@ export default function CartItem({ item, locale, onRemove }: CartItemProps) {
                             {productName}
                         </h3>
                     </Link>
-                    <p className="text-xs text-gray-600 mt-0.5 sm:mt-1">SKU: {product.sku}</p>
+                    {variantName && (
+                        <p className="text-xs text-gray-700 mt-0.5 sm:mt-1">
+                            {t('orders.variant')}: {variantName}
+                        </p>
+                    )}
+                    <p className="text-xs text-gray-600 mt-0.5 sm:mt-1">SKU: {variant?.sku || product.sku}</p>
 
                     {/* Price Display */}
                     <div className="mt-1 sm:mt-2">
                         {product.sale_price ? (
                             <div className="flex gap-2 items-center">
                                 <Price
-                                    amount={product.sale_price}
+                                    amount={price}
                                     locale={locale as Locale}
                                     size="base"
                                     weight="bold"
                                     className="text-gray-900"
                                 />
                                 <Price
-                                    amount={product.price}
+                                    amount={applyVariantPrice(product.price, variant)}
                                     locale={locale as Locale}
                                     size="sm"
                                     strikethrough
@@ -97,7 +108,7 @@ export default function CartItem({ item, locale, onRemove }: CartItemProps) {
                             </div>
                         ) : (
                             <Price
-                                amount={product.price}
+                                amount={price}
                                 locale={locale as Locale}
                                 size="base"
                                 weight="bold"
@@ -105,6 +116,27 @@ export default function CartItem({ item, locale, onRemove }: CartItemProps) {
                             />
                         )}
                     </div>
+
+                    {/* Changes since the item was added */}
+                    {notices.map((notice) => (
+                        <div
+                            key={notice.type}
+                            className={`mt-1 sm:mt-2 flex items-start gap-1.5 text-xs ${notice.type === 'unavailable' ? 'text-red-700' : 'text-amber-700'} ${isArabic ? 'flex-row-reverse' : ''}`}
+                        >
+                            <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+                            {notice.type === 'unavailable' && <span>{t('cart.no_longer_available')}</span>}
+                            {notice.type === 'quantity_limited' && (
+                                <span>{t('cart.quantity_limited', { count: notice.available })}</span>
+                            )}
+                            {notice.type === 'price_changed' && (
+                                <span className="flex flex-wrap items-center gap-1">
+                                    {t('cart.price_changed')}:
+                                    <Price amount={notice.previous_price} locale={locale as Locale} size="xs" strikethrough />
+                                    <Price amount={notice.price} locale={locale as Locale} size="xs" weight="semibold" />
+                                </span>
+                            )}
+                        </div>
+                    ))}
                 </div>
 
                 {/* Quantity & Controls - Mobile: Full width, Desktop: Flex end */}
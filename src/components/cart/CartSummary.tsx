@@ -4,15 +4,20 @@ import { useTranslations } from 'next-intl';
 import Price from '@/components/ui/Price';
 import { formatOMR } from '@/lib/currency';
 import { Button } from '@/components/ui/button';
+import CouponInput from './CouponInput';
+import { useCurrencyStore } from '@/store/currency';
 import type { Locale } from '@/types';
 
 interface CartSummaryProps {
     subtotal: number;
     shipping: number;
     tax: number;
+    discount?: number;
+    couponCode?: string;
     total: number;
     itemCount: number;
     isLoading?: boolean;
+    canCheckout?: boolean;
     locale: string;
     onContinueShopping?: () => void;
     onCheckout?: () => void;
@@ -22,15 +27,19 @@ export default function CartSummary({
     subtotal,
     shipping,
     tax,
+    discount = 0,
+    couponCode,
     total,
     itemCount,
     isLoading = false,
+    canCheckout = true,
     locale,
     onContinueShopping,
     onCheckout,
 }: CartSummaryProps) {
     const t = useTranslations();
     const isArabic = locale === 'ar';
+    const displayCurrency = useCurrencyStore((state) => state.currency);
 
     return (
         <div className="bg-gray-50 rounded-lg p-2 sm:p-6 border border-gray-200">
@@ -53,6 +62,18 @@ export default function CartSummary({
                     />
                 </div>
 
+                {/* Discount */}
+                {discount > 0 && (
+                    <div className="flex justify-between items-center text-sm sm:text-base">
+                        <span className="text-gray-600">
+                            {t('cart.discount')}{couponCode && ` (${couponCode})`}
+                        </span>
+                        <span className="font-semibold text-green-700">
+                            -<Price amount={discount} locale={locale as Locale} size="sm" weight="semibold" />
+                        </span>
+                    </div>
+                )}
+
                 {/* Shipping */}
                 <div className="flex justify-between items-center text-sm sm:text-base">
                     <span className="text-gray-600">{t('cart.shipping')}</span>
@@ -84,6 +105,9 @@ export default function CartSummary({
                 )}
             </div>
 
+            {/* Coupon */}
+            <CouponInput subtotal={subtotal} locale={locale} />
+
             {/* Total */}
             <div className="flex justify-between items-center mb-2 sm:mb-6 bg-white rounded-lg p-2 sm:p-3 border-2 border-blue-500">
                 <span className="font-bold text-sm sm:text-lg text-gray-900">{t('cart.total')}</span>
@@ -96,6 +120,13 @@ export default function CartSummary({
                 />
             </div>
 
+            {/* Checkout settles in OMR whatever the display currency */}
+            {displayCurrency !== 'OMR' && (
+                <p className={`text-xs text-gray-500 -mt-1 mb-2 sm:mb-4 ${isArabic ? 'text-right' : 'text-left'}`}>
+                    {t('cart.charged_in_omr_note', { currency: displayCurrency })}
+                </p>
+            )}
+
             {/* Item Count Info */}
             <p className={`text-xs sm:text-sm text-gray-600 mb-2 sm:mb-4 ${isArabic ? 'text-right' : 'text-left'}`}>
                 {t('cart.items_in_cart', { count: itemCount })}
@@ -115,7 +146,7 @@ export default function CartSummary({
                 <Button
                     onClick={onCheckout}
                     className="w-full bg-green-600 hover:bg-green-700 text-white py-2 sm:py-6 font-semibold text-sm sm:text-base"
-                    disabled={isLoading}
+                    disabled={isLoading || !canCheckout}
                 >
                     {t('cart.checkout')}
                 </Button>
@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCheckoutStore } from '@/store/checkout';
+import { validateCoupon, validateCouponForCart, CouponRejectionReason } from '@/lib/api/coupons';
+
+interface CouponInputProps {
+    subtotal: number;
+    locale: string;
+}
+
+export default function CouponInput({ subtotal, locale }: CouponInputProps) {
+    const t = useTranslations();
+    const isArabic = locale === 'ar';
+    const appliedCoupon = useCheckoutStore((state) => state.appliedCoupon);
+    const applyCoupon = useCheckoutStore((state) => state.applyCoupon);
+    const removeCoupon = useCheckoutStore((state) => state.removeCoupon);
+    const [code, setCode] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isApplying, setIsApplying] = useState(false);
+
+    const rejectionMessage = (reason?: CouponRejectionReason) =>
+        reason ? t(`cart.coupon_error_${reason}`) : t('cart.coupon_error_invalid');
+
+    const handleApply = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!code.trim()) {
+            return;
+        }
+
+        setIsApplying(true);
+        setError(null);
+
+        try {
+            const result = await validateCoupon(code, subtotal);
+
+            if (result.valid && result.coupon) {
+                applyCoupon(result.coupon);
+                setCode('');
+            } else {
+                setError(rejectionMessage(result.reason));
+            }
+        } catch (err) {
+            setError(t('cart.coupon_error_generic'));
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    if (appliedCoupon) {
+        // The cart may have changed since the coupon was applied
+        const check = validateCouponForCart(appliedCoupon, subtotal);
+
+        return (
+            <div className={`mb-2 sm:mb-4 ${isArabic ? 'text-right' : 'text-left'}`}>
+                <div className="flex justify-between items-center p-2 sm:p-3 bg-green-50 border border-green-200 rounded-lg">
+                    <span className="text-xs sm:text-sm text-green-800">
+                        {t('cart.coupon_applied', { code: appliedCoupon.code })}
+                    </span>
+                    <button
+                        type="button"
+                        onClick={removeCoupon}
+                        className="text-xs sm:text-sm font-medium text-red-600 hover:text-red-700"
+                    >
+                        {t('cart.remove_coupon')}
+                    </button>
+                </div>
+                {!check.valid && (
+                    <p className="mt-1 text-xs sm:text-sm text-amber-700">
+                        {rejectionMessage(check.reason)}
+                    </p>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <form onSubmit={handleApply} className={`mb-2 sm:mb-4 ${isArabic ? 'text-right' : 'text-left'}`}>
+            <label htmlFor="coupon-code" className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+                {t('cart.coupon_code')}
+            </label>
+            <div className="flex gap-2">
+                <Input
+                    id="coupon-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder={t('cart.coupon_placeholder')}
+                    rtlAware={false}
+                    className="uppercase"
+                    disabled={isApplying}
+                />
+                <Button
+                    type="submit"
+                    variant="outline"
+                    disabled={isApplying || !code.trim()}
+                >
+                    {isApplying ? t('cart.loading') : t('cart.apply_coupon')}
+                </Button>
+            </div>
+            {error && (
+                <p className="mt-1 text-xs sm:text-sm text-red-600">{error}</p>
+            )}
+        </form>
+    );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { Locale } from '@/types';
+import { useReorderStore } from '@/store/reorder';
+import Price from '@/components/ui/Price';
+import { CheckCircle, X } from 'lucide-react';
+
+interface ReorderNoticeProps {
+    locale: string;
+}
+
+/**
+ * Tells the customer what changed in an order they just reordered
+ * Shown once: the notice is cleared when the cart page is left.
+ */
+export default function ReorderNotice({ locale }: ReorderNoticeProps) {
+    const t = useTranslations();
+    const issues = useReorderStore((state) => state.issues);
+    const clearIssues = useReorderStore((state) => state.clearIssues);
+    const isArabic = locale === 'ar';
+
+    useEffect(() => clearIssues, [clearIssues]);
+
+    if (issues.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className={`p-2 sm:p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs sm:text-sm text-amber-900 ${isArabic ? 'text-right' : 'text-left'}`}>
+            <div className={`flex items-start gap-2 ${isArabic ? 'flex-row-reverse' : ''}`}>
+                <CheckCircle size={16} className="flex-shrink-0 mt-0.5" />
+                <div className="flex-1">
+                    <p className="font-medium">{t('cart.reorder_title')}</p>
+                    <p className="mt-1">{t('cart.reorder_changes')}</p>
+                    <ul className="mt-1 space-y-0.5">
+                        {issues.map((issue, index) => (
+                            <li key={`${issue.type}-${index}`} className={`flex flex-wrap items-center gap-1 ${isArabic ? 'flex-row-reverse' : ''}`}>
+                                {issue.type === 'unavailable' && t('cart.reorder_unavailable', { name: issue.name })}
+                                {issue.type === 'quantity_limited' && t('cart.reorder_quantity_limited', {
+                                    name: issue.name,
+                                    available: issue.available,
+                                    ordered: issue.ordered,
+                                })}
+                                {issue.type === 'price_changed' && (
+                                    <>
+                                        <span>{t('cart.reorder_price_changed', { name: issue.name })}</span>
+                                        <Price amount={issue.previous_price} locale={locale as Locale} size="xs" strikethrough />
+                                        <Price amount={issue.price} locale={locale as Locale} size="xs" weight="semibold" />
+                                    </>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+                <button
+                    onClick={clearIssues}
+                    aria-label={t('cart.dismiss')}
+                    className="text-amber-700 hover:text-amber-900"
+                >
+                    <X size={16} />
+                </button>
+            </div>
+        </div>
+    );
+}
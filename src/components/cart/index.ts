@@ -1,4 +1,6 @@
 export { default as CartItem } from './CartItem';
 export { default as CartSummary } from './CartSummary';
 export { default as EmptyCart } from './EmptyCart';
-export { default as CartDrawer } from './CartDrawer';
\ No newline at end of file
+export { default as CartDrawer } from './CartDrawer';
+export { default as CouponInput } from './CouponInput';
+export { default as ReorderNotice } from './ReorderNotice';
\ No newline at end of file
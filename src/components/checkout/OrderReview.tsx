@@ -3,7 +3,11 @@
 import { useTranslations } from 'next-intl';
 import { Address, ShippingMethod, PaymentMethod, Locale } from '@/types';
 import { CartItem } from '@/types';
-import { formatOMR } from '@/lib/currency';
+import { formatOMR, formatPrice } from '@/lib/currency';
+import { CouponInput } from '@/components/cart';
+import { getCartItemPrice } from '@/store/cart';
+import { useCurrencyStore } from '@/store/currency';
+import { getVariantName } from '@/lib/api/variants';
 
 interface OrderReviewProps {
     items: CartItem[];
@@ -15,8 +19,10 @@ interface OrderReviewProps {
         subtotal: number;
         shipping: number;
         tax: number;
+        discount?: number;
         total: number;
     };
+    couponCode?: string;
     locale: Locale;
     onEdit: (section: 'address' | 'shipping' | 'payment') => void;
     onConfirm: () => void;
@@ -30,6 +36,7 @@ export default function OrderReview({
     shippingMethod,
     paymentMethod,
     totals,
+    couponCode,
     locale,
     onEdit,
     onConfirm,
@@ -37,6 +44,8 @@ export default function OrderReview({
 }: OrderReviewProps) {
     const t = useTranslations();
     const isArabic = locale === 'ar';
+    const displayCurrency = useCurrencyStore((state) => state.currency);
+    const displayRate = useCurrencyStore((state) => state.rates[state.currency]);
 
     return (
         <div className={isArabic ? 'text-right' : 'text-left'}>
@@ -48,19 +57,21 @@ export default function OrderReview({
                         <div key={item.id} className="flex items-center justify-between pb-2 md:pb-3 border-b border-gray-200 last:border-b-0">
                             <div className="flex-1 min-w-0">
                                 <p className="font-medium text-gray-900 text-sm md:text-base truncate">{item.product.name}</p>
+                                {item.selected_variant && (
+                                    <p className="text-xs md:text-sm text-gray-600">
+                                        {t('orders.variant')}: {getVariantName(item.selected_variant, locale)}
+                                    </p>
+                                )}
                                 <p className="text-xs md:text-sm text-gray-600">
                                     {t('common.quantity')}: {item.quantity}
                                 </p>
                             </div>
                             <div className="text-right ml-2 flex-shrink-0">
                                 <p className="font-semibold text-gray-900 text-sm md:text-base">
-                                    {formatOMR(
-                                        (item.product.sale_price || item.product.price) * item.quantity,
-                                        locale
-                                    )}
+                                    {formatOMR(getCartItemPrice(item) * item.quantity, locale)}
                                 </p>
                                 <p className="text-xs text-gray-500">
-                                    {formatOMR(item.product.sale_price || item.product.price, locale)}
+                                    {formatOMR(getCartItemPrice(item), locale)}
                                 </p>
                             </div>
                         </div>
@@ -128,7 +139,7 @@ export default function OrderReview({
                             {t('common.days')}
                         </p>
                     )}
-                    <p className="font-semibold text-blue-600 mt-1 md:mt-2">{formatOMR(shippingMethod.cost || 0, locale)}</p>
+                    <p className="font-semibold text-blue-600 mt-1 md:mt-2">{formatOMR(totals.shipping, locale)}</p>
                 </div>
             </div>
 
@@ -151,6 +162,11 @@ export default function OrderReview({
                 </div>
             </div>
 
+            {/* Coupon */}
+            <div className="bg-white rounded-lg p-3 md:p-6 border border-gray-200 mb-3 md:mb-6">
+                <CouponInput subtotal={totals.subtotal} locale={locale} />
+            </div>
+
             {/* Order Totals */}
             <div className="bg-gradient-to-br from-blue-50 to-blue-100 rounded-lg p-3 md:p-6 border border-blue-200 mb-3 md:mb-6">
                 <div className="space-y-2 md:space-y-3">
@@ -159,6 +175,15 @@ export default function OrderReview({
                         <span className="font-medium text-gray-900">{formatOMR(totals.subtotal, locale)}</span>
                     </div>
 
+                    {!!totals.discount && totals.discount > 0 && (
+                        <div className="flex justify-between text-sm md:text-base">
+                            <span className="text-gray-700">
+                                {t('checkout.discount')}{couponCode && ` (${couponCode})`}
+                            </span>
+                            <span className="font-medium text-green-700">-{formatOMR(totals.discount, locale)}</span>
+                        </div>
+                    )}
+
                     {totals.shipping > 0 && (
                         <div className="flex justify-between text-sm md:text-base">
                             <span className="text-gray-700">{t('checkout.shipping')}</span>
@@ -177,6 +202,16 @@ export default function OrderReview({
                         <span className="text-base md:text-lg font-semibold text-gray-900">{t('checkout.total')}</span>
                         <span className="text-base md:text-lg font-bold text-blue-600">{formatOMR(totals.total, locale)}</span>
                     </div>
+
+                    {/* Prices are shown in OMR here because that is what the customer pays */}
+                    <div className="flex justify-between gap-2 text-xs md:text-sm text-gray-600">
+                        <span>{t('checkout.charged_in_omr')}</span>
+                        {displayCurrency !== 'OMR' && displayRate && (
+                            <span style={{ direction: 'ltr' }}>
+                                {t('checkout.approx_total', { amount: formatPrice(totals.total, locale, displayCurrency, displayRate) })}
+                            </span>
+                        )}
+                    </div>
                 </div>
             </div>
 
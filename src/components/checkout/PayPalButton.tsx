@@ -3,6 +3,8 @@
 import { useEffect, useRef, useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { CartItem } from '@/types';
+import { getCartItemPrice } from '@/store/cart';
+import { StockShortage } from '@/lib/inventory/stock';
 
 interface PayPalButtonProps {
     cartItems: CartItem[];
@@ -10,8 +12,12 @@ interface PayPalButtonProps {
         subtotal: number;
         tax: number;
         shipping: number;
+        discount?: number;
         total: number;
     };
+    couponCode?: string;
+    shippingMethodId: string;
+    reservationId?: string;
     customerId: string | number;
     customer_email: string;
     shipping_address: any;
@@ -19,7 +25,8 @@ interface PayPalButtonProps {
     access_token: string;
     onSuccess: (transactionId: string, orderData: any) => void;
     onError: (error: string) => void;
-    onCancel?: () => void;
+    onCancel?: (orderId: string | null) => void;
+    onStockShortage?: (shortages: StockShortage[]) => void;
     locale: 'ar' | 'en';
     isLoading?: boolean;
 }
@@ -27,6 +34,9 @@ interface PayPalButtonProps {
 export default function PayPalButton({
     cartItems,
     totals,
+    couponCode,
+    shippingMethodId,
+    reservationId,
     customerId,
     customer_email,
     shipping_address,
@@ -35,11 +45,14 @@ export default function PayPalButton({
     onSuccess,
     onError,
     onCancel,
+    onStockShortage,
     locale,
     isLoading = false,
 }: PayPalButtonProps) {
     const t = useTranslations();
     const containerRef = useRef<HTMLDivElement>(null);
+    // Order placed by create-order, awaiting the PayPal payment
+    const pendingOrderIdRef = useRef<string | null>(null);
     const [sdkLoading, setSdkLoading] = useState(true);
     const [sdkLoaded, setSdkLoaded] = useState(false);
     const [processing, setProcessing] = useState(false);
@@ -144,14 +157,21 @@ export default function PayPalButton({
                         const orderPayload = {
                             items: cartItems.map((item) => ({
                                 product_id: item.product.id,
+                                variation: item.selected_variant?.id,
                                 name: item.product.name,
                                 quantity: item.quantity,
-                                unit_price: item.product.sale_price || item.product.price,
+                                unit_price: getCartItemPrice(item),
                             })),
                             totals,
+                            shipping_method: shippingMethodId,
+                            coupon_code: couponCode,
+                            reservation_id: reservationId,
                             customer_email: paypalEmail,
                             shipping_address,
                             billing_address,
+                            customerId: String(customerId),
+                            accessToken: access_token,
+                            locale,
                         };
 
                         console.log('[PayPalButton] Order payload:', orderPayload);
@@ -170,9 +190,13 @@ export default function PayPalButton({
                         console.log('[PayPalButton] API response data:', orderData);
 
                         if (!response.ok) {
+                            if (orderData.code === 'OUT_OF_STOCK') {
+                                onStockShortage?.(orderData.items || []);
+                            }
                             throw new Error(orderData.error || t('checkout.paypal_error'));
                         }
 
+                        pendingOrderIdRef.current = orderData.order?.id ? String(orderData.order.id) : null;
                         return orderData.orderID;
                     } catch (error: any) {
                         console.error('[PayPalButton] Error creating order:', error);
@@ -205,12 +229,8 @@ export default function PayPalButton({
                             },
                             body: JSON.stringify({
                                 orderID: data.orderID,
+                                order_id: pendingOrderIdRef.current,
                                 customerId: customerIdStr,
-                                cartItems,
-                                totals,
-                                customer_email: paypalEmail,
-                                shipping_address,
-                                billing_address,
                                 accessToken: access_token,
                             }),
                         });
@@ -218,6 +238,9 @@ export default function PayPalButton({
                         const captureData = await response.json();
 
                         if (!response.ok) {
+                            if (captureData.code === 'OUT_OF_STOCK') {
+                                onStockShortage?.(captureData.items || []);
+                            }
                             throw new Error(captureData.error || t('checkout.paypal_error'));
                         }
 
@@ -244,8 +267,9 @@ export default function PayPalButton({
                 onCancel() {
                     console.log('[PayPalButton] Payment cancelled by user');
                     if (onCancel) {
-                        onCancel();
+                        onCancel(pendingOrderIdRef.current);
                     }
+                    pendingOrderIdRef.current = null;
                     setProcessing(false);
                 },
 
@@ -268,7 +292,7 @@ export default function PayPalButton({
         };
 
         renderButtons();
-    }, [sdkLoaded, showEmailInput, paypalEmail, cartItems, totals, shipping_address, billing_address, customerId, onSuccess, onError, t]);
+    }, [sdkLoaded, showEmailInput, paypalEmail, cartItems, totals, couponCode, shippingMethodId, reservationId, shipping_address, billing_address, customerId, access_token, onSuccess, onError, t]);
 
     if (sdkLoading || isLoading) {
         return (
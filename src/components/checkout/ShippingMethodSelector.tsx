@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useTranslations } from 'next-intl';
 import { Address, ShippingMethod } from '@/types';
-import { getShippingMethods } from '@/lib/api/shipping';
+import { getShippingMethods, getShippingCostForMethod } from '@/lib/api/shipping';
 import { formatOMR } from '@/lib/currency';
 
 interface ShippingMethodSelectorProps {
@@ -51,12 +51,12 @@ export default function ShippingMethodSelector({
                 if (selectedMethod && shippingMethods.some((m) => m.id === selectedMethod.id)) {
                     setSelected(selectedMethod);
                     // Ensure parent store is updated with the selected method
-                    onSelect(selectedMethod, selectedMethod.cost || 0);
+                    onSelect(selectedMethod, getShippingCostForMethod(selectedMethod, cartSubtotal));
                 } else if (shippingMethods.length > 0) {
                     const firstMethod = shippingMethods[0] as any as ShippingMethod;
                     setSelected(firstMethod);
                     // CRITICAL: Call onSelect to update parent's store with the auto-selected method
-                    onSelect(firstMethod, firstMethod.cost || 0);
+                    onSelect(firstMethod, getShippingCostForMethod(firstMethod, cartSubtotal));
                 }
             } catch (err: any) {
                 console.error('[ShippingMethodSelector] Error fetching methods:', err);
@@ -71,7 +71,7 @@ export default function ShippingMethodSelector({
 
     const handleSelect = (method: ShippingMethod) => {
         setSelected(method);
-        onSelect(method, method.cost || 0);
+        onSelect(method, getShippingCostForMethod(method, cartSubtotal));
     };
 
     const handleContinue = () => {
@@ -165,7 +165,7 @@ export default function ShippingMethodSelector({
 
                                 <div className={`text-right font-bold text-base md:text-lg text-blue-600 flex-shrink-0 ${isArabic ? 'text-left' : ''
                                     }`}>
-                                    {formatOMR(method.cost || 0, locale as any)}
+                                    {formatOMR(getShippingCostForMethod(method, cartSubtotal), locale as any)}
                                 </div>
                             </div>
                         </div>
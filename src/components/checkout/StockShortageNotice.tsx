@@ -0,0 +1,69 @@
+'use client';
+
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { AlertTriangle } from 'lucide-react';
+import { CartItem } from '@/types';
+import { StockShortage } from '@/lib/inventory/stock';
+import { getVariantName } from '@/lib/api/variants';
+
+interface StockShortageNoticeProps {
+    shortages: StockShortage[];
+    items: CartItem[];
+    locale: 'ar' | 'en';
+}
+
+export default function StockShortageNotice({ shortages, items, locale }: StockShortageNoticeProps) {
+    const t = useTranslations();
+    const isArabic = locale === 'ar';
+
+    if (shortages.length === 0) {
+        return null;
+    }
+
+    // Prefer the localized names from the cart over the ones returned by the server
+    const getLineName = (shortage: StockShortage): string => {
+        const item = items.find((cartItem) =>
+            String(cartItem.product.id) === String(shortage.product) &&
+            (cartItem.selected_variant?.id || undefined) === (shortage.variation || undefined)
+        );
+        const productName = item
+            ? (isArabic && item.product.name_ar ? item.product.name_ar : item.product.name)
+            : shortage.product_name || shortage.product;
+        const variantName = item?.selected_variant
+            ? getVariantName(item.selected_variant, locale)
+            : shortage.variation_name;
+
+        return variantName ? `${productName} (${variantName})` : productName;
+    };
+
+    return (
+        <div className={`mb-4 md:mb-6 p-4 bg-red-50 border border-red-200 rounded-lg ${isArabic ? 'text-right' : 'text-left'}`} role="alert">
+            <div className={`flex items-start gap-3 ${isArabic ? 'flex-row-reverse' : ''}`}>
+                <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <div className="flex-1">
+                    <p className="font-semibold text-red-800 mb-2">{t('checkout.stock_shortage_title')}</p>
+                    <ul className="space-y-1 text-sm text-red-700">
+                        {shortages.map((shortage) => (
+                            <li key={`${shortage.product}:${shortage.variation || ''}`}>
+                                {shortage.available > 0
+                                    ? t('checkout.stock_only_left', {
+                                        name: getLineName(shortage),
+                                        available: shortage.available,
+                                        requested: shortage.requested,
+                                    })
+                                    : t('checkout.stock_sold_out', { name: getLineName(shortage) })}
+                            </li>
+                        ))}
+                    </ul>
+                    <Link
+                        href={`/${locale}/cart`}
+                        className="inline-block mt-3 text-sm font-semibold text-red-800 underline hover:text-red-900"
+                    >
+                        {t('checkout.stock_update_cart')}
+                    </Link>
+                </div>
+            </div>
+        </div>
+    );
+}
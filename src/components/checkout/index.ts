@@ -3,4 +3,5 @@ export { default as ShippingAddressForm } from './ShippingAddressForm';
 export { default as ShippingMethodSelector } from './ShippingMethodSelector';
 export { default as PaymentMethodSelector } from './PaymentMethodSelector';
 export { default as OrderReview } from './OrderReview';
-export { default as PayPalButton } from './PayPalButton';
\ No newline at end of file
+export { default as PayPalButton } from './PayPalButton';
+export { default as StockShortageNotice } from './StockShortageNotice';
\ No newline at end of file
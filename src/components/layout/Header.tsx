@@ -11,6 +11,7 @@ import { useCartStore } from '@/store/cart';
 import { useAuth } from '@/store/auth';
 import { cn, getDirection, isRTL } from '@/lib/utils';
 import LanguageSwitcher from '@/components/localization/LanguageSwitcher';
+import CurrencySwitcher from '@/components/localization/CurrencySwitcher';
 import { EnhancedSearchBar } from '@/components/search';
 import AuthMenu from '@/components/auth/AuthMenu';
 import type { Locale } from '@/types';
@@ -111,6 +112,9 @@ export default function Header() {
                             >
                                 <LanguageSwitcher />
                             </motion.div>
+
+                            {/* Currency Switcher */}
+                            <CurrencySwitcher />
                         </div>
 
                         {/* Right: Search, Shop Bag, Cart, Auth Menu */}
@@ -233,6 +237,9 @@ export default function Header() {
                                 </Link>
                             </motion.div>
 
+                            {/* Currency Switcher */}
+                            <CurrencySwitcher />
+
                             {/* Language Toggle */}
                             <motion.div
                                 whileHover={{ scale: 1.1 }}
@@ -3,6 +3,7 @@
 import { ReactNode } from 'react';
 import dynamic from 'next/dynamic';
 import AuthInitializer from '@/components/auth/AuthInitializer';
+import { useCartSync } from '@/hooks/useCartSync';
 
 // Dynamically import layout components with ssr enabled
 const Header = dynamic(() => import('@/components/layout/Header'), { ssr: true });
@@ -19,6 +20,7 @@ interface LayoutClientWrapperProps {
  * LayoutClientWrapper
  * Wraps the locale layout with client-side functionality
  * - Runs AuthInitializer to validate auth state on app load
+ * - Keeps the cart of signed-in customers saved on their account
  * - Wraps Header, Footer, and MobileBottomNav components
  */
 export const LayoutClientWrapper = ({
@@ -26,6 +28,8 @@ export const LayoutClientWrapper = ({
     direction,
     locale
 }: LayoutClientWrapperProps) => {
+    useCartSync();
+
     return (
         <>
             {/* Initialize auth state on mount */}
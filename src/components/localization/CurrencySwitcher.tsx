@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown } from 'lucide-react';
+import { useAuth } from '@/store/auth';
+import { useCurrencyStore } from '@/store/currency';
+import { updateCustomerProfile } from '@/lib/api/customers';
+import { DISPLAY_CURRENCIES, isDisplayCurrency } from '@/lib/currency';
+import { cn, isRTL } from '@/lib/utils';
+import type { DisplayCurrency, Locale } from '@/types';
+
+interface CurrencySwitcherProps {
+    className?: string;
+}
+
+/**
+ * Display currency picker for the header
+ *
+ * Loads the display rates, adopts the currency saved on the customer profile
+ * when a shopper signs in and saves their choice back to it.
+ */
+export default function CurrencySwitcher({ className = '' }: CurrencySwitcherProps) {
+    const params = useParams();
+    const locale = (params?.locale as Locale) || 'en';
+    const rtl = isRTL(locale);
+    const t = useTranslations('header');
+    const { currency, setCurrency, loadRates } = useCurrencyStore();
+    const { is_authenticated, customer_id, customer_profile, access_token } = useAuth();
+    const [open, setOpen] = useState(false);
+
+    useEffect(() => {
+        loadRates();
+    }, [loadRates]);
+
+    // Use the currency saved on the profile once the customer is known
+    const preferredCurrency = customer_profile?.preferred_currency;
+    useEffect(() => {
+        if (customer_id && isDisplayCurrency(preferredCurrency)) {
+            setCurrency(preferredCurrency);
+        }
+    }, [customer_id, preferredCurrency, setCurrency]);
+
+    const handleSelect = async (code: DisplayCurrency) => {
+        setOpen(false);
+        if (code === currency) return;
+
+        setCurrency(code);
+
+        if (is_authenticated && customer_id && access_token) {
+            try {
+                await updateCustomerProfile(customer_id, access_token, { preferred_currency: code });
+                useAuth.setState({ customer_profile: { ...customer_profile, id: customer_id, preferred_currency: code } });
+            } catch (error) {
+                // The choice is still kept on this device
+                console.error('[CurrencySwitcher] Failed to save preferred currency:', error);
+            }
+        }
+    };
+
+    return (
+        <div className={cn('relative', className)}>
+            <button
+                type="button"
+                onClick={() => setOpen(!open)}
+                className="inline-flex items-center gap-1 h-9 px-3 bg-white border border-neutral-200 rounded-full text-sm font-semibold text-neutral-700 hover:text-primary shadow-sm transition-colors"
+                aria-label={t('select_currency')}
+                aria-haspopup="listbox"
+                aria-expanded={open}
+                style={{ fontFamily: "'Inter', 'Segoe UI', sans-serif" }}
+            >
+                {currency}
+                <ChevronDown className="h-4 w-4" />
+            </button>
+
+            <AnimatePresence>
+                {open && (
+                    <>
+                        <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+                        <motion.ul
+                            role="listbox"
+                            aria-label={t('currency')}
+                            initial={{ opacity: 0, y: -8 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -8 }}
+                            transition={{ duration: 0.2 }}
+                            className={cn(
+                                'absolute top-11 z-50 w-52 py-1 bg-white rounded-xl shadow-xl border border-neutral-200',
+                                rtl ? 'left-0' : 'right-0'
+                            )}
+                        >
+                            {Object.values(DISPLAY_CURRENCIES).map((option) => (
+                                <li key={option.code}>
+                                    <button
+                                        type="button"
+                                        role="option"
+                                        aria-selected={option.code === currency}
+                                        onClick={() => handleSelect(option.code as DisplayCurrency)}
+                                        className={cn(
+                                            'w-full flex items-center justify-between gap-3 px-4 py-2 text-sm hover:bg-primary/5 transition-colors',
+                                            option.code === currency ? 'text-primary font-semibold' : 'text-neutral-700'
+                                        )}
+                                    >
+                                        <span>{locale === 'ar' ? option.name_ar : option.name}</span>
+                                        <span className="text-xs text-neutral-500" style={{ fontFamily: "'Inter', 'Segoe UI', sans-serif" }}>
+                                            {option.code}
+                                        </span>
+                                    </button>
+                                </li>
+                            ))}
+                        </motion.ul>
+                    </>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
@@ -10,7 +10,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 
 import { Product, Locale } from '@/types';
 import { cn, getDirection, isRTL, getFontFamily, getLocalizedValue } from '@/lib/utils';
-import { formatOMR, calculateDiscount, formatDiscount } from '@/lib/currency';
+import { calculateDiscount, formatDiscount } from '@/lib/currency';
+import Price from '@/components/ui/Price';
 import { useCartStore } from '@/store/cart';
 import { getDirectusAssetUrl } from '@/lib/utils';
 import { useWishlist } from '@/hooks/useWishlist';
@@ -421,17 +422,11 @@ export function LuxuryProductCard({
                                 >
                                     {hasDiscount && product.sale_price !== undefined ? (
                                         <>
-                                            <span className="text-base font-bold text-primary">
-                                                {formatOMR(product.sale_price, locale)}
-                                            </span>
-                                            <span className="text-xs text-neutral-300 line-through">
-                                                {formatOMR(product.price || 0, locale)}
-                                            </span>
+                                            <Price amount={product.sale_price} locale={locale} weight="bold" className="text-primary" />
+                                            <Price amount={product.price || 0} locale={locale} size="xs" strikethrough className="text-neutral-300" />
                                         </>
                                     ) : (
-                                        <span className="text-base font-bold text-primary">
-                                            {formatOMR(product.price || 0, locale)}
-                                        </span>
+                                        <Price amount={product.price || 0} locale={locale} weight="bold" className="text-primary" />
                                     )}
                                 </motion.div>
                             </div>
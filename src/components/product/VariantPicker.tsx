@@ -0,0 +1,99 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Check } from 'lucide-react';
+import { Locale, ProductVariant } from '@/types';
+import { cn } from '@/lib/utils';
+import { formatOMR } from '@/lib/currency';
+import { getVariantName, isVariantInStock } from '@/lib/api/variants';
+
+interface VariantPickerProps {
+    variants: ProductVariant[];
+    selectedVariant: ProductVariant | null;
+    onSelect: (variant: ProductVariant) => void;
+    locale: Locale;
+}
+
+export default function VariantPicker({ variants, selectedVariant, onSelect, locale }: VariantPickerProps) {
+    const t = useTranslations();
+
+    if (variants.length === 0) {
+        return null;
+    }
+
+    const isShade = variants.every((variant) => variant.type === 'shade');
+    const selectedName = selectedVariant ? getVariantName(selectedVariant, locale) : null;
+
+    return (
+        <div className="mb-6">
+            <div className="flex items-center gap-2 mb-3">
+                <span className="text-neutral-700 font-medium">
+                    {isShade ? t('product.select_shade') : t('product.select_option')}:
+                </span>
+                {selectedName && (
+                    <span className="text-neutral-600">{selectedName}</span>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-2" role="radiogroup">
+                {variants.map((variant) => {
+                    const name = getVariantName(variant, locale);
+                    const available = isVariantInStock(variant);
+                    const isSelected = selectedVariant?.id === variant.id;
+                    const adjustment = variant.price_adjustment || 0;
+                    const label = adjustment !== 0
+                        ? `${name} (${adjustment > 0 ? '+' : '-'}${formatOMR(Math.abs(adjustment), locale)})`
+                        : name;
+
+                    if (isShade) {
+                        return (
+                            <button
+                                key={variant.id}
+                                type="button"
+                                role="radio"
+                                aria-checked={isSelected}
+                                aria-label={available ? label : `${label} - ${t('product.out_of_stock')}`}
+                                title={available ? label : `${label} - ${t('product.out_of_stock')}`}
+                                disabled={!available}
+                                onClick={() => onSelect(variant)}
+                                className={cn(
+                                    'relative w-9 h-9 rounded-full border-2 transition-all',
+                                    isSelected ? 'border-primary ring-2 ring-primary/30' : 'border-neutral-200 hover:border-neutral-400',
+                                    !available && 'opacity-40 cursor-not-allowed'
+                                )}
+                                style={{ backgroundColor: variant.value }}
+                            >
+                                {isSelected && (
+                                    <Check size={16} className="absolute inset-0 m-auto text-white drop-shadow" />
+                                )}
+                                {!available && (
+                                    <span className="absolute inset-0 m-auto h-0.5 w-full rotate-45 bg-neutral-500" />
+                                )}
+                            </button>
+                        );
+                    }
+
+                    return (
+                        <button
+                            key={variant.id}
+                            type="button"
+                            role="radio"
+                            aria-checked={isSelected}
+                            disabled={!available}
+                            onClick={() => onSelect(variant)}
+                            className={cn(
+                                'px-4 py-2 rounded-md border text-sm transition-colors',
+                                isSelected
+                                    ? 'border-primary bg-primary/5 text-primary font-medium'
+                                    : 'border-neutral-200 text-neutral-700 hover:border-neutral-400',
+                                !available && 'opacity-40 line-through cursor-not-allowed'
+                            )}
+                        >
+                            {label}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
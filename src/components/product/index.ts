@@ -6,4 +6,5 @@ export { default as ProductBadge } from './ProductBadge';
 export { default as ProductRating } from './ProductRating';
 export { default as ReviewForm } from './ReviewForm';
 export { default as ReviewsList } from './ReviewsList';
-export { default as ReviewsTab } from './ReviewsTab';
\ No newline at end of file
+export { default as ReviewsTab } from './ReviewsTab';
+export { default as VariantPicker } from './VariantPicker';
\ No newline at end of file
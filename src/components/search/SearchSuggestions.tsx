@@ -17,6 +17,8 @@ interface SearchSuggestion {
     image?: string;
 }
 
+const PRODUCT_SUGGESTION_LIMIT = 5;
+
 interface SearchSuggestionsProps {
     query: string;
     locale: Locale;
@@ -51,13 +53,13 @@ export default function SearchSuggestions({ query, locale, onSelect }: SearchSug
 
     // Load popular searches from API
     useEffect(() => {
-        fetch('/api/search/popular')
+        fetch(`/api/search/popular?locale=${locale}`)
             .then(res => res.json())
             .then(data => setPopularSearches(data || []))
             .catch(err => {
                 console.error('Error loading popular searches:', err);
             });
-    }, []);
+    }, [locale]);
 
     // Fetch suggestions from API
     useEffect(() => {
@@ -71,11 +73,11 @@ export default function SearchSuggestions({ query, locale, onSelect }: SearchSug
         setShowSuggestions(true);
 
         const timer = setTimeout(() => {
-            const searchUrl = `/api/search?q=${encodeURIComponent(query)}&type=all`;
+            const searchUrl = `/api/search?q=${encodeURIComponent(query)}&type=all&limit=${PRODUCT_SUGGESTION_LIMIT}&locale=${locale}`;
             fetch(searchUrl)
                 .then(res => res.json())
                 .then(results => {
-                    setSuggestions(results || []);
+                    setSuggestions([...(results?.products || []), ...(results?.categories || [])]);
                     setIsLoading(false);
                 })
                 .catch(err => {
@@ -86,7 +88,7 @@ export default function SearchSuggestions({ query, locale, onSelect }: SearchSug
         }, 300); // Debounce
 
         return () => clearTimeout(timer);
-    }, [query]);
+    }, [query, locale]);
 
     // Save search to history
     const saveSearchHistory = useCallback((searchTerm: string) => {
@@ -109,8 +111,27 @@ export default function SearchSuggestions({ query, locale, onSelect }: SearchSug
         setRecentSearches(history.slice(0, 5));
     }, []);
 
+    // Log a picked suggestion for search analytics; keepalive lets it finish while navigating away
+    const logSuggestionClick = (suggestion: SearchSuggestion) => {
+        fetch('/api/search/events', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                query,
+                locale,
+                result_type: suggestion.type,
+                result_id: suggestion.id,
+                result_count: suggestions.length,
+            }),
+            keepalive: true,
+        }).catch(() => {
+            // Analytics only
+        });
+    };
+
     // Handle suggestion click
     const handleSuggestionClick = (suggestion: SearchSuggestion) => {
+        logSuggestionClick(suggestion);
         saveSearchHistory(suggestion.name);
         onSelect?.(suggestion);
 
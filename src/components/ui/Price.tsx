@@ -1,12 +1,14 @@
 'use client';
 
 import React from 'react';
-import { formatOMR, formatNumber } from '@/lib/currency';
-import type { Locale } from '@/types';
+import { formatPrice } from '@/lib/currency';
+import { useCurrencyStore } from '@/store/currency';
+import type { DisplayCurrency, Locale } from '@/types';
 
 interface PriceProps {
     amount: number;
     locale?: Locale;
+    currency?: DisplayCurrency; // Overrides the shopper's display currency, e.g. 'OMR' for charged amounts
     showSymbol?: boolean;
     showCurrency?: boolean;
     className?: string;
@@ -22,6 +24,7 @@ interface PriceProps {
  * - English font (Inter) regardless of locale
  * - English digits (0-9) regardless of locale
  * - Proper formatting with 3 decimal places for OMR
+ * - Conversion to the shopper's display currency (amounts are always given in OMR)
  * 
  * This component should be used for all price displays throughout the application
  * to ensure consistent formatting across all pages and languages.
@@ -29,6 +32,7 @@ interface PriceProps {
 export default function Price({
     amount,
     locale = 'en',
+    currency,
     showSymbol = true,
     showCurrency = false,
     className = '',
@@ -36,8 +40,12 @@ export default function Price({
     weight = 'normal',
     strikethrough = false,
 }: PriceProps) {
-    // Format the price using formatOMR which handles English numerals
-    const formattedPrice = formatOMR(amount, locale, { showSymbol, showCurrency });
+    const displayCurrency = useCurrencyStore((state) => state.currency);
+    const rates = useCurrencyStore((state) => state.rates);
+    const code = currency || displayCurrency;
+
+    // Format the price using formatPrice which handles English numerals
+    const formattedPrice = formatPrice(amount, locale, code, code === 'OMR' ? 1 : rates[code], { showSymbol, showCurrency });
 
     // Size classes
     const sizeClasses = {
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { useCartStore } from '@/store/cart';
+import { applyCartLineStates, CartLineNotice, getCartLineNotices, revalidateCart } from '@/lib/api/cart';
+
+/**
+ * Check the cart against current prices and stock
+ *
+ * Revalidates the lines once when enabled (on mount by default), updates their
+ * saved prices so totals are current, and returns per-line notices for what
+ * changed. Notices for removed lines, or for quantities since lowered to what
+ * is left, are dropped.
+ *
+ * @param enabled - Set to false to hold off, e.g. while a drawer is closed
+ */
+export function useCartRevalidation(enabled: boolean = true) {
+    const items = useCartStore((state) => state.items);
+    const [notices, setNotices] = useState<Record<string, CartLineNotice[]>>({});
+    const [isRevalidating, setIsRevalidating] = useState(false);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const requested = useCartStore.getState().items;
+        if (requested.length === 0) return;
+
+        let cancelled = false;
+        setIsRevalidating(true);
+
+        revalidateCart(requested)
+            .then((states) => {
+                if (cancelled) return;
+
+                // Compare against the cart as it is now; lines added meanwhile have no state and are left alone
+                const current = useCartStore.getState().items;
+                setNotices(getCartLineNotices(current, states));
+                useCartStore.getState().setItems(applyCartLineStates(current, states));
+            })
+            .catch((error) => {
+                console.warn('[CartRevalidation] Failed to revalidate cart:', error?.response?.data || error?.message);
+            })
+            .finally(() => {
+                if (!cancelled) setIsRevalidating(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [enabled]);
+
+    const lineNotices: Record<string, CartLineNotice[]> = {};
+    for (const item of items) {
+        const active = (notices[item.id] || []).filter(
+            (notice) => notice.type !== 'quantity_limited' || item.quantity > notice.available
+        );
+        if (active.length > 0) {
+            lineNotices[item.id] = active;
+        }
+    }
+
+    const hasUnavailableItems = Object.values(lineNotices).some((list) =>
+        list.some((notice) => notice.type === 'unavailable')
+    );
+
+    return { notices: lineNotices, hasUnavailableItems, isRevalidating };
+}
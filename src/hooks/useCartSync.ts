@@ -0,0 +1,107 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/store/auth';
+import { useCartStore } from '@/store/cart';
+import { fromServerCart, getServerCart, saveServerCart } from '@/lib/api/cart';
+import { CartItem } from '@/types';
+
+// Wait for a burst of cart changes (e.g. quantity clicks) before saving
+const SAVE_DELAY_MS = 1000;
+
+function cartSignature(items: CartItem[]): string {
+    return JSON.stringify(items.map((item) => [item.id, item.quantity]));
+}
+
+/**
+ * Remember what the signed-in user's account cart now holds (see getUnsyncedItems)
+ */
+function markSynced(items: CartItem[]): void {
+    const userId = useAuth.getState().user?.id;
+    if (userId) {
+        useCartStore.getState().markSynced(userId, items);
+    }
+}
+
+/**
+ * Keep a signed-in customer's cart saved on their account
+ *
+ * Loads the saved cart when the app starts signed in, then saves each change.
+ * Guest carts stay on the device until login, where useAuth merges them into
+ * the account cart. What was last saved is remembered with the cart, so a
+ * cart kept through a logout isn't merged into the same account twice.
+ *
+ * Usage: Call this hook once in the root layout
+ */
+export function useCartSync() {
+    const hasHydrated = useAuth((state) => state._hasHydrated);
+    const lastSaved = useRef<string | null>(null);
+
+    // Load the account cart once per page load
+    useEffect(() => {
+        if (!hasHydrated) return;
+
+        const { is_authenticated, access_token } = useAuth.getState();
+        if (!is_authenticated || !access_token) return;
+
+        let cancelled = false;
+        getServerCart(access_token)
+            .then(async (cart) => {
+                if (cancelled) return;
+
+                const deviceItems = useCartStore.getState().items;
+                if (!cart && deviceItems.length > 0) {
+                    // Nothing saved yet - keep what is on the device
+                    await saveServerCart(access_token, deviceItems);
+                    lastSaved.current = cartSignature(deviceItems);
+                    markSynced(deviceItems);
+                    return;
+                }
+
+                const items = fromServerCart(cart);
+                lastSaved.current = cartSignature(items);
+                useCartStore.getState().setItems(items);
+                markSynced(items);
+            })
+            .catch((error) => {
+                console.warn('[CartSync] Failed to load saved cart:', error?.response?.data || error?.message);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [hasHydrated]);
+
+    // Save changes while signed in
+    useEffect(() => {
+        let timer: ReturnType<typeof setTimeout> | null = null;
+
+        const unsubscribe = useCartStore.subscribe((state, previous) => {
+            if (state.items === previous.items) return;
+
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(() => {
+                timer = null;
+
+                const { is_authenticated, access_token } = useAuth.getState();
+                if (!is_authenticated || !access_token) return;
+
+                const items = useCartStore.getState().items;
+                const signature = cartSignature(items);
+                if (signature === lastSaved.current) return;
+
+                saveServerCart(access_token, items)
+                    .then(() => {
+                        lastSaved.current = signature;
+                        markSynced(items);
+                    })
+                    .catch((error) => {
+                        console.warn('[CartSync] Failed to save cart:', error?.response?.data || error?.message);
+                    });
+            }, SAVE_DELAY_MS);
+        });
+
+        return () => {
+            unsubscribe();
+            if (timer) clearTimeout(timer);
+        };
+    }, []);
+}
@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useCartStore } from '@/store/cart';
+import { useReorderStore } from '@/store/reorder';
+import { reorder } from '@/lib/api/reorder';
+
+export type ReorderError = 'none_available' | 'failed';
+
+/**
+ * Put the lines of a past order back in the cart and go to the cart
+ *
+ * Adds what can still be bought at today's prices and leaves what changed in
+ * the reorder store for the cart page to show. Stays on the page with an
+ * error when nothing could be added.
+ */
+export function useReorder(accessToken: string, locale: string) {
+    const router = useRouter();
+    const [isReordering, setIsReordering] = useState(false);
+    const [error, setError] = useState<ReorderError | null>(null);
+
+    const reorderOrder = async (orderId: string) => {
+        try {
+            setIsReordering(true);
+            setError(null);
+
+            const { items, issues } = await reorder(orderId, accessToken, locale);
+            if (items.length === 0) {
+                setError('none_available');
+                return;
+            }
+
+            const addItem = useCartStore.getState().addItem;
+            for (const item of items) {
+                addItem(item.product, item.quantity, item.selected_variant);
+            }
+
+            useReorderStore.getState().setIssues(issues);
+            router.push(`/${locale}/cart`);
+        } catch (err: any) {
+            console.error('[Reorder] Failed to reorder:', err?.response?.data || err?.message);
+            setError('failed');
+        } finally {
+            setIsReordering(false);
+        }
+    };
+
+    return { reorderOrder, isReordering, error };
+}
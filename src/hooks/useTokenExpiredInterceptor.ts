@@ -64,8 +64,8 @@ export function useTokenExpiredInterceptor() {
                             remember_me: false,
                         };
 
-                        // Perform logout without affecting checkout state
-                        await logout();
+                        // Perform logout without affecting checkout state (the cart stays on the device too)
+                        await logout({ keepCart: true });
 
                         // Return a custom error that won't be shown to user
                         // Silent rejection - no popup notification needed, login modal handles everything
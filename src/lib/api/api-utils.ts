@@ -22,6 +22,17 @@ export function getApiToken(): string {
     );
 }
 
+/**
+ * Headers for server-side Directus requests made with the API token
+ * Never use from client components - the token must stay on the server.
+ */
+export function getServerAuthHeaders(): Record<string, string> {
+    return {
+        'Authorization': `Bearer ${getApiToken()}`,
+        'Content-Type': 'application/json',
+    };
+}
+
 /**
  * Get Directus base URL
  */
@@ -0,0 +1,205 @@
+/**
+ * Cart API Module
+ *
+ * Client side of the server-persisted cart: wrappers for the /api/cart routes
+ * and the conversions between cart store lines and the lines saved in the
+ * Directus `carts`/`cart_items` collections. Guests keep their cart on the
+ * device only; signed-in customers get it saved to their account so it
+ * follows them across devices.
+ *
+ * Lines keep the product as it was when added, so the cart revalidates them
+ * against /api/cart/revalidate and flags lines whose price or availability
+ * has changed since.
+ */
+
+import axios from 'axios';
+import { CartItem, Product, ProductVariant } from '@/types';
+import { RestoredCart, ServerCart } from '@/types/collections';
+import { getCartLineId, getCartItemPrice } from '@/store/cart';
+import type { CartLineInput } from '@/lib/cart/carts';
+import type { CartLineState } from '@/lib/cart/revalidate';
+
+/**
+ * Why a cart line needs the customer's attention
+ */
+export type CartLineNotice =
+    | { type: 'unavailable' }
+    | { type: 'quantity_limited'; available: number }
+    | { type: 'price_changed'; previous_price: number; price: number };
+
+/**
+ * Unit prices closer than this are the same price (OMR has 3 decimals)
+ */
+export const PRICE_EPSILON = 0.0005;
+
+/**
+ * Convert cart store lines to /api/cart lines
+ */
+export function toCartLines(items: CartItem[]): CartLineInput[] {
+    return items.map((item) => ({
+        product: item.product.id,
+        variant: item.selected_variant?.id || null,
+        quantity: item.quantity,
+        product_snapshot: item.product,
+        variant_snapshot: item.selected_variant || null,
+    }));
+}
+
+/**
+ * Convert a saved cart back to cart store lines
+ * Lines saved without a product snapshot can't be shown and are skipped.
+ */
+export function fromServerCart(cart: ServerCart | RestoredCart | null): CartItem[] {
+    return (cart?.items || [])
+        .filter((line) => line.product_snapshot)
+        .map((line) => {
+            const product = { ...line.product_snapshot, id: line.product } as Product;
+            const variant = line.variant_snapshot ? line.variant_snapshot as ProductVariant : undefined;
+
+            return {
+                id: getCartLineId(line.product, variant?.id),
+                product,
+                quantity: line.quantity,
+                ...(variant && { selected_variant: variant }),
+            };
+        });
+}
+
+function findLineState(item: CartItem, states: CartLineState[]): CartLineState | undefined {
+    const variantId = item.selected_variant?.id || null;
+    return states.find((state) => state.product === String(item.product.id) && state.variant === variantId);
+}
+
+/**
+ * Compare cart lines with their current state
+ * Returns the notices to show, keyed by cart line id (lines without changes are left out).
+ */
+export function getCartLineNotices(items: CartItem[], states: CartLineState[]): Record<string, CartLineNotice[]> {
+    const notices: Record<string, CartLineNotice[]> = {};
+
+    for (const item of items) {
+        const state = findLineState(item, states);
+        if (!state) continue;
+
+        const lineNotices: CartLineNotice[] = [];
+        if (state.status !== 'available' || state.unit_price === null) {
+            lineNotices.push({ type: 'unavailable' });
+        } else {
+            const previousPrice = getCartItemPrice(item);
+            if (Math.abs(previousPrice - state.unit_price) > PRICE_EPSILON) {
+                lineNotices.push({ type: 'price_changed', previous_price: previousPrice, price: state.unit_price });
+            }
+            if (state.stock !== null && state.stock < item.quantity) {
+                lineNotices.push({ type: 'quantity_limited', available: state.stock });
+            }
+        }
+
+        if (lineNotices.length > 0) {
+            notices[item.id] = lineNotices;
+        }
+    }
+
+    return notices;
+}
+
+/**
+ * Update the product snapshots of cart lines with their current prices and stock
+ * so totals use today's prices. Unavailable lines are left as they were.
+ */
+export function applyCartLineStates(items: CartItem[], states: CartLineState[]): CartItem[] {
+    return items.map((item) => {
+        const state = findLineState(item, states);
+        if (!state || state.status === 'unavailable' || state.price === null) {
+            return item;
+        }
+
+        return {
+            ...item,
+            product: {
+                ...item.product,
+                price: state.price,
+                sale_price: state.sale_price ?? undefined,
+                ...(state.stock !== null && { stock: state.stock }),
+                in_stock: state.status === 'available',
+            },
+            ...(item.selected_variant && {
+                selected_variant: {
+                    ...item.selected_variant,
+                    price_adjustment: state.price_adjustment ?? undefined,
+                },
+            }),
+        };
+    });
+}
+
+/**
+ * Get the current price and availability of cart lines
+ * Works for guests too, so no access token is needed.
+ */
+export async function revalidateCart(items: CartItem[]): Promise<CartLineState[]> {
+    return revalidateLines(items.map((item) => ({
+        product: item.product.id,
+        variant: item.selected_variant?.id || null,
+        quantity: item.quantity,
+    })));
+}
+
+/**
+ * Get the current price and availability of products that aren't in the cart yet
+ */
+export async function revalidateLines(lines: Pick<CartLineInput, 'product' | 'variant' | 'quantity'>[]): Promise<CartLineState[]> {
+    if (lines.length === 0) {
+        return [];
+    }
+
+    const response = await axios.post('/api/cart/revalidate', { items: lines });
+    return response.data.data || [];
+}
+
+function authHeaders(accessToken: string) {
+    return {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+    };
+}
+
+/**
+ * Get the signed-in customer's saved cart
+ */
+export async function getServerCart(accessToken: string): Promise<ServerCart | null> {
+    const response = await axios.get('/api/cart', { headers: authHeaders(accessToken) });
+    return response.data.data || null;
+}
+
+/**
+ * Replace the items of the signed-in customer's saved cart
+ */
+export async function saveServerCart(accessToken: string, items: CartItem[]): Promise<ServerCart> {
+    const response = await axios.put(
+        '/api/cart',
+        { items: toCartLines(items) },
+        { headers: authHeaders(accessToken) }
+    );
+    return response.data.data;
+}
+
+/**
+ * Add the lines of a guest cart to the signed-in customer's saved cart
+ * Returns the combined cart.
+ */
+export async function mergeServerCart(accessToken: string, items: CartItem[]): Promise<ServerCart> {
+    const response = await axios.post(
+        '/api/cart/merge',
+        { items: toCartLines(items) },
+        { headers: authHeaders(accessToken) }
+    );
+    return response.data.data;
+}
+
+/**
+ * Get the cart behind a restore link from a cart reminder email
+ */
+export async function restoreCart(token: string): Promise<RestoredCart> {
+    const response = await axios.get('/api/cart/restore', { params: { token } });
+    return response.data.data;
+}
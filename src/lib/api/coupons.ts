@@ -11,7 +11,7 @@ import { Coupon } from '@/types/collections';
  */
 export async function getCouponByCode(code: string): Promise<Coupon | null> {
     try {
-        const response = await axios.get(`/api/coupons/by-code/${code}`);
+        const response = await axios.get(`/api/coupons/by-code/${encodeURIComponent(code)}`);
 
         if (!response.data.data) {
             return null;
@@ -38,6 +38,7 @@ export async function validateCoupon(
     valid: boolean;
     coupon?: Coupon;
     discount_amount?: number;
+    reason?: CouponRejectionReason;
     error?: string;
 }> {
     try {
@@ -236,37 +237,167 @@ export async function getAllCoupons(
     }
 }
 
+/**
+ * Reasons a coupon can be rejected for a cart
+ */
+export type CouponRejectionReason =
+    | 'inactive'
+    | 'not_started'
+    | 'expired'
+    | 'usage_limit_reached'
+    | 'minimum_not_met';
+
+/**
+ * Result of checking a coupon against a cart total
+ */
+export interface CouponValidationResult {
+    valid: boolean;
+    discount_amount: number;
+    reason?: CouponRejectionReason;
+    error?: string;
+}
+
+const COUPON_REJECTION_MESSAGES: Record<CouponRejectionReason, string> = {
+    inactive: 'This coupon is no longer active',
+    not_started: 'This coupon is not valid yet',
+    expired: 'This coupon has expired',
+    usage_limit_reached: 'This coupon has reached its usage limit',
+    minimum_not_met: 'Your cart does not meet the minimum amount for this coupon',
+};
+
+/**
+ * Normalize a coupon code for storage and lookup (codes are case-insensitive)
+ */
+export function normalizeCouponCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
 /**
  * Calculate discount amount based on coupon and cart total
+ * Percentage coupons store the percent as a whole number (10 = 10%)
  */
 export function calculateDiscount(coupon: Coupon, cartTotal: number): number {
     if (coupon.minimum_cart_amount && cartTotal < coupon.minimum_cart_amount) {
         return 0; // Minimum cart amount not met
     }
 
+    let discount: number;
     if (coupon.type === 'percentage') {
-        return (cartTotal * coupon.value) / 100;
+        discount = (cartTotal * coupon.value) / 100;
     } else {
         // Fixed amount
-        return Math.min(coupon.value, cartTotal); // Can't discount more than cart total
+        discount = coupon.value;
+    }
+
+    // Can't discount more than cart total; round to OMR precision
+    return Number(Math.min(Math.max(discount, 0), cartTotal).toFixed(3));
+}
+
+/**
+ * Check if coupon is still valid (active, not expired, under usage limit)
+ */
+export function isCouponValid(coupon: Coupon, now: Date = new Date()): boolean {
+    return getCouponRejectionReason(coupon, now) === null;
+}
+
+/**
+ * Get the reason a coupon cannot be used right now, ignoring the cart total
+ */
+function getCouponRejectionReason(coupon: Coupon, now: Date): CouponRejectionReason | null {
+    if (coupon.is_active === false) {
+        return 'inactive';
+    }
+
+    if (coupon.valid_from && now < new Date(coupon.valid_from)) {
+        return 'not_started';
+    }
+
+    if (coupon.valid_until && now > new Date(coupon.valid_until)) {
+        return 'expired';
+    }
+
+    if (coupon.max_users && (coupon.used_count || 0) >= coupon.max_users) {
+        return 'usage_limit_reached';
+    }
+
+    return null;
+}
+
+/**
+ * Validate a coupon against a cart total and calculate the discount
+ * Used server-side by the /api/coupons routes and order creation
+ */
+export function validateCouponForCart(
+    coupon: Coupon,
+    cartTotal: number,
+    now: Date = new Date()
+): CouponValidationResult {
+    let reason = getCouponRejectionReason(coupon, now);
+
+    if (!reason && coupon.minimum_cart_amount && cartTotal < coupon.minimum_cart_amount) {
+        reason = 'minimum_not_met';
+    }
+
+    if (reason) {
+        return {
+            valid: false,
+            discount_amount: 0,
+            reason,
+            error: COUPON_REJECTION_MESSAGES[reason],
+        };
     }
+
+    return {
+        valid: true,
+        discount_amount: calculateDiscount(coupon, cartTotal),
+    };
 }
 
 /**
- * Check if coupon is still valid (not expired, under usage limit)
+ * Validate coupon fields for admin create/update
+ * Returns an error message, or null if the data is acceptable
  */
-export function isCouponValid(coupon: Coupon): boolean {
-    const now = new Date();
-    const validFrom = new Date(coupon.valid_from);
-    const validUntil = new Date(coupon.valid_until);
+export function validateCouponInput(data: Partial<Coupon>, isCreate: boolean): string | null {
+    if (isCreate) {
+        if (!data.code || typeof data.code !== 'string' || !data.code.trim()) {
+            return 'code is required';
+        }
+        if (!data.type) {
+            return 'type is required';
+        }
+        if (data.value === undefined || data.value === null) {
+            return 'value is required';
+        }
+        if (!data.valid_from || !data.valid_until) {
+            return 'valid_from and valid_until are required';
+        }
+    }
+
+    if (data.type !== undefined && data.type !== 'percentage' && data.type !== 'fixed') {
+        return "type must be 'percentage' or 'fixed'";
+    }
+
+    if (data.value !== undefined) {
+        const value = Number(data.value);
+        if (!Number.isFinite(value) || value <= 0) {
+            return 'value must be a positive number';
+        }
+        if (data.type === 'percentage' && value > 100) {
+            return 'percentage value cannot exceed 100';
+        }
+    }
+
+    if (data.minimum_cart_amount !== undefined && data.minimum_cart_amount !== null && Number(data.minimum_cart_amount) < 0) {
+        return 'minimum_cart_amount cannot be negative';
+    }
 
-    if (now < validFrom || now > validUntil) {
-        return false; // Expired or not yet valid
+    if (data.max_users !== undefined && data.max_users !== null && (!Number.isInteger(Number(data.max_users)) || Number(data.max_users) < 1)) {
+        return 'max_users must be a positive integer';
     }
 
-    if (coupon.max_users && coupon.used_count && coupon.used_count >= coupon.max_users) {
-        return false; // Usage limit reached
+    if (data.valid_from && data.valid_until && new Date(data.valid_until) <= new Date(data.valid_from)) {
+        return 'valid_until must be after valid_from';
     }
 
-    return true;
+    return null;
 }
\ No newline at end of file
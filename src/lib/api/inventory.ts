@@ -0,0 +1,69 @@
+/**
+ * Inventory API
+ * Reserves and releases stock for the checkout
+ */
+
+import axios from 'axios';
+import { CartItem } from '@/types';
+import { StockLine, StockShortage } from '@/lib/inventory/stock';
+
+export interface StockReservationInfo {
+    id: string;
+    expires_at: string;
+}
+
+/**
+ * Stock lines of the cart, as sent to the inventory and order routes
+ */
+export function getCartStockLines(items: CartItem[]): StockLine[] {
+    return items.map((item) => ({
+        product: String(item.product.id),
+        ...(item.selected_variant && { variation: String(item.selected_variant.id) }),
+        quantity: item.quantity,
+    }));
+}
+
+/**
+ * Hold stock for the cart while the signed-in customer pays
+ * Passing the previous reservation replaces it, so this can be called again after the cart changes
+ */
+export async function reserveCartStock(
+    items: CartItem[],
+    accessToken: string,
+    previousReservationId?: string
+): Promise<{
+    reservation?: StockReservationInfo;
+    shortages?: StockShortage[];
+}> {
+    try {
+        const response = await axios.post('/api/inventory/reservations', {
+            items: getCartStockLines(items),
+            reservation_id: previousReservationId,
+        }, {
+            headers: { 'Authorization': `Bearer ${accessToken}` },
+        });
+
+        return { reservation: response.data.data };
+    } catch (error: any) {
+        if (error.response?.status === 409 && error.response.data?.code === 'OUT_OF_STOCK') {
+            return { shortages: error.response.data.items || [] };
+        }
+
+        console.error('[Inventory] Failed to reserve stock:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Release a stock hold (e.g. the PayPal payment was cancelled)
+ */
+export async function releaseStockReservation(reservationId: string, accessToken: string): Promise<void> {
+    try {
+        await axios.delete(`/api/inventory/reservations/${encodeURIComponent(reservationId)}`, {
+            headers: { 'Authorization': `Bearer ${accessToken}` },
+        });
+    } catch (error: any) {
+        // The hold lapses on its own, so a failed release is not fatal
+        console.error('[Inventory] Failed to release stock reservation:', error.message);
+    }
+}
@@ -41,6 +41,7 @@
  *   tax_rate: 0.05,
  *   tax_amount: 4.50,
  *   shipping_cost: 5.00,
+ *   shipping_method: 'standard-shipping-id',
  *   total: 99.50,
  *   payment_method: 'paypal'
  * };
@@ -49,9 +50,10 @@
  */
 
 import axios from 'axios';
-import { Order, OrderItem, OrderStatus, OrderFilters, CustomerAddress } from '@/types/collections';
+import { Order, OrderItem, OrderStatus, OrderStatusHistory, OrderFilters, CustomerAddress, PaymentRefund, PaymentStatus } from '@/types/collections';
 import { Address } from '@/types';
 import { COUNTRY_NAMES_BY_ID } from '@/lib/api/countries';
+import type { OrderChangeContext } from '@/lib/orders/history';
 
 /**
  * Format address as JSON object for Directus
@@ -138,6 +140,30 @@ export function formatAddressAsJSON(address: Address | CustomerAddress, addressT
     return json;
 }
 
+/**
+ * Get the base URL for order API calls
+ * In development, always use localhost:3000 for server-side calls
+ * In production, use NEXT_PUBLIC_SITE_URL
+ */
+function getOrdersApiBaseUrl(): string {
+    const isDevelopment = process.env.NODE_ENV === 'development';
+    let baseUrl: string;
+
+    if (isDevelopment) {
+        baseUrl = 'http://localhost:3000';
+        console.log('[Orders] Using development server-side URL:', baseUrl);
+    } else {
+        baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
+        if (baseUrl === 'http://localhost:3000' && !process.env.NEXT_PUBLIC_SITE_URL) {
+            console.warn('[Orders] No NEXT_PUBLIC_SITE_URL configured in production, using fallback');
+        } else {
+            console.log('[Orders] Using production URL:', baseUrl);
+        }
+    }
+
+    return baseUrl;
+}
+
 /**
  * Create a new order
  * 
@@ -169,32 +195,18 @@ export async function createOrder(
         tax_amount: number;
         shipping_cost: number;
         discount_amount?: number;
+        coupon_code?: string;
+        shipping_method: string;
         total: number;
         payment_method: string;
         payment_intent_id?: string;
+        reservation_id?: string;
+        locale?: string;
     }
 ): Promise<Order> {
     try {
-        // Get the base URL for API calls
-        // In development, always use localhost:3000 for server-side calls
-        // In production, use NEXT_PUBLIC_SITE_URL
-        const isDevelopment = process.env.NODE_ENV === 'development';
-        let baseUrl: string;
-
-        if (isDevelopment) {
-            baseUrl = 'http://localhost:3000';
-            console.log('[Orders] Using development server-side URL:', baseUrl);
-        } else {
-            baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
-            if (baseUrl === 'http://localhost:3000' && !process.env.NEXT_PUBLIC_SITE_URL) {
-                console.warn('[Orders] No NEXT_PUBLIC_SITE_URL configured in production, using fallback');
-            } else {
-                console.log('[Orders] Using production URL:', baseUrl);
-            }
-        }
-
         // Construct absolute URL
-        const url = `${baseUrl}/api/orders`;
+        const url = `${getOrdersApiBaseUrl()}/api/orders`;
         console.log('[Orders] Creating order at:', url);
 
         const response = await axios.post(
@@ -347,18 +359,27 @@ export async function getCustomerOrders(
     }
 }
 
+/**
+ * Relative URLs work in the browser; server-side callers (e.g. the PayPal webhook) need an absolute one
+ */
+function getOrderStatusApiBaseUrl(): string {
+    return typeof window === 'undefined' ? getOrdersApiBaseUrl() : '';
+}
+
 /**
  * Update order status
+ * `history` says where the change came from; it is only trusted from the server token.
  */
 export async function updateOrderStatus(
     orderId: string,
     status: OrderStatus,
-    accessToken: string
+    accessToken: string,
+    history?: OrderChangeContext
 ): Promise<Order> {
     try {
         const response = await axios.patch(
-            `/api/orders/${orderId}`,
-            { status },
+            `${getOrderStatusApiBaseUrl()}/api/orders/${orderId}`,
+            { status, ...(history && { history }) },
             {
                 headers: {
                     'Authorization': `Bearer ${accessToken}`,
@@ -380,9 +401,10 @@ export async function updateOrderStatus(
  */
 export async function updateOrderPaymentStatus(
     orderId: string,
-    paymentStatus: 'pending' | 'completed' | 'failed' | 'refunded',
+    paymentStatus: PaymentStatus,
     accessToken: string,
-    paymentIntentId?: string
+    paymentIntentId?: string,
+    history?: OrderChangeContext
 ): Promise<Order> {
     try {
         const updateData: any = { payment_status: paymentStatus };
@@ -390,9 +412,12 @@ export async function updateOrderPaymentStatus(
         if (paymentIntentId) {
             updateData.payment_intent_id = paymentIntentId;
         }
+        if (history) {
+            updateData.history = history;
+        }
 
         const response = await axios.patch(
-            `/api/orders/${orderId}`,
+            `${getOrderStatusApiBaseUrl()}/api/orders/${orderId}`,
             updateData,
             {
                 headers: {
@@ -410,18 +435,48 @@ export async function updateOrderPaymentStatus(
     }
 }
 
+/**
+ * Refund a paid order (admin only)
+ * Pass no items to refund the whole amount left on the order
+ */
+export async function refundOrderPayment(
+    orderId: string,
+    accessToken: string,
+    refund: { items?: Array<{ order_item: string; quantity: number }>; reason?: string } = {}
+): Promise<{ refund: PaymentRefund; order: Order }> {
+    try {
+        const response = await axios.post(
+            `/api/orders/${orderId}/refunds`,
+            refund,
+            {
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+            }
+        );
+
+        console.log('[Orders] Refunded order:', orderId);
+        return response.data.data;
+    } catch (error: any) {
+        console.error('[Orders] Failed to refund order:', error.response?.data?.error || error.message);
+        throw error;
+    }
+}
+
 /**
  * Add tracking number to order
  */
 export async function updateOrderTracking(
     orderId: string,
     trackingNumber: string,
-    accessToken: string
+    accessToken: string,
+    history?: OrderChangeContext
 ): Promise<Order> {
     try {
         const response = await axios.patch(
             `/api/orders/${orderId}`,
-            { tracking_number: trackingNumber },
+            { tracking_number: trackingNumber, ...(history && { history }) },
             {
                 headers: {
                     'Authorization': `Bearer ${accessToken}`,
@@ -463,7 +518,99 @@ export async function getOrderItems(
 }
 
 /**
- * Cancel an order
+ * Order statuses a customer may still cancel (nothing has left the warehouse)
+ */
+export const CUSTOMER_CANCELLABLE_STATUSES: OrderStatus[] = ['pending', 'confirmed'];
+
+const DEFAULT_CANCELLATION_WINDOW_HOURS = 24;
+
+/**
+ * Hours after placing an order that the customer may cancel it
+ * Set with NEXT_PUBLIC_ORDER_CANCELLATION_WINDOW_HOURS (default 24)
+ */
+export function getCancellationWindowHours(): number {
+    const hours = Number(process.env.NEXT_PUBLIC_ORDER_CANCELLATION_WINDOW_HOURS);
+    return hours > 0 ? hours : DEFAULT_CANCELLATION_WINDOW_HOURS;
+}
+
+export type CancellationBlocker = 'status' | 'window_expired';
+
+/**
+ * Why a customer can't cancel an order, or null when they can
+ */
+export function getCancellationBlocker(
+    order: Pick<Order, 'status' | 'created_at' | 'date_created'>,
+    now: number = Date.now(),
+    windowHours: number = getCancellationWindowHours()
+): CancellationBlocker | null {
+    if (!CUSTOMER_CANCELLABLE_STATUSES.includes(order.status)) {
+        return 'status';
+    }
+
+    const placedOn = order.created_at || order.date_created;
+    const placedAt = placedOn ? new Date(placedOn).getTime() : NaN;
+    if (isNaN(placedAt) || now - placedAt > windowHours * 60 * 60 * 1000) {
+        return 'window_expired';
+    }
+
+    return null;
+}
+
+/**
+ * When an order last reached each status, from its status history
+ */
+export function getStatusReachedDates(
+    history: Pick<OrderStatusHistory, 'field' | 'new_value' | 'date_created'>[]
+): Partial<Record<OrderStatus, string>> {
+    const dates: Partial<Record<OrderStatus, string>> = {};
+    const changes = history
+        .filter((entry) => entry.field === 'status' && entry.new_value && entry.date_created)
+        .sort((a, b) => new Date(a.date_created!).getTime() - new Date(b.date_created!).getTime());
+
+    for (const entry of changes) {
+        dates[entry.new_value as OrderStatus] = entry.date_created;
+    }
+    return dates;
+}
+
+/**
+ * Whether an order belongs to a customer
+ */
+export function isOrderOwnedBy(order: Pick<Order, 'customer'>, customerId: string): boolean {
+    const owner = order.customer && typeof order.customer === 'object'
+        ? (order.customer as { id?: string | number }).id
+        : order.customer;
+    return owner !== undefined && owner !== null && String(owner) === customerId;
+}
+
+/**
+ * Download the PDF invoice of one of the customer's orders
+ */
+export async function downloadOrderInvoice(
+    orderId: string,
+    accessToken: string
+): Promise<Blob> {
+    try {
+        const response = await axios.get(
+            `/api/orders/${orderId}/invoice`,
+            {
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                },
+                responseType: 'blob',
+            }
+        );
+
+        return response.data;
+    } catch (error: any) {
+        console.error('[Orders] Failed to download invoice:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Cancel one of the customer's orders
+ * Paid orders are refunded; see getCancellationBlocker for which orders qualify.
  */
 export async function cancelOrder(
     orderId: string,
@@ -490,6 +637,30 @@ export async function cancelOrder(
     }
 }
 
+/**
+ * Cancel the unpaid order of a PayPal payment the customer abandoned,
+ * giving back its stock hold and coupon use
+ */
+export async function cancelPayPalPayment(orderId: string, accessToken: string): Promise<void> {
+    try {
+        await axios.post(
+            '/api/payments/paypal/cancel-order',
+            { order_id: orderId },
+            {
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+            }
+        );
+
+        console.log('[Orders] Cancelled unpaid PayPal order:', orderId);
+    } catch (error: any) {
+        // The order stays pending; its stock hold still lapses on its own
+        console.error('[Orders] Failed to cancel unpaid PayPal order:', error.message);
+    }
+}
+
 /**
  * Get order statistics for a customer
  */
@@ -12,11 +12,11 @@
  * 
  * Features:
  * - Full-text search across product names and descriptions (bilingual)
- * - Advanced filtering (category, brand, price range, stock status)
+ * - Advanced filtering (category, brand, price range, rating, stock status)
  * - Flexible sorting options (price, name, rating)
  * - Pagination support for large result sets
  * - Automatic image URL processing with authentication tokens
- * - Review statistics caching and calculation
+ * - Stored rating aggregates (rating_average, rating_count) for listings
  * - Detailed product attributes (ingredients, usage instructions)
  * - Safe fallback handling for missing data
  * 
@@ -39,47 +39,16 @@
  * const { data: product } = await getProduct('rose-perfume-100ml');
  */
 
+import axios from 'axios';
 import { getDirectusClient } from './directus';
 import { readItems, readItem } from '@directus/sdk';
 import { processDirectusImage } from './directus-config';
+import { getApiToken, getDirectusUrl } from './api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
 import { calculateAverageRating } from '@/lib/utils';
+import { getProductVariants } from './variants';
 import { Product, ProductFilters, SortOption, Pagination, ReviewStats, ProductReview } from '@/types';
 
-/**
- * Fetch review statistics for a product
- * 
- * Calculates average rating and total review count for a specific product.
- * Used for fallback rating data when not included in main product fetch.
- * 
- * @param {string} productId - Product ID
- * @returns {Promise<ReviewStats>} Object with average_rating and review_count
- * @internal
- */
-async function getProductReviewStats(productId: string): Promise<ReviewStats> {
-    try {
-        const client = await getDirectusClient();
-        const reviews = await (client as any).request((readItems as any)('product_reviews', {
-            filter: { product: { _eq: productId } },
-            fields: ['id', 'rating']
-        }));
-
-        if (!reviews || reviews.length === 0) {
-            return { average_rating: 0, review_count: 0 };
-        }
-
-        const totalRating = reviews.reduce((sum: number, review: any) => sum + (review.rating || 0), 0);
-        const averageRating = totalRating / reviews.length;
-
-        return {
-            average_rating: Math.round(averageRating * 10) / 10,
-            review_count: reviews.length
-        };
-    } catch (error) {
-        console.warn('[Products] Error fetching review stats for product', productId, ':', error instanceof Error ? error.message : String(error));
-        return { average_rating: 0, review_count: 0 };
-    }
-}
-
 /**
  * Fetch reviews for a product
  */
@@ -100,20 +69,89 @@ async function getProductReviews(productId: string): Promise<ProductReview[]> {
 }
 
 /**
- * Fetch review statistics for multiple products
+ * Review statistics of a product from its stored rating aggregates
+ */
+function toReviewStats(product: any): ReviewStats {
+    return {
+        average_rating: Number(product.rating_average ?? 0),
+        review_count: Number(product.rating_count ?? 0)
+    };
+}
+
+function toSlugList(value: string | string[] | undefined): string[] {
+    if (!value) return [];
+    return (Array.isArray(value) ? value : value.split(',')).map(slug => slug.trim()).filter(Boolean);
+}
+
+/**
+ * Directus filter for product filters; each filter narrows the result
+ * Category and brand take one slug or several (comma-separated or an array).
  */
-async function getMultipleProductsReviewStats(productIds: string[]): Promise<Record<string, ReviewStats>> {
-    const stats: Record<string, ReviewStats> = {};
+export function buildProductFilter(filters: ProductFilters): Record<string, any> | undefined {
+    const conditions: Record<string, any>[] = [];
+
+    const categories = toSlugList(filters.category);
+    if (categories.length > 0) {
+        conditions.push({ category: { slug: { _in: categories } } });
+    }
+
+    const brands = toSlugList(filters.brand);
+    if (brands.length > 0) {
+        conditions.push({ brand: { slug: { _in: brands } } });
+    }
+
+    if (filters.min_price !== undefined) {
+        conditions.push({ price: { _gte: filters.min_price } });
+    }
+
+    if (filters.max_price !== undefined) {
+        conditions.push({ price: { _lte: filters.max_price } });
+    }
+
+    if (filters.min_rating !== undefined) {
+        conditions.push({ rating_average: { _gte: filters.min_rating } });
+    }
+
+    // in_stock is a boolean on some products and a quantity on others
+    if (filters.in_stock === true) {
+        conditions.push({
+            _or: [
+                { in_stock: { _eq: true } },
+                { in_stock: { _gt: 0 } }
+            ]
+        });
+    } else if (filters.in_stock === false) {
+        conditions.push({
+            _or: [
+                { in_stock: { _eq: false } },
+                { in_stock: { _eq: 0 } },
+                { in_stock: { _null: true } }
+            ]
+        });
+    }
+
+    if (filters.search) {
+        conditions.push({
+            _or: [
+                { name: { _icontains: filters.search } },
+                { name_ar: { _icontains: filters.search } },
+                { description: { _icontains: filters.search } },
+                { description_ar: { _icontains: filters.search } },
+            ]
+        });
+    }
 
-    for (const productId of productIds) {
-        stats[productId] = await getProductReviewStats(productId);
+    if (filters.ids) {
+        conditions.push({ id: { _in: filters.ids } });
     }
 
-    return stats;
+    return conditions.length > 0 ? { _and: conditions } : undefined;
 }
 
 /**
- * Fetch products with filters and pagination using Directus SDK
+ * Fetch products with filters and pagination
+ * meta.filter_count is the number of products matching the filters across
+ * all pages; meta.total_count the number in the catalog.
  */
 export async function getProducts(
     filters?: ProductFilters,
@@ -121,7 +159,6 @@ export async function getProducts(
     pagination?: Pagination
 ) {
     try {
-        const client = await getDirectusClient();
         const directusUrl = process.env.NEXT_PUBLIC_DIRECTUS_URL || 'https://admin.buyjan.com';
 
         const options: Record<string, any> = {
@@ -147,60 +184,16 @@ export async function getProducts(
                 'brand.name',
                 'brand.name_ar',
                 'brand.slug',
-                // Include reviews to calculate ratings
-                'product_reviews.id',
-                'product_reviews.rating',
-                'product_reviews.status',
+                // Stored rating aggregates (see lib/reviews/ratings)
+                'rating_average',
+                'rating_count',
             ],
         };
 
         // Apply filters
-        if (filters) {
-            const filterObj: Record<string, any> = {};
-
-            if (filters.category) {
-                filterObj['category.slug'] = { _eq: filters.category };
-            }
-
-            if (filters.brand) {
-                filterObj['brand.slug'] = { _eq: filters.brand };
-            }
-
-            if (filters.min_price !== undefined) {
-                filterObj.price = { _gte: filters.min_price };
-            }
-
-            if (filters.max_price !== undefined) {
-                filterObj.price = { ...filterObj.price, _lte: filters.max_price };
-            }
-
-            if (filters.in_stock !== undefined) {
-                if (filters.in_stock === true) {
-                    filterObj._or = [
-                        { in_stock: { _eq: true } },
-                        { in_stock: { _gt: 0 } }
-                    ];
-                } else {
-                    filterObj._or = [
-                        { in_stock: { _eq: false } },
-                        { in_stock: { _eq: 0 } },
-                        { in_stock: { _null: true } }
-                    ];
-                }
-            }
-
-            if (filters.search) {
-                filterObj._or = [
-                    { name: { _contains: filters.search } },
-                    { name_ar: { _contains: filters.search } },
-                    { description: { _contains: filters.search } },
-                    { description_ar: { _contains: filters.search } },
-                ];
-            }
-
-            if (Object.keys(filterObj).length > 0) {
-                options.filter = filterObj;
-            }
+        const filter = filters ? buildProductFilter(filters) : undefined;
+        if (filter) {
+            options.filter = filter;
         }
 
         // Apply sorting
@@ -224,9 +217,8 @@ export async function getProducts(
                     options.sort = ['-name'];
                     break;
                 case 'rating':
-                    // Rating sort will be handled client-side after fetching review stats
-                    // Default to name A-Z for server-side
-                    options.sort = ['name'];
+                    // Best rated first; among equal ratings, the most reviewed
+                    options.sort = ['-rating_average', '-rating_count', 'name'];
                     break;
             }
         }
@@ -239,9 +231,23 @@ export async function getProducts(
 
         console.log('[Products] Fetching products from Directus with options:', JSON.stringify(options, null, 2));
 
-        const response = await (client as any).request((readItems as any)('products', options));
+        // Over REST rather than the SDK, which drops the meta counts from the response
+        const result = await axios.get(`${getDirectusUrl()}/items/${COLLECTIONS.PRODUCTS}`, {
+            params: {
+                fields: options.fields.join(','),
+                filter: options.filter ? JSON.stringify(options.filter) : undefined,
+                sort: options.sort?.join(','),
+                limit: options.limit,
+                offset: options.offset,
+                meta: 'filter_count,total_count',
+            },
+            headers: { 'Authorization': `Bearer ${getApiToken()}` },
+        });
 
-        console.log('[Products] Received', response?.length || 0, 'products from Directus');
+        const response: any[] = result.data?.data || [];
+        const meta = result.data?.meta || {};
+
+        console.log('[Products] Received', response.length, 'of', meta.filter_count, 'products from Directus');
 
         // Debug: Log raw product data to see what we're getting
         if (response && response.length > 0) {
@@ -253,7 +259,7 @@ export async function getProducts(
             }, null, 2));
         }
 
-        // Process images for all products and calculate ratings
+        // Process images for all products
         const processedProducts = (response || []).map((product: any) => {
             let mainImageUrl = '/images/placeholder-product.jpg';
 
@@ -304,9 +310,6 @@ export async function getProducts(
                 console.log('[Products] (getProducts) No images to process for product', product.id);
             }
 
-            // Calculate average rating from product_reviews
-            const ratingData = calculateAverageRating(product.product_reviews);
-
             return {
                 ...product,
                 mainImageUrl,
@@ -314,38 +317,16 @@ export async function getProducts(
                 processedImages: processedImages.length > 0 ? processedImages : undefined,
                 // Ensure images array is in the correct format
                 images: processedImages.length > 0 ? processedImages : product.images || [],
-                rating: ratingData.average,
-                rating_count: ratingData.count,
+                rating: Number(product.rating_average ?? 0),
+                rating_count: Number(product.rating_count ?? 0),
             };
         });
 
-        // Fetch review stats for products that don't have ratings
-        // This provides a fallback if rating/rating_count fields aren't populated in Directus
-        const productsNeedingRatings = processedProducts.filter(
-            (p: any) => !p.rating && !p.rating_count
-        );
-
-        if (productsNeedingRatings.length > 0 && productsNeedingRatings.length <= 20) {
-            // Only fetch review stats if there's a reasonable number of products
-            console.log('[Products] Fetching review stats for', productsNeedingRatings.length, 'products');
-            const reviewStats = await getMultipleProductsReviewStats(
-                productsNeedingRatings.map((p: any) => p.id)
-            );
-
-            // Merge review stats back into products
-            processedProducts.forEach((product: any) => {
-                if (reviewStats[product.id]) {
-                    product.rating = reviewStats[product.id].average_rating;
-                    product.rating_count = reviewStats[product.id].review_count;
-                }
-            });
-        }
-
         return {
             data: processedProducts,
             meta: {
-                total_count: processedProducts.length,
-                filter_count: processedProducts.length
+                total_count: Number(meta.total_count ?? processedProducts.length),
+                filter_count: Number(meta.filter_count ?? processedProducts.length)
             }
         };
     } catch (error) {
@@ -512,6 +493,8 @@ export async function getProduct(idOrSlug: string) {
         const reviews = await getProductReviews(product.id);
         product.reviews = reviews;
 
+        product.variants = await getProductVariants(product.id);
+
         return { data: product };
     } catch (error) {
         console.error('[Products] Error fetching product:', error instanceof Error ? error.message : JSON.stringify(error));
@@ -673,7 +656,7 @@ export async function getNewArrivals(limit: number = 8) {
 }
 
 /**
- * Fetch best sellers using Directus SDK (sorted by review rating and count)
+ * Fetch best sellers using Directus SDK (sorted by stored rating and review count)
  */
 export async function getBestSellers(limit: number = 8) {
     try {
@@ -681,12 +664,9 @@ export async function getBestSellers(limit: number = 8) {
         const client = await getDirectusClient();
         const directusUrl = process.env.NEXT_PUBLIC_DIRECTUS_URL || 'https://admin.buyjan.com';
 
-        // Fetch more products than needed to ensure we have enough after filtering by reviews
-        const fetchLimit = Math.max(limit * 2, 20);
-
-        // Fetch products
         const response = await (client as any).request((readItems as any)('products', {
-            limit: fetchLimit,
+            limit,
+            sort: ['-rating_average', '-rating_count'],
             fields: [
                 'id',
                 'name',
@@ -704,33 +684,16 @@ export async function getBestSellers(limit: number = 8) {
                 'brand.name',
                 'brand.slug',
                 'image_gallery',
-                'in_stock'
+                'in_stock',
+                'rating_average',
+                'rating_count'
             ]
         }));
 
-        console.log('[Products] Best sellers candidates received:', response?.length || 0);
-
-        // Fetch review stats for all products
-        const reviewStats = await getMultipleProductsReviewStats((response || []).map((p: any) => p.id));
-
-        // Sort by average rating (primary) and review count (secondary)
-        const sortedProducts = (response || []).sort((a: any, b: any) => {
-            const statsA = reviewStats[a.id] || { average_rating: 0, review_count: 0 };
-            const statsB = reviewStats[b.id] || { average_rating: 0, review_count: 0 };
-
-            // Primary sort: average rating (descending)
-            if (statsA.average_rating !== statsB.average_rating) {
-                return statsB.average_rating - statsA.average_rating;
-            }
-
-            // Secondary sort: review count (descending)
-            return statsB.review_count - statsA.review_count;
-        }).slice(0, limit);
-
-        console.log('[Products] Best sellers after sorting by reviews:', sortedProducts?.length || 0);
+        console.log('[Products] Best sellers received:', response?.length || 0);
 
         // Process images and attach review stats
-        const processedProducts = (sortedProducts || []).map((product: any) => {
+        const processedProducts = (response || []).map((product: any) => {
             let mainImageUrl = '/images/placeholder-product.jpg';
 
             if (product.main_image) {
@@ -744,7 +707,7 @@ export async function getBestSellers(limit: number = 8) {
                 ...product,
                 mainImageUrl,
                 image: mainImageUrl,
-                reviewStats: reviewStats[product.id]
+                reviewStats: toReviewStats(product)
             };
         });
 
@@ -759,7 +722,7 @@ export async function getBestSellers(limit: number = 8) {
 }
 
 /**
- * Fetch related products using Directus SDK (sorted by review rating)
+ * Fetch related products using Directus SDK (sorted by stored rating)
  */
 export async function getRelatedProducts(productId: string, limit: number = 4) {
     try {
@@ -772,9 +735,6 @@ export async function getRelatedProducts(productId: string, limit: number = 4) {
         const client = await getDirectusClient();
         const directusUrl = process.env.NEXT_PUBLIC_DIRECTUS_URL || 'https://admin.buyjan.com';
 
-        // Fetch more products to ensure we have enough after filtering
-        const fetchLimit = Math.max(limit * 3, 12);
-
         const response = await (client as any).request((readItems as any)('products', {
             fields: [
                 'id',
@@ -787,6 +747,8 @@ export async function getRelatedProducts(productId: string, limit: number = 4) {
                 'main_image',
                 'images.*',
                 'in_stock',
+                'rating_average',
+                'rating_count',
             ],
             filter: {
                 id: { _neq: productId },
@@ -795,28 +757,12 @@ export async function getRelatedProducts(productId: string, limit: number = 4) {
                     { in_stock: { _gt: 0 } }
                 ]
             },
-            limit: fetchLimit,
+            sort: ['-rating_average', '-rating_count'],
+            limit,
         }));
 
-        // Fetch review stats for all products
-        const reviewStats = await getMultipleProductsReviewStats((response || []).map((p: any) => p.id));
-
-        // Sort by average rating (descending)
-        const sortedProducts = (response || []).sort((a: any, b: any) => {
-            const statsA = reviewStats[a.id] || { average_rating: 0, review_count: 0 };
-            const statsB = reviewStats[b.id] || { average_rating: 0, review_count: 0 };
-
-            // Primary sort: average rating (descending)
-            if (statsA.average_rating !== statsB.average_rating) {
-                return statsB.average_rating - statsA.average_rating;
-            }
-
-            // Secondary sort: review count (descending)
-            return statsB.review_count - statsA.review_count;
-        }).slice(0, limit);
-
         // Process images and attach review stats
-        const processedProducts = (sortedProducts || []).map((prod: any) => {
+        const processedProducts = (response || []).map((prod: any) => {
             let mainImageUrl = '/images/placeholder-product.jpg';
 
             if (prod.main_image) {
@@ -830,7 +776,7 @@ export async function getRelatedProducts(productId: string, limit: number = 4) {
                 ...prod,
                 mainImageUrl,
                 image: mainImageUrl,
-                reviewStats: reviewStats[prod.id]
+                reviewStats: toReviewStats(prod)
             };
         });
 
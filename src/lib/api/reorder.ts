@@ -0,0 +1,158 @@
+/**
+ * Reorder API Module
+ *
+ * Turns the lines of a past order back into cart lines. Each line is looked up
+ * again in the catalog and goes into the cart at today's price; lines that
+ * can't be bought any more are left out. What differs from the order is
+ * reported, so the cart can tell the customer.
+ */
+
+import { CartItem, Product } from '@/types';
+import { OrderItem } from '@/types/collections';
+import { getCartLineId } from '@/store/cart';
+import type { CartLineState } from '@/lib/cart/revalidate';
+import { MAX_CART_LINE_QUANTITY } from '@/lib/cart/carts';
+import { PRICE_EPSILON, revalidateLines } from './cart';
+import { getOrderItems } from './orders';
+import { getProduct } from './products';
+
+/**
+ * How a reordered line differs from the original order
+ */
+export type ReorderIssue =
+    | { type: 'unavailable'; name: string }
+    | { type: 'quantity_limited'; name: string; ordered: number; available: number }
+    | { type: 'price_changed'; name: string; previous_price: number; price: number };
+
+export interface Reorder {
+    items: CartItem[];
+    issues: ReorderIssue[];
+}
+
+interface ReorderLine {
+    product: string;
+    variant: string | null;
+    quantity: number;
+    unit_price: number; // Price paid in the original order
+    name: string;
+}
+
+/**
+ * Name of an order line in the customer's language, with its variant
+ */
+export function getOrderItemName(item: OrderItem, locale: string): string {
+    const name = locale === 'ar' && item.product_name_ar ? item.product_name_ar : item.product_name;
+    return item.variation_name ? `${name} - ${item.variation_name}` : name;
+}
+
+/**
+ * Combine order lines for the same product and variant
+ */
+function toReorderLines(items: OrderItem[], locale: string): ReorderLine[] {
+    const lines = new Map<string, ReorderLine>();
+
+    for (const item of items) {
+        const product = String(item.product);
+        const variant = item.variation ? String(item.variation) : null;
+        const key = getCartLineId(product, variant || undefined);
+        const existing = lines.get(key);
+
+        if (existing) {
+            existing.quantity += Number(item.quantity) || 0;
+        } else {
+            lines.set(key, {
+                product,
+                variant,
+                quantity: Number(item.quantity) || 0,
+                unit_price: Number(item.unit_price) || 0,
+                name: getOrderItemName(item, locale),
+            });
+        }
+    }
+
+    return Array.from(lines.values()).filter((line) => line.quantity > 0);
+}
+
+/**
+ * Work out the cart lines for a reorder
+ *
+ * @param items - Lines of the original order
+ * @param states - Current price and availability of those lines
+ * @param products - Current catalog products (with their variants) of the available lines
+ */
+export function planReorder(
+    items: OrderItem[],
+    states: CartLineState[],
+    products: Product[],
+    locale: string
+): Reorder {
+    const productsById = new Map(products.map((product) => [String(product.id), product]));
+    const plan: Reorder = { items: [], issues: [] };
+
+    for (const line of toReorderLines(items, locale)) {
+        const state = states.find((candidate) => candidate.product === line.product && candidate.variant === line.variant);
+        const product = productsById.get(line.product);
+        const variant = line.variant ? product?.variants?.find((candidate) => candidate.id === line.variant) : undefined;
+
+        if (!state || state.status !== 'available' || state.unit_price === null || !product || (line.variant && !variant)) {
+            plan.issues.push({ type: 'unavailable', name: line.name });
+            continue;
+        }
+
+        let quantity = Math.min(line.quantity, MAX_CART_LINE_QUANTITY);
+        if (state.stock !== null && state.stock < quantity) {
+            quantity = state.stock;
+            plan.issues.push({ type: 'quantity_limited', name: line.name, ordered: line.quantity, available: quantity });
+        }
+
+        if (Math.abs(line.unit_price - state.unit_price) > PRICE_EPSILON) {
+            plan.issues.push({ type: 'price_changed', name: line.name, previous_price: line.unit_price, price: state.unit_price });
+        }
+
+        plan.items.push({
+            id: getCartLineId(line.product, variant?.id),
+            // Prices as just revalidated, in case the product was cached
+            product: {
+                ...product,
+                price: state.price ?? product.price,
+                sale_price: state.sale_price ?? undefined,
+            },
+            quantity,
+            ...(variant && {
+                selected_variant: { ...variant, price_adjustment: state.price_adjustment ?? undefined },
+            }),
+        });
+    }
+
+    return plan;
+}
+
+/**
+ * Load a past order and work out what of it can go back in the cart
+ * The caller adds the items to the cart store.
+ */
+export async function reorder(orderId: string, accessToken: string, locale: string): Promise<Reorder> {
+    const items = await getOrderItems(orderId, accessToken);
+    const lines = toReorderLines(items, locale);
+
+    const states = await revalidateLines(lines.map((line) => ({
+        product: line.product,
+        variant: line.variant,
+        quantity: Math.min(line.quantity, MAX_CART_LINE_QUANTITY),
+    })));
+
+    // Only products that can still be bought need their catalog details
+    const productIds = Array.from(new Set(
+        states.filter((state) => state.status === 'available').map((state) => state.product)
+    ));
+    const products = await Promise.all(productIds.map(async (productId) => {
+        try {
+            const { data } = await getProduct(productId);
+            return data as Product;
+        } catch {
+            return null;
+        }
+    }));
+
+    return planReorder(items, states, products.filter((product): product is Product => product !== null), locale);
+}
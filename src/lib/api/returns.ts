@@ -0,0 +1,172 @@
+/**
+ * Returns API Module
+ *
+ * Return requests (RMAs) for delivered orders. Customers file them from the
+ * order page; staff then move them through requested → approved → received →
+ * refunded or exchanged (or reject them). The rules for what may be returned
+ * and which status comes next live here, so the order page and the API agree.
+ */
+
+import axios from 'axios';
+import { Order, OrderItem, ReturnLine, ReturnReason, ReturnRequest, ReturnResolution, ReturnStatus } from '@/types/collections';
+
+/**
+ * Reasons offered on the return form
+ */
+export const RETURN_REASONS: ReturnReason[] = [
+    'damaged',
+    'wrong_item',
+    'wrong_shade',
+    'allergic_reaction',
+    'not_as_described',
+    'changed_mind',
+    'other',
+];
+
+export const RETURN_RESOLUTIONS: ReturnResolution[] = ['refund', 'exchange'];
+
+/**
+ * Days after purchase that items may be returned (see the returns policy page)
+ */
+export const RETURN_WINDOW_DAYS = 30;
+
+export const MAX_RETURN_PHOTOS = 5;
+export const MAX_RETURN_PHOTO_BYTES = 5 * 1024 * 1024;
+export const MAX_RETURN_DETAILS_LENGTH = 1000;
+
+/**
+ * Statuses staff may move a return to from each status
+ */
+const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+    requested: ['approved', 'rejected'],
+    approved: ['received', 'rejected'],
+    received: ['refunded', 'exchanged'],
+    rejected: [],
+    refunded: [],
+    exchanged: [],
+};
+
+/**
+ * Steps of a return as shown on the order timeline, in order
+ */
+export const RETURN_STEPS: ReturnStatus[] = ['requested', 'approved', 'received'];
+
+/**
+ * Whether items of an order may still be returned
+ */
+export function isOrderReturnable(
+    order: Pick<Order, 'status' | 'created_at' | 'date_created'>,
+    now: number = Date.now()
+): boolean {
+    if (order.status !== 'delivered') {
+        return false;
+    }
+
+    const placedOn = order.created_at || order.date_created;
+    const placedAt = placedOn ? new Date(placedOn).getTime() : NaN;
+    return !isNaN(placedAt) && now - placedAt <= RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Units of each order line that can still be returned: what was ordered less
+ * what other returns already cover (rejected returns give their units back)
+ */
+export function getReturnableQuantities(
+    items: Pick<OrderItem, 'id' | 'quantity'>[],
+    returns: Pick<ReturnRequest, 'status' | 'items'>[]
+): Record<string, number> {
+    const quantities: Record<string, number> = {};
+    for (const item of items) {
+        quantities[String(item.id)] = Number(item.quantity) || 0;
+    }
+
+    for (const ret of returns) {
+        if (ret.status === 'rejected') continue;
+        for (const line of ret.items || []) {
+            const id = String(line.order_item);
+            if (id in quantities) {
+                quantities[id] = Math.max(0, quantities[id] - line.quantity);
+            }
+        }
+    }
+
+    return quantities;
+}
+
+/**
+ * Statuses a return may be moved to next
+ */
+export function getNextReturnStatuses(ret: Pick<ReturnRequest, 'status' | 'resolution'>): ReturnStatus[] {
+    return (RETURN_TRANSITIONS[ret.status] || []).filter((status) =>
+        // Received items are resolved the way the customer asked
+        status === 'refunded' ? ret.resolution === 'refund'
+            : status === 'exchanged' ? ret.resolution === 'exchange'
+                : true
+    );
+}
+
+export interface ReturnRequestInput {
+    orderId: string;
+    items: ReturnLine[];
+    reason: ReturnReason;
+    resolution: ReturnResolution;
+    details?: string;
+    photos?: File[];
+}
+
+/**
+ * File a return for one of the customer's orders
+ * Photos are uploaded with the request, so it is sent as multipart form data.
+ */
+export async function createReturn(
+    input: ReturnRequestInput,
+    accessToken: string
+): Promise<ReturnRequest> {
+    const form = new FormData();
+    form.append('order', input.orderId);
+    form.append('items', JSON.stringify(input.items));
+    form.append('reason', input.reason);
+    form.append('resolution', input.resolution);
+    if (input.details) {
+        form.append('details', input.details);
+    }
+    for (const photo of input.photos || []) {
+        form.append('photos', photo, photo.name);
+    }
+
+    try {
+        const response = await axios.post('/api/returns', form, {
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+            },
+        });
+
+        console.log('[Returns] Created return:', response.data.data?.return_number);
+        return response.data.data;
+    } catch (error: any) {
+        console.error('[Returns] Failed to create return:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Get the customer's returns, optionally only those of one order
+ */
+export async function getReturns(
+    accessToken: string,
+    orderId?: string
+): Promise<ReturnRequest[]> {
+    try {
+        const response = await axios.get('/api/returns', {
+            params: orderId ? { order: orderId } : undefined,
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+            },
+        });
+
+        return response.data.data || [];
+    } catch (error: any) {
+        console.error('[Returns] Failed to fetch returns:', error.message);
+        throw error;
+    }
+}
@@ -93,27 +93,6 @@ export async function searchCategories(query: string, limit: number = 3): Promis
     }
 }
 
-/**
- * Get popular searches
- */
-export async function getPopularSearches(limit: number = 6): Promise<string[]> {
-    try {
-        // In a real application, this would track actual searches
-        // For now, return trending category names
-        const client = await getDirectusClient();
-
-        const categories = await (client as any).request((readItems as any)('categiries', {
-            fields: ['name'],
-            limit: limit,
-        })) as any[];
-
-        return (categories || []).map(cat => cat.name).filter(Boolean);
-    } catch (error) {
-        console.error('[Search] Error getting popular searches:', error instanceof Error ? error.message : String(error));
-        return [];
-    }
-}
-
 /**
  * Combined search for products and categories
  */
@@ -180,6 +180,31 @@ export async function getAvailableShippingMethods(
     }
 }
 
+/**
+ * Shipping cost of a method for a given cart value
+ * Shared by the checkout UI and server-side order pricing so both charge the same amount
+ * @param method - Shipping method (only the pricing fields are used)
+ * @param cartValue - Cart subtotal in OMR
+ */
+export function getShippingCostForMethod(
+    method: Pick<ShippingMethod, 'cost' | 'free_shipping_threshold' | 'additional_cost' | 'max_value'>,
+    cartValue: number = 0
+): number {
+    // Check if free shipping threshold is met
+    if (method.free_shipping_threshold && cartValue >= method.free_shipping_threshold) {
+        return 0; // Free shipping
+    }
+
+    // Calculate cost with additional charges if applicable
+    let totalCost = Number(method.cost) || 0;
+
+    if (method.additional_cost && method.max_value && cartValue > method.max_value) {
+        totalCost += Number(method.additional_cost);
+    }
+
+    return totalCost;
+}
+
 /**
  * Calculate shipping cost with considerations for cart value and free shipping threshold
  * @param shippingMethodId - ID of the selected shipping method
@@ -198,19 +223,7 @@ export async function calculateShippingCost(
             return 0;
         }
 
-        // Check if free shipping threshold is met
-        if (method.free_shipping_threshold && cartValue >= method.free_shipping_threshold) {
-            return 0; // Free shipping
-        }
-
-        // Calculate cost with additional charges if applicable
-        let totalCost = method.cost;
-
-        if (method.additional_cost && method.max_value && cartValue > method.max_value) {
-            totalCost += method.additional_cost;
-        }
-
-        return totalCost;
+        return getShippingCostForMethod(method, cartValue);
     } catch (error) {
         console.error('[Shipping API] Error calculating shipping cost:', error);
         return 0;
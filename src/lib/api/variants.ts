@@ -0,0 +1,119 @@
+/**
+ * Product Variants API
+ * Handles product variations (shades, sizes) and their pricing and stock
+ */
+
+import { readItems } from '@directus/sdk';
+import { getDirectusClient } from './directus';
+import { COLLECTIONS } from '@/lib/config/constants';
+import { ProductVariant } from '@/types';
+
+const VARIANT_FIELDS = [
+    'id',
+    'product',
+    'type',
+    'name',
+    'name_ar',
+    'value',
+    'price_adjustment',
+    'sku',
+    'stock',
+    'in_stock',
+    'is_active',
+    'sort_order',
+];
+
+/**
+ * Fetch the active variants of a product
+ * Returns an empty array when the product has no variants or they can't be loaded
+ */
+export async function getProductVariants(productId: string): Promise<ProductVariant[]> {
+    try {
+        const client = await getDirectusClient();
+        const variants = await (client as any).request(
+            (readItems as any)(COLLECTIONS.PRODUCT_VARIATIONS, {
+                filter: {
+                    product: { _eq: productId },
+                    is_active: { _neq: false },
+                },
+                sort: ['sort_order', 'name'],
+                fields: VARIANT_FIELDS,
+                limit: -1,
+            })
+        );
+
+        return (variants || []).map(normalizeVariant);
+    } catch (error) {
+        console.error('[Variants] Failed to fetch variants for product:', productId, error instanceof Error ? error.message : error);
+        return [];
+    }
+}
+
+/**
+ * Fetch variants by ID (server-side, used when pricing orders)
+ */
+export async function getVariantsByIds(variantIds: string[]): Promise<ProductVariant[]> {
+    if (variantIds.length === 0) {
+        return [];
+    }
+
+    const client = await getDirectusClient();
+    const variants = await (client as any).request(
+        (readItems as any)(COLLECTIONS.PRODUCT_VARIATIONS, {
+            filter: { id: { _in: variantIds } },
+            fields: VARIANT_FIELDS,
+            limit: variantIds.length,
+        })
+    );
+
+    return (variants || []).map(normalizeVariant);
+}
+
+/**
+ * Coerce Directus decimal strings to numbers
+ */
+function normalizeVariant(variant: any): ProductVariant {
+    return {
+        ...variant,
+        id: String(variant.id),
+        product: variant.product !== undefined && variant.product !== null
+            ? String(typeof variant.product === 'object' ? variant.product.id : variant.product)
+            : undefined,
+        price_adjustment: variant.price_adjustment !== undefined && variant.price_adjustment !== null
+            ? Number(variant.price_adjustment)
+            : undefined,
+        stock: variant.stock !== undefined && variant.stock !== null ? Number(variant.stock) : undefined,
+    };
+}
+
+/**
+ * Apply a variant's price adjustment to a base unit price
+ */
+export function applyVariantPrice(basePrice: number, variant?: ProductVariant | null): number {
+    const price = basePrice + (variant?.price_adjustment || 0);
+    return Number(Math.max(price, 0).toFixed(3));
+}
+
+/**
+ * Check if a variant can be added to the cart
+ * `in_stock` may hold a stock count or a boolean, like on products
+ */
+export function isVariantInStock(variant: ProductVariant): boolean {
+    if (variant.is_active === false) {
+        return false;
+    }
+    if (typeof variant.stock === 'number') {
+        return variant.stock > 0;
+    }
+    if (typeof variant.in_stock === 'number') {
+        return variant.in_stock > 0;
+    }
+    return variant.in_stock !== false;
+}
+
+/**
+ * Localized display name of a variant
+ */
+export function getVariantName(variant: ProductVariant, locale: string): string {
+    return locale === 'ar' && variant.name_ar ? variant.name_ar : variant.name;
+}
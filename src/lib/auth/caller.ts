@@ -0,0 +1,71 @@
+/**
+ * Request Caller (server-side)
+ *
+ * Works out which customer an API request comes from, using the Directus
+ * access token it carries. The customer is looked up with the server token,
+ * so never import this from client components.
+ */
+
+import axios from 'axios';
+import { getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+
+export type CallerErrorCode = 'UNAUTHORIZED' | 'CUSTOMER_NOT_FOUND';
+
+/**
+ * Raised when the caller of a request can't be identified as a customer
+ */
+export class CallerError extends Error {
+    constructor(
+        public code: CallerErrorCode,
+        message: string
+    ) {
+        super(message);
+        this.name = 'CallerError';
+    }
+}
+
+/**
+ * Find the customer a Directus access token belongs to
+ *
+ * @param authHeader - Authorization header of the caller
+ * @throws CallerError UNAUTHORIZED for a missing or rejected token, CUSTOMER_NOT_FOUND without a profile
+ */
+export async function findCustomerIdForToken(authHeader: string | null): Promise<string> {
+    if (!authHeader?.startsWith('Bearer ') || authHeader.length <= 'Bearer '.length) {
+        throw new CallerError('UNAUTHORIZED', 'Missing authorization header');
+    }
+
+    let userId: string | undefined;
+    try {
+        const me = await axios.get(`${getDirectusUrl()}/users/me`, {
+            params: { fields: 'id' },
+            headers: { 'Authorization': authHeader },
+        });
+        userId = me.data.data?.id;
+    } catch (error: any) {
+        if (error.response?.status === 401 || error.response?.status === 403) {
+            throw new CallerError('UNAUTHORIZED', 'Invalid or expired token');
+        }
+        throw error;
+    }
+
+    if (!userId) {
+        throw new CallerError('UNAUTHORIZED', 'Invalid or expired token');
+    }
+
+    const response = await axios.get(`${getDirectusUrl()}/items/${COLLECTIONS.CUSTOMERS}`, {
+        params: {
+            filter: JSON.stringify({ user: { _eq: userId } }),
+            fields: 'id',
+            limit: 1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    const customerId = response.data.data?.[0]?.id;
+    if (!customerId) {
+        throw new CallerError('CUSTOMER_NOT_FOUND', 'No customer profile for this account');
+    }
+    return String(customerId);
+}
@@ -0,0 +1,23 @@
+/**
+ * Scheduled Job Requests (server-side)
+ *
+ * The /api/cron routes are called by a scheduler, not by customers. It proves
+ * itself with the shared CRON_SECRET; without one set, the routes stay closed.
+ */
+
+import { NextRequest } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Whether the request carries the scheduler's secret (CRON_SECRET)
+ */
+export function isCronRequest(request: NextRequest): boolean {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        return false;
+    }
+
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const received = Buffer.from(request.headers.get('Authorization') || '');
+    return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,227 @@
+/**
+ * Customer Carts (server-side)
+ *
+ * Keeps the carts of signed-in customers in the Directus `carts` and
+ * `cart_items` collections, so a cart follows the customer across devices.
+ * Each customer has at most one `active` cart. Lines carry a snapshot of the
+ * product as it was shown, so any device can render the cart; prices are
+ * always worked out again from Directus when an order is placed.
+ *
+ * Callers are identified by their Directus access token (see
+ * @/lib/auth/caller); the collections themselves are read and written
+ * with the server token.
+ */
+
+import axios from 'axios';
+import { ServerCart, ServerCartItem } from '@/types/collections';
+import { getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+
+/**
+ * Most units of one line a cart may hold
+ */
+export const MAX_CART_LINE_QUANTITY = 99;
+
+/**
+ * Most lines a cart may hold
+ */
+export const MAX_CART_LINES = 100;
+
+/**
+ * A cart line as sent to /api/cart
+ */
+export interface CartLineInput {
+    product: string;
+    variant?: string | null;
+    quantity: number;
+    product_snapshot?: Record<string, any>;
+    variant_snapshot?: Record<string, any> | null;
+}
+
+export type CartErrorCode = 'INVALID_CART' | 'INVALID_LINK';
+
+/**
+ * Raised when a cart request can't be served
+ */
+export class CartError extends Error {
+    constructor(
+        public code: CartErrorCode,
+        message: string
+    ) {
+        super(message);
+        this.name = 'CartError';
+    }
+}
+
+function itemsUrl(collection: string): string {
+    return `${getDirectusUrl()}/items/${collection}`;
+}
+
+function lineKey(line: Pick<CartLineInput, 'product' | 'variant'>): string {
+    return line.variant ? `${line.product}:${line.variant}` : line.product;
+}
+
+/**
+ * Check and normalize the lines of a cart request
+ *
+ * @throws CartError INVALID_CART when a line has no product or a bad quantity
+ */
+export function validateCartLines(lines: unknown): CartLineInput[] {
+    if (!Array.isArray(lines)) {
+        throw new CartError('INVALID_CART', 'Cart items must be a list');
+    }
+    if (lines.length > MAX_CART_LINES) {
+        throw new CartError('INVALID_CART', `A cart can hold at most ${MAX_CART_LINES} lines`);
+    }
+
+    return lines.map((line: any) => {
+        const quantity = Number(line?.quantity);
+        if (!line?.product || !Number.isInteger(quantity) || quantity < 1 || quantity > MAX_CART_LINE_QUANTITY) {
+            throw new CartError('INVALID_CART', `Each item needs a product and a quantity from 1 to ${MAX_CART_LINE_QUANTITY}`);
+        }
+
+        return {
+            product: String(line.product),
+            variant: line.variant ? String(line.variant) : null,
+            quantity,
+            product_snapshot: line.product_snapshot && typeof line.product_snapshot === 'object' ? line.product_snapshot : undefined,
+            variant_snapshot: line.variant_snapshot && typeof line.variant_snapshot === 'object' ? line.variant_snapshot : null,
+        };
+    });
+}
+
+/**
+ * Combine two sets of cart lines
+ *
+ * Lines for the same product and variant are added up (capped at
+ * MAX_CART_LINE_QUANTITY) and keep the newest snapshot. Lines only in
+ * `incoming` are appended after the lines of `base`.
+ */
+export function mergeCartLines(base: CartLineInput[], incoming: CartLineInput[]): CartLineInput[] {
+    const merged = new Map<string, CartLineInput>();
+
+    for (const line of [...base, ...incoming]) {
+        const key = lineKey(line);
+        const existing = merged.get(key);
+
+        merged.set(key, {
+            ...line,
+            product_snapshot: line.product_snapshot || existing?.product_snapshot,
+            variant_snapshot: line.variant_snapshot || existing?.variant_snapshot || null,
+            quantity: Math.min((existing?.quantity || 0) + line.quantity, MAX_CART_LINE_QUANTITY),
+        });
+    }
+
+    return Array.from(merged.values()).slice(0, MAX_CART_LINES);
+}
+
+/**
+ * Lines of a saved cart
+ */
+export async function fetchCartItems(cartId: string): Promise<ServerCartItem[]> {
+    const response = await axios.get(itemsUrl(COLLECTIONS.CART_ITEMS), {
+        params: {
+            filter: JSON.stringify({ cart: { _eq: cartId } }),
+            sort: 'id',
+            limit: -1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    return response.data.data || [];
+}
+
+/**
+ * The customer's active cart with its items, or null when they have none
+ */
+export async function getActiveCart(customerId: string): Promise<ServerCart | null> {
+    const response = await axios.get(itemsUrl(COLLECTIONS.CARTS), {
+        params: {
+            filter: JSON.stringify({
+                customer: { _eq: customerId },
+                status: { _eq: 'active' },
+            }),
+            sort: '-date_created',
+            limit: 1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    const cart: ServerCart | undefined = response.data.data?.[0];
+    if (!cart) {
+        return null;
+    }
+
+    return { ...cart, items: await fetchCartItems(cart.id) };
+}
+
+async function createCart(customerId: string): Promise<ServerCart> {
+    const response = await axios.post(
+        itemsUrl(COLLECTIONS.CARTS),
+        {
+            customer: customerId,
+            status: 'active',
+            last_activity: new Date().toISOString(),
+        },
+        { headers: getServerAuthHeaders() }
+    );
+
+    return { ...response.data.data, items: [] };
+}
+
+/**
+ * Replace the items of the customer's active cart, creating the cart if needed
+ */
+export async function saveCart(customerId: string, lines: CartLineInput[]): Promise<ServerCart> {
+    const cart = await getActiveCart(customerId) || await createCart(customerId);
+
+    // Swap the lines: drop the old ones, then write the new set
+    const oldIds = (cart.items || []).map((item) => item.id);
+    if (oldIds.length > 0) {
+        await axios.delete(itemsUrl(COLLECTIONS.CART_ITEMS), {
+            data: oldIds,
+            headers: getServerAuthHeaders(),
+        });
+    }
+
+    let items: ServerCartItem[] = [];
+    if (lines.length > 0) {
+        const response = await axios.post(
+            itemsUrl(COLLECTIONS.CART_ITEMS),
+            lines.map((line) => ({ ...line, cart: cart.id })),
+            { headers: getServerAuthHeaders() }
+        );
+        items = response.data.data || [];
+    }
+
+    const updated = await axios.patch(
+        `${itemsUrl(COLLECTIONS.CARTS)}/${cart.id}`,
+        { last_activity: new Date().toISOString() },
+        { headers: getServerAuthHeaders() }
+    );
+
+    console.log('[Carts] Saved cart:', cart.id, 'lines:', items.length);
+    return { ...cart, ...updated.data.data, items };
+}
+
+/**
+ * Add the lines of a guest cart to the customer's active cart
+ */
+export async function mergeIntoCart(customerId: string, guestLines: CartLineInput[]): Promise<ServerCart> {
+    const cart = await getActiveCart(customerId);
+    if (guestLines.length === 0 && cart) {
+        return cart;
+    }
+
+    const saved = validateCartLines(
+        (cart?.items || []).map((item) => ({
+            product: item.product,
+            variant: item.variant,
+            quantity: item.quantity,
+            product_snapshot: item.product_snapshot,
+            variant_snapshot: item.variant_snapshot,
+        }))
+    );
+
+    return saveCart(customerId, mergeCartLines(saved, guestLines));
+}
@@ -0,0 +1,304 @@
+/**
+ * Abandoned Cart Reminders (server-side)
+ *
+ * Emails signed-in customers whose saved cart (see ./carts) has sat idle,
+ * with a signed link that restores the cart on any device. Meant to run on a
+ * schedule through POST /api/cron/cart-reminders (scripts/send-cart-reminders.js
+ * calls it from cron).
+ *
+ * Configured with:
+ * - CART_REMINDER_INTERVALS_HOURS: idle hours before each reminder (default 4,24,72)
+ * - CART_REMINDER_MAX: most reminders a cart gets (default and upper limit:
+ *   one per interval)
+ * - CART_RECOVERY_SECRET: signs the restore links
+ * - CART_RECOVERY_LINK_DAYS: how long a restore link works (default 14)
+ */
+
+import axios from 'axios';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { RestoredCart, ServerCart } from '@/types/collections';
+import { getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+import { sendMail } from '@/lib/mail/transport';
+import { EmailLocale, getStorefrontUrl } from '@/lib/mail/render';
+import { renderCartReminderEmail } from '@/lib/mail/templates/CartReminderEmail';
+import { CartError, fetchCartItems } from './carts';
+
+const DEFAULT_INTERVALS_HOURS = [4, 24, 72];
+const DEFAULT_LINK_DAYS = 14;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Most carts handled in one run; the rest are picked up by the next run
+ */
+const MAX_CARTS_PER_RUN = 200;
+
+export interface CartReminderConfig {
+    intervalsHours: number[];
+    maxReminders: number;
+    linkDays: number;
+}
+
+/**
+ * Outcome of a reminder run
+ */
+export interface CartReminderSummary {
+    checked: number;
+    sent: number;
+    skipped: number;
+    failed: number;
+}
+
+/**
+ * A cart as read for reminders, with its customer and their account email
+ */
+interface ReminderCart extends Omit<ServerCart, 'customer'> {
+    customer: {
+        id: string;
+        first_name?: string;
+        user?: { email?: string; first_name?: string } | null;
+    } | null;
+}
+
+function itemsUrl(collection: string): string {
+    return `${getDirectusUrl()}/items/${collection}`;
+}
+
+/**
+ * Reminder settings from the environment
+ */
+export function getCartReminderConfig(): CartReminderConfig {
+    const intervals = (process.env.CART_REMINDER_INTERVALS_HOURS || '')
+        .split(',')
+        .map((value) => Number(value.trim()))
+        .filter((hours) => Number.isFinite(hours) && hours > 0)
+        .sort((a, b) => a - b);
+    const intervalsHours = intervals.length > 0 ? intervals : DEFAULT_INTERVALS_HOURS;
+
+    const max = parseInt(process.env.CART_REMINDER_MAX || '', 10);
+    const linkDays = Number(process.env.CART_RECOVERY_LINK_DAYS);
+
+    return {
+        intervalsHours,
+        maxReminders: Number.isInteger(max) && max >= 0 ? Math.min(max, intervalsHours.length) : intervalsHours.length,
+        linkDays: linkDays > 0 ? linkDays : DEFAULT_LINK_DAYS,
+    };
+}
+
+/**
+ * Whether a cart is due its next reminder
+ *
+ * Reminder n goes out once the cart has been idle for the n-th interval.
+ * Activity on the cart restarts the idle time but not the count, so a cart
+ * never gets more than maxReminders.
+ */
+export function isReminderDue(
+    cart: Pick<ServerCart, 'last_activity' | 'reminders_sent'>,
+    config: CartReminderConfig,
+    now: Date = new Date()
+): boolean {
+    const sent = cart.reminders_sent || 0;
+    if (sent >= config.maxReminders || !cart.last_activity) {
+        return false;
+    }
+
+    const idleMs = now.getTime() - new Date(cart.last_activity).getTime();
+    return idleMs >= config.intervalsHours[sent] * HOUR_MS;
+}
+
+function getRecoverySecret(): string {
+    const secret = process.env.CART_RECOVERY_SECRET;
+    if (!secret) {
+        throw new Error('CART_RECOVERY_SECRET is not set');
+    }
+    return secret;
+}
+
+function sign(payload: string, secret: string): string {
+    return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Signed token identifying a cart until expiresAt, for restore links
+ */
+export function createCartRecoveryToken(
+    cartId: string,
+    expiresAt: Date,
+    secret: string = getRecoverySecret()
+): string {
+    const payload = Buffer.from(JSON.stringify({
+        cart: cartId,
+        exp: Math.floor(expiresAt.getTime() / 1000),
+    })).toString('base64url');
+
+    return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Cart id of a restore link token, or null when it is forged, malformed or expired
+ */
+export function verifyCartRecoveryToken(
+    token: string,
+    now: Date = new Date(),
+    secret: string = getRecoverySecret()
+): string | null {
+    const [payload, signature] = String(token || '').split('.');
+    if (!payload || !signature) {
+        return null;
+    }
+
+    const expected = Buffer.from(sign(payload, secret));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+        return null;
+    }
+
+    try {
+        const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        if (typeof data.cart !== 'string' || typeof data.exp !== 'number' || data.exp * 1000 < now.getTime()) {
+            return null;
+        }
+        return data.cart;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Link that restores a cart, on the storefront in the given language
+ */
+export function getCartRestoreUrl(token: string, locale: EmailLocale): string {
+    return getStorefrontUrl(locale, `/cart/restore?token=${encodeURIComponent(token)}`);
+}
+
+/**
+ * The lines of the cart a restore link points to, with their snapshots
+ * @throws CartError INVALID_LINK when the token is bad or the cart is no longer active
+ */
+export async function getCartForRecovery(token: string): Promise<RestoredCart> {
+    const cartId = verifyCartRecoveryToken(token);
+    if (!cartId) {
+        throw new CartError('INVALID_LINK', 'This link is invalid or has expired');
+    }
+
+    let cart: ServerCart | undefined;
+    try {
+        const response = await axios.get(`${itemsUrl(COLLECTIONS.CARTS)}/${cartId}`, {
+            headers: getServerAuthHeaders(),
+        });
+        cart = response.data.data;
+    } catch (error: any) {
+        if (error.response?.status !== 403 && error.response?.status !== 404) {
+            throw error;
+        }
+    }
+
+    if (!cart || cart.status !== 'active') {
+        throw new CartError('INVALID_LINK', 'This cart is no longer available');
+    }
+
+    const items = await fetchCartItems(cart.id);
+    return {
+        items: items.map(({ product, variant, quantity, product_snapshot, variant_snapshot }) => ({
+            product,
+            variant,
+            quantity,
+            product_snapshot,
+            variant_snapshot,
+        })),
+    };
+}
+
+async function fetchIdleCarts(config: CartReminderConfig, now: Date): Promise<ReminderCart[]> {
+    const idleSince = new Date(now.getTime() - config.intervalsHours[0] * HOUR_MS);
+
+    const response = await axios.get(itemsUrl(COLLECTIONS.CARTS), {
+        params: {
+            filter: JSON.stringify({
+                status: { _eq: 'active' },
+                last_activity: { _lte: idleSince.toISOString() },
+                _or: [
+                    { reminders_sent: { _null: true } },
+                    { reminders_sent: { _lt: config.maxReminders } },
+                ],
+            }),
+            fields: 'id,status,last_activity,reminders_sent,last_reminder_at,customer.id,customer.first_name,customer.user.email,customer.user.first_name',
+            sort: 'last_activity',
+            limit: MAX_CARTS_PER_RUN,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    return response.data.data || [];
+}
+
+/**
+ * Email every idle cart that is due a reminder
+ *
+ * @param options.dryRun - Work out who is due without sending or recording anything
+ */
+export async function sendCartReminders(
+    options: { now?: Date; dryRun?: boolean; config?: CartReminderConfig } = {}
+): Promise<CartReminderSummary> {
+    const now = options.now || new Date();
+    const config = options.config || getCartReminderConfig();
+    const summary: CartReminderSummary = { checked: 0, sent: 0, skipped: 0, failed: 0 };
+
+    if (config.maxReminders === 0) {
+        return summary;
+    }
+
+    // Fail the run up front rather than per cart
+    const secret = getRecoverySecret();
+    const carts = await fetchIdleCarts(config, now);
+
+    for (const cart of carts) {
+        summary.checked++;
+
+        const email = cart.customer?.user?.email;
+        if (!isReminderDue(cart, config, now) || !email) {
+            summary.skipped++;
+            continue;
+        }
+
+        try {
+            const items = await fetchCartItems(cart.id);
+            if (items.length === 0) {
+                summary.skipped++;
+                continue;
+            }
+
+            if (options.dryRun) {
+                summary.sent++;
+                continue;
+            }
+
+            const reminderNumber = (cart.reminders_sent || 0) + 1;
+            const token = createCartRecoveryToken(cart.id, new Date(now.getTime() + config.linkDays * 24 * HOUR_MS), secret);
+
+            await sendMail({
+                to: email,
+                ...renderCartReminderEmail({
+                    firstName: cart.customer?.first_name || cart.customer?.user?.first_name,
+                    items,
+                    restoreUrls: { ar: getCartRestoreUrl(token, 'ar'), en: getCartRestoreUrl(token, 'en') },
+                    reminderNumber,
+                }),
+            });
+
+            await axios.patch(
+                `${itemsUrl(COLLECTIONS.CARTS)}/${cart.id}`,
+                { reminders_sent: reminderNumber, last_reminder_at: now.toISOString() },
+                { headers: getServerAuthHeaders() }
+            );
+
+            summary.sent++;
+        } catch (error: any) {
+            summary.failed++;
+            console.error('[Cart Reminders] Failed to remind cart:', cart.id, error.response?.data || error.message);
+        }
+    }
+
+    console.log('[Cart Reminders] Run finished:', summary);
+    return summary;
+}
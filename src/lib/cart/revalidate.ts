@@ -0,0 +1,159 @@
+/**
+ * Cart Revalidation (server-side)
+ *
+ * Cart lines keep the product as it was when it was added, so their prices
+ * and stock go stale once a promotion ends or a product sells out. This looks
+ * the lines up again in Directus and reports what each one costs and whether
+ * it can still be bought, so the cart can warn the customer before checkout.
+ */
+
+import axios from 'axios';
+import { ProductVariant } from '@/types';
+import { getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+import { getVariantsByIds, applyVariantPrice } from '@/lib/api/variants';
+import { getUnitPrice } from '@/lib/orders/pricing';
+import { getTrackedQuantity, StockRecord } from '@/lib/inventory/stock';
+
+/**
+ * Product statuses that take a product off sale
+ */
+const UNLISTED_PRODUCT_STATUSES = ['draft', 'archived'];
+
+export type CartLineAvailability = 'available' | 'out_of_stock' | 'unavailable';
+
+/**
+ * A cart line to revalidate
+ */
+export interface RevalidationLine {
+    product: string;
+    variant?: string | null;
+}
+
+/**
+ * Product fields needed to revalidate a line
+ */
+export interface RevalidationProduct {
+    id: string | number;
+    name: string;
+    price: number | string;
+    sale_price?: number | string | null;
+    stock?: number | null;
+    in_stock?: boolean | number | null;
+    status?: string | null;
+}
+
+/**
+ * Current price and availability of a cart line
+ * `stock` is null when stock isn't counted for the product or variant
+ */
+export interface CartLineState {
+    product: string;
+    variant: string | null;
+    price: number | null;
+    sale_price: number | null;
+    price_adjustment: number | null;
+    unit_price: number | null;
+    stock: number | null;
+    status: CartLineAvailability;
+}
+
+function toAmount(value: number | string | null | undefined): number | null {
+    if (value === null || value === undefined || value === '') {
+        return null;
+    }
+    const amount = Number(value);
+    return Number.isFinite(amount) ? amount : null;
+}
+
+function unavailable(line: RevalidationLine): CartLineState {
+    return {
+        product: String(line.product),
+        variant: line.variant ? String(line.variant) : null,
+        price: null,
+        sale_price: null,
+        price_adjustment: null,
+        unit_price: null,
+        stock: null,
+        status: 'unavailable',
+    };
+}
+
+/**
+ * Work out the current state of cart lines from known products and variants
+ *
+ * A line is `unavailable` when its product (or variant) is gone, unlisted or
+ * has no price, and `out_of_stock` when it exists but none is left to sell.
+ */
+export function getCartLineStates(
+    lines: RevalidationLine[],
+    products: RevalidationProduct[],
+    variants: ProductVariant[] = []
+): CartLineState[] {
+    const productsById = new Map(products.map((product) => [String(product.id), product]));
+    const variantsById = new Map(variants.map((variant) => [String(variant.id), variant]));
+
+    return lines.map((line) => {
+        const product = productsById.get(String(line.product));
+        if (!product || (product.status && UNLISTED_PRODUCT_STATUSES.includes(product.status))) {
+            return unavailable(line);
+        }
+
+        const basePrice = getUnitPrice(product);
+        if (basePrice <= 0) {
+            return unavailable(line);
+        }
+
+        // A variant must exist, belong to the product and still be offered
+        const variant = line.variant ? variantsById.get(String(line.variant)) : undefined;
+        if (line.variant && (!variant || variant.product !== String(product.id) || variant.is_active === false)) {
+            return unavailable(line);
+        }
+
+        // Variants keep their own stock
+        const record: StockRecord = variant
+            ? { id: variant.id, name: variant.name, stock: variant.stock, in_stock: variant.in_stock }
+            : { id: product.id, name: product.name, stock: toAmount(product.stock), in_stock: product.in_stock };
+        const stock = getTrackedQuantity(record);
+        const inStock = stock === null
+            ? record.in_stock !== false && record.in_stock !== null
+            : stock > 0;
+
+        return {
+            product: String(product.id),
+            variant: variant ? variant.id : null,
+            price: toAmount(product.price),
+            sale_price: toAmount(product.sale_price),
+            price_adjustment: variant?.price_adjustment ?? null,
+            unit_price: applyVariantPrice(basePrice, variant),
+            stock: stock === null ? null : Math.max(stock, 0),
+            status: inStock ? 'available' : 'out_of_stock',
+        };
+    });
+}
+
+/**
+ * Look up the current price and availability of cart lines in Directus
+ */
+export async function revalidateCartLines(lines: RevalidationLine[]): Promise<CartLineState[]> {
+    if (lines.length === 0) {
+        return [];
+    }
+
+    const productIds = Array.from(new Set(lines.map((line) => String(line.product))));
+    const variantIds = Array.from(new Set(lines.filter((line) => line.variant).map((line) => String(line.variant))));
+
+    const [products, variants] = await Promise.all([
+        axios.get(`${getDirectusUrl()}/items/${COLLECTIONS.PRODUCTS}`, {
+            params: {
+                filter: JSON.stringify({ id: { _in: productIds } }),
+                fields: 'id,name,price,sale_price,stock,in_stock,status',
+                limit: productIds.length,
+            },
+            headers: getServerAuthHeaders(),
+        }).then((response) => (response.data.data || []) as RevalidationProduct[]),
+        getVariantsByIds(variantIds),
+    ]);
+
+    return getCartLineStates(lines, products, variants);
+}
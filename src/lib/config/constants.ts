@@ -102,12 +102,24 @@ export const COLLECTIONS = {
     CUSTOMERS: 'customers',
     ORDERS: 'orders',
     ORDER_ITEMS: 'order_items',
+    ORDER_STATUS_HISTORY: 'order_status_history',
     PRODUCT_REVIEWS: 'product_reviews',
+    PRODUCT_VARIATIONS: 'product_variations',
     WISHLIST: 'wishlist',
     COUPONS: 'coupons',
     COUNTRIES: 'countries',
     STATES: 'states',
-    SHIPPING_METHODS: 'shipping_methods'
+    SHIPPING_METHODS: 'shipping_methods',
+    STOCK_RESERVATIONS: 'stock_reservations',
+    WEBHOOK_EVENTS: 'webhook_events',
+    PAYMENT_REFUNDS: 'payment_refunds',
+    PAYMENT_TRANSACTIONS: 'payment_transactions',
+    EXCHANGE_RATES: 'exchange_rates',
+    CARTS: 'carts',
+    CART_ITEMS: 'cart_items',
+    CONTACT_MESSAGES: 'contact_messages',
+    RETURNS: 'returns',
+    SEARCH_QUERIES: 'search_queries'
 } as const;
 
 /**
@@ -139,7 +151,7 @@ export const PRODUCT_FIELDS = {
 
     /** Product metadata fields */
     METADATA: [
-        'rating',
+        'rating_average',
         'rating_count'
     ] as const,
 
@@ -0,0 +1,153 @@
+/**
+ * Contact Messages (server-side)
+ *
+ * Screens contact form submissions for spam and stores the rest in the
+ * Directus `contact_messages` collection, which staff work through as their
+ * inbox (status new → replied → closed).
+ *
+ * Spam screening is deliberately light: a honeypot field that people never
+ * see, and a minimum time between the form being shown and sent, since bots
+ * fill forms far faster than people can.
+ */
+
+import axios from 'axios';
+import { ContactMessage } from '@/types/collections';
+import { getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+
+/**
+ * Topics offered on the contact form
+ */
+export const CONTACT_TOPICS = [
+    'customer_support',
+    'shipping_returns',
+    'product_inquiries',
+    'feedback',
+    'partnerships',
+    'other',
+] as const;
+
+/**
+ * Fastest a person can plausibly fill in the form
+ */
+export const MIN_SUBMIT_SECONDS = 3;
+
+/**
+ * Forms open longer than this are treated as replayed, not filled in
+ */
+const MAX_FORM_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A contact form submission, as validated by POST /api/contact
+ */
+export interface ContactSubmission {
+    fullName: string;
+    email: string;
+    phone: string;
+    subject: string;
+    message: string;
+    orderNumber?: string;
+    locale?: string;
+}
+
+/**
+ * Spam signals sent with the form
+ */
+export interface SpamSignals {
+    honeypot?: string; // Hidden field, only filled by bots
+    startedAt?: number; // When the form was shown (ms since epoch)
+}
+
+export type SpamReason = 'honeypot' | 'too_fast' | 'stale';
+
+function itemsUrl(collection: string): string {
+    return `${getDirectusUrl()}/items/${collection}`;
+}
+
+/**
+ * Why a submission looks like spam, or null when it looks like a person sent it
+ */
+export function getSpamReason(signals: SpamSignals, now: number = Date.now()): SpamReason | null {
+    if (signals.honeypot && signals.honeypot.trim() !== '') {
+        return 'honeypot';
+    }
+
+    const startedAt = Number(signals.startedAt);
+    if (!Number.isFinite(startedAt) || now - startedAt < MIN_SUBMIT_SECONDS * 1000) {
+        return 'too_fast';
+    }
+    if (now - startedAt > MAX_FORM_AGE_MS) {
+        return 'stale';
+    }
+
+    return null;
+}
+
+/**
+ * Order number as customers tend to type it, e.g. ' ord-20260301-ab12cd ' → 'ORD-20260301-AB12CD'
+ */
+export function normalizeOrderNumber(orderNumber: string): string {
+    return orderNumber.trim().replace(/^#/, '').toUpperCase();
+}
+
+/**
+ * ID of the order with this number, or null when there is none
+ *
+ * Only the ID is read, so a stranger quoting someone else's order number
+ * learns nothing from the form.
+ */
+export async function findOrderIdByNumber(orderNumber: string): Promise<string | null> {
+    const response = await axios.get(itemsUrl(COLLECTIONS.ORDERS), {
+        params: {
+            filter: JSON.stringify({ order_number: { _eq: normalizeOrderNumber(orderNumber) } }),
+            fields: 'id',
+            limit: 1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    const order = response.data.data?.[0];
+    return order ? String(order.id) : null;
+}
+
+/**
+ * Store a submission as a new message in the staff inbox
+ * The order number is linked to its order when one matches; a lookup failure
+ * keeps the number as typed rather than losing the message.
+ */
+export async function createContactMessage(
+    submission: ContactSubmission,
+    ipAddress?: string
+): Promise<ContactMessage> {
+    const orderNumber = submission.orderNumber?.trim()
+        ? normalizeOrderNumber(submission.orderNumber)
+        : null;
+
+    let orderId: string | null = null;
+    if (orderNumber) {
+        try {
+            orderId = await findOrderIdByNumber(orderNumber);
+        } catch (error: any) {
+            console.error('[Contact] Failed to look up order:', orderNumber, error.response?.data || error.message);
+        }
+    }
+
+    const response = await axios.post(
+        itemsUrl(COLLECTIONS.CONTACT_MESSAGES),
+        {
+            full_name: submission.fullName.trim(),
+            email: submission.email.trim(),
+            phone: submission.phone.trim(),
+            subject: submission.subject,
+            message: submission.message.trim(),
+            order_number: orderNumber,
+            order: orderId,
+            locale: submission.locale || null,
+            status: 'new',
+            ip_address: ipAddress || null,
+        },
+        { headers: getServerAuthHeaders() }
+    );
+
+    return response.data.data;
+}
@@ -0,0 +1,130 @@
+/**
+ * Coupon Store (server-side)
+ *
+ * Reads coupons from the Directus `coupons` collection and tracks redemptions.
+ * Used by the /api/coupons routes and by order creation; never import this
+ * from client components since it authenticates with the server API token.
+ */
+
+import axios from 'axios';
+import { Coupon } from '@/types/collections';
+import { getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { normalizeCouponCode } from '@/lib/api/coupons';
+
+/**
+ * Maximum compare-and-swap attempts when incrementing used_count
+ */
+const MAX_REDEEM_ATTEMPTS = 5;
+
+/**
+ * Find a coupon by its code
+ * Returns null when no coupon uses the code
+ */
+export async function findCouponByCode(code: string): Promise<Coupon | null> {
+    const response = await axios.get(`${getDirectusUrl()}/items/coupons`, {
+        params: {
+            filter: JSON.stringify({ code: { _eq: normalizeCouponCode(code) } }),
+            limit: 1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    return response.data.data?.[0] || null;
+}
+
+/**
+ * Fetch a coupon by ID with the server token
+ */
+export async function findCouponById(couponId: string): Promise<Coupon | null> {
+    try {
+        const response = await axios.get(`${getDirectusUrl()}/items/coupons/${couponId}`, {
+            headers: getServerAuthHeaders(),
+        });
+        return response.data.data || null;
+    } catch (error: any) {
+        if (error.response?.status === 404 || error.response?.status === 403) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Conditionally set used_count, only if it still equals the value we read.
+ * Returns true when the update was applied.
+ */
+async function compareAndSetUsedCount(
+    coupon: Coupon,
+    expected: number,
+    next: number
+): Promise<boolean> {
+    const filter = expected === 0
+        // Treat a missing used_count the same as zero
+        ? { id: { _eq: coupon.id }, _or: [{ used_count: { _null: true } }, { used_count: { _eq: 0 } }] }
+        : { id: { _eq: coupon.id }, used_count: { _eq: expected } };
+
+    const response = await axios.patch(
+        `${getDirectusUrl()}/items/coupons`,
+        {
+            query: { filter },
+            data: { used_count: next },
+        },
+        { headers: getServerAuthHeaders() }
+    );
+
+    const updated = response.data.data;
+    return Array.isArray(updated) ? updated.length > 0 : !!updated;
+}
+
+/**
+ * Record one use of a coupon.
+ *
+ * The increment is a compare-and-swap on used_count, so two orders racing for
+ * the last redemption can't both succeed. Call this only when an order is
+ * actually being placed, and `releaseCoupon` if placing the order then fails.
+ *
+ * @returns true if the coupon was redeemed, false if its usage limit was reached
+ */
+export async function redeemCoupon(couponId: string): Promise<boolean> {
+    for (let attempt = 1; attempt <= MAX_REDEEM_ATTEMPTS; attempt++) {
+        const coupon = await findCouponById(couponId);
+        if (!coupon) {
+            return false;
+        }
+
+        const current = coupon.used_count || 0;
+        if (coupon.max_users && current >= coupon.max_users) {
+            return false;
+        }
+
+        if (await compareAndSetUsedCount(coupon, current, current + 1)) {
+            console.log('[Coupons] Redeemed coupon:', coupon.code, `(${current + 1}/${coupon.max_users || '∞'})`);
+            return true;
+        }
+
+        console.warn('[Coupons] used_count changed concurrently, retrying:', coupon.code, 'attempt', attempt);
+    }
+
+    console.error('[Coupons] Gave up redeeming coupon after', MAX_REDEEM_ATTEMPTS, 'attempts:', couponId);
+    return false;
+}
+
+/**
+ * Undo a redemption (e.g. the order could not be created after redeeming)
+ */
+export async function releaseCoupon(couponId: string): Promise<void> {
+    for (let attempt = 1; attempt <= MAX_REDEEM_ATTEMPTS; attempt++) {
+        const coupon = await findCouponById(couponId);
+        const current = coupon?.used_count || 0;
+        if (!coupon || current === 0) {
+            return;
+        }
+
+        if (await compareAndSetUsedCount(coupon, current, current - 1)) {
+            console.log('[Coupons] Released coupon redemption:', coupon.code);
+            return;
+        }
+    }
+
+    console.error('[Coupons] Failed to release coupon redemption:', couponId);
+}
@@ -4,6 +4,7 @@
  * Specialized utilities for handling Omani Rial (OMR) currency formatting
  * and calculations. Features include:
  * - OMR formatting with 3 decimal places (standard for Oman)
+ * - Display in other GCC currencies and USD (payments still settle in OMR)
  * - Automatic Arabic-to-English numeral conversion for price display
  * - Price range and discount calculations
  * - Free shipping threshold checks
@@ -18,7 +19,8 @@
  * Currency symbol: ر.ع. (Arabic) or OMR (English)
  */
 
-import { Locale } from '@/types';
+import { Currency, DisplayCurrency, Locale } from '@/types';
+import { STATIC_EXCHANGE_RATES, convertFromOMR } from '@/lib/exchange-rates/rates';
 
 /**
  * Convert Arabic-Indic numerals to English numerals
@@ -130,6 +132,73 @@ export function formatOMR(
     }
 }
 
+/**
+ * Format an OMR amount in a display currency
+ * 
+ * Converts with the given rate and formats with the decimal places of the
+ * target currency (3 for BHD/KWD, 2 for AED, SAR, QAR and USD). Falls back to
+ * OMR when the currency is OMR or no rate is known, so a price is never shown
+ * in the wrong currency. Display only - payments always settle in OMR.
+ * 
+ * @param {number} amount - Amount in OMR
+ * @param {Locale} [locale='ar'] - Locale code ('ar' for Arabic, 'en' for English)
+ * @param {DisplayCurrency} [currency='OMR'] - Currency to display
+ * @param {number} [rate] - Units of `currency` per 1 OMR
+ * @param {Object} [options] - Same options as formatOMR
+ * @returns {string} Formatted currency string
+ * 
+ * @example
+ * ```typescript
+ * formatPrice(10, 'en', 'AED', 9.5514);
+ * // Returns: "AED 95.51"
+ * 
+ * formatPrice(10, 'ar', 'KWD', 0.7985);
+ * // Returns: "7.985 د.ك"
+ * ```
+ */
+export function formatPrice(
+    amount: number,
+    locale: Locale = 'ar',
+    currency: DisplayCurrency = 'OMR',
+    rate?: number,
+    options?: {
+        showSymbol?: boolean;
+        showCurrency?: boolean;
+    }
+): string {
+    const config = DISPLAY_CURRENCIES[currency];
+    if (currency === 'OMR' || !config || !rate) {
+        return formatOMR(amount, locale, options);
+    }
+
+    const { showSymbol = true, showCurrency = false } = options || {};
+    const converted = Number(convertFromOMR(amount, rate, config.decimals));
+
+    const formatted = convertToEnglishNumerals(
+        new Intl.NumberFormat(locale === 'ar' ? 'ar-OM' : 'en-OM', {
+            minimumFractionDigits: config.decimals,
+            maximumFractionDigits: config.decimals,
+        }).format(converted)
+    );
+
+    if (locale === 'ar') {
+        if (showSymbol) {
+            return `${formatted} ${config.symbol_ar}`;
+        }
+        if (showCurrency) {
+            return `${formatted} ${config.name_ar}`;
+        }
+        return formatted;
+    }
+    if (showSymbol) {
+        return `${config.symbol} ${formatted}`;
+    }
+    if (showCurrency) {
+        return `${formatted} ${config.name}`;
+    }
+    return formatted;
+}
+
 /**
  * Parse OMR formatted string to number
  * 
@@ -288,11 +357,13 @@ export function formatDiscount(
  * @param {Array<{price: number, quantity: number}>} items - Cart items with price and quantity
  * @param {number} [shippingCost=0] - Shipping cost in OMR (default: free shipping)
  * @param {number} [taxRate=0] - Tax rate as decimal (e.g., 0.05 for 5%) (default: no tax)
+ * @param {number} [discount=0] - Coupon discount in OMR, capped at the subtotal (default: none)
  * @returns {Object} Cart totals breakdown
  * @returns {number} subtotal - Sum of all items (price × quantity)
  * @returns {number} shipping - Shipping cost
  * @returns {number} tax - Calculated tax amount
- * @returns {number} total - Grand total (subtotal + shipping + tax)
+ * @returns {number} discount - Discount actually applied
+ * @returns {number} total - Grand total (subtotal - discount + shipping + tax)
  * 
  * @example
  * ```typescript
@@ -306,6 +377,7 @@ export function formatDiscount(
  * //   subtotal: 125.500,
  * //   shipping: 3.000,
  * //   tax: 6.275,          // (125.5 × 0.05)
+ * //   discount: 0,
  * //   total: 134.775       // (125.5 + 3 + 6.275)
  * // }
  * 
@@ -317,18 +389,20 @@ export function formatDiscount(
  * @remarks
  * - All values rounded to 3 decimal places (OMR standard)
  * - Subtotal calculated before tax and shipping
- * - Tax calculated on subtotal only (not including shipping)
+ * - Tax calculated on the discounted subtotal (not including shipping)
  * - Empty items array returns subtotal of 0
  * - Results safe for database storage and display
  */
 export function calculateCartTotals(
     items: Array<{ price: number; quantity: number }>,
     shippingCost: number = 0,
-    taxRate: number = 0
+    taxRate: number = 0,
+    discount: number = 0
 ): {
     subtotal: number;
     shipping: number;
     tax: number;
+    discount: number;
     total: number;
 } {
     const subtotal = items.reduce(
@@ -336,13 +410,15 @@ export function calculateCartTotals(
         0
     );
 
-    const tax = subtotal * taxRate;
-    const total = subtotal + shippingCost + tax;
+    const appliedDiscount = Math.min(Math.max(discount, 0), subtotal);
+    const tax = (subtotal - appliedDiscount) * taxRate;
+    const total = subtotal - appliedDiscount + shippingCost + tax;
 
     return {
         subtotal: Number(subtotal.toFixed(3)),
         shipping: Number(shippingCost.toFixed(3)),
         tax: Number(tax.toFixed(3)),
+        discount: Number(appliedDiscount.toFixed(3)),
         total: Number(total.toFixed(3)),
     };
 }
@@ -403,48 +479,40 @@ export function checkFreeShipping(
 /**
  * Convert Omani Rial (OMR) to USD (US Dollar)
  * 
- * Converts OMR amounts to USD for PayPal Sandbox transactions.
- * PayPal Sandbox has limited currency support and does not include OMR.
- * USD is universally supported by PayPal in all environments (Sandbox and Live),
- * making it the most reliable choice for currency conversion.
+ * Converts OMR amounts to USD for PayPal transactions.
+ * PayPal does not support OMR, so orders are charged in USD.
  * 
- * Exchange rate: 1 OMR ≈ 2.6 USD (using standard pegged rate)
+ * Server code charging a PayPal order passes the rate of the order's
+ * exchange-rate snapshot (see lib/exchange-rates/provider), so every amount of
+ * one payment uses the same rate. Without a rate the static peg is used.
  * 
  * @param {number} omrAmount - Amount in Omani Rial (OMR)
+ * @param {number} [rate] - USD per 1 OMR (defaults to the static peg, 2.6008)
  * @returns {string} Amount in US Dollar (USD) formatted to 2 decimal places (PayPal standard)
  * 
  * @example
  * ```typescript
  * // Convert 100 OMR to USD
- * convertOMRtoUSD(100.000);  // Returns: "260.00"
+ * convertOMRtoUSD(100.000);  // Returns: "260.08"
  * 
- * // Convert with decimal amount
- * convertOMRtoUSD(25.500);   // Returns: "66.30"
+ * // Convert with the rate of an exchange-rate snapshot
+ * convertOMRtoUSD(25.500, snapshot.rate);
  * ```
- * 
- * @remarks
- * - Uses standard OMR to USD conversion rate (1 OMR = 2.6 USD)
- * - OMR is pegged to a basket of international currencies, with USD being ~2.6x
- * - Result formatted to 2 decimal places per PayPal API requirements
- * - USD is universally supported in PayPal Sandbox and Live environments
- * - Used exclusively for PayPal transactions
- * - Internal OMR pricing is preserved throughout the application
  */
-export function convertOMRtoUSD(omrAmount: number): string {
-    // Exchange rate: 1 OMR = 2.6 USD
-    const OMR_TO_USD_RATE = 2.6;
-    const usdAmount = omrAmount * OMR_TO_USD_RATE;
-
+export function convertOMRtoUSD(omrAmount: number, rate: number = STATIC_EXCHANGE_RATES.USD): string {
     // Format to 2 decimal places (PayPal API requirement)
-    return usdAmount.toFixed(2);
+    return convertFromOMR(omrAmount, rate, 2);
 }
 
 /**
- * @deprecated Use convertOMRtoUSD instead. AED may not be supported in PayPal Sandbox.
- * Kept for backwards compatibility.
+ * Convert Omani Rial (OMR) to UAE Dirham (AED)
+ * 
+ * @param {number} omrAmount - Amount in Omani Rial (OMR)
+ * @param {number} [rate] - AED per 1 OMR (defaults to the static peg)
+ * @returns {string} Amount in AED formatted to 2 decimal places
  */
-export function convertOMRtoAED(omrAmount: number): string {
-    return convertOMRtoUSD(omrAmount);
+export function convertOMRtoAED(omrAmount: number, rate: number = STATIC_EXCHANGE_RATES.AED): string {
+    return convertFromOMR(omrAmount, rate, 2);
 }
 
 /**
@@ -532,3 +600,28 @@ export const OMR_CURRENCY = {
     decimals: 3,
     locale: 'ar-OM',
 } as const;
+
+/**
+ * Currencies shoppers can display prices in
+ * 
+ * GCC currencies plus USD. Decimal places follow ISO 4217: the Bahraini and
+ * Kuwaiti dinars use 3 like the Omani rial, the others 2.
+ * 
+ * @constant
+ */
+export const DISPLAY_CURRENCIES: Record<DisplayCurrency, Currency> = {
+    OMR: { code: 'OMR', symbol: 'OMR', symbol_ar: 'ر.ع.', name: 'Omani Rial', name_ar: 'ريال عماني', decimals: 3 },
+    AED: { code: 'AED', symbol: 'AED', symbol_ar: 'د.إ', name: 'UAE Dirham', name_ar: 'درهم إماراتي', decimals: 2 },
+    SAR: { code: 'SAR', symbol: 'SAR', symbol_ar: 'ر.س', name: 'Saudi Riyal', name_ar: 'ريال سعودي', decimals: 2 },
+    BHD: { code: 'BHD', symbol: 'BHD', symbol_ar: 'د.ب', name: 'Bahraini Dinar', name_ar: 'دينار بحريني', decimals: 3 },
+    KWD: { code: 'KWD', symbol: 'KWD', symbol_ar: 'د.ك', name: 'Kuwaiti Dinar', name_ar: 'دينار كويتي', decimals: 3 },
+    QAR: { code: 'QAR', symbol: 'QAR', symbol_ar: 'ر.ق', name: 'Qatari Riyal', name_ar: 'ريال قطري', decimals: 2 },
+    USD: { code: 'USD', symbol: 'USD', symbol_ar: '$', name: 'US Dollar', name_ar: 'دولار أمريكي', decimals: 2 },
+};
+
+/**
+ * Check that a code is one of DISPLAY_CURRENCIES
+ */
+export function isDisplayCurrency(code: unknown): code is DisplayCurrency {
+    return typeof code === 'string' && Object.prototype.hasOwnProperty.call(DISPLAY_CURRENCIES, code);
+}
@@ -0,0 +1,185 @@
+/**
+ * Exchange Rate Provider (server-side)
+ *
+ * Reads OMR exchange rates from the source selected by EXCHANGE_RATE_SOURCE:
+ * - `static` (default): STATIC_EXCHANGE_RATES, overridable with the
+ *   EXCHANGE_RATES env var (JSON, e.g. {"USD": 2.6008})
+ * - `directus`: the `exchange_rates` collection (base, quote, rate)
+ * - `feed`: JSON at EXCHANGE_RATE_FEED_URL - an http(s) URL or a file path -
+ *   shaped { "base": "OMR", "rates": { "USD": 2.6008 } }
+ *
+ * Rates are cached for EXCHANGE_RATE_CACHE_SECONDS (default 1 hour). When the
+ * source can't be read, the last rates read are kept, then the static table.
+ */
+
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { getApiToken, getDirectusUrl } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+import { ExchangeRateSnapshot, ExchangeRateSourceName, STATIC_EXCHANGE_RATES } from './rates';
+
+const DEFAULT_CACHE_SECONDS = 3600;
+
+/**
+ * Rates of one read from a source
+ */
+export interface ExchangeRateTable {
+    base: 'OMR';
+    rates: Record<string, number>;
+    source: ExchangeRateSourceName;
+    fetched_at: string;
+}
+
+interface ExchangeRateSource {
+    name: ExchangeRateSourceName;
+    fetchRates(): Promise<Record<string, number>>;
+}
+
+let cachedTable: ExchangeRateTable | null = null;
+let cacheExpiresAt = 0;
+
+/**
+ * Keep only positive numeric rates, quoted per 1 OMR
+ */
+function normalizeRates(rates: Record<string, any>): Record<string, number> {
+    const normalized: Record<string, number> = { OMR: 1 };
+    for (const [quote, value] of Object.entries(rates || {})) {
+        const rate = Number(value);
+        if (Number.isFinite(rate) && rate > 0) {
+            normalized[quote.toUpperCase()] = rate;
+        }
+    }
+    return normalized;
+}
+
+const staticSource: ExchangeRateSource = {
+    name: 'static',
+    async fetchRates() {
+        const overrides = process.env.EXCHANGE_RATES ? JSON.parse(process.env.EXCHANGE_RATES) : {};
+        return normalizeRates({ ...STATIC_EXCHANGE_RATES, ...overrides });
+    },
+};
+
+const directusSource: ExchangeRateSource = {
+    name: 'directus',
+    async fetchRates() {
+        const response = await axios.get(`${getDirectusUrl()}/items/${COLLECTIONS.EXCHANGE_RATES}`, {
+            params: {
+                filter: JSON.stringify({ base: { _eq: 'OMR' } }),
+                fields: 'quote,rate',
+                limit: -1,
+            },
+            headers: {
+                'Authorization': `Bearer ${getApiToken()}`,
+            },
+        });
+
+        const rows: Array<{ quote: string; rate: number | string }> = response.data.data || [];
+        return normalizeRates(Object.fromEntries(rows.map((row) => [row.quote, row.rate])));
+    },
+};
+
+const feedSource: ExchangeRateSource = {
+    name: 'feed',
+    async fetchRates() {
+        const url = process.env.EXCHANGE_RATE_FEED_URL;
+        if (!url) {
+            throw new Error('EXCHANGE_RATE_FEED_URL is not configured');
+        }
+
+        let feed: any;
+        if (/^https?:\/\//.test(url)) {
+            const response = await axios.get(url, { timeout: 5000 });
+            feed = response.data;
+        } else {
+            const path = url.startsWith('file://') ? fileURLToPath(url) : url;
+            feed = JSON.parse(await fs.readFile(path, 'utf-8'));
+        }
+
+        if (feed?.base && String(feed.base).toUpperCase() !== 'OMR') {
+            throw new Error(`Exchange rate feed is based on ${feed.base}, expected OMR`);
+        }
+        return normalizeRates(feed?.rates);
+    },
+};
+
+function getConfiguredSource(): ExchangeRateSource {
+    switch (process.env.EXCHANGE_RATE_SOURCE) {
+        case 'directus':
+            return directusSource;
+        case 'feed':
+            return feedSource;
+        default:
+            return staticSource;
+    }
+}
+
+function getCacheSeconds(): number {
+    const seconds = Number(process.env.EXCHANGE_RATE_CACHE_SECONDS);
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_CACHE_SECONDS;
+}
+
+/**
+ * Current OMR exchange rates
+ */
+export async function getExchangeRates(): Promise<ExchangeRateTable> {
+    if (cachedTable && Date.now() < cacheExpiresAt) {
+        return cachedTable;
+    }
+
+    const source = getConfiguredSource();
+    try {
+        const rates = await source.fetchRates();
+        cachedTable = {
+            base: 'OMR',
+            rates,
+            source: source.name,
+            fetched_at: new Date().toISOString(),
+        };
+    } catch (error: any) {
+        console.error('[Exchange Rates] Failed to read rates from', source.name, error.message);
+        if (!cachedTable) {
+            cachedTable = {
+                base: 'OMR',
+                rates: normalizeRates(STATIC_EXCHANGE_RATES),
+                source: 'static',
+                fetched_at: new Date().toISOString(),
+            };
+        }
+    }
+
+    cacheExpiresAt = Date.now() + getCacheSeconds() * 1000;
+    return cachedTable;
+}
+
+/**
+ * Snapshot of the rate from OMR to `quote`
+ *
+ * @throws Error when no source knows the currency
+ */
+export async function getExchangeRate(quote: string): Promise<ExchangeRateSnapshot> {
+    const table = await getExchangeRates();
+    const code = quote.toUpperCase();
+    const rate = table.rates[code];
+
+    if (!rate) {
+        throw new Error(`No exchange rate for OMR to ${code}`);
+    }
+
+    return {
+        base: 'OMR',
+        quote: code,
+        rate,
+        source: table.source,
+        fetched_at: table.fetched_at,
+    };
+}
+
+/**
+ * Drop cached rates so the next read goes to the source
+ */
+export function clearExchangeRateCache(): void {
+    cachedTable = null;
+    cacheExpiresAt = 0;
+}
@@ -0,0 +1,49 @@
+/**
+ * Exchange Rates
+ *
+ * Shared types and the static rate table used when no other source is
+ * configured (or reachable). Rates are quoted per 1 OMR. Safe to import on
+ * the client - fetching rates lives in ./provider.
+ */
+
+export type ExchangeRateSourceName = 'static' | 'directus' | 'feed';
+
+/**
+ * Default rates per 1 OMR
+ * OMR is pegged at 0.3845 per USD (1 OMR ≈ 2.6008 USD); the other GCC currencies follow their USD pegs.
+ */
+export const STATIC_EXCHANGE_RATES: Record<string, number> = {
+    OMR: 1,
+    USD: 2.6008,
+    AED: 9.5514,
+    SAR: 9.7530,
+    QAR: 9.4669,
+    BHD: 0.9779,
+    KWD: 0.7985,
+};
+
+/**
+ * A rate as it was at a point in time
+ * Stored on PayPal orders so every amount of one payment uses the same rate.
+ */
+export interface ExchangeRateSnapshot {
+    base: 'OMR';
+    quote: string;
+    rate: number;
+    source: ExchangeRateSourceName;
+    fetched_at: string; // ISO timestamp the rate was read from its source
+}
+
+/**
+ * Convert an OMR amount with a given rate
+ *
+ * @param amountOMR - Amount in OMR
+ * @param rate - Units of the target currency per 1 OMR
+ * @param decimals - Decimal places of the target currency
+ * @returns Amount formatted with `decimals` places
+ */
+export function convertFromOMR(amountOMR: number, rate: number, decimals: number = 2): string {
+    const factor = Math.pow(10, decimals);
+    // Round on integers so e.g. 1.005 doesn't become 1.00 through float error
+    return (Math.round(Number((amountOMR * rate * factor).toFixed(4))) / factor).toFixed(decimals);
+}
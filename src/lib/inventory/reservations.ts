@@ -0,0 +1,368 @@
+/**
+ * Stock Reservations (server-side)
+ *
+ * Holds stock for a checkout while the customer pays, and decrements it once the
+ * order is placed. Reservations live in the Directus `stock_reservations`
+ * collection and lapse on their own after RESERVATION_TTL_MINUTES, which covers
+ * abandoned or timed-out PayPal payments. Each reservation records the
+ * customer who made it, and only they can replace, release or order against
+ * it. Never import this from client components since it authenticates with
+ * the server API token.
+ */
+
+import axios from 'axios';
+import { getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+import {
+    StockLine,
+    StockRecord,
+    StockShortage,
+    findStockShortages,
+    getStockKey,
+    getTrackedQuantity,
+    mergeStockLines,
+    sumReservedQuantities,
+} from './stock';
+
+/**
+ * How long a reservation holds stock before it lapses
+ */
+export const RESERVATION_TTL_MINUTES = 15;
+
+/**
+ * Maximum compare-and-swap attempts when changing a stock count
+ */
+const MAX_STOCK_UPDATE_ATTEMPTS = 5;
+
+export type StockReservationStatus = 'active' | 'committed' | 'released';
+
+export interface StockReservation {
+    id: string;
+    items: StockLine[];
+    status: StockReservationStatus;
+    expires_at: string;
+    customer?: string | null;
+    order?: string | null;
+}
+
+/**
+ * Raised when the requested quantities exceed the stock left
+ */
+export class InsufficientStockError extends Error {
+    constructor(public shortages: StockShortage[]) {
+        super('Some items in your cart are no longer available in the requested quantity');
+        this.name = 'InsufficientStockError';
+    }
+}
+
+function itemsUrl(collection: string): string {
+    return `${getDirectusUrl()}/items/${collection}`;
+}
+
+/**
+ * Fetch the stock records the lines draw from, keyed by getStockKey()
+ */
+async function fetchStockRecords(lines: StockLine[]): Promise<Map<string, StockRecord & { product_name?: string }>> {
+    const productIds = Array.from(new Set(lines.filter((line) => !line.variation).map((line) => line.product)));
+    const variantIds = Array.from(new Set(lines.filter((line) => line.variation).map((line) => line.variation!)));
+
+    const [products, variants] = await Promise.all([
+        productIds.length === 0 ? [] : axios.get(itemsUrl(COLLECTIONS.PRODUCTS), {
+            params: {
+                filter: JSON.stringify({ id: { _in: productIds } }),
+                fields: 'id,name,stock,in_stock',
+                limit: productIds.length,
+            },
+            headers: getServerAuthHeaders(),
+        }).then((response) => response.data.data || []),
+        variantIds.length === 0 ? [] : axios.get(itemsUrl(COLLECTIONS.PRODUCT_VARIATIONS), {
+            params: {
+                filter: JSON.stringify({ id: { _in: variantIds } }),
+                fields: 'id,name,stock,in_stock,is_active,product.id,product.name',
+                limit: variantIds.length,
+            },
+            headers: getServerAuthHeaders(),
+        }).then((response) => response.data.data || []),
+    ]);
+
+    const records = new Map<string, StockRecord & { product_name?: string }>();
+    for (const product of products) {
+        records.set(getStockKey({ product: String(product.id) }), product);
+    }
+    for (const variant of variants) {
+        const productId = String(typeof variant.product === 'object' ? variant.product?.id : variant.product);
+        records.set(getStockKey({ product: productId, variation: String(variant.id) }), {
+            ...variant,
+            product_name: variant.product?.name,
+        });
+    }
+
+    return records;
+}
+
+/**
+ * Quantities held by active, unexpired reservations
+ * @param excludeReservationId - Reservation to leave out (the caller's own)
+ */
+async function fetchReservedQuantities(excludeReservationId?: string): Promise<Map<string, number>> {
+    const filter: Record<string, any> = {
+        status: { _eq: 'active' },
+        expires_at: { _gt: new Date().toISOString() },
+    };
+    if (excludeReservationId) {
+        filter.id = { _neq: excludeReservationId };
+    }
+
+    const response = await axios.get(itemsUrl(COLLECTIONS.STOCK_RESERVATIONS), {
+        params: {
+            filter: JSON.stringify(filter),
+            fields: 'id,items',
+            limit: -1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    return sumReservedQuantities(response.data.data || []);
+}
+
+/**
+ * Check the lines against stock, ignoring the caller's own reservation
+ * @returns Lines that can't be fulfilled (empty when everything is available)
+ */
+export async function checkStock(lines: StockLine[], reservationId?: string): Promise<StockShortage[]> {
+    const [records, reserved] = await Promise.all([
+        fetchStockRecords(lines),
+        fetchReservedQuantities(reservationId),
+    ]);
+
+    return findStockShortages(lines, records, reserved);
+}
+
+/**
+ * Reserve stock for a checkout
+ *
+ * Any previous reservation of the same checkout is released first, so calling
+ * this again after the cart changes simply replaces the hold. The reservation is
+ * written before being checked against concurrent ones: if two customers race
+ * for the last unit, both see the other's hold and neither oversells.
+ *
+ * @param customerId - Customer holding the stock
+ * @param previousReservationId - Their previous hold, released first
+ * @throws InsufficientStockError when the lines exceed the available stock
+ */
+export async function reserveStock(
+    lines: StockLine[],
+    customerId: string,
+    previousReservationId?: string
+): Promise<StockReservation> {
+    const items = mergeStockLines(lines);
+
+    if (previousReservationId) {
+        await releaseReservation(previousReservationId, customerId);
+    }
+
+    const shortages = await checkStock(items);
+    if (shortages.length > 0) {
+        throw new InsufficientStockError(shortages);
+    }
+
+    const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+    const response = await axios.post(
+        itemsUrl(COLLECTIONS.STOCK_RESERVATIONS),
+        { items, status: 'active', expires_at: expiresAt.toISOString(), customer: customerId },
+        { headers: getServerAuthHeaders() }
+    );
+    const reservation: StockReservation = response.data.data;
+
+    const concurrentShortages = await checkStock(items, reservation.id);
+    if (concurrentShortages.length > 0) {
+        await releaseReservation(reservation.id);
+        throw new InsufficientStockError(concurrentShortages);
+    }
+
+    console.log('[Inventory] Reserved stock:', reservation.id, 'until', reservation.expires_at);
+    return reservation;
+}
+
+/**
+ * Release a reservation (payment cancelled, cart changed)
+ * Committed reservations are left alone since their stock is already gone
+ *
+ * @param customerId - Only release the hold if it is this customer's
+ */
+export async function releaseReservation(reservationId: string, customerId?: string): Promise<void> {
+    const filter: Record<string, any> = { id: { _eq: reservationId }, status: { _eq: 'active' } };
+    if (customerId) {
+        filter.customer = { _eq: customerId };
+    }
+
+    try {
+        await axios.patch(
+            itemsUrl(COLLECTIONS.STOCK_RESERVATIONS),
+            {
+                query: { filter },
+                data: { status: 'released' },
+            },
+            { headers: getServerAuthHeaders() }
+        );
+        console.log('[Inventory] Released reservation:', reservationId);
+    } catch (error: any) {
+        console.error('[Inventory] Failed to release reservation:', reservationId, error.response?.data || error.message);
+    }
+}
+
+/**
+ * A customer's own active reservation, or null when the ID is unknown,
+ * lapsed or someone else's
+ */
+export async function findCustomerReservation(reservationId: string, customerId: string): Promise<StockReservation | null> {
+    const response = await axios.get(itemsUrl(COLLECTIONS.STOCK_RESERVATIONS), {
+        params: {
+            filter: JSON.stringify({
+                id: { _eq: reservationId },
+                customer: { _eq: customerId },
+                status: { _eq: 'active' },
+            }),
+            limit: 1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    return response.data.data?.[0] || null;
+}
+
+/**
+ * Conditionally change the tracked stock of a record, only if it still equals
+ * the value we read. Returns true when the update was applied.
+ */
+async function compareAndSetStock(
+    collection: string,
+    record: StockRecord,
+    expected: number,
+    next: number
+): Promise<boolean> {
+    // Write to whichever field holds the count, and flag the record sold out at zero
+    const field = typeof record.stock === 'number' ? 'stock' : 'in_stock';
+    const data: Record<string, any> = { [field]: next };
+    if (field === 'stock' && typeof record.in_stock !== 'number') {
+        data.in_stock = next > 0;
+    }
+
+    const response = await axios.patch(
+        itemsUrl(collection),
+        {
+            query: { filter: { id: { _eq: record.id }, [field]: { _eq: expected } } },
+            data,
+        },
+        { headers: getServerAuthHeaders() }
+    );
+
+    const updated = response.data.data;
+    return Array.isArray(updated) ? updated.length > 0 : !!updated;
+}
+
+/**
+ * Add `delta` units to the stock a line draws from (negative to decrement)
+ * @returns false when a decrement would take the stock below zero
+ */
+async function adjustStock(line: StockLine, delta: number): Promise<boolean> {
+    const collection = line.variation ? COLLECTIONS.PRODUCT_VARIATIONS : COLLECTIONS.PRODUCTS;
+
+    for (let attempt = 1; attempt <= MAX_STOCK_UPDATE_ATTEMPTS; attempt++) {
+        const records = await fetchStockRecords([line]);
+        const record = records.get(getStockKey(line));
+        const current = record ? getTrackedQuantity(record) : null;
+        if (!record || current === null) {
+            // Untracked stock - nothing to count
+            return true;
+        }
+
+        const next = current + delta;
+        if (next < 0) {
+            return false;
+        }
+
+        if (await compareAndSetStock(collection, record, current, next)) {
+            return true;
+        }
+
+        console.warn('[Inventory] Stock changed concurrently, retrying:', getStockKey(line), 'attempt', attempt);
+    }
+
+    console.error('[Inventory] Gave up updating stock after', MAX_STOCK_UPDATE_ATTEMPTS, 'attempts:', getStockKey(line));
+    return false;
+}
+
+/**
+ * Put stock back (e.g. the order could not be created after committing)
+ */
+export async function restockLines(lines: StockLine[]): Promise<void> {
+    for (const line of mergeStockLines(lines)) {
+        if (!(await adjustStock(line, line.quantity))) {
+            console.error('[Inventory] Failed to restock line:', getStockKey(line), line.quantity);
+        }
+    }
+}
+
+/**
+ * Decrement stock for an order being placed and close its reservation
+ *
+ * Each decrement is a compare-and-swap on the stock count, so stock never goes
+ * below zero. Call `restockLines` if placing the order then fails.
+ *
+ * @param lines - Ordered lines
+ * @param reservationId - Reservation made when checkout reached the payment step
+ * @param options.allowOversell - Keep going when a line can't be decremented (payment already captured)
+ * @throws InsufficientStockError when a line can't be fulfilled (nothing is decremented)
+ */
+export async function commitStock(
+    lines: StockLine[],
+    reservationId?: string,
+    options: { allowOversell?: boolean } = {}
+): Promise<void> {
+    const items = mergeStockLines(lines);
+
+    if (!options.allowOversell) {
+        const shortages = await checkStock(items, reservationId);
+        if (shortages.length > 0) {
+            throw new InsufficientStockError(shortages);
+        }
+    }
+
+    const decremented: StockLine[] = [];
+    for (const line of items) {
+        if (await adjustStock(line, -line.quantity)) {
+            decremented.push(line);
+            continue;
+        }
+
+        if (options.allowOversell) {
+            console.error('[Inventory] Oversold line, stock left unchanged:', getStockKey(line), line.quantity);
+            continue;
+        }
+
+        await restockLines(decremented);
+        const shortages = await checkStock([line], reservationId);
+        throw new InsufficientStockError(shortages.length > 0 ? shortages : [{
+            product: line.product,
+            ...(line.variation && { variation: line.variation }),
+            requested: line.quantity,
+            available: 0,
+        }]);
+    }
+
+    if (reservationId) {
+        try {
+            await axios.patch(
+                `${itemsUrl(COLLECTIONS.STOCK_RESERVATIONS)}/${reservationId}`,
+                { status: 'committed' },
+                { headers: getServerAuthHeaders() }
+            );
+        } catch (error: any) {
+            // The stock is already decremented - a stale hold just lapses at expires_at
+            console.error('[Inventory] Failed to close reservation:', reservationId, error.response?.data || error.message);
+        }
+    }
+
+    console.log('[Inventory] Committed stock for', items.length, 'line(s)', reservationId ? `(reservation ${reservationId})` : '');
+}
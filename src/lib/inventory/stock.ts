@@ -0,0 +1,153 @@
+/**
+ * Stock Availability
+ *
+ * Pure helpers for working out how many units of a product (or product variant)
+ * can still be sold once active reservations are taken into account. Shared by
+ * the server-side reservation store and the checkout UI.
+ */
+
+/**
+ * A line to check or reserve - a product, optionally one of its variants
+ */
+export interface StockLine {
+    product: string;
+    variation?: string;
+    quantity: number;
+}
+
+/**
+ * Stock of a product or variant as stored in Directus
+ * `stock` is the tracked count; `in_stock` may hold a count or a boolean
+ */
+export interface StockRecord {
+    id: string | number;
+    name: string;
+    stock?: number | null;
+    in_stock?: boolean | number | null;
+    is_active?: boolean;
+}
+
+/**
+ * A line that can't be fulfilled with the stock left
+ */
+export interface StockShortage {
+    product: string;
+    variation?: string;
+    product_name?: string;
+    variation_name?: string;
+    requested: number;
+    available: number;
+}
+
+/**
+ * Key identifying the stock a line draws from
+ * Variants keep their own stock, so they are keyed separately from the product
+ */
+export function getStockKey(line: { product: string; variation?: string }): string {
+    return line.variation ? `variation:${line.variation}` : `product:${line.product}`;
+}
+
+/**
+ * Tracked quantity of a stock record, or null when stock isn't counted
+ * (only the in_stock flag is set, so any quantity can be sold while it's on)
+ */
+export function getTrackedQuantity(record: StockRecord): number | null {
+    if (typeof record.stock === 'number') {
+        return record.stock;
+    }
+    if (typeof record.in_stock === 'number') {
+        return record.in_stock;
+    }
+    return null;
+}
+
+/**
+ * Whether an untracked record can be sold at all
+ */
+function isSellable(record: StockRecord): boolean {
+    return record.is_active !== false && record.in_stock !== false && record.in_stock !== null;
+}
+
+/**
+ * Add up reserved quantities per stock key
+ */
+export function sumReservedQuantities(reservations: Array<{ items?: StockLine[] | null }>): Map<string, number> {
+    const reserved = new Map<string, number>();
+
+    for (const reservation of reservations) {
+        for (const line of reservation.items || []) {
+            const key = getStockKey(line);
+            reserved.set(key, (reserved.get(key) || 0) + (Number(line.quantity) || 0));
+        }
+    }
+
+    return reserved;
+}
+
+/**
+ * Merge lines drawing from the same stock (e.g. the same product added twice)
+ */
+export function mergeStockLines(lines: StockLine[]): StockLine[] {
+    const merged = new Map<string, StockLine>();
+
+    for (const line of lines) {
+        const key = getStockKey(line);
+        const existing = merged.get(key);
+        if (existing) {
+            existing.quantity += Number(line.quantity) || 0;
+        } else {
+            merged.set(key, {
+                product: String(line.product),
+                ...(line.variation && { variation: String(line.variation) }),
+                quantity: Number(line.quantity) || 0,
+            });
+        }
+    }
+
+    return Array.from(merged.values());
+}
+
+/**
+ * Find the lines that can't be fulfilled
+ *
+ * @param lines - Requested lines
+ * @param records - Stock records keyed by getStockKey()
+ * @param reserved - Quantities held by other customers' reservations, keyed by getStockKey()
+ * @returns One shortage per line that exceeds the available stock (empty when all fit)
+ */
+export function findStockShortages(
+    lines: StockLine[],
+    records: Map<string, StockRecord & { product_name?: string }>,
+    reserved: Map<string, number> = new Map()
+): StockShortage[] {
+    const shortages: StockShortage[] = [];
+
+    for (const line of mergeStockLines(lines)) {
+        const key = getStockKey(line);
+        const record = records.get(key);
+        const tracked = record ? getTrackedQuantity(record) : 0;
+
+        let available: number;
+        if (!record || record.is_active === false) {
+            available = 0;
+        } else if (tracked === null) {
+            available = isSellable(record) ? Infinity : 0;
+        } else {
+            available = Math.max(tracked - (reserved.get(key) || 0), 0);
+        }
+
+        if (line.quantity > available) {
+            shortages.push({
+                product: line.product,
+                ...(line.variation && { variation: line.variation }),
+                ...(record && (line.variation
+                    ? { product_name: record.product_name, variation_name: record.name }
+                    : { product_name: record.name })),
+                requested: line.quantity,
+                available,
+            });
+        }
+    }
+
+    return shortages;
+}
@@ -0,0 +1,78 @@
+/**
+ * Bidirectional Text for PDFs (server-side)
+ *
+ * pdfkit draws a string in the order it is given. Its font engine shapes
+ * Arabic (joining letters and ligatures) and flips a run that contains Arabic
+ * into right-to-left order, but it flips the whole run - digits and Latin
+ * words included - and knows nothing of the surrounding text direction.
+ *
+ * So each line is split with the Unicode Bidirectional Algorithm into runs
+ * that share one direction, ordered as they appear on the page left to
+ * right, and prepared so the font engine's flip lands every run the right
+ * way round.
+ */
+
+import bidiFactory from 'bidi-js';
+
+const bidi = bidiFactory();
+
+/**
+ * Matches the scripts pdfkit lays out right-to-left
+ */
+const RTL_SCRIPT = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * A piece of a line in a single direction, to draw as it is given
+ */
+export interface TextRun {
+    text: string;
+    rtl: boolean;
+}
+
+/**
+ * Direction of a piece of text from its first letter (left to right when it has none)
+ */
+export function getTextDirection(text: string): TextDirection {
+    const { paragraphs } = bidi.getEmbeddingLevels(text, 'auto');
+    return paragraphs[0] && paragraphs[0].level % 2 === 1 ? 'rtl' : 'ltr';
+}
+
+/**
+ * Runs of one line of text, from left to right as they appear on the page
+ *
+ * @param direction - Direction of the paragraph the line belongs to
+ *   (by default, that of its first letter)
+ */
+export function getVisualRuns(line: string, direction: TextDirection = getTextDirection(line)): TextRun[] {
+    if (line === '') {
+        return [];
+    }
+
+    const embedding = bidi.getEmbeddingLevels(line, direction);
+    const mirrored = bidi.getMirroredCharactersMap(line, embedding.levels);
+    const order = bidi.getReorderedIndices(line, embedding);
+
+    // Group the characters, now in page order, by direction
+    const runs: { indices: number[]; rtl: boolean }[] = [];
+    for (const index of order) {
+        const rtl = embedding.levels[index] % 2 === 1;
+        const last = runs[runs.length - 1];
+        if (last && last.rtl === rtl) {
+            last.indices.push(index);
+        } else {
+            runs.push({ indices: [index], rtl });
+        }
+    }
+
+    return runs.map(({ indices, rtl }) => {
+        const chars = indices.map((index) => mirrored.get(index) ?? line[index]);
+        // Runs the font engine will flip go back to reading order (so shaping
+        // sees letters in sequence); the rest are already in page order
+        if (rtl && RTL_SCRIPT.test(chars.join(''))) {
+            chars.reverse();
+        }
+        return { text: chars.join(''), rtl };
+    });
+}
@@ -0,0 +1,365 @@
+/**
+ * Invoice PDF (server-side)
+ *
+ * Draws a bilingual A4 invoice for an order with pdfkit: every label in
+ * English on the left and Arabic on the right, and amounts in OMR with 3
+ * decimals. Text is set in Cairo (the storefront's Arabic font, which also
+ * covers Latin), bundled in ./fonts under the SIL Open Font License, and laid
+ * out line by line through ./bidi so Arabic reads right to left.
+ */
+
+import PDFDocument from 'pdfkit';
+import path from 'path';
+import { createTranslator } from 'next-intl';
+import { Order, OrderAddress, OrderItem } from '@/types/collections';
+import { formatOMR } from '@/lib/currency';
+import { API_CONFIG } from '@/lib/config/constants';
+import ar from '@/messages/ar.json';
+import en from '@/messages/en.json';
+import { getTextDirection, getVisualRuns } from './bidi';
+
+type InvoiceLocale = 'ar' | 'en';
+type Translator = (key: string, values?: Record<string, string | number>) => string;
+
+const FONTS_DIR = path.join(process.cwd(), 'src/lib/invoices/fonts');
+
+const PAGE = { width: 595.28, height: 841.89, margin: 40 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+const RIGHT = PAGE.width - PAGE.margin;
+const FOOTER_TOP = PAGE.height - PAGE.margin - 36;
+
+const COLORS = {
+    brand: '#be185d',
+    text: '#111827',
+    muted: '#6b7280',
+    border: '#e5e7eb',
+    shade: '#f9fafb',
+};
+
+// Passing features (even none) makes pdfkit shape a run as a whole rather
+// than word by word, which would put right-to-left words in the wrong order
+const WHOLE_RUN = { features: [] as PDFKit.Mixins.OpenTypeFeatures[] };
+
+// Items table columns: x offset from the left margin and width
+const COLUMNS = {
+    item: { x: 0, width: 245 },
+    quantity: { x: 245, width: 50 },
+    unitPrice: { x: 295, width: 110 },
+    lineTotal: { x: 405, width: 110 },
+};
+
+type Align = 'left' | 'right' | 'center' | 'start';
+
+interface TextOptions {
+    width: number;
+    align?: Align; // 'start' follows the text's own direction
+    size?: number;
+    bold?: boolean;
+    color?: string;
+}
+
+const MESSAGES: Record<InvoiceLocale, Record<string, any>> = { ar, en };
+
+function getTranslator(locale: InvoiceLocale): Translator {
+    const t = createTranslator({ locale, messages: MESSAGES[locale].invoice });
+    return (key, values) => t(key, values);
+}
+
+/**
+ * Wrap text into lines no wider than width, breaking between words
+ */
+function wrapText(doc: PDFKit.PDFDocument, text: string, width: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split('\n')) {
+        let line = '';
+        for (const word of paragraph.split(' ')) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && doc.widthOfString(candidate, WHOLE_RUN) > width) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+    }
+
+    return lines;
+}
+
+/**
+ * Draw text at (x, y), wrapped to width, and return the height it took
+ */
+function drawText(doc: PDFKit.PDFDocument, text: string, x: number, y: number, options: TextOptions): number {
+    const { width, align = 'start', size = 10, bold = false, color = COLORS.text } = options;
+    doc.font(bold ? 'bold' : 'regular').fontSize(size).fillColor(color);
+
+    const direction = getTextDirection(text);
+    const resolvedAlign = align === 'start' ? (direction === 'rtl' ? 'right' : 'left') : align;
+    const lineHeight = doc.currentLineHeight(true);
+
+    const lines = wrapText(doc, text, width);
+    lines.forEach((line, index) => {
+        const runs = getVisualRuns(line, direction);
+        const lineWidth = runs.reduce((sum, run) => sum + doc.widthOfString(run.text, WHOLE_RUN), 0);
+
+        let cursor = resolvedAlign === 'right'
+            ? x + width - lineWidth
+            : resolvedAlign === 'center' ? x + (width - lineWidth) / 2 : x;
+
+        for (const run of runs) {
+            doc.text(run.text, cursor, y + index * lineHeight, { ...WHOLE_RUN, lineBreak: false });
+            cursor += doc.widthOfString(run.text, WHOLE_RUN);
+        }
+    });
+
+    return lines.length * lineHeight;
+}
+
+/**
+ * An English label on the left and its Arabic one on the right, across width
+ */
+function drawBilingualLabel(
+    doc: PDFKit.PDFDocument,
+    labels: [string, string],
+    x: number,
+    y: number,
+    width: number,
+    options: Omit<TextOptions, 'width' | 'align'> = {}
+): number {
+    const half = width / 2;
+    return Math.max(
+        drawText(doc, labels[0], x, y, { ...options, width: half, align: 'left' }),
+        drawText(doc, labels[1], x + half, y, { ...options, width: half, align: 'right' })
+    );
+}
+
+function drawRule(doc: PDFKit.PDFDocument, y: number): void {
+    doc.moveTo(PAGE.margin, y).lineTo(RIGHT, y).lineWidth(0.75).strokeColor(COLORS.border).stroke();
+}
+
+function formatAmount(amount: number): string {
+    return formatOMR(Number(amount) || 0, 'en');
+}
+
+function formatAddress(address?: OrderAddress | null): string[] {
+    if (!address) {
+        return ['-'];
+    }
+
+    const cityLine = [address.city, address.state, address.postal_code].filter(Boolean).join(', ');
+    return [
+        [address.first_name, address.last_name].filter(Boolean).join(' '),
+        address.company,
+        address.address_line_1,
+        address.address_line_2,
+        cityLine,
+        address.country,
+        address.phone_number,
+    ].filter((line): line is string => Boolean(line && String(line).trim()));
+}
+
+/**
+ * Date of the order as YYYY-MM-DD, the same in both languages
+ */
+function formatOrderDate(order: Order): string {
+    const value = order.created_at || order.date_created;
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : '-';
+}
+
+/**
+ * Which payment method label to show, by message key when we know the method
+ */
+function getPaymentMethodLabels(order: Order, tEn: Translator, tAr: Translator): string {
+    const method = order.payment_method || '';
+    const known = ['paypal', 'cash_on_delivery', 'credit_card', 'debit_card', 'bank_transfer', 'omannet'];
+    if (!known.includes(method)) {
+        return method || '-';
+    }
+    return `${tEn(`payment_methods.${method}`)} - ${tAr(`payment_methods.${method}`)}`;
+}
+
+/**
+ * Render the invoice of an order to a PDF
+ */
+export function renderInvoicePdf(order: Order, items: OrderItem[]): Promise<Buffer> {
+    const tEn = getTranslator('en');
+    const tAr = getTranslator('ar');
+    const label = (key: string, values?: Record<string, string | number>): [string, string] => [tEn(key, values), tAr(key, values)];
+
+    const doc = new PDFDocument({
+        size: 'A4',
+        margin: PAGE.margin,
+        bufferPages: true,
+        font: path.join(FONTS_DIR, 'Cairo-Regular.ttf'),
+        info: {
+            Title: `${tEn('title')} ${order.order_number}`,
+            Author: tEn('brand'),
+        },
+    });
+    doc.registerFont('regular', path.join(FONTS_DIR, 'Cairo-Regular.ttf'));
+    doc.registerFont('bold', path.join(FONTS_DIR, 'Cairo-Bold.ttf'));
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+    });
+
+    let y = PAGE.margin;
+
+    // Header: brand and title in both languages
+    drawBilingualLabel(doc, label('brand'), PAGE.margin, y, CONTENT_WIDTH, { size: 22, bold: true, color: COLORS.brand });
+    y += 32;
+    y += drawBilingualLabel(doc, label('title'), PAGE.margin, y, CONTENT_WIDTH, { size: 14, color: COLORS.muted });
+    y += 8;
+    drawRule(doc, y);
+    y += 12;
+
+    // Order details: English label | value | Arabic label
+    const details: [[string, string], string][] = [
+        [label('order_number'), order.order_number],
+        [label('order_date'), formatOrderDate(order)],
+        [label('payment_method'), getPaymentMethodLabels(order, tEn, tAr)],
+        [label('transaction_id'), order.payment_intent_id || order.paypal_order_id || '-'],
+    ];
+    for (const [labels, value] of details) {
+        const height = Math.max(
+            drawText(doc, labels[0], PAGE.margin, y, { width: 150, align: 'left', color: COLORS.muted }),
+            drawText(doc, value, PAGE.margin + 150, y, { width: CONTENT_WIDTH - 300, align: 'center', bold: true }),
+            drawText(doc, labels[1], RIGHT - 150, y, { width: 150, align: 'right', color: COLORS.muted })
+        );
+        y += height + 2;
+    }
+    y += 10;
+
+    // Addresses side by side
+    const boxWidth = (CONTENT_WIDTH - 15) / 2;
+    const addressTop = y;
+    let addressBottom = y;
+    [
+        { labels: label('billing_address'), address: order.billing_address, x: PAGE.margin },
+        { labels: label('shipping_address'), address: order.shipping_address, x: PAGE.margin + boxWidth + 15 },
+    ].forEach(({ labels, address, x }) => {
+        let boxY = addressTop + 8;
+        boxY += drawBilingualLabel(doc, labels, x + 8, boxY, boxWidth - 16, { bold: true }) + 4;
+        // Align the whole address to the side its first line reads from, so the
+        // phone and country of an Arabic address line up with the rest
+        const lines = formatAddress(address);
+        const align = getTextDirection(lines[0]) === 'rtl' ? 'right' : 'left';
+        for (const line of lines) {
+            boxY += drawText(doc, line, x + 8, boxY, { width: boxWidth - 16, size: 9.5, align });
+        }
+        addressBottom = Math.max(addressBottom, boxY + 8);
+    });
+    doc.lineWidth(0.75).strokeColor(COLORS.border);
+    doc.rect(PAGE.margin, addressTop, boxWidth, addressBottom - addressTop).stroke();
+    doc.rect(PAGE.margin + boxWidth + 15, addressTop, boxWidth, addressBottom - addressTop).stroke();
+    y = addressBottom + 18;
+
+    // Items table
+    const drawTableHeader = () => {
+        const headers: [keyof typeof COLUMNS, string, Align][] = [
+            ['item', 'item', 'left'],
+            ['quantity', 'quantity', 'center'],
+            ['unitPrice', 'unit_price', 'right'],
+            ['lineTotal', 'line_total', 'right'],
+        ];
+        doc.rect(PAGE.margin, y, CONTENT_WIDTH, 34).fill(COLORS.shade);
+        for (const [column, key, align] of headers) {
+            const { x, width } = COLUMNS[column];
+            drawText(doc, tEn(key), PAGE.margin + x + 6, y + 2, { width: width - 12, align, size: 9, bold: true });
+            drawText(doc, tAr(key), PAGE.margin + x + 6, y + 16, { width: width - 12, align, size: 9, bold: true });
+        }
+        y += 38;
+    };
+    drawTableHeader();
+
+    for (const item of items) {
+        const variation = item.variation_name ? ` - ${item.variation_name}` : '';
+        const names = [`${item.product_name}${variation}`];
+        if (item.product_name_ar && item.product_name_ar !== item.product_name) {
+            names.push(`${item.product_name_ar}${variation}`);
+        }
+
+        // Measure before drawing so a row never splits across pages
+        doc.font('regular').fontSize(9.5);
+        const nameLines = names.reduce((count, name) => count + wrapText(doc, name, COLUMNS.item.width - 12).length, 0);
+        const rowHeight = nameLines * doc.currentLineHeight(true) + 8;
+        if (y + rowHeight > FOOTER_TOP - 20) {
+            doc.addPage();
+            y = PAGE.margin;
+            drawTableHeader();
+        }
+
+        let nameY = y + 4;
+        for (const name of names) {
+            nameY += drawText(doc, name, PAGE.margin + COLUMNS.item.x + 6, nameY, { width: COLUMNS.item.width - 12, size: 9.5 });
+        }
+        drawText(doc, String(item.quantity), PAGE.margin + COLUMNS.quantity.x + 6, y + 4, { width: COLUMNS.quantity.width - 12, align: 'center', size: 9.5 });
+        drawText(doc, formatAmount(item.unit_price), PAGE.margin + COLUMNS.unitPrice.x + 6, y + 4, { width: COLUMNS.unitPrice.width - 12, align: 'right', size: 9.5 });
+        drawText(doc, formatAmount(item.line_total), PAGE.margin + COLUMNS.lineTotal.x + 6, y + 4, { width: COLUMNS.lineTotal.width - 12, align: 'right', size: 9.5 });
+
+        y += rowHeight;
+        drawRule(doc, y);
+    }
+    y += 10;
+
+    // Totals
+    const taxRate = Number(order.tax_rate) || 0;
+    const discount = Number(order.discount_amount) || 0;
+    const totals: { labels: [string, string]; amount: string; bold?: boolean }[] = [
+        { labels: label('subtotal'), amount: formatAmount(order.subtotal) },
+        { labels: label('shipping'), amount: formatAmount(order.shipping_cost) },
+        // tax_rate is stored as a fraction (0.05) - show it as a percentage
+        { labels: label('tax', { rate: Number((taxRate * 100).toFixed(2)) }), amount: formatAmount(order.tax_amount) },
+        ...(discount > 0
+            ? [{
+                labels: order.coupon_code ? label('discount_with_code', { code: order.coupon_code }) : label('discount'),
+                amount: `-${formatAmount(discount)}`,
+            }]
+            : []),
+        { labels: label('total'), amount: formatAmount(order.total), bold: true },
+    ];
+
+    if (y + totals.length * 20 > FOOTER_TOP - 10) {
+        doc.addPage();
+        y = PAGE.margin;
+    }
+
+    const totalsX = PAGE.margin + 215;
+    for (const total of totals) {
+        if (total.bold) {
+            drawRule(doc, y);
+            y += 4;
+        }
+        const size = total.bold ? 12 : 10;
+        const height = Math.max(
+            drawText(doc, total.labels[0], totalsX, y, { width: 100, align: 'left', size, bold: total.bold }),
+            drawText(doc, total.labels[1], totalsX + 100, y, { width: 100, align: 'right', size, bold: total.bold }),
+            drawText(doc, total.amount, RIGHT - 100, y, { width: 100, align: 'right', size, bold: total.bold })
+        );
+        y += height + 2;
+    }
+
+    // Footer on every page
+    const pages = doc.bufferedPageRange();
+    for (let index = 0; index < pages.count; index++) {
+        doc.switchToPage(pages.start + index);
+        drawRule(doc, FOOTER_TOP);
+        drawBilingualLabel(doc, label('thanks'), PAGE.margin, FOOTER_TOP + 6, CONTENT_WIDTH, { size: 9, color: COLORS.muted });
+        drawText(
+            doc,
+            `${API_CONFIG.SITE_URL.replace(/^https?:\/\//, '')}  |  ${tEn('page', { page: index + 1, pages: pages.count })}`,
+            PAGE.margin,
+            FOOTER_TOP + 20,
+            { width: CONTENT_WIDTH, align: 'center', size: 8, color: COLORS.muted }
+        );
+    }
+
+    doc.end();
+    return done;
+}
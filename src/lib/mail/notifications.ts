@@ -0,0 +1,129 @@
+/**
+ * Transactional Emails (server-side)
+ *
+ * Renders and queues the emails customers get about their orders and
+ * messages. Each email goes out in the language the order was placed in
+ * (Arabic when unknown). These never throw: a failure to email is logged and
+ * must not fail the order, payment or refund that triggered it.
+ */
+
+import axios from 'axios';
+import { ContactMessage, Order, OrderItem, PaymentRefund } from '@/types/collections';
+import { getApiToken, getDirectusUrl } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+import { queueMail } from './queue';
+import { EmailLocale, toEmailLocale } from './render';
+import { renderOrderConfirmationEmail } from './templates/OrderConfirmationEmail';
+import { renderOrderShippedEmail } from './templates/OrderShippedEmail';
+import { renderRefundIssuedEmail } from './templates/RefundIssuedEmail';
+import { renderContactAcknowledgementEmail } from './templates/ContactAcknowledgementEmail';
+import { renderContactStaffNotificationEmail } from './templates/ContactStaffNotificationEmail';
+
+const DEFAULT_CONTACT_INBOX = 'hello@buyjan.com';
+
+/**
+ * Staff emails are written in English
+ */
+const STAFF_LOCALE: EmailLocale = 'en';
+
+async function fetchOrderItems(orderId: string): Promise<OrderItem[]> {
+    const response = await axios.get(`${getDirectusUrl()}/items/${COLLECTIONS.ORDER_ITEMS}`, {
+        params: {
+            filter: JSON.stringify({ order: { _eq: orderId } }),
+            limit: -1,
+        },
+        headers: { 'Authorization': `Bearer ${getApiToken()}` },
+    });
+    return response.data.data || [];
+}
+
+/**
+ * Email the customer that their order is confirmed, with its lines and totals
+ */
+export async function sendOrderConfirmationEmail(order: Order): Promise<void> {
+    if (!order.customer_email) return;
+
+    try {
+        const items = await fetchOrderItems(String(order.id));
+        queueMail({
+            to: order.customer_email,
+            ...renderOrderConfirmationEmail({ order, items, locale: toEmailLocale(order.locale) }),
+        });
+    } catch (error: any) {
+        console.error('[Mail] Failed to queue order confirmation:', order.order_number, error.response?.data || error.message);
+    }
+}
+
+/**
+ * Email the customer that their order has shipped, with the tracking number
+ */
+export async function sendOrderShippedEmail(order: Order): Promise<void> {
+    if (!order.customer_email) return;
+
+    try {
+        queueMail({
+            to: order.customer_email,
+            ...renderOrderShippedEmail({ order, locale: toEmailLocale(order.locale) }),
+        });
+    } catch (error: any) {
+        console.error('[Mail] Failed to queue shipping email:', order.order_number, error.message);
+    }
+}
+
+/**
+ * Email the customer that a refund of their order has been issued
+ */
+export async function sendRefundIssuedEmail(order: Order, refund: PaymentRefund): Promise<void> {
+    if (!order.customer_email) return;
+
+    try {
+        queueMail({
+            to: order.customer_email,
+            ...renderRefundIssuedEmail({ order, refund, locale: toEmailLocale(order.locale) }),
+        });
+    } catch (error: any) {
+        console.error('[Mail] Failed to queue refund email:', order.order_number, error.message);
+    }
+}
+
+/**
+ * Let someone who used the contact form know their message arrived
+ */
+export async function sendContactAcknowledgementEmail(
+    contact: { name: string; email: string; subject: string; message: string },
+    locale: EmailLocale
+): Promise<void> {
+    try {
+        queueMail({
+            to: contact.email,
+            ...renderContactAcknowledgementEmail({
+                name: contact.name,
+                subject: contact.subject,
+                message: contact.message,
+                locale,
+            }),
+        });
+    } catch (error: any) {
+        console.error('[Mail] Failed to queue contact acknowledgement:', error.message);
+    }
+}
+
+/**
+ * Tell staff about a new contact form message, at CONTACT_INBOX_EMAIL
+ * Replying to the email answers the sender.
+ */
+export async function sendContactStaffNotification(message: ContactMessage): Promise<void> {
+    try {
+        queueMail({
+            to: process.env.CONTACT_INBOX_EMAIL || DEFAULT_CONTACT_INBOX,
+            replyTo: message.email,
+            ...renderContactStaffNotificationEmail({
+                message,
+                inboxUrl: `${getDirectusUrl()}/admin/content/${COLLECTIONS.CONTACT_MESSAGES}/${message.id}`,
+                locale: STAFF_LOCALE,
+            }),
+        });
+    } catch (error: any) {
+        console.error('[Mail] Failed to queue contact notification:', message.id, error.message);
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * Mail Queue (server-side)
+ *
+ * Sends transactional email in the background so a slow or failing mail
+ * server never holds up (or fails) the request that triggered the email.
+ * Messages are sent one at a time in the order queued, each retried with
+ * exponential backoff before it is given up on and logged.
+ *
+ * The queue lives in memory, so messages still waiting when the server
+ * process stops are lost.
+ */
+
+import { withRetry, RetryOptions } from '@/lib/retry';
+import { sendMail, MailMessage } from './transport';
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxRetries: 3,
+    initialDelay: 2000,
+    maxDelay: 30000,
+    errorPrefix: 'Mail',
+};
+
+interface QueuedMail {
+    message: MailMessage;
+    retry: RetryOptions;
+}
+
+const queue: QueuedMail[] = [];
+let draining: Promise<void> | null = null;
+
+async function drain(): Promise<void> {
+    while (queue.length > 0) {
+        const { message, retry } = queue.shift()!;
+        const result = await withRetry(() => sendMail(message), retry);
+
+        if (!result.success) {
+            const error = result.error as any;
+            console.error(`[Mail] Gave up sending "${message.subject}" after ${result.attempts} attempts:`, error?.message || error);
+        }
+    }
+}
+
+/**
+ * Queue an email to send in the background
+ *
+ * @param retry - Overrides of the retry policy (3 attempts, from 2s apart)
+ */
+export function queueMail(message: MailMessage, retry: RetryOptions = {}): void {
+    queue.push({ message, retry: { ...DEFAULT_RETRY_OPTIONS, ...retry } });
+
+    if (!draining) {
+        draining = drain().finally(() => {
+            draining = null;
+        });
+    }
+}
+
+/**
+ * Wait until every queued email has been sent or given up on
+ */
+export async function flushMailQueue(): Promise<void> {
+    while (draining) {
+        await draining;
+    }
+}
+
+/**
+ * Number of emails waiting to be sent
+ */
+export function getMailQueueLength(): number {
+    return queue.length;
+}
@@ -0,0 +1,90 @@
+/**
+ * Email Rendering (server-side)
+ *
+ * Emails are React components (see ./templates) rendered to static HTML, with
+ * a plain-text part derived from the HTML. Copy comes from the `emails`
+ * section of the storefront messages, so every email exists in Arabic (RTL)
+ * and English.
+ */
+
+import { ReactElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { createTranslator } from 'next-intl';
+import ar from '@/messages/ar.json';
+import en from '@/messages/en.json';
+import { API_CONFIG } from '@/lib/config/constants';
+
+export type EmailLocale = 'ar' | 'en';
+
+/**
+ * Subject and bodies of an email, ready to address and send
+ */
+export interface RenderedEmail {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+export type EmailTranslator = (key: string, values?: Record<string, string | number>) => string;
+
+const MESSAGES: Record<EmailLocale, Record<string, any>> = { ar, en };
+
+/**
+ * Email language for a stored locale, falling back to Arabic like the storefront
+ */
+export function toEmailLocale(locale?: string | null): EmailLocale {
+    return locale === 'en' ? 'en' : 'ar';
+}
+
+/**
+ * Translator for the `emails` messages of a language
+ */
+export function getEmailTranslator(locale: EmailLocale): EmailTranslator {
+    const t = createTranslator({ locale, messages: MESSAGES[locale].emails });
+    return (key, values) => t(key, values);
+}
+
+/**
+ * Absolute link to a storefront page in the given language, e.g. '/account/orders/12'
+ */
+export function getStorefrontUrl(locale: EmailLocale, path: string): string {
+    return `${API_CONFIG.SITE_URL}/${locale}${path}`;
+}
+
+const ENTITIES: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#x27;': "'",
+    '&#39;': "'",
+    '&nbsp;': ' ',
+};
+
+/**
+ * Plain-text version of an email's HTML
+ * Links keep their URL, block elements become line breaks.
+ */
+export function htmlToText(html: string): string {
+    return html
+        .replace(/<(head|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<a [^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '$2: $1')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|h[1-6]|tr|table|section|li)>/gi, '\n')
+        .replace(/<\/t[dh]>/gi, '  ')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&(amp|lt|gt|quot|nbsp|#x27|#39);/g, (entity) => ENTITIES[entity])
+        .split('\n')
+        .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Render an email component to its HTML and plain-text bodies
+ */
+export function renderEmail(subject: string, element: ReactElement): RenderedEmail {
+    const html = `<!DOCTYPE html>${renderToStaticMarkup(element)}`;
+    return { subject, html, text: htmlToText(html) };
+}
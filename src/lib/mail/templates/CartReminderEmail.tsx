@@ -0,0 +1,62 @@
+import { ServerCartItem } from '@/types/collections';
+import { applyVariantPrice } from '@/lib/api/variants';
+import { EmailLocale, getEmailTranslator, renderEmail, RenderedEmail } from '../render';
+import { Button, EmailLayout, EmailLine, LinesTable, Paragraph } from './EmailLayout';
+
+const LOCALES: EmailLocale[] = ['ar', 'en'];
+
+interface CartReminderEmailProps {
+    firstName?: string;
+    items: ServerCartItem[];
+    restoreUrls: Record<EmailLocale, string>;
+    reminderNumber: number; // 1 for the first reminder
+}
+
+function toEmailLine(item: ServerCartItem, locale: EmailLocale): EmailLine {
+    const product = item.product_snapshot || {};
+    const variant = item.variant_snapshot;
+    const name = (locale === 'ar' && product.name_ar) || product.name || '';
+    const variantName = variant ? (locale === 'ar' && variant.name_ar) || variant.name : null;
+    const unitPrice = Number(product.sale_price) > 0 ? Number(product.sale_price) : Number(product.price) || 0;
+
+    return {
+        name: variantName ? `${name} - ${variantName}` : name,
+        quantity: item.quantity,
+        amount: applyVariantPrice(unitPrice, variant as any) * item.quantity,
+    };
+}
+
+/**
+ * Sent by the abandoned cart job (lib/cart/reminders). Written in Arabic and
+ * then English, since we don't know which language the customer shops in.
+ */
+export function CartReminderEmail({ firstName, items, restoreUrls, reminderNumber }: CartReminderEmailProps) {
+    // Lines saved without a snapshot can't be described
+    const lines = items.filter((item) => item.product_snapshot);
+
+    return (
+        <EmailLayout locale="ar" title={getCartReminderSubject(reminderNumber)} footerLocales={LOCALES}>
+            {LOCALES.map((locale) => {
+                const t = getEmailTranslator(locale);
+                return (
+                    <div key={locale} dir={locale === 'ar' ? 'rtl' : 'ltr'} lang={locale} style={{ textAlign: locale === 'ar' ? 'right' : 'left', marginBottom: 32 }}>
+                        <Paragraph>{firstName ? t('common.greeting', { name: firstName }) : t('common.greeting_anonymous')}</Paragraph>
+                        <Paragraph>{t('cart_reminder.intro')}</Paragraph>
+                        <LinesTable locale={locale} lines={lines.map((item) => toEmailLine(item, locale))} />
+                        <Button href={restoreUrls[locale]}>{t('cart_reminder.button')}</Button>
+                        <Paragraph muted>{t('cart_reminder.note')}</Paragraph>
+                    </div>
+                );
+            })}
+        </EmailLayout>
+    );
+}
+
+function getCartReminderSubject(reminderNumber: number): string {
+    const key = reminderNumber > 1 ? 'cart_reminder.subject_followup' : 'cart_reminder.subject';
+    return LOCALES.map((locale) => getEmailTranslator(locale)(key)).join(' | ');
+}
+
+export function renderCartReminderEmail(props: CartReminderEmailProps): RenderedEmail {
+    return renderEmail(getCartReminderSubject(props.reminderNumber), <CartReminderEmail {...props} />);
+}
@@ -0,0 +1,43 @@
+import { CONTACT_TOPICS } from '@/lib/contact/messages';
+import { EmailLocale, getEmailTranslator, renderEmail, RenderedEmail } from '../render';
+import { EmailLayout, Heading, Paragraph } from './EmailLayout';
+
+interface ContactAcknowledgementEmailProps {
+    name: string;
+    subject: string;
+    message: string;
+    locale: EmailLocale;
+}
+
+/**
+ * Name of a contact form topic, or the topic as sent when it isn't one of ours
+ */
+export function getContactTopicLabel(topic: string, locale: EmailLocale): string {
+    return (CONTACT_TOPICS as readonly string[]).includes(topic)
+        ? getEmailTranslator(locale)(`contact_topics.${topic}`)
+        : topic;
+}
+
+/**
+ * Sent to whoever submits the contact form, with a copy of their message
+ */
+export function ContactAcknowledgementEmail({ name, subject, message, locale }: ContactAcknowledgementEmailProps) {
+    const t = getEmailTranslator(locale);
+
+    return (
+        <EmailLayout locale={locale} title={t('contact_acknowledgement.subject')}>
+            <Paragraph>{t('common.greeting', { name })}</Paragraph>
+            <Heading>{t('contact_acknowledgement.heading')}</Heading>
+            <Paragraph>{t('contact_acknowledgement.intro', { subject: getContactTopicLabel(subject, locale) })}</Paragraph>
+            <Paragraph muted>{t('contact_acknowledgement.your_message')}:</Paragraph>
+            <blockquote style={{ margin: '0 0 12px', padding: '8px 12px', backgroundColor: '#f9fafb', borderRadius: 6, whiteSpace: 'pre-wrap' }}>
+                {message}
+            </blockquote>
+        </EmailLayout>
+    );
+}
+
+export function renderContactAcknowledgementEmail(props: ContactAcknowledgementEmailProps): RenderedEmail {
+    const t = getEmailTranslator(props.locale);
+    return renderEmail(t('contact_acknowledgement.subject'), <ContactAcknowledgementEmail {...props} />);
+}
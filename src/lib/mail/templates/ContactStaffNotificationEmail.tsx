@@ -0,0 +1,55 @@
+import { ContactMessage } from '@/types/collections';
+import { EmailLocale, getEmailTranslator, renderEmail, RenderedEmail } from '../render';
+import { Button, EmailLayout, Heading, Paragraph } from './EmailLayout';
+import { getContactTopicLabel } from './ContactAcknowledgementEmail';
+
+interface ContactStaffNotificationEmailProps {
+    message: ContactMessage;
+    inboxUrl: string; // The message in the Directus admin
+    locale: EmailLocale;
+}
+
+/**
+ * Sent to the staff inbox address for every new contact form message
+ */
+export function ContactStaffNotificationEmail({ message, inboxUrl, locale }: ContactStaffNotificationEmailProps) {
+    const t = getEmailTranslator(locale);
+    const rows: [string, string][] = [
+        [t('contact_staff.from'), `${message.full_name} <${message.email}>`],
+        [t('contact_staff.phone'), message.phone],
+        [t('contact_staff.topic'), getContactTopicLabel(message.subject, locale)],
+        ...(message.order_number
+            ? [[
+                t('contact_staff.order'),
+                message.order ? message.order_number : t('contact_staff.order_not_found', { number: message.order_number }),
+            ] as [string, string]]
+            : []),
+        [t('contact_staff.language'), message.locale || '-'],
+    ];
+
+    return (
+        <EmailLayout locale={locale} title={t('contact_staff.heading')}>
+            <Heading>{t('contact_staff.heading')}</Heading>
+            {rows.map(([label, value]) => (
+                <Paragraph key={label}>
+                    <strong>{label}:</strong> <span dir="auto">{value}</span>
+                </Paragraph>
+            ))}
+            <blockquote dir="auto" style={{ margin: '0 0 12px', padding: '8px 12px', backgroundColor: '#f9fafb', borderRadius: 6, whiteSpace: 'pre-wrap' }}>
+                {message.message}
+            </blockquote>
+            <Button href={inboxUrl}>{t('contact_staff.open_inbox')}</Button>
+        </EmailLayout>
+    );
+}
+
+export function renderContactStaffNotificationEmail(props: ContactStaffNotificationEmailProps): RenderedEmail {
+    const t = getEmailTranslator(props.locale);
+    return renderEmail(
+        t('contact_staff.subject', {
+            topic: getContactTopicLabel(props.message.subject, props.locale),
+            name: props.message.full_name,
+        }),
+        <ContactStaffNotificationEmail {...props} />
+    );
+}
@@ -0,0 +1,143 @@
+import { ReactNode } from 'react';
+import { formatOMR } from '@/lib/currency';
+import { EmailLocale, getEmailTranslator } from '../render';
+
+// Email clients ignore stylesheets, so every element is styled inline
+const COLORS = {
+    brand: '#be185d',
+    text: '#111827',
+    muted: '#6b7280',
+    border: '#e5e7eb',
+    background: '#f3f4f6',
+    button: '#16a34a',
+};
+
+function textAlign(locale: EmailLocale): 'right' | 'left' {
+    return locale === 'ar' ? 'right' : 'left';
+}
+
+interface EmailLayoutProps {
+    locale: EmailLocale;
+    title: string;
+    children: ReactNode;
+    footerLocales?: EmailLocale[]; // Languages of the footer, for emails written in both
+}
+
+/**
+ * Page around every email: brand header, content card and footer
+ */
+export function EmailLayout({ locale, title, children, footerLocales = [locale] }: EmailLayoutProps) {
+    return (
+        <html lang={locale} dir={locale === 'ar' ? 'rtl' : 'ltr'}>
+            <head>
+                <meta charSet="utf-8" />
+                <meta name="viewport" content="width=device-width, initial-scale=1" />
+                <title>{title}</title>
+            </head>
+            <body style={{ margin: 0, padding: 0, backgroundColor: COLORS.background, fontFamily: 'Arial, Helvetica, sans-serif', color: COLORS.text }}>
+                <table role="presentation" width="100%" cellPadding={0} cellSpacing={0}>
+                    <tbody>
+                        <tr>
+                            <td align="center" style={{ padding: '24px 12px' }}>
+                                <table role="presentation" width="100%" cellPadding={0} cellSpacing={0} style={{ maxWidth: 600, backgroundColor: '#ffffff', borderRadius: 8 }}>
+                                    <tbody>
+                                        <tr>
+                                            <td style={{ padding: '20px 24px', borderBottom: `1px solid ${COLORS.border}`, fontSize: 22, fontWeight: 'bold', color: COLORS.brand, textAlign: textAlign(locale) }}>
+                                                {getEmailTranslator(locale)('common.brand')}
+                                            </td>
+                                        </tr>
+                                        <tr>
+                                            <td style={{ padding: 24, fontSize: 15, lineHeight: 1.6, textAlign: textAlign(locale) }}>
+                                                {children}
+                                            </td>
+                                        </tr>
+                                        {footerLocales.map((footerLocale) => {
+                                            const t = getEmailTranslator(footerLocale);
+                                            return (
+                                                <tr key={footerLocale}>
+                                                    <td dir={footerLocale === 'ar' ? 'rtl' : 'ltr'} style={{ padding: '16px 24px', borderTop: `1px solid ${COLORS.border}`, fontSize: 12, color: COLORS.muted, textAlign: textAlign(footerLocale) }}>
+                                                        <p style={{ margin: '0 0 4px' }}>{t('common.footer')}</p>
+                                                        <p style={{ margin: 0 }}>{t('common.rights_reserved')}</p>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </td>
+                        </tr>
+                    </tbody>
+                </table>
+            </body>
+        </html>
+    );
+}
+
+export function Heading({ children }: { children: ReactNode }) {
+    return <h1 style={{ margin: '0 0 16px', fontSize: 20, color: COLORS.text }}>{children}</h1>;
+}
+
+export function Paragraph({ children, muted = false }: { children: ReactNode; muted?: boolean }) {
+    return <p style={{ margin: '0 0 12px', color: muted ? COLORS.muted : COLORS.text, fontSize: muted ? 13 : 15 }}>{children}</p>;
+}
+
+export function Button({ href, children }: { href: string; children: ReactNode }) {
+    return (
+        <p style={{ margin: '24px 0' }}>
+            <a href={href} style={{ display: 'inline-block', backgroundColor: COLORS.button, color: '#ffffff', padding: '12px 24px', borderRadius: 6, textDecoration: 'none', fontWeight: 'bold' }}>
+                {children}
+            </a>
+        </p>
+    );
+}
+
+export interface EmailLine {
+    name: string;
+    quantity: number;
+    amount: number; // OMR, for the whole line
+}
+
+export interface EmailTotal {
+    label: string;
+    amount: number | string; // OMR, or text such as "Free"
+    bold?: boolean;
+}
+
+/**
+ * Lines of an order or cart with their amounts, and optional totals below
+ */
+export function LinesTable({ locale, lines, totals = [] }: { locale: EmailLocale; lines: EmailLine[]; totals?: EmailTotal[] }) {
+    const t = getEmailTranslator(locale);
+    const start = textAlign(locale);
+    const end = locale === 'ar' ? 'left' : 'right';
+    const cell = { padding: '8px 0', borderBottom: `1px solid ${COLORS.border}` };
+
+    return (
+        <table role="presentation" width="100%" cellPadding={0} cellSpacing={0} style={{ margin: '16px 0', borderCollapse: 'collapse', fontSize: 14 }}>
+            <thead>
+                <tr>
+                    <th style={{ ...cell, textAlign: start, color: COLORS.muted }}>{t('common.item')}</th>
+                    <th style={{ ...cell, textAlign: 'center', color: COLORS.muted }}>{t('common.quantity')}</th>
+                    <th style={{ ...cell, textAlign: end, color: COLORS.muted }}>{t('common.amount')}</th>
+                </tr>
+            </thead>
+            <tbody>
+                {lines.map((line, index) => (
+                    <tr key={index}>
+                        <td style={{ ...cell, textAlign: start }}>{line.name}</td>
+                        <td style={{ ...cell, textAlign: 'center' }}>{line.quantity}</td>
+                        <td dir="ltr" style={{ ...cell, textAlign: end, whiteSpace: 'nowrap' }}>{formatOMR(line.amount, locale)}</td>
+                    </tr>
+                ))}
+                {totals.map((total) => (
+                    <tr key={total.label}>
+                        <td colSpan={2} style={{ padding: '6px 0', textAlign: start, fontWeight: total.bold ? 'bold' : 'normal' }}>{total.label}</td>
+                        <td dir="ltr" style={{ padding: '6px 0', textAlign: end, whiteSpace: 'nowrap', fontWeight: total.bold ? 'bold' : 'normal' }}>
+                            {typeof total.amount === 'number' ? formatOMR(total.amount, locale) : total.amount}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
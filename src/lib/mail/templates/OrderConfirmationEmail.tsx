@@ -0,0 +1,50 @@
+import { Order, OrderItem } from '@/types/collections';
+import { EmailLocale, getEmailTranslator, getStorefrontUrl, renderEmail, RenderedEmail } from '../render';
+import { Button, EmailLayout, EmailTotal, Heading, LinesTable, Paragraph } from './EmailLayout';
+
+interface OrderConfirmationEmailProps {
+    order: Order;
+    items: OrderItem[];
+    locale: EmailLocale;
+}
+
+/**
+ * Sent once an order is placed (or, for PayPal, once it is paid)
+ */
+export function OrderConfirmationEmail({ order, items, locale }: OrderConfirmationEmailProps) {
+    const t = getEmailTranslator(locale);
+    const name = order.shipping_address?.first_name;
+
+    const totals: EmailTotal[] = [
+        { label: t('common.subtotal'), amount: Number(order.subtotal) },
+        { label: t('common.shipping'), amount: Number(order.shipping_cost) > 0 ? Number(order.shipping_cost) : t('common.free') },
+        ...(Number(order.discount_amount) > 0 ? [{ label: t('common.discount'), amount: -Number(order.discount_amount) }] : []),
+        { label: t('common.total'), amount: Number(order.total), bold: true },
+    ];
+
+    return (
+        <EmailLayout locale={locale} title={t('order_confirmation.subject', { number: order.order_number })}>
+            <Paragraph>{name ? t('common.greeting', { name }) : t('common.greeting_anonymous')}</Paragraph>
+            <Heading>{t('order_confirmation.heading')}</Heading>
+            <Paragraph>{t('order_confirmation.intro', { number: order.order_number })}</Paragraph>
+            <LinesTable
+                locale={locale}
+                lines={items.map((item) => ({
+                    name: [(locale === 'ar' && item.product_name_ar) || item.product_name, item.variation_name].filter(Boolean).join(' - '),
+                    quantity: item.quantity,
+                    amount: Number(item.line_total),
+                }))}
+                totals={totals}
+            />
+            <Button href={getStorefrontUrl(locale, `/account/orders/${order.id}`)}>{t('common.view_order')}</Button>
+        </EmailLayout>
+    );
+}
+
+export function renderOrderConfirmationEmail(props: OrderConfirmationEmailProps): RenderedEmail {
+    const t = getEmailTranslator(props.locale);
+    return renderEmail(
+        t('order_confirmation.subject', { number: props.order.order_number }),
+        <OrderConfirmationEmail {...props} />
+    );
+}
@@ -0,0 +1,40 @@
+import { Order } from '@/types/collections';
+import { EmailLocale, getEmailTranslator, getStorefrontUrl, renderEmail, RenderedEmail } from '../render';
+import { Button, EmailLayout, Heading, Paragraph } from './EmailLayout';
+
+interface OrderShippedEmailProps {
+    order: Order;
+    locale: EmailLocale;
+}
+
+/**
+ * Sent when an order is marked as shipped, with its tracking number
+ */
+export function OrderShippedEmail({ order, locale }: OrderShippedEmailProps) {
+    const t = getEmailTranslator(locale);
+    const name = order.shipping_address?.first_name;
+
+    return (
+        <EmailLayout locale={locale} title={t('order_shipped.subject', { number: order.order_number })}>
+            <Paragraph>{name ? t('common.greeting', { name }) : t('common.greeting_anonymous')}</Paragraph>
+            <Heading>{t('order_shipped.heading')}</Heading>
+            <Paragraph>{t('order_shipped.intro', { number: order.order_number })}</Paragraph>
+            {order.tracking_number ? (
+                <Paragraph>
+                    {t('order_shipped.tracking')}: <strong dir="ltr">{order.tracking_number}</strong>
+                </Paragraph>
+            ) : (
+                <Paragraph muted>{t('order_shipped.no_tracking')}</Paragraph>
+            )}
+            <Button href={getStorefrontUrl(locale, `/account/orders/${order.id}`)}>{t('common.view_order')}</Button>
+        </EmailLayout>
+    );
+}
+
+export function renderOrderShippedEmail(props: OrderShippedEmailProps): RenderedEmail {
+    const t = getEmailTranslator(props.locale);
+    return renderEmail(
+        t('order_shipped.subject', { number: props.order.order_number }),
+        <OrderShippedEmail {...props} />
+    );
+}
@@ -0,0 +1,39 @@
+import { Order, PaymentRefund } from '@/types/collections';
+import { formatOMR } from '@/lib/currency';
+import { EmailLocale, getEmailTranslator, getStorefrontUrl, renderEmail, RenderedEmail } from '../render';
+import { Button, EmailLayout, Heading, Paragraph } from './EmailLayout';
+
+interface RefundIssuedEmailProps {
+    order: Order;
+    refund: PaymentRefund;
+    locale: EmailLocale;
+}
+
+/**
+ * Sent when a full or partial refund of an order has gone through
+ */
+export function RefundIssuedEmail({ order, refund, locale }: RefundIssuedEmailProps) {
+    const t = getEmailTranslator(locale);
+    const name = order.shipping_address?.first_name;
+
+    return (
+        <EmailLayout locale={locale} title={t('refund_issued.subject', { number: order.order_number })}>
+            <Paragraph>{name ? t('common.greeting', { name }) : t('common.greeting_anonymous')}</Paragraph>
+            <Heading>{t('refund_issued.heading')}</Heading>
+            <Paragraph>
+                {t('refund_issued.intro', { amount: formatOMR(Number(refund.amount), locale), number: order.order_number })}
+            </Paragraph>
+            {refund.reason && <Paragraph>{t('refund_issued.reason', { reason: refund.reason })}</Paragraph>}
+            <Paragraph muted>{t('refund_issued.timing')}</Paragraph>
+            <Button href={getStorefrontUrl(locale, `/account/orders/${order.id}`)}>{t('common.view_order')}</Button>
+        </EmailLayout>
+    );
+}
+
+export function renderRefundIssuedEmail(props: RefundIssuedEmailProps): RenderedEmail {
+    const t = getEmailTranslator(props.locale);
+    return renderEmail(
+        t('refund_issued.subject', { number: props.order.order_number }),
+        <RefundIssuedEmail {...props} />
+    );
+}
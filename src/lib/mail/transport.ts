@@ -0,0 +1,153 @@
+/**
+ * Mail Transport (server-side)
+ *
+ * Sends email through the transport selected by MAIL_TRANSPORT:
+ * - `smtp` (default): the SMTP server at SMTP_HOST/SMTP_PORT, signing in with
+ *   SMTP_USER/SMTP_PASS when set. For local testing, point it at a catch-all
+ *   SMTP server such as Mailpit or MailHog (SMTP_HOST=localhost, SMTP_PORT=1025).
+ * - `file`: writes each message to MAIL_FILE_DIR (default `.mail`) as a
+ *   .html file to open in a browser and a .json file with the headers and
+ *   plain text - for development without an SMTP server.
+ *
+ * Other transports can be plugged in with setMailTransport(), e.g. in tests.
+ * Messages are sent from MAIL_FROM.
+ */
+
+import nodemailer from 'nodemailer';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DEFAULT_FROM = 'BuyJan <no-reply@buyjan.com>';
+const DEFAULT_FILE_DIR = '.mail';
+
+/**
+ * An email ready to send
+ */
+export interface MailMessage {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+    replyTo?: string;
+}
+
+/**
+ * Something that can deliver email
+ */
+export interface MailTransport {
+    name: string;
+    send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpTransportOptions {
+    host: string;
+    port: number;
+    secure?: boolean;
+    user?: string;
+    pass?: string;
+    from?: string;
+}
+
+let activeTransport: MailTransport | null = null;
+
+/**
+ * SMTP transport options from the SMTP_* environment variables
+ */
+export function getSmtpOptionsFromEnv(): SmtpTransportOptions {
+    const port = Number(process.env.SMTP_PORT) || 587;
+
+    return {
+        host: process.env.SMTP_HOST || 'localhost',
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined,
+        from: process.env.MAIL_FROM || DEFAULT_FROM,
+    };
+}
+
+/**
+ * Transport sending through an SMTP server
+ */
+export function createSmtpTransport(options: SmtpTransportOptions = getSmtpOptionsFromEnv()): MailTransport {
+    const transporter = nodemailer.createTransport({
+        host: options.host,
+        port: options.port,
+        secure: options.secure ?? false,
+        ...(options.user && { auth: { user: options.user, pass: options.pass } }),
+    });
+
+    return {
+        name: 'smtp',
+        async send(message) {
+            await transporter.sendMail({
+                from: options.from || DEFAULT_FROM,
+                to: message.to,
+                subject: message.subject,
+                html: message.html,
+                text: message.text,
+                ...(message.replyTo && { replyTo: message.replyTo }),
+            });
+        },
+    };
+}
+
+/**
+ * Transport writing messages to files instead of sending them
+ */
+export function createFileTransport(directory: string = process.env.MAIL_FILE_DIR || DEFAULT_FILE_DIR): MailTransport {
+    return {
+        name: 'file',
+        async send(message) {
+            await fs.mkdir(directory, { recursive: true });
+
+            const recipient = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+            const stamp = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 6)}`;
+            const baseName = path.join(directory, `${stamp}-${recipient}`);
+            await fs.writeFile(`${baseName}.html`, message.html, 'utf8');
+            await fs.writeFile(
+                `${baseName}.json`,
+                JSON.stringify({ from: process.env.MAIL_FROM || DEFAULT_FROM, ...message, html: undefined }, null, 2),
+                'utf8'
+            );
+        },
+    };
+}
+
+/**
+ * The transport email is sent through, created from MAIL_TRANSPORT on first use
+ */
+export function getMailTransport(): MailTransport {
+    if (activeTransport) {
+        return activeTransport;
+    }
+
+    const name = process.env.MAIL_TRANSPORT || 'smtp';
+    if (name === 'file') {
+        activeTransport = createFileTransport();
+        return activeTransport;
+    }
+
+    if (name !== 'smtp') {
+        console.warn(`[Mail] Unknown MAIL_TRANSPORT "${name}", using smtp`);
+    }
+
+    activeTransport = createSmtpTransport();
+    return activeTransport;
+}
+
+/**
+ * Replace the transport (pass null to go back to MAIL_TRANSPORT)
+ */
+export function setMailTransport(transport: MailTransport | null): void {
+    activeTransport = transport;
+}
+
+/**
+ * Send an email through the active transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+    const transport = getMailTransport();
+    await transport.send(message);
+    console.log(`[Mail] Sent "${message.subject}" via ${transport.name}`);
+}
@@ -0,0 +1,153 @@
+/**
+ * Customer Order Cancellation (server-side)
+ *
+ * Lets customers cancel their own orders while nothing has been shipped and
+ * the cancellation window is open (see getCancellationBlocker). A paid PayPal
+ * order is cancelled and then refunded; if the refund fails the order is put
+ * back as it was. The ordered stock and coupon use are then given back; an
+ * unpaid PayPal order is cancelled as a failed payment, which releases its
+ * stock hold instead.
+ */
+
+import { Order } from '@/types/collections';
+import { getApiToken } from '@/lib/api/api-utils';
+import { CancellationBlocker, getCancellationBlocker, isOrderOwnedBy } from '@/lib/api/orders';
+import { restockLines } from '@/lib/inventory/reservations';
+import { findCouponByCode, releaseCoupon } from '@/lib/coupons/store';
+import { recordOrderHistory } from './history';
+import { fetchOrderStockLines, findOrderById, markOrderPaymentFailed, updateOrderIf } from './payment';
+import { refundOrder } from './refunds';
+
+/**
+ * Longest cancellation reason stored
+ */
+export const MAX_CANCELLATION_REASON_LENGTH = 500;
+
+export type CancellationErrorCode = 'NOT_FOUND' | 'INVALID_REASON' | 'NOT_CANCELLABLE';
+
+/**
+ * Raised when an order can't be cancelled by the caller
+ */
+export class CancellationError extends Error {
+    constructor(
+        public code: CancellationErrorCode,
+        message: string,
+        public reason?: CancellationBlocker
+    ) {
+        super(message);
+        this.name = 'CancellationError';
+    }
+}
+
+function isPaid(order: Order): boolean {
+    return order.payment_status === 'completed' || order.payment_status === 'partially_refunded';
+}
+
+/**
+ * The order once another caller got to it first: fine if it ended up
+ * cancelled, otherwise it changed (e.g. was paid) while we were cancelling it
+ */
+function confirmCancelled(latest: Order | null): Order {
+    if (latest?.status === 'cancelled') {
+        return latest;
+    }
+
+    throw new CancellationError(
+        'NOT_CANCELLABLE',
+        'The order changed while it was being cancelled. Please try again.',
+        'status'
+    );
+}
+
+/**
+ * Cancel one of a customer's orders
+ *
+ * @param orderId - Directus order ID
+ * @param customerId - Customer asking to cancel
+ * @param reason - Why they are cancelling, kept on the order
+ * @throws CancellationError when the order isn't theirs or can't be cancelled any more
+ * @throws RefundError when refunding the payment fails (the order is left as it was)
+ */
+export async function cancelCustomerOrder(orderId: string, customerId: string, reason: string): Promise<Order> {
+    const trimmedReason = (reason || '').trim();
+    if (!trimmedReason || trimmedReason.length > MAX_CANCELLATION_REASON_LENGTH) {
+        throw new CancellationError('INVALID_REASON', `A reason of up to ${MAX_CANCELLATION_REASON_LENGTH} characters is required`);
+    }
+
+    const order = await findOrderById(orderId);
+    if (!order || !isOrderOwnedBy(order, customerId)) {
+        throw new CancellationError('NOT_FOUND', 'Order not found');
+    }
+
+    const blocker = getCancellationBlocker(order);
+    if (blocker) {
+        throw new CancellationError(
+            'NOT_CANCELLABLE',
+            blocker === 'status'
+                ? `Orders that are ${order.status} can't be cancelled`
+                : 'The time to cancel this order has passed',
+            blocker
+        );
+    }
+
+    // An unpaid PayPal order is cancelled as an abandoned payment, so a late
+    // capture or approval can't complete it afterwards
+    if (order.payment_method === 'paypal' && order.payment_status === 'pending') {
+        const cancelled = await markOrderPaymentFailed(String(order.id), undefined, 'customer', {
+            reason: trimmedReason,
+            actor: customerId,
+        });
+        return confirmCancelled(cancelled);
+    }
+
+    // Claim the order first, only as we read it: of two concurrent
+    // cancellations only the one that changed it refunds the payment and
+    // gives back the stock and coupon use
+    const data = {
+        status: 'cancelled' as const,
+        cancellation_reason: trimmedReason,
+        cancelled_at: new Date().toISOString(),
+    };
+    if (!await updateOrderIf(String(order.id), { status: { _eq: order.status } }, data)) {
+        return confirmCancelled(await findOrderById(orderId));
+    }
+
+    const history = { source: 'customer' as const, actor: customerId, note: trimmedReason };
+
+    // Refund with the server token: customers can't create refund records themselves
+    let current: Order = { ...order, ...data };
+    if (order.payment_method === 'paypal' && isPaid(order)) {
+        try {
+            const refunded = await refundOrder(
+                String(order.id),
+                { reason: `Cancelled by customer: ${trimmedReason}`, history },
+                `Bearer ${getApiToken()}`
+            );
+            current = { ...current, ...refunded.order };
+        } catch (error) {
+            // Not refunded, so not cancelled either
+            await updateOrderIf(
+                String(order.id),
+                { status: { _eq: 'cancelled' }, cancelled_at: { _eq: data.cancelled_at } },
+                { status: order.status, cancellation_reason: null, cancelled_at: null }
+            ).catch((revertError) => {
+                console.error('[Cancellation] Failed to undo cancellation of unrefunded order:', order.order_number, revertError.message);
+            });
+            throw error;
+        }
+    }
+
+    await recordOrderHistory(String(order.id), order, { status: 'cancelled' }, history);
+
+    await restockLines(await fetchOrderStockLines(String(order.id)));
+
+    if (order.coupon_code) {
+        const coupon = await findCouponByCode(order.coupon_code);
+        if (coupon) {
+            await releaseCoupon(coupon.id);
+        }
+    }
+
+    console.log('[Cancellation] Order cancelled by customer:', order.order_number);
+    return current;
+}
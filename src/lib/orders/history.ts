@@ -0,0 +1,135 @@
+/**
+ * Order Status History (server-side)
+ *
+ * Keeps an audit trail of order changes in the Directus `order_status_history`
+ * collection: one row per changed status, payment status or tracking number,
+ * with where the change came from and who made it. The order page builds its
+ * timeline from these rows.
+ *
+ * History is written after the change itself, and a failure to write it is
+ * logged rather than thrown - an order must never be left half-updated
+ * because its audit row couldn't be stored.
+ */
+
+import axios from 'axios';
+import { Order, OrderHistoryField, OrderHistorySource, OrderStatusHistory } from '@/types/collections';
+import { getApiToken, getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+
+/**
+ * Order fields whose changes are recorded
+ */
+export const TRACKED_ORDER_FIELDS: OrderHistoryField[] = ['status', 'payment_status', 'tracking_number'];
+
+/**
+ * Where a change came from, stored with each history row
+ */
+export interface OrderChangeContext {
+    source: OrderHistorySource;
+    actor?: string | null;
+    note?: string | null;
+}
+
+function historyUrl(): string {
+    return `${getDirectusUrl()}/items/${COLLECTIONS.ORDER_STATUS_HISTORY}`;
+}
+
+function toValue(value: unknown): string | null {
+    return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+/**
+ * History rows for the tracked fields a change actually alters
+ *
+ * @param previous - Order before the change; null when it is being created
+ * @param changes - Fields being written
+ */
+export function getHistoryEntries(
+    orderId: string,
+    previous: Partial<Pick<Order, OrderHistoryField>> | null,
+    changes: Partial<Record<OrderHistoryField, unknown>>,
+    context: OrderChangeContext
+): Omit<OrderStatusHistory, 'id' | 'date_created'>[] {
+    return TRACKED_ORDER_FIELDS
+        .filter((field) => field in changes)
+        .map((field) => ({
+            field,
+            old_value: previous ? toValue(previous[field]) : null,
+            new_value: toValue(changes[field]),
+        }))
+        .filter((entry) => entry.old_value !== entry.new_value)
+        .map((entry) => ({
+            order: orderId,
+            ...entry,
+            source: context.source,
+            actor: context.actor ?? null,
+            note: context.note?.trim() || null,
+        }));
+}
+
+/**
+ * Record a change to an order
+ *
+ * @param orderId - Directus order ID
+ * @param previous - Order before the change; null when it is being created
+ * @param changes - Fields that were written
+ * @param context - Where the change came from
+ */
+export async function recordOrderHistory(
+    orderId: string,
+    previous: Partial<Pick<Order, OrderHistoryField>> | null,
+    changes: Partial<Record<OrderHistoryField, unknown>>,
+    context: OrderChangeContext
+): Promise<void> {
+    const entries = getHistoryEntries(orderId, previous, changes, context);
+    if (entries.length === 0) {
+        return;
+    }
+
+    try {
+        await axios.post(historyUrl(), entries, { headers: getServerAuthHeaders() });
+    } catch (error: any) {
+        console.error('[Order History] Failed to record change of order', orderId, error.response?.data || error.message);
+    }
+}
+
+/**
+ * History of an order, oldest first
+ */
+export async function fetchOrderHistory(orderId: string): Promise<OrderStatusHistory[]> {
+    const response = await axios.get(historyUrl(), {
+        params: {
+            filter: JSON.stringify({ order: { _eq: orderId } }),
+            sort: 'date_created',
+            limit: -1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    return response.data?.data || [];
+}
+
+/**
+ * Whether an Authorization header carries the server's own token, i.e. the
+ * request comes from this app (webhooks, payments) rather than a person
+ */
+export function isServerToken(authHeader: string | null): boolean {
+    const token = getApiToken();
+    return !!token && authHeader === `Bearer ${token}`;
+}
+
+/**
+ * Directus user a token belongs to, for recording staff changes
+ * Returns null when it can't be found out; the change is still recorded.
+ */
+export async function findActorForToken(authHeader: string): Promise<string | null> {
+    try {
+        const me = await axios.get(`${getDirectusUrl()}/users/me`, {
+            params: { fields: 'id' },
+            headers: { 'Authorization': authHeader },
+        });
+        return me.data.data?.id ? String(me.data.data.id) : null;
+    } catch {
+        return null;
+    }
+}
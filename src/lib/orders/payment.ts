@@ -0,0 +1,348 @@
+/**
+ * Order Payment State (server-side)
+ *
+ * Moves orders through their payment lifecycle. Used by the PayPal capture
+ * route and by the PayPal webhook, which may both report the same payment, so
+ * every transition here is safe to apply more than once: the order is only
+ * changed if it is still in the state it was read in, and only the caller
+ * that changed it takes stock, writes the ledger and history and sends email.
+ */
+
+import axios from 'axios';
+import { Order, OrderHistorySource } from '@/types/collections';
+import { getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { commitStock, releaseReservation } from '@/lib/inventory/reservations';
+import { StockLine } from '@/lib/inventory/stock';
+import { findCouponByCode, releaseCoupon } from '@/lib/coupons/store';
+import { ExchangeRateSnapshot } from '@/lib/exchange-rates/rates';
+import { ExpectedAmount } from '@/lib/paypal/capture-order';
+import { refundPayPalCapture } from '@/lib/paypal/refund-capture';
+import { sendOrderConfirmationEmail } from '@/lib/mail/notifications';
+import { recordOrderHistory } from './history';
+import { getPayPalChargeFields, recordPaymentTransaction } from './transactions';
+
+/**
+ * Fetch an order with the server token
+ * Returns null when the order doesn't exist
+ */
+export async function findOrderById(orderId: string): Promise<Order | null> {
+    try {
+        const response = await axios.get(`${getDirectusUrl()}/items/orders/${orderId}`, {
+            headers: getServerAuthHeaders(),
+        });
+        return response.data.data || null;
+    } catch (error: any) {
+        if (error.response?.status === 404 || error.response?.status === 403) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Apply a change to an order only while it still matches `filter`, so of
+ * several callers racing to change it only one succeeds
+ * @returns true when this call changed the order
+ */
+export async function updateOrderIf(orderId: string, filter: Record<string, any>, data: Record<string, any>): Promise<boolean> {
+    const response = await axios.patch(
+        `${getDirectusUrl()}/items/orders`,
+        {
+            query: { filter: { id: { _eq: orderId }, ...filter } },
+            data,
+        },
+        { headers: getServerAuthHeaders() }
+    );
+
+    const updated = response.data.data;
+    return Array.isArray(updated) ? updated.length > 0 : !!updated;
+}
+
+/**
+ * Find an order by PayPal capture ID (stored in payment_intent_id) or PayPal order ID
+ */
+export async function findOrderByPaymentReference(reference: string): Promise<Order | null> {
+    const response = await axios.get(`${getDirectusUrl()}/items/orders`, {
+        params: {
+            filter: JSON.stringify({
+                _or: [
+                    { payment_intent_id: { _eq: reference } },
+                    { paypal_order_id: { _eq: reference } },
+                ],
+            }),
+            limit: 1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    return response.data.data?.[0] || null;
+}
+
+/**
+ * Remember which PayPal order pays for an order, the USD amount it charges
+ * and the exchange rate that amount was converted with
+ */
+export async function attachPayPalOrder(
+    orderId: string,
+    paypalOrderId: string,
+    charge: { amountUSD: string; exchangeRate: ExchangeRateSnapshot }
+): Promise<void> {
+    await axios.patch(
+        `${getDirectusUrl()}/items/orders/${orderId}`,
+        {
+            paypal_order_id: paypalOrderId,
+            charged_currency: charge.exchangeRate.quote,
+            charged_total: charge.amountUSD,
+            exchange_rate: charge.exchangeRate.rate,
+            exchange_rate_source: charge.exchangeRate.source,
+            exchange_rate_at: charge.exchangeRate.fetched_at,
+        },
+        { headers: getServerAuthHeaders() }
+    );
+}
+
+/**
+ * Amount the order's PayPal order was created for
+ * Orders charged before amounts were stored on the order have no expectation.
+ */
+export function getExpectedAmount(order: Order): ExpectedAmount | undefined {
+    return order.charged_total
+        ? { value: order.charged_total, currency_code: order.charged_currency || 'USD' }
+        : undefined;
+}
+
+/**
+ * Stock lines of an order, read from its order_items
+ */
+export async function fetchOrderStockLines(orderId: string): Promise<StockLine[]> {
+    const response = await axios.get(`${getDirectusUrl()}/items/order_items`, {
+        params: {
+            filter: JSON.stringify({ order: { _eq: orderId } }),
+            fields: 'product,variation,quantity',
+            limit: -1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    return (response.data.data || []).map((item: any) => ({
+        product: String(typeof item.product === 'object' ? item.product?.id : item.product),
+        ...(item.variation && { variation: String(typeof item.variation === 'object' ? item.variation.id : item.variation) }),
+        quantity: Number(item.quantity) || 0,
+    }));
+}
+
+/**
+ * A PayPal capture as reported by the capture API or a webhook
+ */
+export interface PayPalCaptureInfo {
+    captureId: string;
+    paypalOrderId?: string;
+    status?: string;
+    amountUSD?: string;
+    payerId?: string;
+    payerEmail?: string;
+}
+
+/**
+ * Whether the order was given up before it was paid. Paid orders that were
+ * cancelled later are not: their capture was already applied.
+ */
+function isPaymentAbandoned(order: Order): boolean {
+    return order.payment_status === 'failed'
+        || (order.payment_status === 'pending' && order.status === 'cancelled');
+}
+
+/**
+ * Give back a capture that went through after its order was cancelled unpaid
+ *
+ * The order's stock hold and coupon use are already released, so it is not
+ * revived; the capture is refunded instead. The refund is keyed on the
+ * capture, so reports of the same capture refund it once. When PayPal refuses
+ * the refund, the error is thrown (the webhook is retried) and the capture in
+ * the ledger is left for manual review.
+ */
+async function refundAbandonedCapture(order: Order, capture: PayPalCaptureInfo): Promise<void> {
+    console.error('[Payments] Capture for cancelled order, refunding:', order.order_number, capture.captureId);
+
+    await recordPaymentTransaction({
+        order: String(order.id),
+        provider: 'paypal',
+        type: 'capture',
+        status: capture.status || 'COMPLETED',
+        provider_order_id: capture.paypalOrderId || order.paypal_order_id || null,
+        provider_transaction_id: capture.captureId,
+        ...getPayPalChargeFields(order, capture.amountUSD),
+        payer_id: capture.payerId || null,
+        payer_email: capture.payerEmail || null,
+        details: { order_status: order.status, payment_status: order.payment_status },
+    });
+
+    const refund = await refundPayPalCapture({
+        captureId: capture.captureId,
+        note: 'Your order was cancelled before the payment went through',
+        requestId: `abandoned-${capture.captureId}`,
+    });
+
+    await recordPaymentTransaction({
+        order: String(order.id),
+        provider: 'paypal',
+        type: 'refund',
+        status: refund.status,
+        provider_order_id: capture.paypalOrderId || order.paypal_order_id || null,
+        provider_transaction_id: refund.refundId,
+        ...getPayPalChargeFields(order, refund.amountUSD),
+        details: { capture_id: capture.captureId, reason: 'Order cancelled before the capture completed' },
+    });
+}
+
+/**
+ * Record a completed payment
+ *
+ * Sets payment_status to completed, confirms a pending order, adds the
+ * capture to the payment ledger, takes the ordered units out of stock and
+ * emails the order confirmation. Does nothing more if the order is already
+ * paid. A capture for an order cancelled unpaid is refunded, not applied.
+ *
+ * @param orderId - Directus order ID
+ * @param capture - PayPal capture; its ID is stored in payment_intent_id
+ * @param source - What reported the payment, for the order history
+ */
+export async function markOrderPaid(
+    orderId: string,
+    capture: PayPalCaptureInfo,
+    source: OrderHistorySource = 'system'
+): Promise<Order | null> {
+    const captureId = capture.captureId;
+    const order = await findOrderById(orderId);
+    if (!order) {
+        console.error('[Payments] Paid order not found:', orderId, captureId);
+        return null;
+    }
+
+    if (isPaymentAbandoned(order)) {
+        await refundAbandonedCapture(order, capture);
+        return order;
+    }
+
+    if (order.payment_status !== 'pending') {
+        console.log('[Payments] Order already paid:', order.order_number);
+        return order;
+    }
+
+    const changes = {
+        payment_status: 'completed' as const,
+        ...(order.status === 'pending' && { status: 'confirmed' as const }),
+    };
+    const won = await updateOrderIf(
+        orderId,
+        { payment_status: { _eq: 'pending' }, status: { _eq: order.status } },
+        { ...changes, payment_intent_id: captureId }
+    );
+    if (!won) {
+        // Someone else settled the order first - paid it, or cancelled it
+        const latest = await findOrderById(orderId);
+        if (latest && isPaymentAbandoned(latest)) {
+            await refundAbandonedCapture(latest, capture);
+        }
+        console.log('[Payments] Payment already handled for order:', order.order_number);
+        return latest;
+    }
+
+    await recordPaymentTransaction({
+        order: String(order.id),
+        provider: 'paypal',
+        type: 'capture',
+        status: capture.status || 'COMPLETED',
+        provider_order_id: capture.paypalOrderId || order.paypal_order_id || null,
+        provider_transaction_id: captureId,
+        ...getPayPalChargeFields(order, capture.amountUSD),
+        payer_id: capture.payerId || null,
+        payer_email: capture.payerEmail || null,
+    });
+    await recordOrderHistory(orderId, order, changes, { source, note: `PayPal capture ${captureId}` });
+
+    // The money is taken, so the order is never refused for stock at this point
+    const lines = await fetchOrderStockLines(orderId);
+    await commitStock(lines, order.stock_reservation || undefined, { allowOversell: true });
+
+    const updated: Order = { ...order, ...changes, payment_intent_id: captureId };
+    console.log('[Payments] Order paid:', order.order_number, 'capture', captureId);
+    await sendOrderConfirmationEmail(updated);
+    return updated;
+}
+
+/**
+ * Record a denied or abandoned payment
+ *
+ * Cancels the unpaid order and gives back its coupon use and stock hold.
+ * Paid orders are left alone. A denied capture is added to the payment ledger.
+ * The cancellation only applies while the payment is still pending, so when
+ * several callers report the same failure only one of them releases anything.
+ *
+ * @param cancellation - Set when the customer cancelled the unpaid order
+ * themselves; their reason is kept on the order
+ */
+export async function markOrderPaymentFailed(
+    orderId: string,
+    deniedCapture?: PayPalCaptureInfo,
+    source: OrderHistorySource = 'system',
+    cancellation?: { reason: string; actor: string }
+): Promise<Order | null> {
+    const order = await findOrderById(orderId);
+    if (!order) {
+        console.error('[Payments] Order with failed payment not found:', orderId);
+        return null;
+    }
+
+    if (order.payment_status !== 'pending') {
+        console.log('[Payments] Ignoring payment failure for order in state:', order.order_number, order.payment_status);
+        return order;
+    }
+
+    // Only the call that moves the order off pending gives back its stock hold and coupon use
+    const changes = { payment_status: 'failed' as const, status: 'cancelled' as const };
+    const data = {
+        ...changes,
+        ...(cancellation && { cancellation_reason: cancellation.reason, cancelled_at: new Date().toISOString() }),
+    };
+    if (!await updateOrderIf(orderId, { payment_status: { _eq: 'pending' } }, data)) {
+        console.log('[Payments] Payment failure already handled for order:', order.order_number);
+        return findOrderById(orderId);
+    }
+
+    if (deniedCapture) {
+        await recordPaymentTransaction({
+            order: String(order.id),
+            provider: 'paypal',
+            type: 'failure',
+            status: deniedCapture.status || 'DECLINED',
+            provider_order_id: deniedCapture.paypalOrderId || order.paypal_order_id || null,
+            provider_transaction_id: deniedCapture.captureId,
+            ...getPayPalChargeFields(order, deniedCapture.amountUSD),
+        });
+    }
+
+    await recordOrderHistory(orderId, order, changes, {
+        source,
+        actor: cancellation?.actor,
+        note: cancellation
+            ? cancellation.reason
+            : deniedCapture
+                ? `PayPal capture ${deniedCapture.captureId} ${deniedCapture.status || 'DECLINED'}`
+                : 'Payment not completed',
+    });
+
+    if (order.stock_reservation) {
+        await releaseReservation(order.stock_reservation);
+    }
+
+    if (order.coupon_code) {
+        const coupon = await findCouponByCode(order.coupon_code);
+        if (coupon) {
+            await releaseCoupon(coupon.id);
+        }
+    }
+
+    console.log('[Payments] Payment failed, order cancelled:', order.order_number);
+    return { ...order, ...data };
+}
@@ -0,0 +1,310 @@
+/**
+ * Order Pricing (server-side)
+ *
+ * Reprices an order from Directus instead of trusting the totals sent by the
+ * browser. Unit prices come from the `products` collection, shipping from the
+ * selected shipping method and the discount from the coupon rules, so a
+ * tampered `cart-storage` can't change what the customer is charged.
+ */
+
+import axios from 'axios';
+import { Coupon } from '@/types/collections';
+import { ProductVariant } from '@/types';
+import { getApiToken, getDirectusUrl } from '@/lib/api/api-utils';
+import { getShippingMethod, getShippingCostForMethod } from '@/lib/api/shipping';
+import { validateCouponForCart, CouponRejectionReason } from '@/lib/api/coupons';
+import { findCouponByCode } from '@/lib/coupons/store';
+import { getVariantsByIds, applyVariantPrice, isVariantInStock } from '@/lib/api/variants';
+
+/**
+ * Tax rate applied to orders (Oman prices are tax-inclusive on the storefront)
+ */
+export const ORDER_TAX_RATE = 0;
+
+/**
+ * Largest difference (in OMR) tolerated between client and server totals
+ */
+const PRICE_TOLERANCE = 0.001;
+
+export type PricingErrorCode =
+    | 'INVALID_ITEMS'
+    | 'PRODUCT_UNAVAILABLE'
+    | 'INVALID_SHIPPING_METHOD'
+    | 'INVALID_COUPON';
+
+/**
+ * Raised when an order can't be priced as requested
+ */
+export class PricingError extends Error {
+    constructor(
+        public code: PricingErrorCode,
+        message: string,
+        public details?: Record<string, any>
+    ) {
+        super(message);
+        this.name = 'PricingError';
+    }
+}
+
+/**
+ * A line as sent by the client - only the product, variant and quantity are trusted
+ */
+export interface PricingLineInput {
+    product: string;
+    variation?: string;
+    quantity: number;
+}
+
+export interface PricedLine {
+    product: string;
+    product_name: string;
+    product_name_ar?: string;
+    variation?: string;
+    variation_name?: string;
+    quantity: number;
+    unit_price: number;
+    line_total: number;
+}
+
+export interface OrderPricing {
+    items: PricedLine[];
+    subtotal: number;
+    shipping_cost: number;
+    discount_amount: number;
+    coupon: Coupon | null;
+    tax_rate: number;
+    tax_amount: number;
+    total: number;
+}
+
+/**
+ * Product fields needed to price a line
+ */
+export interface PricingProduct {
+    id: string | number;
+    name: string;
+    name_ar?: string;
+    price: number | string;
+    sale_price?: number | string | null;
+    status?: string | null;
+    is_active?: boolean | null;
+}
+
+function round3(value: number): number {
+    return Number(value.toFixed(3));
+}
+
+/**
+ * Effective unit price of a product (sale price when set, as on the storefront)
+ */
+export function getUnitPrice(product: PricingProduct): number {
+    const salePrice = Number(product.sale_price);
+    if (product.sale_price !== null && product.sale_price !== undefined && salePrice > 0) {
+        return salePrice;
+    }
+    return Number(product.price) || 0;
+}
+
+/**
+ * Whether a product is on sale at all: published (when the catalog uses a
+ * status) and not switched off
+ */
+export function isProductSellable(product: PricingProduct): boolean {
+    if (product.status !== undefined && product.status !== null && product.status !== 'published') {
+        return false;
+    }
+    return product.is_active !== false;
+}
+
+/**
+ * Price order lines against known products and their variants
+ * @throws PricingError when a line is malformed or its product can't be sold
+ */
+export function priceLines(
+    lines: PricingLineInput[],
+    products: PricingProduct[],
+    variants: ProductVariant[] = []
+): PricedLine[] {
+    if (!Array.isArray(lines) || lines.length === 0) {
+        throw new PricingError('INVALID_ITEMS', 'Order must contain at least one item');
+    }
+
+    const productsById = new Map(products.map((product) => [String(product.id), product]));
+    const variantsById = new Map(variants.map((variant) => [String(variant.id), variant]));
+
+    return lines.map((line) => {
+        const quantity = Number(line.quantity);
+        if (!line.product || !Number.isInteger(quantity) || quantity < 1) {
+            throw new PricingError('INVALID_ITEMS', 'Each item needs a product and a positive whole quantity', {
+                product: line.product,
+                quantity: line.quantity,
+            });
+        }
+
+        const product = productsById.get(String(line.product));
+        const basePrice = product ? getUnitPrice(product) : 0;
+        if (!product || !isProductSellable(product) || basePrice <= 0) {
+            throw new PricingError('PRODUCT_UNAVAILABLE', 'A product in your cart is no longer available', {
+                product: line.product,
+            });
+        }
+
+        // A variant must exist, belong to the product and still be sellable
+        const variant = line.variation ? variantsById.get(String(line.variation)) : undefined;
+        if (line.variation && (!variant || variant.product !== String(product.id) || !isVariantInStock(variant))) {
+            throw new PricingError('PRODUCT_UNAVAILABLE', 'A product option in your cart is no longer available', {
+                product: line.product,
+                variation: line.variation,
+            });
+        }
+
+        const unitPrice = applyVariantPrice(basePrice, variant);
+
+        return {
+            product: String(product.id),
+            product_name: product.name,
+            ...(product.name_ar && { product_name_ar: product.name_ar }),
+            ...(variant && { variation: variant.id, variation_name: variant.name }),
+            quantity,
+            unit_price: round3(unitPrice),
+            line_total: round3(unitPrice * quantity),
+        };
+    });
+}
+
+/**
+ * Combine priced lines, shipping and coupon into order totals
+ * Shipping is charged on the undiscounted subtotal, tax on the discounted one
+ */
+export function calculateOrderPricing(
+    items: PricedLine[],
+    shippingCost: number,
+    coupon: Coupon | null,
+    now: Date = new Date()
+): OrderPricing {
+    const subtotal = round3(items.reduce((sum, item) => sum + item.line_total, 0));
+
+    let discountAmount = 0;
+    if (coupon) {
+        const validation = validateCouponForCart(coupon, subtotal, now);
+        if (!validation.valid) {
+            throw new PricingError('INVALID_COUPON', validation.error || 'Invalid coupon code', {
+                reason: validation.reason as CouponRejectionReason,
+            });
+        }
+        discountAmount = validation.discount_amount;
+    }
+
+    const taxAmount = round3((subtotal - discountAmount) * ORDER_TAX_RATE);
+
+    return {
+        items,
+        subtotal,
+        shipping_cost: round3(shippingCost),
+        discount_amount: discountAmount,
+        coupon,
+        tax_rate: ORDER_TAX_RATE,
+        tax_amount: taxAmount,
+        total: round3(subtotal - discountAmount + shippingCost + taxAmount),
+    };
+}
+
+/**
+ * Compare totals claimed by the client with the server pricing
+ * @returns Names of the fields that differ (empty when they agree)
+ */
+export function findPricingMismatches(
+    claimed: { subtotal?: number | string; shipping_cost?: number | string; discount_amount?: number | string; total?: number | string },
+    pricing: OrderPricing
+): string[] {
+    const fields: Array<keyof typeof claimed> = ['subtotal', 'shipping_cost', 'discount_amount', 'total'];
+
+    return fields.filter((field) => {
+        const value = Number(claimed[field] ?? 0);
+        const expected = pricing[field as keyof OrderPricing] as number;
+        return !Number.isFinite(value) || Math.abs(value - expected) > PRICE_TOLERANCE;
+    });
+}
+
+/**
+ * Order-level amounts of a pricing, as returned to the client on a mismatch
+ */
+export function getPricingTotals(pricing: OrderPricing) {
+    return {
+        subtotal: pricing.subtotal,
+        shipping_cost: pricing.shipping_cost,
+        discount_amount: pricing.discount_amount,
+        tax_amount: pricing.tax_amount,
+        total: pricing.total,
+    };
+}
+
+/**
+ * Fetch the products needed to price an order with the server token
+ */
+async function fetchPricingProducts(productIds: string[]): Promise<PricingProduct[]> {
+    const response = await axios.get(`${getDirectusUrl()}/items/products`, {
+        params: {
+            filter: JSON.stringify({ id: { _in: productIds } }),
+            // All fields: status and is_active aren't set up in every catalog,
+            // and asking for a field that doesn't exist fails the request
+            fields: '*',
+            limit: productIds.length,
+        },
+        headers: {
+            'Authorization': `Bearer ${getApiToken()}`,
+        },
+    });
+
+    return response.data.data || [];
+}
+
+/**
+ * Price an order entirely from server-side data
+ *
+ * @param input.items - Product IDs, variant IDs and quantities from the cart
+ * @param input.shipping_method - ID of the selected shipping method
+ * @param input.coupon_code - Optional coupon code to apply
+ * @throws PricingError when the order can't be priced as requested
+ */
+export async function priceOrder(input: {
+    items: PricingLineInput[];
+    shipping_method?: string;
+    coupon_code?: string;
+}): Promise<OrderPricing> {
+    if (!Array.isArray(input.items) || input.items.length === 0) {
+        throw new PricingError('INVALID_ITEMS', 'Order must contain at least one item');
+    }
+
+    const productIds = Array.from(new Set(input.items.map((item) => String(item.product))));
+    const variantIds = Array.from(new Set(
+        input.items.filter((item) => item.variation).map((item) => String(item.variation))
+    ));
+    const [products, variants] = await Promise.all([
+        fetchPricingProducts(productIds),
+        getVariantsByIds(variantIds),
+    ]);
+    const items = priceLines(input.items, products, variants);
+    const subtotal = round3(items.reduce((sum, item) => sum + item.line_total, 0));
+
+    if (!input.shipping_method) {
+        throw new PricingError('INVALID_SHIPPING_METHOD', 'Shipping method is required');
+    }
+
+    const shippingMethod = await getShippingMethod(String(input.shipping_method));
+    if (!shippingMethod || shippingMethod.is_active === false) {
+        throw new PricingError('INVALID_SHIPPING_METHOD', 'The selected shipping method is not available', {
+            shipping_method: input.shipping_method,
+        });
+    }
+
+    let coupon: Coupon | null = null;
+    if (input.coupon_code) {
+        coupon = await findCouponByCode(input.coupon_code);
+        if (!coupon) {
+            throw new PricingError('INVALID_COUPON', 'Invalid coupon code');
+        }
+    }
+
+    return calculateOrderPricing(items, getShippingCostForMethod(shippingMethod, subtotal), coupon);
+}
@@ -0,0 +1,398 @@
+/**
+ * Order Refunds (server-side)
+ *
+ * Issues full and per-line partial refunds of PayPal orders and keeps the
+ * `payment_refunds` collection and the order's payment status in step with
+ * PayPal. Refund amounts are worked out in OMR from the order lines and
+ * converted to USD with the exchange rate stored on the order when it was charged.
+ */
+
+import axios from 'axios';
+import { Order, OrderItem, PaymentRefund, PaymentStatus, RefundLine } from '@/types/collections';
+import { getApiToken, getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { updateOrderPaymentStatus, updateOrderStatus } from '@/lib/api/orders';
+import { COLLECTIONS } from '@/lib/config/constants';
+import { convertOMRtoUSD } from '@/lib/currency';
+import { sendRefundIssuedEmail } from '@/lib/mail/notifications';
+import { refundPayPalCapture } from '@/lib/paypal/refund-capture';
+import { findOrderById } from './payment';
+import { findActorForToken, OrderChangeContext } from './history';
+import { getPayPalChargeFields, recordPaymentTransaction } from './transactions';
+
+/**
+ * Smallest OMR amount (1 baisa) - differences below it are rounding
+ */
+const OMR_EPSILON = 0.0005;
+
+export type RefundErrorCode =
+    | 'ORDER_NOT_FOUND'
+    | 'NOT_REFUNDABLE'
+    | 'INVALID_REFUND'
+    | 'AMOUNT_EXCEEDED'
+    | 'REFUND_IN_PROGRESS';
+
+/**
+ * Raised when a refund can't be issued as requested
+ */
+export class RefundError extends Error {
+    constructor(
+        public code: RefundErrorCode,
+        message: string,
+        public details?: Record<string, any>
+    ) {
+        super(message);
+        this.name = 'RefundError';
+    }
+}
+
+/**
+ * A line to refund - omit all lines to refund the whole order
+ */
+export interface RefundLineInput {
+    order_item: string;
+    quantity: number;
+}
+
+export interface RefundInput {
+    items?: RefundLineInput[];
+    reason?: string;
+    history?: OrderChangeContext; // Where the refund came from; staff (the caller) by default
+}
+
+type RefundableOrder = Pick<Order, 'subtotal' | 'discount_amount' | 'tax_rate' | 'total'>;
+type RefundableItem = Pick<OrderItem, 'id' | 'quantity' | 'unit_price'>;
+
+function round3(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Refunds that count against the order - completed ones and those still being issued
+ */
+function countedRefunds(refunds: PaymentRefund[]): PaymentRefund[] {
+    return refunds.filter((refund) => refund.status === 'completed' || refund.status === 'pending');
+}
+
+/**
+ * Total amount refunded so far (OMR)
+ */
+export function getRefundedAmount(refunds: PaymentRefund[]): number {
+    return round3(countedRefunds(refunds).reduce((sum, refund) => sum + (Number(refund.amount) || 0), 0));
+}
+
+/**
+ * Amount that can still be refunded (OMR)
+ */
+export function getRemainingRefundable(order: RefundableOrder, refunds: PaymentRefund[]): number {
+    return Math.max(0, round3(Number(order.total) - getRefundedAmount(refunds)));
+}
+
+/**
+ * Quantities already refunded per order item
+ */
+export function getRefundedQuantities(refunds: PaymentRefund[]): Record<string, number> {
+    const quantities: Record<string, number> = {};
+    for (const refund of countedRefunds(refunds)) {
+        for (const line of refund.items || []) {
+            quantities[line.order_item] = (quantities[line.order_item] || 0) + line.quantity;
+        }
+    }
+    return quantities;
+}
+
+/**
+ * Price the lines of a partial refund
+ *
+ * Each line is refunded at what the customer paid for it: its share of the
+ * order discount is taken off and tax is added back. Shipping is only
+ * refunded by a full refund.
+ *
+ * @throws RefundError when a line is unknown or refunds more units than are left
+ */
+export function calculateRefundLines(
+    order: RefundableOrder,
+    orderItems: RefundableItem[],
+    refunds: PaymentRefund[],
+    lines: RefundLineInput[]
+): RefundLine[] {
+    const refundedQuantities = getRefundedQuantities(refunds);
+    const requested: Record<string, number> = {};
+    const subtotal = Number(order.subtotal) || 0;
+    const discountShare = subtotal > 0 ? Math.min(1, (Number(order.discount_amount) || 0) / subtotal) : 0;
+    const taxRate = Number(order.tax_rate) || 0;
+
+    return lines.map((line) => {
+        const item = orderItems.find((orderItem) => String(orderItem.id) === String(line.order_item));
+        if (!item) {
+            throw new RefundError('INVALID_REFUND', 'Refund line does not belong to this order', {
+                order_item: line.order_item,
+            });
+        }
+
+        const quantity = Number(line.quantity);
+        if (!Number.isInteger(quantity) || quantity < 1) {
+            throw new RefundError('INVALID_REFUND', 'Refund quantity must be a positive whole number', {
+                order_item: line.order_item,
+            });
+        }
+
+        const itemId = String(item.id);
+        requested[itemId] = (requested[itemId] || 0) + quantity;
+        const available = item.quantity - (refundedQuantities[itemId] || 0);
+        if (requested[itemId] > available) {
+            throw new RefundError('AMOUNT_EXCEEDED', 'Refund quantity exceeds the quantity left to refund', {
+                order_item: itemId,
+                requested: requested[itemId],
+                available,
+            });
+        }
+
+        const paid = Number(item.unit_price) * quantity * (1 - discountShare);
+        return {
+            order_item: itemId,
+            quantity,
+            amount: round3(paid * (1 + taxRate)),
+        };
+    });
+}
+
+/**
+ * Payment status of an order once `refundedAmount` of it has been refunded
+ */
+export function getRefundPaymentStatus(order: RefundableOrder, refundedAmount: number): PaymentStatus {
+    return refundedAmount >= Number(order.total) - OMR_EPSILON ? 'refunded' : 'partially_refunded';
+}
+
+function refundsUrl(): string {
+    return `${getDirectusUrl()}/items/${COLLECTIONS.PAYMENT_REFUNDS}`;
+}
+
+/**
+ * Refunds recorded for an order, oldest first
+ */
+export async function fetchOrderRefunds(orderId: string): Promise<PaymentRefund[]> {
+    const response = await axios.get(refundsUrl(), {
+        params: {
+            filter: JSON.stringify({ order: { _eq: orderId } }),
+            sort: 'date_created',
+            limit: -1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    return response.data.data || [];
+}
+
+async function fetchRefundableItems(orderId: string): Promise<RefundableItem[]> {
+    const response = await axios.get(`${getDirectusUrl()}/items/order_items`, {
+        params: {
+            filter: JSON.stringify({ order: { _eq: orderId } }),
+            fields: 'id,quantity,unit_price',
+            limit: -1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    return response.data.data || [];
+}
+
+async function updateRefund(refundId: string, data: Partial<PaymentRefund>): Promise<PaymentRefund> {
+    const response = await axios.patch(`${refundsUrl()}/${refundId}`, data, { headers: getServerAuthHeaders() });
+    return response.data.data;
+}
+
+/**
+ * Move the order to its refunded payment status
+ * A cancelled order stays cancelled; only its payment status shows the refund.
+ */
+async function applyRefundStatus(order: Order, paymentStatus: PaymentStatus, history: OrderChangeContext): Promise<Order> {
+    const token = getApiToken();
+    let updated = await updateOrderPaymentStatus(String(order.id), paymentStatus, token, undefined, history);
+    if (paymentStatus === 'refunded' && order.status !== 'refunded' && order.status !== 'cancelled') {
+        updated = await updateOrderStatus(String(order.id), 'refunded', token, history);
+    }
+    return updated;
+}
+
+/**
+ * Refund all or some lines of a paid PayPal order
+ *
+ * The refund is first recorded as pending with the caller's token, so Directus
+ * permissions on `payment_refunds` decide who may issue refunds. It is then
+ * sent to PayPal (with the record ID as idempotency key) and completed.
+ *
+ * @param orderId - Directus order ID
+ * @param input - Lines to refund; none for a full refund of what is left
+ * @param authHeader - Authorization header of the caller
+ * @throws RefundError when the order can't be refunded as requested
+ */
+export async function refundOrder(
+    orderId: string,
+    input: RefundInput,
+    authHeader: string
+): Promise<{ refund: PaymentRefund; order: Order }> {
+    const order = await findOrderById(orderId);
+    if (!order) {
+        throw new RefundError('ORDER_NOT_FOUND', 'Order not found');
+    }
+
+    if (order.payment_method !== 'paypal' || !order.payment_intent_id) {
+        throw new RefundError('NOT_REFUNDABLE', 'Only paid PayPal orders can be refunded');
+    }
+
+    if (order.payment_status !== 'completed' && order.payment_status !== 'partially_refunded') {
+        throw new RefundError('NOT_REFUNDABLE', `Orders with payment status ${order.payment_status} can't be refunded`);
+    }
+
+    const [orderItems, refunds] = await Promise.all([
+        fetchRefundableItems(orderId),
+        fetchOrderRefunds(orderId),
+    ]);
+
+    if (refunds.some((refund) => refund.status === 'pending')) {
+        throw new RefundError('REFUND_IN_PROGRESS', 'Another refund of this order is being issued');
+    }
+
+    const remaining = getRemainingRefundable(order, refunds);
+    const lines = input.items?.length ? calculateRefundLines(order, orderItems, refunds, input.items) : null;
+    const amount = lines ? round3(lines.reduce((sum, line) => sum + line.amount, 0)) : remaining;
+
+    if (amount <= 0) {
+        throw new RefundError('NOT_REFUNDABLE', 'Nothing is left to refund on this order');
+    }
+    if (amount > remaining + OMR_EPSILON) {
+        throw new RefundError('AMOUNT_EXCEEDED', 'Refund exceeds the amount left to refund', { amount, remaining });
+    }
+
+    // The last refund takes whatever is left on the capture, so USD rounding never strands cents
+    const refundsRemainder = remaining - amount < OMR_EPSILON;
+    const amountUSD = refundsRemainder ? undefined : convertOMRtoUSD(amount, Number(order.exchange_rate) || undefined);
+
+    const created = await axios.post(
+        refundsUrl(),
+        {
+            order: orderId,
+            transaction_id: order.payment_intent_id,
+            amount,
+            amount_usd: amountUSD ?? null,
+            currency: 'OMR',
+            status: 'pending',
+            reason: input.reason || null,
+            items: lines,
+        },
+        {
+            headers: {
+                'Authorization': authHeader,
+                'Content-Type': 'application/json',
+            },
+        }
+    );
+    const pending: PaymentRefund = created.data.data;
+
+    let refund: PaymentRefund;
+    try {
+        const result = await refundPayPalCapture({
+            captureId: order.payment_intent_id,
+            amountUSD,
+            note: input.reason,
+            requestId: `refund-${pending.id}`,
+        });
+        refund = await updateRefund(pending.id, {
+            status: 'completed',
+            refund_id: result.refundId,
+            amount_usd: result.amountUSD,
+        });
+    } catch (error) {
+        await updateRefund(pending.id, { status: 'failed' }).catch((updateError) => {
+            console.error('[Refunds] Failed to mark refund as failed:', pending.id, updateError.message);
+        });
+        throw error;
+    }
+
+    await recordPaymentTransaction({
+        order: String(order.id),
+        provider: 'paypal',
+        type: 'refund',
+        status: 'COMPLETED',
+        provider_order_id: order.paypal_order_id || null,
+        provider_transaction_id: String(refund.refund_id),
+        ...getPayPalChargeFields(order, refund.amount_usd, amount),
+        details: { capture_id: order.payment_intent_id, reason: input.reason || null },
+    });
+
+    const paymentStatus = getRefundPaymentStatus(order, getRefundedAmount([...refunds, refund]));
+    const updated = await applyRefundStatus(
+        order,
+        paymentStatus,
+        input.history || { source: 'admin', actor: await findActorForToken(authHeader), note: input.reason }
+    );
+
+    console.log('[Refunds] Refunded order:', order.order_number, amount, 'OMR', paymentStatus);
+    await sendRefundIssuedEmail({ ...order, ...updated }, refund);
+    return { refund, order: updated };
+}
+
+/**
+ * Record a refund reported by the PAYMENT.CAPTURE.REFUNDED webhook
+ *
+ * Refunds issued by refundOrder are already recorded and are skipped.
+ * Refunds issued from the PayPal dashboard are recorded here, with the OMR
+ * amount taken in proportion to the USD amount captured.
+ *
+ * @param order - Order the refunded capture belongs to
+ * @param resource - Refund resource of the webhook event
+ */
+export async function recordPayPalRefund(order: Order, resource: Record<string, any>): Promise<void> {
+    const refunds = await fetchOrderRefunds(String(order.id));
+
+    if (refunds.some((refund) => refund.refund_id === resource.id)) {
+        return;
+    }
+
+    if (refunds.some((refund) => refund.status === 'pending')) {
+        // refundOrder hasn't stored the refund ID yet - fail so PayPal delivers the event again
+        throw new Error(`Refund of order ${order.order_number} is still being recorded`);
+    }
+
+    const capturedUSD = parseFloat(order.charged_total || convertOMRtoUSD(Number(order.total), Number(order.exchange_rate) || undefined));
+    const refundedUSD = parseFloat(resource.amount?.value || '0');
+    const totalRefundedUSD = parseFloat(resource.seller_payable_breakdown?.total_refunded_amount?.value || '0');
+    const remaining = getRemainingRefundable(order, refunds);
+    const amount = Math.min(remaining, round3(Number(order.total) * refundedUSD / capturedUSD));
+
+    const response = await axios.post(
+        refundsUrl(),
+        {
+            order: order.id,
+            transaction_id: order.payment_intent_id,
+            refund_id: resource.id,
+            amount,
+            amount_usd: resource.amount?.value || null,
+            currency: 'OMR',
+            status: 'completed',
+            reason: resource.note_to_payer || null,
+            items: null,
+        },
+        { headers: getServerAuthHeaders() }
+    );
+
+    await recordPaymentTransaction({
+        order: String(order.id),
+        provider: 'paypal',
+        type: 'refund',
+        status: resource.status || 'COMPLETED',
+        provider_order_id: order.paypal_order_id || null,
+        provider_transaction_id: resource.id,
+        ...getPayPalChargeFields(order, resource.amount?.value, amount),
+        details: { capture_id: order.payment_intent_id, source: 'paypal_dashboard' },
+    });
+
+    const fullyRefunded = totalRefundedUSD >= capturedUSD - 0.005;
+    const paymentStatus = fullyRefunded
+        ? 'refunded'
+        : getRefundPaymentStatus(order, getRefundedAmount([...refunds, response.data.data]));
+    await applyRefundStatus(order, paymentStatus, { source: 'webhook', note: `PayPal refund ${resource.id}` });
+    await sendRefundIssuedEmail(order, response.data.data);
+
+    console.log('[Refunds] Recorded PayPal refund:', order.order_number, resource.id, paymentStatus);
+}
@@ -0,0 +1,99 @@
+/**
+ * Payment Transactions Ledger (server-side)
+ *
+ * Records every authorization, capture, failure and refund in the Directus
+ * `payment_transactions` collection, with the OMR amount, the amount the
+ * provider actually charged and the exchange rate used. Rows are only ever
+ * inserted - Directus should grant create and read, never update or delete.
+ * `reference` should be a unique field, so the same provider event reported
+ * by both the capture route and the webhook is recorded once.
+ */
+
+import axios from 'axios';
+import { Order, PaymentProvider, PaymentTransaction, PaymentTransactionType } from '@/types/collections';
+import { getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+import { STATIC_EXCHANGE_RATES } from '@/lib/exchange-rates/rates';
+
+export type PaymentTransactionInput = Omit<PaymentTransaction, 'id' | 'reference' | 'date_created'>;
+
+function transactionsUrl(): string {
+    return `${getDirectusUrl()}/items/${COLLECTIONS.PAYMENT_TRANSACTIONS}`;
+}
+
+/**
+ * Unique key of a ledger row
+ */
+export function getTransactionReference(
+    provider: PaymentProvider,
+    type: PaymentTransactionType,
+    providerTransactionId: string
+): string {
+    return `${provider}:${type}:${providerTransactionId}`;
+}
+
+/**
+ * Ledger fields for an amount of an order charged through PayPal
+ *
+ * The rate is the one stored on the order when its PayPal order was created.
+ *
+ * @param order - Order the amount belongs to
+ * @param chargedUSD - USD amount PayPal reported, if known
+ * @param amountOMR - OMR amount of the row (defaults to the order total)
+ */
+export function getPayPalChargeFields(
+    order: Pick<Order, 'total' | 'exchange_rate' | 'charged_currency'>,
+    chargedUSD?: string | null,
+    amountOMR: number = Number(order.total)
+): Pick<PaymentTransaction, 'amount' | 'charged_amount' | 'charged_currency' | 'exchange_rate'> {
+    return {
+        amount: Math.round(Number(amountOMR) * 1000) / 1000,
+        charged_amount: chargedUSD ?? null,
+        charged_currency: order.charged_currency || 'USD',
+        exchange_rate: Number(order.exchange_rate) || STATIC_EXCHANGE_RATES.USD,
+    };
+}
+
+/**
+ * Append a row to the ledger
+ *
+ * Recording the same provider event twice is a no-op. Failures are logged
+ * rather than thrown, so a ledger outage never fails a payment that already
+ * went through at the provider.
+ */
+export async function recordPaymentTransaction(entry: PaymentTransactionInput): Promise<void> {
+    const reference = getTransactionReference(entry.provider, entry.type, entry.provider_transaction_id);
+
+    try {
+        await axios.post(
+            transactionsUrl(),
+            { ...entry, reference },
+            { headers: getServerAuthHeaders() }
+        );
+        console.log('[Payments] Recorded transaction:', reference, entry.amount, 'OMR');
+    } catch (error: any) {
+        const code = error.response?.data?.errors?.[0]?.extensions?.code;
+        if (code === 'RECORD_NOT_UNIQUE') {
+            return;
+        }
+        console.error('[Payments] Failed to record transaction:', reference, error.response?.data || error.message);
+    }
+}
+
+/**
+ * Ledger rows of an order, oldest first
+ *
+ * @param authHeader - Authorization header of the caller; Directus permissions decide who may read the ledger
+ */
+export async function fetchOrderTransactions(orderId: string, authHeader: string): Promise<PaymentTransaction[]> {
+    const response = await axios.get(transactionsUrl(), {
+        params: {
+            filter: JSON.stringify({ order: { _eq: orderId } }),
+            sort: 'date_created',
+            limit: -1,
+        },
+        headers: { 'Authorization': authHeader },
+    });
+
+    return response.data.data || [];
+}
@@ -0,0 +1,61 @@
+/**
+ * Product Listing Pagination
+ *
+ * Shop, category and search listings come in two modes, both with stable
+ * URLs so a listing can be reloaded or shared as it was:
+ * - pages:  ?page=3 shows page 3 on its own
+ * - scroll: ?view=scroll&page=3 shows pages 1 to 3, and scrolling to the
+ *           end loads page 4 by moving the URL on to page=4
+ */
+
+export type ListingMode = 'pages' | 'scroll';
+
+export const LISTING_MODES: ListingMode[] = ['pages', 'scroll'];
+
+/**
+ * Most pages shown at once in scroll mode; beyond it, listings continue
+ * with page numbers
+ */
+export const MAX_SCROLL_PAGES = 10;
+
+export function parseListingMode(value: string | null | undefined): ListingMode {
+    return value === 'scroll' ? 'scroll' : 'pages';
+}
+
+export function parsePage(value: string | null | undefined): number {
+    const page = parseInt(value || '', 10);
+    return Number.isFinite(page) && page > 0 ? page : 1;
+}
+
+export function getTotalPages(total: number, pageSize: number): number {
+    return Math.max(0, Math.ceil(total / pageSize));
+}
+
+/**
+ * Which items to fetch for a page of a listing, as a page and page size
+ * In scroll mode this is every page up to the current one.
+ */
+export function getListingWindow(
+    page: number,
+    mode: ListingMode,
+    pageSize: number
+): { page: number; limit: number } {
+    if (mode === 'scroll' && page <= MAX_SCROLL_PAGES) {
+        return { page: 1, limit: page * pageSize };
+    }
+    return { page, limit: pageSize };
+}
+
+/**
+ * Positions of the first and last items on screen, counting from 1
+ */
+export function getShownRange(
+    page: number,
+    mode: ListingMode,
+    pageSize: number,
+    total: number
+): { from: number; to: number } {
+    const range = getListingWindow(page, mode, pageSize);
+    const from = (range.page - 1) * range.limit + 1;
+    return { from: Math.min(from, total), to: Math.min(from + range.limit - 1, total) };
+}
@@ -32,6 +32,14 @@ export interface TransactionDetails {
     updateTime?: string;
 }
 
+/**
+ * Amount a PayPal order was created for
+ */
+export interface ExpectedAmount {
+    value: string;
+    currency_code: string;
+}
+
 /**
  * Capture response
  */
@@ -108,12 +116,50 @@ export async function verifyOrderStatus(orderId: string): Promise<string> {
     }
 }
 
+/**
+ * Extract transaction details from a captured PayPal order
+ */
+function getTransactionDetails(captureData: any, orderId: string): TransactionDetails {
+    const purchaseUnit = captureData.purchase_units?.[0];
+    const captures = purchaseUnit?.payments?.captures || [];
+    const capture = captures[0];
+
+    if (!capture?.id) {
+        throw new PayPalError(
+            'No capture transaction ID',
+            PayPalErrorType.CAPTURE_ERROR,
+            'Payment was processed but we could not confirm it. Please contact support.'
+        );
+    }
+
+    // Extract payer information
+    const payerInfo = captureData.payer || {};
+    const payerName = payerInfo.name?.full_name
+        || `${payerInfo.name?.given_name || ''} ${payerInfo.name?.surname || ''}`.trim()
+        || 'Unknown Payer';
+
+    return {
+        transactionId: capture.id, // Use the actual capture transaction ID
+        payerId: payerInfo.payer_id || orderId, // Use order ID as fallback
+        payerEmail: payerInfo.email_address || 'unknown@paypal.com',
+        payerName: payerName,
+        amount: capture.amount?.value || purchaseUnit?.amount?.value || '0',
+        currency: capture.amount?.currency_code || purchaseUnit?.amount?.currency_code || 'OMR',
+        status: capture.status || 'COMPLETED',
+        createTime: captureData.create_time,
+        updateTime: captureData.update_time,
+    };
+}
+
 /**
  * Capture a PayPal order
  * 
  * This finalizes an approved PayPal order and captures the payment.
+ * Capturing an order that is already captured returns the existing capture.
  * 
  * @param orderId - PayPal order ID to capture
+ * @param expectedAmount - Amount the order was created for; the order is not
+ *   captured if PayPal holds a different amount
  * @returns Transaction details needed for order creation
  * @throws PayPalError if capture fails
  * 
@@ -121,7 +167,7 @@ export async function verifyOrderStatus(orderId: string): Promise<string> {
  * const result = await capturePayPalOrder('PAY-123456');
  * // Returns: { success: true, transactionDetails: { ... } }
  */
-export async function capturePayPalOrder(orderId: string): Promise<CaptureOrderResponse> {
+export async function capturePayPalOrder(orderId: string, expectedAmount?: ExpectedAmount): Promise<CaptureOrderResponse> {
     try {
         // First verify the order exists and is approvable
         const orderData = await getPayPalOrderDetails(orderId);
@@ -134,13 +180,52 @@ export async function capturePayPalOrder(orderId: string): Promise<CaptureOrderR
             );
         }
 
+        // Already captured (e.g. by the webhook while the shopper's browser was away)
+        if (orderData.status === 'COMPLETED') {
+            console.log('[PayPal] Order already captured:', orderId);
+            return {
+                success: true,
+                transactionDetails: getTransactionDetails(orderData, orderId),
+            };
+        }
+
+        // Only capture exactly what the order was created for
+        const amount = orderData.purchase_units?.[0]?.amount;
+        if (expectedAmount && (amount?.value !== expectedAmount.value || amount?.currency_code !== expectedAmount.currency_code)) {
+            console.error('[PayPal] Order amount does not match the created amount:', {
+                orderId,
+                amount,
+                expected: expectedAmount,
+            });
+            throw new PayPalError(
+                'PayPal order amount does not match the created amount',
+                PayPalErrorType.VALIDATION_ERROR,
+                'The payment amount has changed. Please place your order again.',
+                { amount, expected: expectedAmount }
+            );
+        }
+
         // Create capture request
         const request = new Orders.OrdersCaptureRequest(orderId);
         request.requestBody({});
         request.prefer('return=representation');
 
         console.log('[PayPal] Capturing order:', orderId);
-        const response = await paypalClient.execute(request as any);
+        let response;
+        try {
+            response = await paypalClient.execute(request as any);
+        } catch (captureError: any) {
+            // Lost a race with a concurrent capture of the same order
+            const latest = await getPayPalOrderDetails(orderId).catch(() => null);
+            if (latest?.status === 'COMPLETED') {
+                console.log('[PayPal] Order was captured concurrently:', orderId);
+                return {
+                    success: true,
+                    transactionDetails: getTransactionDetails(latest, orderId),
+                };
+            }
+            throw captureError;
+        }
 
         if (response.statusCode !== 201) {
             throw new PayPalError(
@@ -162,36 +247,7 @@ export async function capturePayPalOrder(orderId: string): Promise<CaptureOrderR
             );
         }
 
-        // Extract transaction details from captured order
-        const purchaseUnit = captureData.purchase_units?.[0];
-        const captures = purchaseUnit?.payments?.captures || [];
-        const capture = captures[0];
-
-        if (!capture?.id) {
-            throw new PayPalError(
-                'No capture transaction ID',
-                PayPalErrorType.CAPTURE_ERROR,
-                'Payment was processed but we could not confirm it. Please contact support.'
-            );
-        }
-
-        // Extract payer information
-        const payerInfo = captureData.payer || {};
-        const payerName = payerInfo.name?.full_name
-            || `${payerInfo.name?.given_name || ''} ${payerInfo.name?.surname || ''}`.trim()
-            || 'Unknown Payer';
-
-        const transactionDetails: TransactionDetails = {
-            transactionId: capture.id, // Use the actual capture transaction ID
-            payerId: payerInfo.payer_id || orderId, // Use order ID as fallback
-            payerEmail: payerInfo.email_address || 'unknown@paypal.com',
-            payerName: payerName,
-            amount: capture.amount?.value || purchaseUnit?.amount?.value || '0',
-            currency: capture.amount?.currency_code || purchaseUnit?.amount?.currency_code || 'OMR',
-            status: capture.status || 'COMPLETED',
-            createTime: captureData.create_time,
-            updateTime: captureData.update_time,
-        };
+        const transactionDetails = getTransactionDetails(captureData, orderId);
 
         console.log('[PayPal] Order captured successfully:', {
             orderId,
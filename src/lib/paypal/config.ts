@@ -11,6 +11,7 @@ const paypalSdk = require('@paypal/checkout-server-sdk') as any;
 
 const { SandboxEnvironment, LiveEnvironment, PayPalHttpClient } = paypalSdk.core as any;
 const { OrdersCreateRequest, OrdersCaptureRequest, OrdersGetRequest } = paypalSdk.orders as any;
+const { CapturesRefundRequest } = paypalSdk.payments as any;
 
 /**
  * Orders wrapper class for compatibility with the expected interface
@@ -23,6 +24,13 @@ class Orders {
     static OrdersGetRequest = OrdersGetRequest;
 }
 
+/**
+ * Payments wrapper class, same shape as Orders: new Payments.CapturesRefundRequest()
+ */
+class Payments {
+    static CapturesRefundRequest = CapturesRefundRequest;
+}
+
 /**
  * Get current PayPal mode
  */
@@ -31,6 +39,17 @@ export function getPayPalMode(): 'sandbox' | 'live' {
     return (mode === 'live' ? 'live' : 'sandbox') as 'sandbox' | 'live';
 }
 
+/**
+ * Base URL of the PayPal REST API for the current mode
+ * PAYPAL_API_BASE_URL overrides it, e.g. to point at a local mock PayPal server
+ */
+export function getPayPalApiBaseUrl(): string {
+    if (process.env.PAYPAL_API_BASE_URL) {
+        return process.env.PAYPAL_API_BASE_URL.replace(/\/$/, '');
+    }
+    return getPayPalMode() === 'live' ? 'https://api-m.paypal.com' : 'https://api-m.sandbox.paypal.com';
+}
+
 /**
  * Check if PayPal is properly configured
  */
@@ -85,4 +104,4 @@ export const paypalClient = getPayPalClient();
 /**
  * Export PayPal SDK classes for use in application
  */
-export { Orders };
\ No newline at end of file
+export { Orders, Payments };
\ No newline at end of file
@@ -3,12 +3,16 @@
  * 
  * Creates PayPal orders with proper validation and error handling.
  * Supports OMR currency internally (3 decimal places).
- * Converts to USD for PayPal Sandbox transactions (USD is universally supported).
+ * Converts to USD for PayPal Sandbox transactions (USD is universally supported)
+ * with one exchange-rate snapshot per order, returned so the capture can be
+ * checked against exactly the amount that was created.
  */
 
 import { paypalClient, Orders } from './config';
 import { PayPalError, PayPalErrorType } from './errors';
 import { convertOMRtoUSD } from '@/lib/currency';
+import { ExchangeRateSnapshot } from '@/lib/exchange-rates/rates';
+import { getExchangeRate } from '@/lib/exchange-rates/provider';
 
 /**
  * Item breakdown for PayPal order
@@ -27,6 +31,7 @@ export interface OrderTotals {
     subtotal: string | number; // In OMR (as string with 3 decimal places or number)
     tax: string | number; // In OMR
     shipping: string | number; // In OMR
+    discount?: string | number; // In OMR (coupon discount, omitted when none)
     total: string | number; // In OMR
 }
 
@@ -56,6 +61,9 @@ export interface CreatePayPalOrderRequest {
     customer_email: string;
     shipping_address: OrderAddress;
     billing_address: OrderAddress;
+    order_id?: string; // BuyJan order paid by this PayPal order, echoed back in webhooks as custom_id
+    order_number?: string;
+    exchange_rate?: ExchangeRateSnapshot; // OMR → USD rate to charge with; the current rate when omitted
 }
 
 /**
@@ -64,6 +72,8 @@ export interface CreatePayPalOrderRequest {
 export interface CreatePayPalOrderResponse {
     orderID: string;
     status: string;
+    amountUSD: string; // Total PayPal will capture
+    exchangeRate: ExchangeRateSnapshot;
 }
 
 /**
@@ -86,6 +96,7 @@ function validateOrderTotals(items: OrderItem[], totals: OrderTotals): boolean {
     const taxNum = typeof totals.tax === 'string' ? parseFloat(totals.tax) : totals.tax;
     const shippingNum = typeof totals.shipping === 'string' ? parseFloat(totals.shipping) : totals.shipping;
     const totalNum = typeof totals.total === 'string' ? parseFloat(totals.total) : totals.total;
+    const discountNum = typeof totals.discount === 'string' ? parseFloat(totals.discount) : (totals.discount || 0);
 
     // Calculate subtotal from items
     const calculatedSubtotal = items.reduce(
@@ -104,8 +115,8 @@ function validateOrderTotals(items: OrderItem[], totals: OrderTotals): boolean {
         return false;
     }
 
-    // Validate total = subtotal + tax + shipping
-    const calculatedTotal = subtotalNum + taxNum + shippingNum;
+    // Validate total = subtotal + tax + shipping - discount
+    const calculatedTotal = subtotalNum + taxNum + shippingNum - discountNum;
     const totalDiff = Math.abs(calculatedTotal - totalNum);
     if (totalDiff > 0.001) {
         console.error('[PayPal] Total mismatch:', {
@@ -117,7 +128,7 @@ function validateOrderTotals(items: OrderItem[], totals: OrderTotals): boolean {
     }
 
     // Validate all amounts are positive
-    if (subtotalNum < 0 || taxNum < 0 || shippingNum < 0) {
+    if (subtotalNum < 0 || taxNum < 0 || shippingNum < 0 || discountNum < 0) {
         console.error('[PayPal] Negative amounts not allowed');
         return false;
     }
@@ -167,6 +178,10 @@ export async function createPayPalOrder(
         const createOrderRequest = new Orders.OrdersCreateRequest();
         createOrderRequest.prefer('return=representation');
 
+        // Every amount of the order is converted with the same rate snapshot
+        const exchangeRate = request.exchange_rate || await getExchangeRate('USD');
+        const toUSD = (amount: string | number | undefined) => convertOMRtoUSD(Number(amount) || 0, exchangeRate.rate);
+
         // Prepare items for PayPal (convert OMR to USD for PayPal Sandbox compatibility)
         const paypalItems = request.items.map((item) => ({
             name: item.name.substring(0, 127), // PayPal limit
@@ -174,19 +189,31 @@ export async function createPayPalOrder(
             sku: item.product_id,
             unit_amount: {
                 currency_code: 'USD', // PayPal Sandbox supports USD universally
-                value: convertOMRtoUSD(item.unit_price),
+                value: toUSD(item.unit_price),
             },
             quantity: item.quantity.toString(),
             category: 'PHYSICAL_GOODS',
         }));
 
+        // PayPal requires the total to equal the sum of the breakdown, so it is summed in cents
+        // rather than converted separately
+        const toCents = (value: string) => Math.round(parseFloat(value) * 100);
+        const itemTotalCents = paypalItems.reduce((sum, item) => sum + toCents(item.unit_amount.value) * Number(item.quantity), 0);
+        const shippingUSD = toUSD(request.totals.shipping);
+        const taxUSD = toUSD(request.totals.tax);
+        const discountUSD = toUSD(request.totals.discount);
+        const totalCents = itemTotalCents + toCents(shippingUSD) + toCents(taxUSD) - toCents(discountUSD);
+        const itemTotalUSD = (itemTotalCents / 100).toFixed(2);
+        const totalInUSD = (totalCents / 100).toFixed(2);
+
         createOrderRequest.body = {
             intent: 'CAPTURE',
             purchase_units: [
                 {
                     reference_id: 'default',
                     description: 'BuyJan Premium Cosmetics Order',
-                    custom_id: request.customer_email,
+                    custom_id: request.order_id || request.customer_email,
+                    ...(request.order_number && { invoice_id: request.order_number }),
                     payer: {
                         name: {
                             given_name: request.shipping_address.full_name.split(' ')[0] || 'Customer',
@@ -214,20 +241,26 @@ export async function createPayPalOrder(
                     },
                     amount: {
                         currency_code: 'USD', // PayPal Sandbox supports USD universally
-                        value: convertOMRtoUSD(request.totals.total as number),
+                        value: totalInUSD,
                         breakdown: {
                             item_total: {
                                 currency_code: 'USD',
-                                value: convertOMRtoUSD(request.totals.subtotal as number),
+                                value: itemTotalUSD,
                             },
                             shipping: {
                                 currency_code: 'USD',
-                                value: convertOMRtoUSD(request.totals.shipping as number),
+                                value: shippingUSD,
                             },
                             tax_total: {
                                 currency_code: 'USD',
-                                value: convertOMRtoUSD(request.totals.tax as number),
+                                value: taxUSD,
                             },
+                            ...(toCents(discountUSD) > 0 && {
+                                discount: {
+                                    currency_code: 'USD',
+                                    value: discountUSD,
+                                },
+                            }),
                         },
                     },
                     items: paypalItems,
@@ -246,10 +279,10 @@ export async function createPayPalOrder(
 
         // Create order with PayPal (amounts converted from OMR to USD)
         const totalInOMR = typeof request.totals.total === 'string' ? parseFloat(request.totals.total) : request.totals.total;
-        const totalInUSD = convertOMRtoUSD(totalInOMR);
         console.log('[PayPal] Creating order:', {
             totalOMR: formatOMRAmount(totalInOMR),
             totalUSD: `${totalInUSD} USD`,
+            exchangeRate: `${exchangeRate.rate} (${exchangeRate.source}, ${exchangeRate.fetched_at})`,
             note: 'Currency converted from OMR to USD for PayPal Sandbox compatibility (USD universally supported)'
         });
         const response = await paypalClient.execute(createOrderRequest as any);
@@ -279,6 +312,8 @@ export async function createPayPalOrder(
         return {
             orderID: orderData.id,
             status: orderData.status || 'CREATED',
+            amountUSD: totalInUSD,
+            exchangeRate,
         };
     } catch (error: any) {
         // Handle PayPalError
@@ -0,0 +1,99 @@
+/**
+ * PayPal Capture Refund Service
+ *
+ * Refunds all or part of a captured PayPal payment.
+ * Amounts are in USD, the currency orders are captured in.
+ */
+
+import { paypalClient, Payments } from './config';
+import { PayPalError, PayPalErrorType } from './errors';
+
+/**
+ * Refund request
+ */
+export interface RefundCaptureRequest {
+    captureId: string;
+    amountUSD?: string; // Omit to refund whatever is left on the capture
+    invoiceId?: string;
+    note?: string;
+    requestId?: string; // Idempotency key - retries with the same key don't refund twice
+}
+
+/**
+ * Refund response
+ */
+export interface RefundCaptureResponse {
+    refundId: string;
+    status: string;
+    amountUSD: string;
+}
+
+/**
+ * Refund a captured PayPal payment
+ *
+ * @param request - Capture to refund and optional partial amount
+ * @returns PayPal refund ID, status and refunded amount
+ * @throws PayPalError if the refund fails
+ *
+ * @example
+ * const refund = await refundPayPalCapture({ captureId: '3C679366HH908993F', amountUSD: '26.00' });
+ * // Returns: { refundId: '1JU08902781691411', status: 'COMPLETED', amountUSD: '26.00' }
+ */
+export async function refundPayPalCapture(request: RefundCaptureRequest): Promise<RefundCaptureResponse> {
+    try {
+        const refundRequest = new Payments.CapturesRefundRequest(request.captureId);
+        if (request.requestId) {
+            refundRequest.payPalRequestId(request.requestId);
+        }
+        refundRequest.prefer('return=representation');
+        refundRequest.requestBody({
+            ...(request.amountUSD && { amount: { currency_code: 'USD', value: request.amountUSD } }),
+            ...(request.invoiceId && { invoice_id: request.invoiceId }),
+            ...(request.note && { note_to_payer: request.note.substring(0, 255) }),
+        });
+
+        console.log('[PayPal] Refunding capture:', request.captureId, request.amountUSD || 'remaining amount');
+        const response = await paypalClient.execute(refundRequest as any);
+
+        if (response.statusCode !== 201 && response.statusCode !== 200) {
+            throw new PayPalError(
+                `Refund returned status ${response.statusCode}`,
+                PayPalErrorType.API_ERROR,
+                'The refund could not be issued. Please try again.'
+            );
+        }
+
+        const result = response.result as any;
+        if (result.status !== 'COMPLETED' && result.status !== 'PENDING') {
+            throw new PayPalError(
+                `Refund completed with unexpected status: ${result.status}`,
+                PayPalErrorType.API_ERROR,
+                'The refund could not be issued. Please try again.'
+            );
+        }
+
+        console.log('[PayPal] Refund issued:', result.id, result.status);
+
+        return {
+            refundId: result.id,
+            status: result.status,
+            amountUSD: result.amount?.value || request.amountUSD || '0',
+        };
+    } catch (error: any) {
+        if (error instanceof PayPalError) {
+            throw error;
+        }
+
+        console.error('[PayPal] Error refunding capture:', {
+            message: error.message,
+            statusCode: error.statusCode,
+        });
+
+        throw new PayPalError(
+            error.message || 'Unknown refund error',
+            PayPalErrorType.API_ERROR,
+            'The refund could not be issued. Please try again.',
+            { originalError: error.message }
+        );
+    }
+}
@@ -0,0 +1,154 @@
+/**
+ * Webhook Event Store (server-side)
+ *
+ * Records processed PayPal webhook events in the Directus `webhook_events`
+ * collection, keyed by PayPal's event ID. PayPal retries deliveries until it
+ * gets a 2xx and may deliver the same event more than once, so each event is
+ * claimed before it is processed and only failed events are processed again.
+ * A claim that is never completed (the process died mid-event) lapses after
+ * WEBHOOK_CLAIM_TIMEOUT_MINUTES, so a later retry can take it over.
+ * `event_id` should be a unique field in Directus.
+ */
+
+import axios from 'axios';
+import { getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+
+/**
+ * How long a delivery may hold an event before a retry can reclaim it
+ */
+export const WEBHOOK_CLAIM_TIMEOUT_MINUTES = 5;
+
+export type WebhookEventStatus = 'processing' | 'processed' | 'failed';
+
+export interface WebhookEventRecord {
+    id: string;
+    event_id: string;
+    event_type: string;
+    status: WebhookEventStatus;
+    attempts?: number;
+    claimed_at?: string | null;
+    error?: string | null;
+    processed_at?: string | null;
+}
+
+function eventsUrl(): string {
+    return `${getDirectusUrl()}/items/${COLLECTIONS.WEBHOOK_EVENTS}`;
+}
+
+async function findWebhookEvent(eventId: string): Promise<WebhookEventRecord | null> {
+    const response = await axios.get(eventsUrl(), {
+        params: {
+            filter: JSON.stringify({ event_id: { _eq: eventId } }),
+            limit: 1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    return response.data.data?.[0] || null;
+}
+
+/**
+ * Whether an event is being processed by a delivery that may still finish it
+ * Claims stored without a claimed_at are treated as lapsed.
+ */
+export function isClaimActive(record: Pick<WebhookEventRecord, 'status' | 'claimed_at'>, now: Date = new Date()): boolean {
+    if (record.status !== 'processing' || !record.claimed_at) {
+        return false;
+    }
+    return now.getTime() - new Date(record.claimed_at).getTime() < WEBHOOK_CLAIM_TIMEOUT_MINUTES * 60 * 1000;
+}
+
+/**
+ * Claim an event for processing
+ *
+ * @returns true when the caller should process the event, false when it was
+ * already processed (or is being processed by a concurrent delivery)
+ */
+export async function claimWebhookEvent(eventId: string, eventType: string): Promise<boolean> {
+    const existing = await findWebhookEvent(eventId);
+    const claimedAt = new Date().toISOString();
+
+    if (existing) {
+        if (existing.status === 'processed' || isClaimActive(existing)) {
+            console.log('[PayPal Webhook] Duplicate event ignored:', eventId, existing.status);
+            return false;
+        }
+
+        // Retry of a failed or lapsed event - the claim is only taken over if
+        // nobody else did since we read it, so one delivery wins
+        const response = await axios.patch(
+            eventsUrl(),
+            {
+                query: {
+                    filter: {
+                        id: { _eq: existing.id },
+                        status: { _eq: existing.status },
+                        claimed_at: existing.claimed_at ? { _eq: existing.claimed_at } : { _null: true },
+                    },
+                },
+                data: { status: 'processing', attempts: (existing.attempts || 1) + 1, claimed_at: claimedAt },
+            },
+            { headers: getServerAuthHeaders() }
+        );
+        const updated = response.data.data;
+        const claimed = Array.isArray(updated) ? updated.length > 0 : !!updated;
+        if (claimed && existing.status === 'processing') {
+            console.warn('[PayPal Webhook] Reclaimed lapsed event:', eventId);
+        }
+        return claimed;
+    }
+
+    try {
+        await axios.post(
+            eventsUrl(),
+            { event_id: eventId, event_type: eventType, status: 'processing', attempts: 1, claimed_at: claimedAt },
+            { headers: getServerAuthHeaders() }
+        );
+        return true;
+    } catch (error: any) {
+        // A concurrent delivery inserted the same event_id first
+        const code = error.response?.data?.errors?.[0]?.extensions?.code;
+        if (code === 'RECORD_NOT_UNIQUE') {
+            console.log('[PayPal Webhook] Event claimed by a concurrent delivery:', eventId);
+            return false;
+        }
+        throw error;
+    }
+}
+
+async function setWebhookEventStatus(eventId: string, data: Partial<WebhookEventRecord>): Promise<void> {
+    try {
+        await axios.patch(
+            eventsUrl(),
+            {
+                query: { filter: { event_id: { _eq: eventId } } },
+                data,
+            },
+            { headers: getServerAuthHeaders() }
+        );
+    } catch (error: any) {
+        console.error('[PayPal Webhook] Failed to update event record:', eventId, error.response?.data || error.message);
+    }
+}
+
+/**
+ * Mark a claimed event as processed
+ */
+export async function completeWebhookEvent(eventId: string): Promise<void> {
+    await setWebhookEventStatus(eventId, {
+        status: 'processed',
+        error: null,
+        processed_at: new Date().toISOString(),
+    });
+}
+
+/**
+ * Mark a claimed event as failed so PayPal's next retry processes it again
+ */
+export async function failWebhookEvent(eventId: string, error: string): Promise<void> {
+    await setWebhookEventStatus(eventId, {
+        status: 'failed',
+        error: error.substring(0, 1000),
+    });
+}
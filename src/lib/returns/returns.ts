@@ -0,0 +1,336 @@
+/**
+ * Returns (server-side)
+ *
+ * Stores return requests in the Directus `returns` collection. Customers file
+ * them for delivered orders, with photos uploaded to Directus files; staff
+ * move them along with their own token, so Directus permissions decide who
+ * may approve a return. Refunding a received PayPal return refunds its lines
+ * through refundOrder; other orders are refunded by hand before marking them.
+ */
+
+import axios from 'axios';
+import { OrderItem, ReturnLine, ReturnReason, ReturnRequest, ReturnResolution, ReturnStatus } from '@/types/collections';
+import { getApiToken, getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { isOrderOwnedBy } from '@/lib/api/orders';
+import {
+    getNextReturnStatuses,
+    getReturnableQuantities,
+    isOrderReturnable,
+    MAX_RETURN_DETAILS_LENGTH,
+    MAX_RETURN_PHOTO_BYTES,
+    MAX_RETURN_PHOTOS,
+    RETURN_REASONS,
+    RETURN_RESOLUTIONS,
+    RETURN_WINDOW_DAYS,
+} from '@/lib/api/returns';
+import { COLLECTIONS } from '@/lib/config/constants';
+import { findOrderById } from '@/lib/orders/payment';
+import { refundOrder } from '@/lib/orders/refunds';
+
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+
+export type ReturnErrorCode =
+    | 'NOT_FOUND'
+    | 'NOT_RETURNABLE'
+    | 'INVALID_RETURN'
+    | 'INVALID_PHOTO'
+    | 'INVALID_TRANSITION';
+
+/**
+ * Raised when a return can't be filed or moved on as requested
+ */
+export class ReturnError extends Error {
+    constructor(
+        public code: ReturnErrorCode,
+        message: string
+    ) {
+        super(message);
+        this.name = 'ReturnError';
+    }
+}
+
+/**
+ * A return as filed through POST /api/returns
+ */
+export interface ReturnSubmission {
+    orderId: string;
+    items: ReturnLine[];
+    reason: string;
+    resolution: string;
+    details?: string;
+    photos?: File[];
+}
+
+export interface ReturnUpdate {
+    status: ReturnStatus;
+    staff_note?: string;
+}
+
+function returnsUrl(): string {
+    return `${getDirectusUrl()}/items/${COLLECTIONS.RETURNS}`;
+}
+
+/**
+ * RMA number shown to the customer and staff
+ */
+function generateReturnNumber(): string {
+    const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const randomStr = Math.random().toString(36).substring(2, 8).toUpperCase();
+    return `RMA-${dateStr}-${randomStr}`;
+}
+
+/**
+ * Check the reason, resolution and lines of a return against what is left to
+ * return on the order. Lines for the same order item are combined.
+ *
+ * @throws ReturnError (INVALID_RETURN) describing the first problem found
+ */
+export function validateReturnLines(
+    submission: Pick<ReturnSubmission, 'items' | 'reason' | 'resolution' | 'details'>,
+    orderItems: Pick<OrderItem, 'id' | 'quantity'>[],
+    returns: Pick<ReturnRequest, 'status' | 'items'>[]
+): ReturnLine[] {
+    if (!RETURN_REASONS.includes(submission.reason as ReturnReason)) {
+        throw new ReturnError('INVALID_RETURN', `Reason must be one of: ${RETURN_REASONS.join(', ')}`);
+    }
+    if (!RETURN_RESOLUTIONS.includes(submission.resolution as ReturnResolution)) {
+        throw new ReturnError('INVALID_RETURN', `Resolution must be one of: ${RETURN_RESOLUTIONS.join(', ')}`);
+    }
+
+    const details = (submission.details || '').trim();
+    if (details.length > MAX_RETURN_DETAILS_LENGTH) {
+        throw new ReturnError('INVALID_RETURN', `Details can be at most ${MAX_RETURN_DETAILS_LENGTH} characters`);
+    }
+    if (submission.reason === 'other' && !details) {
+        throw new ReturnError('INVALID_RETURN', 'Describe the problem when the reason is "other"');
+    }
+
+    const requested: Record<string, number> = {};
+    for (const line of submission.items || []) {
+        const quantity = Number(line?.quantity);
+        if (!Number.isInteger(quantity) || quantity < 1) {
+            throw new ReturnError('INVALID_RETURN', 'Each line must return a whole number of units');
+        }
+        const id = String(line.order_item);
+        requested[id] = (requested[id] || 0) + quantity;
+    }
+
+    if (Object.keys(requested).length === 0) {
+        throw new ReturnError('INVALID_RETURN', 'Select at least one item to return');
+    }
+
+    const returnable = getReturnableQuantities(orderItems, returns);
+    return Object.entries(requested).map(([orderItem, quantity]) => {
+        if (!(orderItem in returnable)) {
+            throw new ReturnError('INVALID_RETURN', 'Return line does not belong to this order');
+        }
+        if (quantity > returnable[orderItem]) {
+            throw new ReturnError('INVALID_RETURN', `Only ${returnable[orderItem]} of item ${orderItem} can be returned`);
+        }
+        return { order_item: orderItem, quantity };
+    });
+}
+
+/**
+ * Check the photos attached to a return
+ *
+ * @throws ReturnError (INVALID_PHOTO) when there are too many or one isn't a small enough image
+ */
+export function validateReturnPhotos(photos: Pick<File, 'type' | 'size'>[]): void {
+    if (photos.length > MAX_RETURN_PHOTOS) {
+        throw new ReturnError('INVALID_PHOTO', `At most ${MAX_RETURN_PHOTOS} photos can be attached`);
+    }
+
+    for (const photo of photos) {
+        if (!PHOTO_TYPES.includes(photo.type)) {
+            throw new ReturnError('INVALID_PHOTO', 'Photos must be JPEG, PNG, WebP or HEIC images');
+        }
+        if (photo.size > MAX_RETURN_PHOTO_BYTES) {
+            throw new ReturnError('INVALID_PHOTO', `Photos can be at most ${MAX_RETURN_PHOTO_BYTES / (1024 * 1024)} MB`);
+        }
+    }
+}
+
+async function fetchOrderItems(orderId: string): Promise<OrderItem[]> {
+    const response = await axios.get(`${getDirectusUrl()}/items/${COLLECTIONS.ORDER_ITEMS}`, {
+        params: {
+            filter: JSON.stringify({ order: { _eq: orderId } }),
+            fields: 'id,quantity',
+            limit: -1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+    return response.data?.data || [];
+}
+
+/**
+ * Returns filed for an order, oldest first
+ */
+export async function fetchOrderReturns(orderId: string): Promise<ReturnRequest[]> {
+    const response = await axios.get(returnsUrl(), {
+        params: {
+            filter: JSON.stringify({ order: { _eq: orderId } }),
+            sort: 'date_created',
+            limit: -1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+    return response.data?.data || [];
+}
+
+/**
+ * A customer's returns, newest first
+ */
+export async function fetchCustomerReturns(customerId: string, orderId?: string): Promise<ReturnRequest[]> {
+    const filter: Record<string, any> = { customer: { _eq: customerId } };
+    if (orderId) {
+        filter.order = { _eq: orderId };
+    }
+
+    const response = await axios.get(returnsUrl(), {
+        params: {
+            filter: JSON.stringify(filter),
+            sort: '-date_created',
+            limit: -1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+    return response.data?.data || [];
+}
+
+/**
+ * Upload a return photo to Directus files
+ *
+ * @returns The directus_files ID
+ */
+async function uploadReturnPhoto(photo: File, returnNumber: string): Promise<string> {
+    const form = new FormData();
+    form.append('title', `${returnNumber} - ${photo.name}`);
+    form.append('file', photo, photo.name);
+
+    const response = await axios.post(`${getDirectusUrl()}/files`, form, {
+        headers: { 'Authorization': `Bearer ${getApiToken()}` },
+    });
+    return response.data.data.id;
+}
+
+/**
+ * File a return for one of a customer's delivered orders
+ *
+ * @param customerId - Customer filing the return
+ * @param submission - What is being returned, why, and what they'd like instead
+ * @throws ReturnError when the order isn't theirs, can't be returned any more,
+ * or the lines or photos aren't valid
+ */
+export async function createCustomerReturn(customerId: string, submission: ReturnSubmission): Promise<ReturnRequest> {
+    const photos = submission.photos || [];
+    validateReturnPhotos(photos);
+
+    const order = await findOrderById(submission.orderId);
+    if (!order || !isOrderOwnedBy(order, customerId)) {
+        throw new ReturnError('NOT_FOUND', 'Order not found');
+    }
+    if (!isOrderReturnable(order)) {
+        throw new ReturnError(
+            'NOT_RETURNABLE',
+            `Only delivered orders can be returned, within ${RETURN_WINDOW_DAYS} days of purchase`
+        );
+    }
+
+    const [orderItems, returns] = await Promise.all([
+        fetchOrderItems(String(order.id)),
+        fetchOrderReturns(String(order.id)),
+    ]);
+    const items = validateReturnLines(submission, orderItems, returns);
+
+    const returnNumber = generateReturnNumber();
+    const photoIds: string[] = [];
+    for (const photo of photos) {
+        photoIds.push(await uploadReturnPhoto(photo, returnNumber));
+    }
+
+    const response = await axios.post(
+        returnsUrl(),
+        {
+            return_number: returnNumber,
+            order: order.id,
+            customer: customerId,
+            status: 'requested',
+            reason: submission.reason,
+            resolution: submission.resolution,
+            items,
+            details: submission.details?.trim() || null,
+            photos: photoIds,
+        },
+        { headers: getServerAuthHeaders() }
+    );
+
+    console.log('[Returns] Return requested:', returnNumber, 'for order', order.order_number);
+    return response.data.data;
+}
+
+/**
+ * Move a return to its next status (staff)
+ *
+ * The change is saved with the caller's token, so only staff allowed to edit
+ * returns can make it. Marking a PayPal return refunded refunds its lines
+ * first; if that fails the return stays received.
+ *
+ * @param returnId - Directus return ID
+ * @param update - New status, and optionally a note for the customer
+ * @param authHeader - Authorization header of the caller
+ * @throws ReturnError when the return doesn't exist or can't move to that status
+ * @throws RefundError when refunding the returned lines fails
+ */
+export async function updateReturnStatus(
+    returnId: string,
+    update: ReturnUpdate,
+    authHeader: string
+): Promise<ReturnRequest> {
+    let current: ReturnRequest;
+    try {
+        const response = await axios.get(`${returnsUrl()}/${returnId}`, { headers: getServerAuthHeaders() });
+        current = response.data.data;
+    } catch (error: any) {
+        if (error.response?.status === 403 || error.response?.status === 404) {
+            throw new ReturnError('NOT_FOUND', 'Return not found');
+        }
+        throw error;
+    }
+
+    if (!getNextReturnStatuses(current).includes(update.status)) {
+        throw new ReturnError('INVALID_TRANSITION', `A ${current.status} return can't be marked ${update.status}`);
+    }
+
+    if (update.status === 'refunded') {
+        const order = await findOrderById(String(current.order));
+        if (order?.payment_method === 'paypal') {
+            await refundOrder(
+                String(current.order),
+                { items: current.items, reason: `Return ${current.return_number}` },
+                authHeader
+            );
+        }
+    }
+
+    const now = new Date().toISOString();
+    const changes: Partial<ReturnRequest> = { status: update.status };
+    if (update.status === 'approved') changes.approved_at = now;
+    if (update.status === 'received') changes.received_at = now;
+    if (update.status === 'rejected' || update.status === 'refunded' || update.status === 'exchanged') {
+        changes.resolved_at = now;
+    }
+    if (update.staff_note !== undefined) {
+        changes.staff_note = update.staff_note.trim() || null;
+    }
+
+    const response = await axios.patch(`${returnsUrl()}/${returnId}`, changes, {
+        headers: {
+            'Authorization': authHeader,
+            'Content-Type': 'application/json',
+        },
+    });
+
+    console.log('[Returns] Return', current.return_number, 'marked', update.status);
+    return response.data.data;
+}
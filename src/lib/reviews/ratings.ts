@@ -0,0 +1,186 @@
+/**
+ * Product Rating Aggregates (server-side)
+ *
+ * Each product stores the average and count of its published reviews in
+ * `rating_average` and `rating_count`, so listings can sort and filter by
+ * rating in Directus instead of loading every review. The review routes
+ * recount a product whenever one of its reviews is created, edited or
+ * deleted; reviews moderated in Directus itself are picked up by
+ * refreshAllProductRatings (POST /api/cron/product-ratings).
+ *
+ * A failed recount is logged rather than thrown - the review change has
+ * already been saved, and the next recount corrects the aggregates.
+ */
+
+import axios from 'axios';
+import { getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+import { calculateAverageRating } from '@/lib/utils';
+
+/**
+ * Review statuses counted in a product's rating
+ */
+export const PUBLISHED_REVIEW_STATUSES = ['published', 'approved'];
+
+export interface ProductRatingAggregates {
+    rating_average: number;
+    rating_count: number;
+}
+
+export interface ReviewRatingRow {
+    product: unknown;
+    rating: number;
+    status?: string;
+}
+
+export interface ProductRatingRow {
+    id: string | number;
+    rating_average?: number | string | null;
+    rating_count?: number | null;
+}
+
+export interface RatingRefreshSummary {
+    checked: number;
+    updated: number;
+    failed: number;
+}
+
+/**
+ * Product ID of a review's `product` field, whether Directus returned the
+ * key or the expanded product
+ */
+export function toProductId(product: unknown): string | null {
+    if (product && typeof product === 'object' && 'id' in product) {
+        return toProductId((product as { id: unknown }).id);
+    }
+    return typeof product === 'string' || typeof product === 'number' ? String(product) : null;
+}
+
+export function isPublishedReview(review: { status?: string | null } | null | undefined): boolean {
+    return !!review?.status && PUBLISHED_REVIEW_STATUSES.includes(review.status);
+}
+
+/**
+ * Rating aggregates of a product from its reviews; unpublished reviews
+ * don't count
+ */
+export function getRatingAggregates(reviews: Array<{ rating: number; status?: string }>): ProductRatingAggregates {
+    const { average, count } = calculateAverageRating(reviews);
+    return { rating_average: average, rating_count: count };
+}
+
+/**
+ * Products whose stored aggregates differ from their reviews, with the
+ * values to store
+ */
+export function getRatingUpdates(
+    products: ProductRatingRow[],
+    reviews: ReviewRatingRow[]
+): Array<{ id: string } & ProductRatingAggregates> {
+    const reviewsByProduct = new Map<string, ReviewRatingRow[]>();
+    for (const review of reviews) {
+        const productId = toProductId(review.product);
+        if (productId) {
+            reviewsByProduct.set(productId, [...(reviewsByProduct.get(productId) || []), review]);
+        }
+    }
+
+    return products
+        .map((product) => ({
+            id: String(product.id),
+            ...getRatingAggregates(reviewsByProduct.get(String(product.id)) || []),
+            stored: product,
+        }))
+        // Unset aggregates are stored too, so every product sorts by rating
+        .filter(({ rating_average, rating_count, stored }) =>
+            stored.rating_average == null || Number(stored.rating_average) !== rating_average
+            || stored.rating_count == null || Number(stored.rating_count) !== rating_count
+        )
+        .map(({ id, rating_average, rating_count }) => ({ id, rating_average, rating_count }));
+}
+
+async function fetchPublishedReviews(productId?: string): Promise<ReviewRatingRow[]> {
+    const filter: Record<string, any> = { status: { _in: PUBLISHED_REVIEW_STATUSES } };
+    if (productId) {
+        filter.product = { _eq: productId };
+    }
+
+    const response = await axios.get(`${getDirectusUrl()}/items/${COLLECTIONS.PRODUCT_REVIEWS}`, {
+        params: {
+            filter: JSON.stringify(filter),
+            fields: 'product,rating,status',
+            limit: -1,
+        },
+        headers: getServerAuthHeaders(),
+    });
+
+    return response.data?.data || [];
+}
+
+async function saveRatingAggregates(productId: string, aggregates: ProductRatingAggregates): Promise<void> {
+    await axios.patch(`${getDirectusUrl()}/items/${COLLECTIONS.PRODUCTS}/${productId}`, aggregates, {
+        headers: getServerAuthHeaders(),
+    });
+}
+
+/**
+ * Recount a product's rating from its published reviews and store it
+ *
+ * @returns The stored aggregates, or null when the recount failed
+ */
+export async function refreshProductRating(productId: string): Promise<ProductRatingAggregates | null> {
+    try {
+        const aggregates = getRatingAggregates(await fetchPublishedReviews(productId));
+        await saveRatingAggregates(productId, aggregates);
+        return aggregates;
+    } catch (error: any) {
+        console.error('[Product Ratings] Failed to refresh rating of product', productId, error.response?.data || error.message);
+        return null;
+    }
+}
+
+/**
+ * Product a review belongs to, looked up before the review is deleted
+ * Returns null when it can't be found out.
+ */
+export async function findReviewProductId(reviewId: string): Promise<string | null> {
+    try {
+        const response = await axios.get(`${getDirectusUrl()}/items/${COLLECTIONS.PRODUCT_REVIEWS}/${reviewId}`, {
+            params: { fields: 'product' },
+            headers: getServerAuthHeaders(),
+        });
+        return toProductId(response.data?.data?.product);
+    } catch (error: any) {
+        console.warn('[Product Ratings] Could not find the product of review', reviewId, error.response?.status || error.message);
+        return null;
+    }
+}
+
+/**
+ * Recount every product's rating and store the ones that changed
+ */
+export async function refreshAllProductRatings(): Promise<RatingRefreshSummary> {
+    const [productsResponse, reviews] = await Promise.all([
+        axios.get(`${getDirectusUrl()}/items/${COLLECTIONS.PRODUCTS}`, {
+            params: { fields: 'id,rating_average,rating_count', limit: -1 },
+            headers: getServerAuthHeaders(),
+        }),
+        fetchPublishedReviews(),
+    ]);
+
+    const products: ProductRatingRow[] = productsResponse.data?.data || [];
+    const updates = getRatingUpdates(products, reviews);
+    const summary: RatingRefreshSummary = { checked: products.length, updated: 0, failed: 0 };
+
+    for (const { id, ...aggregates } of updates) {
+        try {
+            await saveRatingAggregates(id, aggregates);
+            summary.updated++;
+        } catch (error: any) {
+            summary.failed++;
+            console.error('[Product Ratings] Failed to store rating of product', id, error.response?.data || error.message);
+        }
+    }
+
+    return summary;
+}
@@ -0,0 +1,242 @@
+/**
+ * Search Analytics (server-side)
+ *
+ * Logs what people search for in the Directus `search_queries` collection
+ * and aggregates it into reports and the "Trending Now" list:
+ * - a `search` row for each search results page, with its result count
+ * - a `click` row for each suggestion picked from the search box
+ *
+ * Rows are anonymous: only the lower-cased query, locale and results are
+ * stored - no customer, session or IP address - and queries that look like
+ * an email address or a phone/order number are not logged at all.
+ *
+ * Queries are grouped on their normalized terms (see ./normalize), so
+ * "Lipsticks" and "lipstick " count as one; the spelling people used most
+ * is the one shown.
+ */
+
+import axios from 'axios';
+import { Locale } from '@/types';
+import { SearchQueryLog } from '@/types/collections';
+import { getDirectusUrl, getServerAuthHeaders } from '@/lib/api/api-utils';
+import { COLLECTIONS } from '@/lib/config/constants';
+import { getSearchTerms } from './normalize';
+
+export const MIN_LOGGED_QUERY_LENGTH = 2;
+export const MAX_LOGGED_QUERY_LENGTH = 100;
+
+/**
+ * Times a query must be seen in the window before it is shown to shoppers
+ */
+export const MIN_POPULAR_COUNT = 3;
+
+const DEFAULT_WINDOW_DAYS = 7;
+const DEFAULT_CACHE_SECONDS = 600;
+
+const EMAIL_LIKE = /\S+@\S+/;
+const LONG_NUMBER = /\d{6,}/;
+
+export type SearchEvent = Omit<SearchQueryLog, 'id' | 'date_created'>;
+
+export interface SearchQueryStats {
+    query: string;
+    searches: number; // Results pages shown
+    clicks: number; // Suggestions picked
+    zero_results: number; // Results pages with nothing found
+    click_through_rate: number; // Share of all lookups that ended in a suggestion click
+    last_seen: string | null;
+}
+
+export interface SearchReport {
+    since: string;
+    locale: Locale | null;
+    trending: SearchQueryStats[];
+    zero_results: SearchQueryStats[];
+}
+
+const popularCache = new Map<Locale, { queries: string[]; expiresAt: number }>();
+
+function queriesUrl(): string {
+    return `${getDirectusUrl()}/items/${COLLECTIONS.SEARCH_QUERIES}`;
+}
+
+function getWindowDays(): number {
+    const days = Number(process.env.SEARCH_POPULAR_WINDOW_DAYS);
+    return Number.isFinite(days) && days > 0 ? days : DEFAULT_WINDOW_DAYS;
+}
+
+function getCacheSeconds(): number {
+    const seconds = Number(process.env.SEARCH_POPULAR_CACHE_SECONDS);
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_CACHE_SECONDS;
+}
+
+/**
+ * A query as it is logged, or null when it shouldn't be logged
+ */
+export function toLoggedQuery(query: string): string | null {
+    const logged = query.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_LOGGED_QUERY_LENGTH);
+
+    if (logged.length < MIN_LOGGED_QUERY_LENGTH || EMAIL_LIKE.test(logged) || LONG_NUMBER.test(logged)) {
+        return null;
+    }
+    return logged;
+}
+
+/**
+ * Log a search or suggestion click
+ * Failures are logged rather than thrown; searching must work without analytics.
+ */
+export async function recordSearchEvent(event: SearchEvent): Promise<void> {
+    const query = toLoggedQuery(event.query);
+    if (!query) {
+        return;
+    }
+
+    try {
+        await axios.post(queriesUrl(), {
+            query,
+            locale: event.locale,
+            event: event.event,
+            result_count: event.result_count,
+            result_type: event.result_type ?? null,
+            result_id: event.result_id ?? null,
+        }, { headers: getServerAuthHeaders() });
+    } catch (error: any) {
+        console.error('[Search Analytics] Failed to record search event:', error.response?.data || error.message);
+    }
+}
+
+/**
+ * Logged events since a date
+ *
+ * @param authHeader - Whose permissions to read with; defaults to the server token
+ */
+export async function fetchSearchEvents(
+    since: Date,
+    locale?: Locale | null,
+    authHeader?: string
+): Promise<SearchQueryLog[]> {
+    const filter: Record<string, any> = { date_created: { _gte: since.toISOString() } };
+    if (locale) {
+        filter.locale = { _eq: locale };
+    }
+
+    const response = await axios.get(queriesUrl(), {
+        params: {
+            filter: JSON.stringify(filter),
+            fields: 'query,locale,event,result_count,date_created',
+            limit: -1,
+        },
+        headers: authHeader ? { 'Authorization': authHeader } : getServerAuthHeaders(),
+    });
+
+    return response.data?.data || [];
+}
+
+/**
+ * Per-query counts, most looked-up first
+ */
+export function aggregateSearchQueries(
+    events: Pick<SearchQueryLog, 'query' | 'event' | 'result_count' | 'date_created'>[]
+): SearchQueryStats[] {
+    const groups = new Map<string, SearchQueryStats & { spellings: Map<string, number> }>();
+
+    for (const event of events) {
+        const key = getSearchTerms(event.query || '').join(' ');
+        if (!key) continue;
+
+        let group = groups.get(key);
+        if (!group) {
+            group = { query: '', searches: 0, clicks: 0, zero_results: 0, click_through_rate: 0, last_seen: null, spellings: new Map() };
+            groups.set(key, group);
+        }
+
+        group.spellings.set(event.query, (group.spellings.get(event.query) || 0) + 1);
+        if (event.event === 'click') {
+            group.clicks++;
+        } else {
+            group.searches++;
+            if (!event.result_count) {
+                group.zero_results++;
+            }
+        }
+        if (event.date_created && (!group.last_seen || event.date_created > group.last_seen)) {
+            group.last_seen = event.date_created;
+        }
+    }
+
+    return Array.from(groups.values())
+        .map(({ spellings, ...stats }) => {
+            const [query] = Array.from(spellings).sort((a, b) => b[1] - a[1])[0];
+            const lookups = stats.searches + stats.clicks;
+            return {
+                ...stats,
+                query,
+                click_through_rate: Math.round((stats.clicks / lookups) * 100) / 100,
+            };
+        })
+        .sort((a, b) => (b.searches + b.clicks) - (a.searches + a.clicks) || a.query.localeCompare(b.query));
+}
+
+/**
+ * Queries worth suggesting: looked up often enough, and finding something
+ */
+export function getPopularQueries(stats: SearchQueryStats[], limit: number): string[] {
+    return stats
+        .filter((stat) => stat.searches + stat.clicks >= MIN_POPULAR_COUNT)
+        .filter((stat) => stat.clicks > 0 || stat.zero_results < stat.searches)
+        .slice(0, limit)
+        .map((stat) => stat.query);
+}
+
+/**
+ * Most looked-up queries in a locale over the last SEARCH_POPULAR_WINDOW_DAYS
+ * Cached per locale for SEARCH_POPULAR_CACHE_SECONDS; on failure the last
+ * list is kept, or none is shown.
+ */
+export async function getPopularSearches(locale: Locale, limit: number): Promise<string[]> {
+    const cached = popularCache.get(locale);
+    if (cached && Date.now() < cached.expiresAt) {
+        return cached.queries.slice(0, limit);
+    }
+
+    try {
+        const since = new Date(Date.now() - getWindowDays() * 24 * 60 * 60 * 1000);
+        const stats = aggregateSearchQueries(await fetchSearchEvents(since, locale));
+        const queries = getPopularQueries(stats, Math.max(limit, 10));
+
+        popularCache.set(locale, { queries, expiresAt: Date.now() + getCacheSeconds() * 1000 });
+        return queries.slice(0, limit);
+    } catch (error: any) {
+        console.error('[Search Analytics] Failed to load popular searches:', error.response?.data || error.message);
+        return cached ? cached.queries.slice(0, limit) : [];
+    }
+}
+
+/**
+ * Drop the cached popular searches
+ */
+export function clearPopularSearches(): void {
+    popularCache.clear();
+}
+
+/**
+ * Trending and zero-result queries for staff, read with their permissions
+ */
+export async function getSearchReport(
+    options: { days: number; locale?: Locale | null; limit: number },
+    authHeader: string
+): Promise<SearchReport> {
+    const since = new Date(Date.now() - options.days * 24 * 60 * 60 * 1000);
+    const stats = aggregateSearchQueries(await fetchSearchEvents(since, options.locale, authHeader));
+
+    return {
+        since: since.toISOString(),
+        locale: options.locale || null,
+        trending: stats.slice(0, options.limit),
+        zero_results: stats
+            .filter((stat) => stat.zero_results > 0)
+            .sort((a, b) => b.zero_results - a.zero_results || a.query.localeCompare(b.query))
+            .slice(0, options.limit),
+    };
+}
@@ -0,0 +1,251 @@
+/**
+ * Catalog Search Index (server-side)
+ *
+ * Full-text index of the Directus products and categories, searched by
+ * /api/search and the search page. Text goes through the same normalization
+ * and stemming as queries (see ./normalize), so Arabic spelling variants and
+ * English word forms meet. Matches are ranked with field weights - name over
+ * brand over category over description - and tolerate small typos.
+ *
+ * The index lives in memory and is rebuilt from Directus every
+ * SEARCH_INDEX_TTL_SECONDS (default 5 minutes). When the catalog can't be
+ * read, the last index built keeps serving.
+ */
+
+import MiniSearch, { SearchResult } from 'minisearch';
+import { readItems } from '@directus/sdk';
+import { getDirectusClient } from '@/lib/api/directus';
+import { processDirectusImage } from '@/lib/api/directus-config';
+import { COLLECTIONS } from '@/lib/config/constants';
+import { normalizeText, stemWord, tokenize } from './normalize';
+
+const DEFAULT_TTL_SECONDS = 300;
+
+/**
+ * Relative weight of a match in each field
+ */
+export const SEARCH_FIELD_BOOSTS = {
+    name: 4,
+    brand: 3,
+    category: 2,
+    description: 1,
+};
+
+/**
+ * Words shorter than this must match exactly; longer ones may have typos
+ */
+const MIN_FUZZY_LENGTH = 4;
+
+export type SearchDocumentType = 'product' | 'category';
+
+/**
+ * A product or category as stored in the index
+ */
+export interface SearchDocument {
+    id: string; // `${type}:${item_id}`, unique across types
+    type: SearchDocumentType;
+    item_id: string;
+    slug: string;
+    name: string;
+    name_ar?: string;
+    image?: string;
+    // Searched text
+    brand?: string;
+    category?: string;
+    description?: string;
+    // Product details for filtering and sorting
+    category_slug?: string;
+    brand_slug?: string;
+    price?: number;
+    in_stock?: boolean;
+    rating?: number;
+}
+
+export interface SearchHit extends SearchDocument {
+    score: number;
+}
+
+export interface CatalogSearchOptions {
+    type?: SearchDocumentType;
+    limit?: number;
+}
+
+let cachedIndex: MiniSearch<SearchDocument> | null = null;
+let indexExpiresAt = 0;
+let pendingBuild: Promise<MiniSearch<SearchDocument>> | null = null;
+
+function getTtlSeconds(): number {
+    const seconds = Number(process.env.SEARCH_INDEX_TTL_SECONDS);
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_TTL_SECONDS;
+}
+
+function joinText(...values: Array<string | null | undefined>): string {
+    return values.filter(Boolean).join(' ');
+}
+
+function stripHtml(html: string | null | undefined): string {
+    return (html || '').replace(/<[^>]*>/g, ' ');
+}
+
+/**
+ * Create an empty index with the search settings
+ */
+export function createSearchIndex(): MiniSearch<SearchDocument> {
+    return new MiniSearch<SearchDocument>({
+        fields: ['name', 'brand', 'category', 'description'],
+        storeFields: [
+            'type', 'item_id', 'slug', 'name', 'name_ar', 'image',
+            'category_slug', 'brand_slug', 'price', 'in_stock', 'rating',
+        ],
+        // Both languages are indexed in the same fields
+        extractField: (document, fieldName) => {
+            if (fieldName === 'name') {
+                return joinText(document.name, document.name_ar);
+            }
+            return (document as unknown as Record<string, any>)[fieldName];
+        },
+        tokenize: (text) => tokenize(normalizeText(text)),
+        processTerm: (term) => stemWord(term) || null,
+        searchOptions: {
+            boost: SEARCH_FIELD_BOOSTS,
+            combineWith: 'AND',
+            // Typos are forgiven in longer words; the word being typed matches as a prefix
+            fuzzy: (term) => (term.length >= MIN_FUZZY_LENGTH ? 0.2 : false),
+            prefix: (_term, index, terms) => index === terms.length - 1,
+        },
+    });
+}
+
+/**
+ * Index documents for Directus products
+ */
+export function toProductDocuments(products: any[], directusUrl: string): SearchDocument[] {
+    return products.map((product) => {
+        const category = product.category && typeof product.category === 'object' ? product.category : null;
+        const brand = product.brand && typeof product.brand === 'object' ? product.brand : null;
+        const inStock = product.in_stock === true || Number(product.in_stock) > 0;
+
+        return {
+            id: `product:${product.id}`,
+            type: 'product' as const,
+            item_id: String(product.id),
+            slug: product.slug,
+            name: product.name || product.name_ar || '',
+            name_ar: product.name_ar || undefined,
+            image: product.main_image ? processDirectusImage(directusUrl, product.main_image)?.url : undefined,
+            brand: brand ? joinText(brand.name, brand.name_ar) : undefined,
+            category: category ? joinText(category.name, category.name_ar) : undefined,
+            description: joinText(stripHtml(product.description), stripHtml(product.description_ar)),
+            category_slug: category?.slug || undefined,
+            brand_slug: brand?.slug || undefined,
+            price: Number(product.sale_price || product.price) || 0,
+            in_stock: inStock,
+            rating: Number(product.rating_average) || 0,
+        };
+    });
+}
+
+/**
+ * Index documents for Directus categories
+ */
+export function toCategoryDocuments(categories: any[], directusUrl: string): SearchDocument[] {
+    return categories.map((category) => ({
+        id: `category:${category.id}`,
+        type: 'category' as const,
+        item_id: String(category.id),
+        slug: category.slug,
+        name: category.name || category.name_ar || '',
+        name_ar: category.name_ar || undefined,
+        image: category.image ? processDirectusImage(directusUrl, category.image)?.url : undefined,
+        description: joinText(stripHtml(category.description), stripHtml(category.description_ar)),
+    }));
+}
+
+async function buildCatalogIndex(): Promise<MiniSearch<SearchDocument>> {
+    const client = await getDirectusClient();
+    const directusUrl = process.env.NEXT_PUBLIC_DIRECTUS_URL || 'https://admin.buyjan.com';
+
+    const [products, categories] = await Promise.all([
+        (client as any).request((readItems as any)(COLLECTIONS.PRODUCTS, {
+            fields: [
+                'id', 'name', 'name_ar', 'slug', 'description', 'description_ar',
+                'price', 'sale_price', 'in_stock', 'main_image',
+                'category.name', 'category.name_ar', 'category.slug',
+                'brand.name', 'brand.name_ar', 'brand.slug',
+                'rating_average',
+            ],
+            limit: -1,
+        })) as Promise<any[]>,
+        (client as any).request((readItems as any)(COLLECTIONS.CATEGORIES, {
+            fields: ['id', 'name', 'name_ar', 'slug', 'description', 'description_ar', 'image'],
+            limit: -1,
+        })) as Promise<any[]>,
+    ]);
+
+    const index = createSearchIndex();
+    index.addAll([
+        ...toProductDocuments(products || [], directusUrl),
+        ...toCategoryDocuments(categories || [], directusUrl),
+    ]);
+
+    console.log('[Search Index] Indexed', products?.length || 0, 'products and', categories?.length || 0, 'categories');
+    return index;
+}
+
+/**
+ * The catalog index, rebuilt once it is older than SEARCH_INDEX_TTL_SECONDS
+ */
+export async function getCatalogIndex(): Promise<MiniSearch<SearchDocument>> {
+    if (cachedIndex && Date.now() < indexExpiresAt) {
+        return cachedIndex;
+    }
+
+    // Requests arriving during a rebuild share it
+    if (!pendingBuild) {
+        pendingBuild = buildCatalogIndex()
+            .then((index) => {
+                cachedIndex = index;
+                return index;
+            })
+            .catch((error) => {
+                console.error('[Search Index] Failed to build the catalog index:', error?.message || error);
+                return cachedIndex || createSearchIndex();
+            })
+            .finally(() => {
+                indexExpiresAt = Date.now() + getTtlSeconds() * 1000;
+                pendingBuild = null;
+            });
+    }
+
+    return pendingBuild;
+}
+
+/**
+ * Drop the cached index so the next search rebuilds it
+ */
+export function clearCatalogIndex(): void {
+    cachedIndex = null;
+    indexExpiresAt = 0;
+}
+
+/**
+ * Search an index, best matches first
+ */
+export function searchIndex(
+    index: MiniSearch<SearchDocument>,
+    query: string,
+    options: CatalogSearchOptions = {}
+): SearchHit[] {
+    const results = index.search(query, {
+        ...(options.type && { filter: (result: SearchResult) => result.type === options.type }),
+    }) as unknown as SearchHit[];
+
+    return options.limit !== undefined ? results.slice(0, options.limit) : results;
+}
+
+/**
+ * Search the catalog, best matches first
+ */
+export async function searchCatalog(query: string, options: CatalogSearchOptions = {}): Promise<SearchHit[]> {
+    return searchIndex(await getCatalogIndex(), query, options);
+}
@@ -0,0 +1,227 @@
+/**
+ * Faceted Search
+ *
+ * Filters, sorts and pages catalog search hits (see ./catalog) and counts
+ * how many results each filter option would give. Counts are disjunctive:
+ * a facet is counted with every other active filter applied but not its
+ * own, so the sidebar can show "(12)" next to a brand while another brand
+ * is selected, and disable options that would return nothing.
+ *
+ * Price filters are inclusive at both ends, like the shop's min/max price.
+ */
+
+import { Locale } from '@/types';
+import { SearchHit } from './catalog';
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 24;
+export const MAX_SEARCH_PAGE_SIZE = 100;
+
+export const SEARCH_SORTS = ['relevant', 'price_low', 'price_high', 'name', 'rating'] as const;
+export type SearchSort = typeof SEARCH_SORTS[number];
+
+/**
+ * Price buckets in OMR; the last one has no upper bound
+ */
+export const PRICE_BUCKETS: PriceBucket[] = [
+    { min: 0, max: 5 },
+    { min: 5, max: 10 },
+    { min: 10, max: 25 },
+    { min: 25, max: 50 },
+    { min: 50 },
+];
+
+/**
+ * Minimum average ratings offered as "N stars & up"
+ */
+export const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+export interface PriceBucket {
+    min: number;
+    max?: number;
+}
+
+export interface SearchFilters {
+    category?: string[];
+    brand?: string[];
+    min_price?: number;
+    max_price?: number;
+    min_rating?: number;
+    in_stock?: boolean;
+}
+
+export interface FacetCount<T = string> {
+    value: T;
+    count: number;
+}
+
+export interface SearchFacets {
+    category: FacetCount[];
+    brand: FacetCount[];
+    price: Array<PriceBucket & { count: number }>;
+    rating: FacetCount<number>[];
+    in_stock: number;
+}
+
+export interface SearchQueryOptions {
+    filters: SearchFilters;
+    sort: SearchSort;
+    page: number;
+    limit: number;
+}
+
+export interface FacetedSearchResult {
+    hits: SearchHit[];
+    facets: SearchFacets;
+    meta: {
+        total: number;
+        page: number;
+        limit: number;
+        total_pages: number;
+    };
+}
+
+type FilterGroup = 'category' | 'brand' | 'price' | 'rating' | 'in_stock';
+
+function parseList(value: string | null): string[] | undefined {
+    const values = (value || '').split(',').map((item) => item.trim()).filter(Boolean);
+    return values.length > 0 ? values : undefined;
+}
+
+function parseNumber(value: string | null): number | undefined {
+    if (value === null || value.trim() === '') return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+    const number = parseInt(value || '', 10);
+    return Number.isFinite(number) && number > 0 ? number : fallback;
+}
+
+/**
+ * Read filters, sort and paging from search URL parameters:
+ * category and brand (comma-separated slugs), min_price, max_price, rating,
+ * in_stock, sort, page and limit. Unknown or invalid values are ignored.
+ */
+export function parseSearchOptions(params: URLSearchParams): SearchQueryOptions {
+    const sort = params.get('sort') as SearchSort;
+    const inStock = params.get('in_stock');
+
+    return {
+        filters: {
+            category: parseList(params.get('category')),
+            brand: parseList(params.get('brand')),
+            min_price: parseNumber(params.get('min_price')),
+            max_price: parseNumber(params.get('max_price')),
+            min_rating: parseNumber(params.get('rating')),
+            in_stock: inStock === 'true' ? true : inStock === 'false' ? false : undefined,
+        },
+        sort: SEARCH_SORTS.includes(sort) ? sort : 'relevant',
+        page: parsePositiveInt(params.get('page'), 1),
+        limit: Math.min(parsePositiveInt(params.get('limit'), DEFAULT_SEARCH_PAGE_SIZE), MAX_SEARCH_PAGE_SIZE),
+    };
+}
+
+function isInPriceRange(price: number, min?: number, max?: number): boolean {
+    return (min === undefined || price >= min) && (max === undefined || price <= max);
+}
+
+/**
+ * Whether a hit passes the filters, leaving out one filter group if given
+ */
+function matchesFilters(hit: SearchHit, filters: SearchFilters, except?: FilterGroup): boolean {
+    if (except !== 'category' && filters.category && !filters.category.includes(hit.category_slug || '')) {
+        return false;
+    }
+    if (except !== 'brand' && filters.brand && !filters.brand.includes(hit.brand_slug || '')) {
+        return false;
+    }
+    if (except !== 'price' && !isInPriceRange(hit.price || 0, filters.min_price, filters.max_price)) {
+        return false;
+    }
+    if (except !== 'rating' && filters.min_rating !== undefined && (hit.rating || 0) < filters.min_rating) {
+        return false;
+    }
+    if (except !== 'in_stock' && filters.in_stock !== undefined && Boolean(hit.in_stock) !== filters.in_stock) {
+        return false;
+    }
+    return true;
+}
+
+function countValues(hits: SearchHit[], getValue: (hit: SearchHit) => string | undefined): FacetCount[] {
+    const counts = new Map<string, number>();
+    for (const hit of hits) {
+        const value = getValue(hit);
+        if (value) {
+            counts.set(value, (counts.get(value) || 0) + 1);
+        }
+    }
+    return Array.from(counts, ([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Result counts for each filter option
+ */
+export function getSearchFacets(hits: SearchHit[], filters: SearchFilters): SearchFacets {
+    const without = (group: FilterGroup) => hits.filter((hit) => matchesFilters(hit, filters, group));
+
+    const priceHits = without('price');
+    const ratingHits = without('rating');
+
+    return {
+        category: countValues(without('category'), (hit) => hit.category_slug),
+        brand: countValues(without('brand'), (hit) => hit.brand_slug),
+        price: PRICE_BUCKETS.map((bucket) => ({
+            ...bucket,
+            count: priceHits.filter((hit) => isInPriceRange(hit.price || 0, bucket.min, bucket.max)).length,
+        })),
+        rating: RATING_THRESHOLDS.map((threshold) => ({
+            value: threshold,
+            count: ratingHits.filter((hit) => (hit.rating || 0) >= threshold).length,
+        })),
+        in_stock: without('in_stock').filter((hit) => hit.in_stock).length,
+    };
+}
+
+/**
+ * Sort hits; "relevant" keeps the search ranking
+ */
+export function sortSearchHits(hits: SearchHit[], sort: SearchSort, locale: Locale): SearchHit[] {
+    const sorted = [...hits];
+    const nameOf = (hit: SearchHit) => ((locale === 'ar' && hit.name_ar) || hit.name).toLowerCase();
+
+    switch (sort) {
+        case 'price_low':
+            return sorted.sort((a, b) => (a.price || 0) - (b.price || 0));
+        case 'price_high':
+            return sorted.sort((a, b) => (b.price || 0) - (a.price || 0));
+        case 'name':
+            return sorted.sort((a, b) => nameOf(a).localeCompare(nameOf(b), locale));
+        case 'rating':
+            return sorted.sort((a, b) => (b.rating || 0) - (a.rating || 0));
+        case 'relevant':
+        default:
+            return sorted;
+    }
+}
+
+/**
+ * Filter, sort and page product hits, with facet counts for the whole result
+ */
+export function facetedSearch(hits: SearchHit[], options: SearchQueryOptions, locale: Locale): FacetedSearchResult {
+    const matching = hits.filter((hit) => matchesFilters(hit, options.filters));
+    const sorted = sortSearchHits(matching, options.sort, locale);
+    const start = (options.page - 1) * options.limit;
+
+    return {
+        hits: sorted.slice(start, start + options.limit),
+        facets: getSearchFacets(hits, options.filters),
+        meta: {
+            total: matching.length,
+            page: options.page,
+            limit: options.limit,
+            total_pages: Math.ceil(matching.length / options.limit),
+        },
+    };
+}
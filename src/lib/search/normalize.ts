@@ -0,0 +1,107 @@
+/**
+ * Search Text Normalization
+ *
+ * Turns product text and search queries into comparable terms, so that
+ * spelling variants meet in the index:
+ * - Arabic: diacritics (tashkeel) and tatweel are dropped, alef forms
+ *   (أ إ آ ٱ) become ا, ى becomes ي, ة becomes ه, ؤ/ئ lose their hamza,
+ *   and the definite article is taken off ("الكريم" → "كريم")
+ * - English: lower-cased, accents dropped, British spellings mapped to
+ *   American ("moisturiser" → "moisturizer") and Porter-stemmed
+ * - Arabic-Indic digits become ASCII digits
+ */
+
+import { stemmer } from 'stemmer';
+
+const ARABIC_DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E8\u06EA-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+const LATIN_ACCENTS = /[\u0300-\u036F]/g;
+const ARABIC_LETTER = /[\u0600-\u06FF]/;
+const LATIN_WORD = /^[a-z]+$/;
+
+/**
+ * Article prefixes, longest first: وال، بال، كال، فال، لل، ال
+ */
+const ARABIC_ARTICLES = ['وال', 'بال', 'كال', 'فال', 'لل', 'ال'];
+
+/**
+ * Shortest Arabic stem left after taking off an article
+ */
+const MIN_ARABIC_STEM = 2;
+
+/**
+ * British spellings and their American forms, tried in order on whole words
+ */
+const BRITISH_SPELLINGS: Array<[RegExp, string]> = [
+    [/^(.{3,})is(e|ed|es|er|ers|ing|ation|ations)$/, '$1iz$2'], // moisturiser, colourising
+    [/^(.{3,})our(s|ed|ing|ful|less)?$/, '$1or$2'], // colour, flavours
+    [/^(.{3,})tre(s)?$/, '$1ter$2'], // centre, litres
+];
+
+/**
+ * Normalize Arabic letters that are written interchangeably
+ */
+export function normalizeArabic(text: string): string {
+    return text
+        .replace(ARABIC_DIACRITICS, '')
+        .replace(TATWEEL, '')
+        .replace(/[أإآٱ]/g, 'ا')
+        .replace(/ى/g, 'ي')
+        .replace(/ة/g, 'ه')
+        .replace(/ؤ/g, 'و')
+        .replace(/ئ/g, 'ي')
+        .replace(/[\u0660-\u0669]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+        .replace(/[\u06F0-\u06F9]/g, (digit) => String(digit.charCodeAt(0) - 0x06F0));
+}
+
+/**
+ * Lower-case text and normalize it for comparison, in either language
+ */
+export function normalizeText(text: string): string {
+    return normalizeArabic(text.normalize('NFKD').replace(LATIN_ACCENTS, '').toLowerCase());
+}
+
+/**
+ * Split normalized text into words
+ */
+export function tokenize(text: string): string[] {
+    return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function stripArabicArticle(word: string): string {
+    for (const article of ARABIC_ARTICLES) {
+        if (word.startsWith(article) && word.length - article.length >= MIN_ARABIC_STEM) {
+            return word.slice(article.length);
+        }
+    }
+    return word;
+}
+
+function americanize(word: string): string {
+    for (const [pattern, replacement] of BRITISH_SPELLINGS) {
+        if (pattern.test(word)) {
+            return word.replace(pattern, replacement);
+        }
+    }
+    return word;
+}
+
+/**
+ * Reduce a normalized word to the term stored in and looked up from the index
+ */
+export function stemWord(word: string): string {
+    if (ARABIC_LETTER.test(word)) {
+        return stripArabicArticle(word);
+    }
+    if (LATIN_WORD.test(word)) {
+        return stemmer(americanize(word));
+    }
+    return word;
+}
+
+/**
+ * Terms of a text as the search index sees them
+ */
+export function getSearchTerms(text: string): string[] {
+    return tokenize(normalizeText(text)).map(stemWord);
+}
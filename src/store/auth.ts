@@ -3,12 +3,14 @@ import { persist } from 'zustand/middleware';
 import { AuthUser, AuthState, LoginCredentials, RegisterCredentials, PasswordRecoveryRequest, PasswordResetCredentials } from '@/types/auth';
 import authClient from '@/lib/api/auth';
 import { createCustomerProfile, getCustomerProfile, updateCustomerProfile } from '@/lib/api/customers';
+import { fromServerCart, getServerCart, mergeServerCart } from '@/lib/api/cart';
+import { getUnsyncedItems, useCartStore } from '@/store/cart';
 
 interface AuthStoreActions {
     // Auth actions
     login: (credentials: LoginCredentials) => Promise<void>;
     register: (credentials: RegisterCredentials) => Promise<void>;
-    logout: () => Promise<void>;
+    logout: (options?: { keepCart?: boolean }) => Promise<void>;
     refreshTokenIfNeeded: () => Promise<void>;
     setUser: (user: AuthUser | null) => void;
     setTokens: (access_token: string, refresh_token: string) => void;
@@ -43,6 +45,30 @@ type AuthStore = AuthState & AuthStoreActions;
 // 2. Or reduce this buffer further (e.g., 30 * 1000 for 30 seconds)
 const TOKEN_BUFFER_MS = 3 * 60 * 1000;
 
+/**
+ * Combine the cart on this device with the cart saved on the account
+ * Lines already saved to this account (the cart was kept at logout) are
+ * not added again. A failed merge keeps the device cart, so it never fails
+ * the login itself.
+ */
+async function mergeGuestCart(accessToken: string, userId?: string): Promise<void> {
+    try {
+        const { items, synced } = useCartStore.getState();
+        const unsynced = userId ? getUnsyncedItems(items, synced, userId) : items;
+
+        // Nothing new on the device - the account cart already has it all
+        const saved = unsynced.length === 0 ? await getServerCart(accessToken) : null;
+        const cart = saved || await mergeServerCart(accessToken, unsynced.length > 0 ? unsynced : items);
+
+        const merged = fromServerCart(cart);
+        useCartStore.getState().setItems(merged);
+        if (userId) {
+            useCartStore.getState().markSynced(userId, merged);
+        }
+    } catch (cartError: any) {
+        console.warn('[Auth] Cart merge failed:', cartError?.response?.data || cartError?.message);
+    }
+}
 
 
 export const useAuth = create<AuthStore>()(
@@ -118,6 +144,9 @@ export const useAuth = create<AuthStore>()(
                         }
                     }
 
+                    // Bring the guest cart into the account cart
+                    await mergeGuestCart(response.access_token, response.user?.id);
+
                     // Schedule token refresh
                     scheduleTokenRefresh(response.expires, () => {
                         get().refreshTokenIfNeeded();
@@ -178,6 +207,9 @@ export const useAuth = create<AuthStore>()(
                         }
                     }
 
+                    // Save the guest cart to the new account
+                    await mergeGuestCart(response.access_token, response.user?.id);
+
                     // Schedule token refresh
                     scheduleTokenRefresh(response.expires, () => {
                         get().refreshTokenIfNeeded();
@@ -192,7 +224,7 @@ export const useAuth = create<AuthStore>()(
             },
 
             // Logout
-            logout: async () => {
+            logout: async (options) => {
                 set({ is_loading: true, error: null });
                 try {
                     const { refresh_token } = get();
@@ -215,6 +247,11 @@ export const useAuth = create<AuthStore>()(
                         token_expires_at: null,
                     });
 
+                    // The cart is saved on the account; don't leave it for the next person on this device
+                    if (!options?.keepCart) {
+                        useCartStore.getState().clearCart();
+                    }
+
                     // Clear token refresh timer
                     clearTokenRefreshTimer();
                 } catch (error: any) {
@@ -229,6 +266,9 @@ export const useAuth = create<AuthStore>()(
                         customer_profile: null,
                         token_expires_at: null,
                     });
+                    if (!options?.keepCart) {
+                        useCartStore.getState().clearCart();
+                    }
                     clearTokenRefreshTimer();
                 }
             },
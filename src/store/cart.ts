@@ -1,14 +1,55 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { CartItem, Product } from '@/types';
+import { CartItem, Product, ProductVariant } from '@/types';
 import { calculateCartTotals } from '@/lib/currency';
+import { applyVariantPrice } from '@/lib/api/variants';
+
+/**
+ * Cart line key - each variant of a product gets its own line
+ */
+export function getCartLineId(productId: string, variantId?: string): string {
+    return variantId ? `${productId}:${variantId}` : productId;
+}
+
+/**
+ * Unit price of a cart line (sale price when set, plus any variant adjustment)
+ */
+export function getCartItemPrice(item: CartItem): number {
+    return applyVariantPrice(item.product.sale_price || item.product.price, item.selected_variant);
+}
+
+/**
+ * Quantities last saved to an account's cart, by cart line
+ */
+export interface SyncedCart {
+    owner: string;
+    quantities: Record<string, number>;
+}
+
+/**
+ * Cart lines not yet saved to the owner's account cart, with just the quantity
+ * added since. After a logout that kept the cart, logging back in merges only
+ * these, so lines already on the account aren't counted twice.
+ */
+export function getUnsyncedItems(items: CartItem[], synced: SyncedCart | null, owner: string): CartItem[] {
+    if (!synced || synced.owner !== owner) {
+        return items;
+    }
+
+    return items
+        .map((item) => ({ ...item, quantity: item.quantity - (synced.quantities[item.id] || 0) }))
+        .filter((item) => item.quantity > 0);
+}
 
 interface CartState {
     items: CartItem[];
-    addItem: (product: Product, quantity?: number) => void;
-    removeItem: (productId: string) => void;
-    updateQuantity: (productId: string, quantity: number) => void;
+    synced: SyncedCart | null;
+    addItem: (product: Product, quantity?: number, variant?: ProductVariant) => void;
+    removeItem: (lineId: string) => void;
+    updateQuantity: (lineId: string, quantity: number) => void;
     clearCart: () => void;
+    setItems: (items: CartItem[]) => void;
+    markSynced: (owner: string, items: CartItem[]) => void;
     getItemCount: () => number;
     getSubtotal: () => number;
     getTotal: () => { subtotal: number; shipping: number; tax: number; total: number };
@@ -18,15 +59,18 @@ export const useCartStore = create<CartState>()(
     persist(
         (set, get) => ({
             items: [],
+            synced: null,
+
+            addItem: (product, quantity = 1, variant) => {
+                const lineId = getCartLineId(product.id, variant?.id);
 
-            addItem: (product, quantity = 1) => {
                 set((state) => {
-                    const existingItem = state.items.find((item) => item.id === product.id);
+                    const existingItem = state.items.find((item) => item.id === lineId);
 
                     if (existingItem) {
                         return {
                             items: state.items.map((item) =>
-                                item.id === product.id
+                                item.id === lineId
                                     ? { ...item, quantity: item.quantity + quantity }
                                     : item
                             ),
@@ -37,36 +81,50 @@ export const useCartStore = create<CartState>()(
                         items: [
                             ...state.items,
                             {
-                                id: product.id,
+                                id: lineId,
                                 product,
                                 quantity,
+                                ...(variant && { selected_variant: variant }),
                             },
                         ],
                     };
                 });
             },
 
-            removeItem: (productId) => {
+            removeItem: (lineId) => {
                 set((state) => ({
-                    items: state.items.filter((item) => item.id !== productId),
+                    items: state.items.filter((item) => item.id !== lineId),
                 }));
             },
 
-            updateQuantity: (productId, quantity) => {
+            updateQuantity: (lineId, quantity) => {
                 if (quantity <= 0) {
-                    get().removeItem(productId);
+                    get().removeItem(lineId);
                     return;
                 }
 
                 set((state) => ({
                     items: state.items.map((item) =>
-                        item.id === productId ? { ...item, quantity } : item
+                        item.id === lineId ? { ...item, quantity } : item
                     ),
                 }));
             },
 
             clearCart: () => {
-                set({ items: [] });
+                set({ items: [], synced: null });
+            },
+
+            setItems: (items) => {
+                set({ items });
+            },
+
+            markSynced: (owner, items) => {
+                set({
+                    synced: {
+                        owner,
+                        quantities: Object.fromEntries(items.map((item) => [item.id, item.quantity])),
+                    },
+                });
             },
 
             getItemCount: () => {
@@ -75,14 +133,14 @@ export const useCartStore = create<CartState>()(
 
             getSubtotal: () => {
                 return get().items.reduce(
-                    (total, item) => total + (item.product.sale_price || item.product.price) * item.quantity,
+                    (total, item) => total + getCartItemPrice(item) * item.quantity,
                     0
                 );
             },
 
             getTotal: () => {
                 const items = get().items.map((item) => ({
-                    price: item.product.sale_price || item.product.price,
+                    price: getCartItemPrice(item),
                     quantity: item.quantity,
                 }));
 
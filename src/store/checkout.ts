@@ -1,7 +1,8 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { Address, ShippingMethod, PaymentMethod } from '@/types';
-import { Order } from '@/types/collections';
+import { Order, Coupon } from '@/types/collections';
+import { StockReservationInfo } from '@/lib/api/inventory';
 
 export type CheckoutStep = 'shipping' | 'shipping_method' | 'payment' | 'review' | 'confirmation';
 
@@ -12,6 +13,7 @@ export interface CheckoutOrderInfo {
         subtotal: number;
         shipping: number;
         tax: number;
+        discount?: number;
         total: number;
     };
 }
@@ -25,6 +27,8 @@ interface CheckoutState {
     paymentMethod: PaymentMethod | null;
     orderInfo: CheckoutOrderInfo | null;
     orderDetails: any; // Legacy field for confirmation page compatibility
+    appliedCoupon: Coupon | null; // Validated coupon; the discount is recalculated from the cart subtotal
+    stockReservation: StockReservationInfo | null; // Stock held since the payment step; lapses at expires_at
 
     // Actions
     setStep: (step: CheckoutStep) => void;
@@ -33,6 +37,9 @@ interface CheckoutState {
     setShippingMethod: (method: ShippingMethod, cost: number) => void;
     setPaymentMethod: (method: PaymentMethod) => void;
     setOrderInfo: (id: string, orderNumber: string, totals: CheckoutOrderInfo['totals']) => void;
+    applyCoupon: (coupon: Coupon) => void;
+    removeCoupon: () => void;
+    setStockReservation: (reservation: StockReservationInfo | null) => void;
     resetCheckout: () => void;
 }
 
@@ -45,6 +52,8 @@ const initialState = {
     paymentMethod: null,
     orderInfo: null,
     orderDetails: null,
+    appliedCoupon: null,
+    stockReservation: null,
 };
 
 export const useCheckoutStore = create<CheckoutState>()(
@@ -82,8 +91,21 @@ export const useCheckoutStore = create<CheckoutState>()(
                 });
             },
 
+            applyCoupon: (coupon: Coupon) => {
+                set({ appliedCoupon: coupon });
+            },
+
+            removeCoupon: () => {
+                set({ appliedCoupon: null });
+            },
+
+            setStockReservation: (reservation: StockReservationInfo | null) => {
+                set({ stockReservation: reservation });
+            },
+
             resetCheckout: () => {
-                set(initialState);
+                // Keep a coupon entered in the cart - it is cleared with removeCoupon once the order is placed
+                set((state) => ({ ...initialState, appliedCoupon: state.appliedCoupon }));
             },
         }),
         {
@@ -0,0 +1,74 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { DisplayCurrency } from '@/types';
+
+// Reload display rates after an hour
+const RATES_MAX_AGE_MS = 60 * 60 * 1000;
+
+interface CurrencyState {
+    currency: DisplayCurrency;
+    rates: Partial<Record<DisplayCurrency, number>>;
+    ratesFetchedAt: number | null;
+    isLoadingRates: boolean;
+    setCurrency: (currency: DisplayCurrency) => void;
+    loadRates: () => Promise<void>;
+    getRate: (currency?: DisplayCurrency) => number | undefined;
+}
+
+/**
+ * Display currency of the shopper
+ *
+ * Prices are stored and charged in OMR; the chosen currency and the last
+ * rates read from /api/exchange-rates only change how prices are shown.
+ * Signed-in shoppers also get their choice saved on their customer profile
+ * (see CurrencySwitcher).
+ */
+export const useCurrencyStore = create<CurrencyState>()(
+    persist(
+        (set, get) => ({
+            currency: 'OMR',
+            rates: {},
+            ratesFetchedAt: null,
+            isLoadingRates: false,
+
+            setCurrency: (currency) => set({ currency }),
+
+            loadRates: async () => {
+                const { ratesFetchedAt, isLoadingRates } = get();
+                if (isLoadingRates || (ratesFetchedAt && Date.now() - ratesFetchedAt < RATES_MAX_AGE_MS)) {
+                    return;
+                }
+
+                set({ isLoadingRates: true });
+                try {
+                    const response = await fetch('/api/exchange-rates');
+                    if (!response.ok) {
+                        throw new Error(`HTTP ${response.status}`);
+                    }
+
+                    const { data } = await response.json();
+                    set({ rates: data.rates || {}, ratesFetchedAt: Date.now() });
+                } catch (error: any) {
+                    // Keep the last rates; prices fall back to OMR when there are none
+                    console.error('[Currency] Failed to load exchange rates:', error.message);
+                } finally {
+                    set({ isLoadingRates: false });
+                }
+            },
+
+            getRate: (currency) => {
+                const code = currency || get().currency;
+                return code === 'OMR' ? 1 : get().rates[code];
+            },
+        }),
+        {
+            name: 'currency-storage',
+            storage: createJSONStorage(() => localStorage),
+            partialize: (state) => ({
+                currency: state.currency,
+                rates: state.rates,
+                ratesFetchedAt: state.ratesFetchedAt,
+            }),
+        }
+    )
+);
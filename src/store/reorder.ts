@@ -0,0 +1,19 @@
+import { create } from 'zustand';
+import type { ReorderIssue } from '@/lib/api/reorder';
+
+interface ReorderState {
+    issues: ReorderIssue[];
+    setIssues: (issues: ReorderIssue[]) => void;
+    clearIssues: () => void;
+}
+
+/**
+ * What changed in the order the customer just reordered
+ * Set before going to the cart, which shows it once
+ */
+export const useReorderStore = create<ReorderState>((set) => ({
+    issues: [],
+
+    setIssues: (issues: ReorderIssue[]) => set({ issues }),
+    clearIssues: () => set({ issues: [] }),
+}));
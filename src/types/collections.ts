@@ -58,6 +58,7 @@ export interface Customer {
     customer_addresses?: CustomerAddress[]; // One-to-Many reverse
     first_name?: string; // Optional - may come from user data
     last_name?: string; // Optional - may come from user data
+    preferred_currency?: string; // Display currency code (OMR, AED, SAR, BHD, KWD, QAR, USD)
     created_at?: string;
     updated_at?: string;
 }
@@ -67,7 +68,7 @@ export interface Customer {
 // ============================================================================
 
 export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
-export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'partially_refunded' | 'refunded';
 
 export interface OrderItem {
     id: string;
@@ -110,15 +111,95 @@ export interface Order {
     tax_amount: number; // decimal
     shipping_cost: number; // decimal
     discount_amount?: number; // decimal
+    coupon_code?: string; // Code of the coupon redeemed on this order
     total: number; // decimal
     payment_status: PaymentStatus;
     payment_method: string;
     payment_intent_id?: string; // For Stripe or other payment providers
+    paypal_order_id?: string; // PayPal order the customer approves; payment_intent_id holds the capture ID once paid
+    stock_reservation?: string | null; // Stock hold taken out of stock when a PayPal order is paid
+    charged_currency?: string; // Currency the payment provider charges in (USD for PayPal)
+    charged_total?: string; // Amount sent to the payment provider, in charged_currency
+    exchange_rate?: number; // charged_currency per 1 OMR used for every amount of the payment
+    exchange_rate_source?: string;
+    exchange_rate_at?: string; // When the rate was read from its source
     tracking_number?: string;
+    cancellation_reason?: string | null; // Why the customer cancelled
+    cancelled_at?: string | null;
+    locale?: string; // Storefront language the order was placed in (ar/en), used for customer emails
     items?: OrderItem[]; // One-to-Many reverse
+    refunds?: PaymentRefund[]; // One-to-Many reverse
+    returns?: ReturnRequest[]; // One-to-Many reverse
+    history?: OrderStatusHistory[]; // One-to-Many reverse
     notes?: string;
     created_at?: string;
     updated_at?: string;
+    date_created?: string; // As read straight from Directus; the order API routes return it as created_at
+}
+
+export type OrderHistorySource = 'customer' | 'admin' | 'webhook' | 'system';
+export type OrderHistoryField = 'status' | 'payment_status' | 'tracking_number';
+
+/**
+ * One change of an order's status, payment status or tracking number
+ */
+export interface OrderStatusHistory {
+    id: string;
+    order: string; // Many-to-One → orders
+    field: OrderHistoryField;
+    old_value?: string | null; // null when the order was created
+    new_value?: string | null;
+    source: OrderHistorySource; // Where the change came from
+    actor?: string | null; // customers ID for customer changes, directus_users ID for staff
+    note?: string | null;
+    date_created?: string;
+}
+
+export type RefundStatus = 'pending' | 'completed' | 'failed';
+
+export interface RefundLine {
+    order_item: string; // order_items ID
+    quantity: number;
+    amount: number; // decimal (OMR)
+}
+
+export interface PaymentRefund {
+    id: string;
+    order: string; // Many-to-One → orders
+    transaction_id: string; // PayPal capture ID that was refunded
+    refund_id?: string | null; // PayPal refund ID
+    amount: number; // decimal (OMR)
+    amount_usd?: string | null; // Amount refunded through PayPal
+    currency: string;
+    status: RefundStatus;
+    reason?: string | null;
+    items?: RefundLine[] | null; // JSON - lines refunded by a partial refund
+    date_created?: string;
+}
+
+export type PaymentProvider = 'paypal';
+export type PaymentTransactionType = 'authorization' | 'capture' | 'failure' | 'refund';
+
+/**
+ * Immutable ledger row - one per authorization, capture, failure or refund
+ */
+export interface PaymentTransaction {
+    id: string;
+    reference: string; // Unique: provider:type:provider_transaction_id
+    order: string; // Many-to-One → orders
+    provider: PaymentProvider;
+    type: PaymentTransactionType;
+    status: string; // Status reported by the provider
+    provider_order_id?: string | null; // e.g. PayPal order ID
+    provider_transaction_id: string; // e.g. PayPal capture or refund ID
+    amount: number; // decimal (OMR)
+    charged_amount?: string | null; // Amount in the currency the provider charged
+    charged_currency?: string | null;
+    exchange_rate?: number | null; // OMR → charged_currency rate used
+    payer_id?: string | null;
+    payer_email?: string | null;
+    details?: Record<string, any> | null; // JSON - provider specifics (error, reason...)
+    date_created?: string;
 }
 
 // ============================================================================
@@ -171,6 +252,42 @@ export interface WishlistItem {
     created_at?: string;
 }
 
+// ============================================================================
+// CARTS
+// ============================================================================
+
+export type CartStatus = 'active';
+
+export interface ServerCart {
+    id: string;
+    customer: string; // Many-to-One → customers
+    status: CartStatus;
+    last_activity?: string; // ISO timestamp of the last change to the items
+    reminders_sent?: number; // Abandoned cart reminder emails sent so far
+    last_reminder_at?: string | null;
+    items?: ServerCartItem[];
+    date_created?: string;
+    date_updated?: string;
+}
+
+export interface ServerCartItem {
+    id: string;
+    cart: string; // Many-to-One → carts
+    product: string; // Many-to-One → products
+    variant?: string | null; // Many-to-One → product_variations
+    quantity: number;
+    product_snapshot?: Record<string, any>; // Product as shown when the line was saved, so other devices can render it
+    variant_snapshot?: Record<string, any> | null;
+}
+
+// A saved cart as handed to a restore link: just its lines, without the
+// customer or the record's internal fields
+export type RestoredCartLine = Pick<ServerCartItem, 'product' | 'variant' | 'quantity' | 'product_snapshot' | 'variant_snapshot'>;
+
+export interface RestoredCart {
+    items: RestoredCartLine[];
+}
+
 // ============================================================================
 // COUPONS
 // ============================================================================
@@ -181,7 +298,7 @@ export interface Coupon {
     id: string;
     code: string; // Unique coupon code
     type: CouponType; // 'percentage' or 'fixed'
-    value: number; // decimal (e.g., 0.10 for 10% or 5.00 for 5 OMR)
+    value: number; // decimal (e.g., 10 for 10% or 5.000 for 5 OMR)
     minimum_cart_amount?: number; // decimal
     max_users?: number; // Maximum number of users who can use this coupon
     used_count?: number; // Current usage count
@@ -192,6 +309,84 @@ export interface Coupon {
     updated_at?: string;
 }
 
+// ============================================================================
+// RETURNS
+// ============================================================================
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded' | 'exchanged';
+export type ReturnReason =
+    | 'damaged'
+    | 'wrong_item'
+    | 'wrong_shade'
+    | 'allergic_reaction'
+    | 'not_as_described'
+    | 'changed_mind'
+    | 'other';
+export type ReturnResolution = 'refund' | 'exchange';
+
+export interface ReturnLine {
+    order_item: string; // order_items ID
+    quantity: number;
+}
+
+export interface ReturnRequest {
+    id: string;
+    return_number: string; // Unique: RMA-YYYYMMDD-XXXXXX
+    order: string; // Many-to-One → orders
+    customer: string; // Many-to-One → customers
+    status: ReturnStatus;
+    reason: ReturnReason;
+    resolution: ReturnResolution; // What the customer asked for
+    items: ReturnLine[]; // JSON - lines being returned
+    details?: string | null; // Customer's description of the problem
+    photos?: string[] | null; // JSON - directus_files IDs of the uploaded photos
+    staff_note?: string | null; // Shown to the customer, e.g. why a return was rejected
+    approved_at?: string | null;
+    received_at?: string | null;
+    resolved_at?: string | null; // When it was refunded, exchanged or rejected
+    date_created?: string;
+    date_updated?: string;
+}
+
+// ============================================================================
+// CONTACT MESSAGES
+// ============================================================================
+
+export type ContactMessageStatus = 'new' | 'replied' | 'closed';
+
+export interface ContactMessage {
+    id: string;
+    full_name: string;
+    email: string;
+    phone: string;
+    subject: string; // Topic picked on the contact form, e.g. 'shipping_returns'
+    message: string;
+    order_number?: string | null; // As typed by the sender
+    order?: string | null; // Many-to-One → orders, when order_number matched one
+    locale?: string | null; // Language the form was sent in
+    status: ContactMessageStatus;
+    ip_address?: string | null;
+    date_created?: string;
+    date_updated?: string;
+}
+
+// ============================================================================
+// SEARCH QUERIES
+// ============================================================================
+
+export type SearchEventType = 'search' | 'click';
+
+export interface SearchQueryLog {
+    id: string;
+    query: string; // Trimmed and lower-cased; nothing identifies who searched
+    locale: string;
+    event: SearchEventType; // A search results page, or a click on a suggestion
+    result_count: number;
+    result_type?: 'product' | 'category' | null; // What was clicked
+    result_id?: string | null;
+    date_created?: string;
+}
+
 // ============================================================================
 // API RESPONSE TYPES
 // ============================================================================
@@ -8,10 +8,15 @@ export type Direction = 'rtl' | 'ltr';
 export interface Currency {
     code: string;
     symbol: string;
+    symbol_ar?: string;
     name: string;
+    name_ar?: string;
     decimals: number;
 }
 
+// Currencies prices can be displayed in (payments always settle in OMR)
+export type DisplayCurrency = 'OMR' | 'AED' | 'SAR' | 'BHD' | 'KWD' | 'QAR' | 'USD';
+
 // Product types
 export interface ReviewStats {
     average_rating: number;
@@ -53,10 +58,12 @@ export interface Product {
     how_to_use0?: string;
     how_to_use_ar?: string;
     rating?: number;
+    rating_average?: number; // Stored average of published reviews (see lib/reviews/ratings)
     rating_count?: number; // Number of reviews/ratings
     reviews_count?: number;
     reviewStats?: ReviewStats; // Average rating and count from product_reviews collection
     reviews?: ProductReview[]; // List of reviews from product_reviews collection
+    variants?: ProductVariant[]; // Active variations (shades, sizes) from product_variations
     is_new?: boolean;
     is_new_arrival?: boolean;
     new_until?: string | null;
@@ -104,7 +111,7 @@ export interface Brand {
 
 // Cart types
 export interface CartItem {
-    id: string;
+    id: string; // Line key: product ID, or `${productId}:${variantId}` for variants
     product: Product;
     quantity: number;
     selected_variant?: ProductVariant;
@@ -119,11 +126,22 @@ export interface Cart {
     currency: string;
 }
 
+export type ProductVariantType = 'shade' | 'size';
+
+// Directus `product_variations` collection
 export interface ProductVariant {
     id: string;
+    product?: string; // Many-to-One → products
+    type?: ProductVariantType | string;
     name: string;
-    value: string;
-    price_adjustment?: number;
+    name_ar?: string;
+    value: string; // Hex colour for shades (e.g. #C45A6B), label for sizes (e.g. 50ml)
+    price_adjustment?: number; // Added to the product price (can be negative)
+    sku?: string;
+    stock?: number;
+    in_stock?: boolean | number;
+    is_active?: boolean;
+    sort_order?: number;
 }
 
 // Address types
@@ -272,6 +290,8 @@ export interface ProductFilters {
     max_price?: number;
     in_stock?: boolean;
     search?: string;
+    min_rating?: number; // Average rating of at least this many stars
+    ids?: string[]; // Only these products, e.g. search index matches
 }
 
 export type SortOption =
@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for Server-Persisted Carts
+ *
+ * Tests the validation of /api/cart lines, how a guest cart is merged into
+ * an account cart on login (without re-adding lines it already holds) and
+ * the conversion back to cart store lines.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CartError, mergeCartLines, validateCartLines, MAX_CART_LINE_QUANTITY } from '@/lib/cart/carts';
+import { fromServerCart, toCartLines } from '@/lib/api/cart';
+import { getUnsyncedItems } from '@/store/cart';
+import { ServerCart } from '@/types/collections';
+
+const serum = { id: 'serum', name: 'Serum', slug: 'serum', price: 12 };
+
+describe('Carts: validateCartLines', () => {
+    it('should normalize valid lines', () => {
+        expect(validateCartLines([{ product: 42, quantity: '2' }])).toEqual([
+            { product: '42', variant: null, quantity: 2, product_snapshot: undefined, variant_snapshot: null },
+        ]);
+    });
+
+    it('should reject lines without a product or with a bad quantity', () => {
+        expect(() => validateCartLines([{ quantity: 1 }])).toThrow(CartError);
+        expect(() => validateCartLines([{ product: 'a', quantity: 0 }])).toThrow(CartError);
+        expect(() => validateCartLines([{ product: 'a', quantity: 1.5 }])).toThrow(CartError);
+        expect(() => validateCartLines([{ product: 'a', quantity: MAX_CART_LINE_QUANTITY + 1 }])).toThrow(CartError);
+        expect(() => validateCartLines('serum')).toThrow(CartError);
+    });
+});
+
+describe('Carts: mergeCartLines', () => {
+    it('should add up quantities of the same product and variant', () => {
+        const merged = mergeCartLines(
+            [{ product: 'serum', quantity: 1 }, { product: 'lipstick', variant: 'red', quantity: 1 }],
+            [{ product: 'serum', quantity: 2 }, { product: 'lipstick', variant: 'nude', quantity: 1 }]
+        );
+
+        expect(merged.map((line) => [line.product, line.variant || null, line.quantity])).toEqual([
+            ['serum', null, 3],
+            ['lipstick', 'red', 1],
+            ['lipstick', 'nude', 1],
+        ]);
+    });
+
+    it('should cap merged quantities', () => {
+        const merged = mergeCartLines([{ product: 'serum', quantity: 90 }], [{ product: 'serum', quantity: 20 }]);
+        expect(merged[0].quantity).toBe(MAX_CART_LINE_QUANTITY);
+    });
+
+    it('should keep the newest product snapshot', () => {
+        const merged = mergeCartLines(
+            [{ product: 'serum', quantity: 1, product_snapshot: { price: 10 } }],
+            [{ product: 'serum', quantity: 1, product_snapshot: { price: 12 } }]
+        );
+        expect(merged[0].product_snapshot).toEqual({ price: 12 });
+    });
+});
+
+describe('Carts: conversion to cart store lines', () => {
+    it('should restore lines from their snapshots', () => {
+        const cart: ServerCart = {
+            id: 'cart-1',
+            customer: 'customer-1',
+            status: 'active',
+            items: [
+                { id: '1', cart: 'cart-1', product: 'serum', quantity: 2, product_snapshot: serum },
+                { id: '2', cart: 'cart-1', product: 'gone', quantity: 1 },
+            ],
+        };
+
+        const items = fromServerCart(cart);
+        expect(items).toEqual([{ id: 'serum', product: serum, quantity: 2 }]);
+        expect(toCartLines(items)[0]).toMatchObject({ product: 'serum', variant: null, quantity: 2 });
+    });
+});
+
+describe('Carts: getUnsyncedItems', () => {
+    const items = [
+        { id: 'serum', product: serum, quantity: 3 },
+        { id: 'balm', product: { ...serum, id: 'balm' }, quantity: 1 },
+    ];
+
+    it('should only merge what was added since the cart was saved to the same account', () => {
+        const synced = { owner: 'user-1', quantities: { serum: 2, balm: 1 } };
+        expect(getUnsyncedItems(items, synced, 'user-1')).toEqual([{ id: 'serum', product: serum, quantity: 1 }]);
+    });
+
+    it('should merge the whole cart into another account', () => {
+        const synced = { owner: 'user-1', quantities: { serum: 3, balm: 1 } };
+        expect(getUnsyncedItems(items, synced, 'user-2')).toEqual(items);
+        expect(getUnsyncedItems(items, null, 'user-1')).toEqual(items);
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for Abandoned Cart Reminders
+ *
+ * Tests when an idle cart is due a reminder, the signed restore links and the
+ * bilingual reminder email.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+    createCartRecoveryToken,
+    getCartReminderConfig,
+    isReminderDue,
+    verifyCartRecoveryToken,
+} from '@/lib/cart/reminders';
+import { renderCartReminderEmail } from '@/lib/mail/templates/CartReminderEmail';
+
+// Emails are translated with the real next-intl, not the global mock
+vi.unmock('next-intl');
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2026-03-01T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR).toISOString();
+const config = { intervalsHours: [4, 24, 72], maxReminders: 3, linkDays: 14 };
+
+describe('Cart Reminders: getCartReminderConfig', () => {
+    afterEach(() => {
+        delete process.env.CART_REMINDER_INTERVALS_HOURS;
+        delete process.env.CART_REMINDER_MAX;
+    });
+
+    it('should read sorted intervals and cap the reminders at one per interval', () => {
+        process.env.CART_REMINDER_INTERVALS_HOURS = '48, 2';
+        process.env.CART_REMINDER_MAX = '5';
+
+        expect(getCartReminderConfig()).toMatchObject({ intervalsHours: [2, 48], maxReminders: 2 });
+    });
+
+    it('should fall back to the defaults', () => {
+        expect(getCartReminderConfig()).toEqual({ intervalsHours: [4, 24, 72], maxReminders: 3, linkDays: 14 });
+    });
+});
+
+describe('Cart Reminders: isReminderDue', () => {
+    it('should wait for the interval of the next reminder', () => {
+        expect(isReminderDue({ last_activity: hoursAgo(3) }, config, now)).toBe(false);
+        expect(isReminderDue({ last_activity: hoursAgo(5) }, config, now)).toBe(true);
+        expect(isReminderDue({ last_activity: hoursAgo(5), reminders_sent: 1 }, config, now)).toBe(false);
+        expect(isReminderDue({ last_activity: hoursAgo(25), reminders_sent: 1 }, config, now)).toBe(true);
+    });
+
+    it('should stop after the last reminder', () => {
+        expect(isReminderDue({ last_activity: hoursAgo(500), reminders_sent: 3 }, config, now)).toBe(false);
+        expect(isReminderDue({ last_activity: hoursAgo(500) }, { ...config, maxReminders: 0 }, now)).toBe(false);
+    });
+});
+
+describe('Cart Reminders: restore links', () => {
+    const secret = 'test-secret';
+    const expiresAt = new Date(now.getTime() + 24 * HOUR);
+
+    it('should accept its own token until it expires', () => {
+        const token = createCartRecoveryToken('cart-1', expiresAt, secret);
+
+        expect(verifyCartRecoveryToken(token, now, secret)).toBe('cart-1');
+        expect(verifyCartRecoveryToken(token, new Date(expiresAt.getTime() + 1000), secret)).toBeNull();
+    });
+
+    it('should reject tampered or foreign tokens', () => {
+        const token = createCartRecoveryToken('cart-1', expiresAt, secret);
+        const forged = Buffer.from(JSON.stringify({ cart: 'cart-2', exp: expiresAt.getTime() / 1000 })).toString('base64url');
+
+        expect(verifyCartRecoveryToken(`${forged}.${token.split('.')[1]}`, now, secret)).toBeNull();
+        expect(verifyCartRecoveryToken(token, now, 'other-secret')).toBeNull();
+        expect(verifyCartRecoveryToken('garbage', now, secret)).toBeNull();
+    });
+});
+
+describe('Cart Reminders: renderCartReminderEmail', () => {
+    it('should render the cart in Arabic and English with the restore links', () => {
+        const email = renderCartReminderEmail({
+            firstName: 'Sara',
+            items: [
+                { id: '1', cart: 'c', product: 'p', quantity: 2, product_snapshot: { name: 'Serum <Gold>', name_ar: 'سيروم', price: 5 } },
+                { id: '2', cart: 'c', product: 'gone', quantity: 1 },
+            ],
+            restoreUrls: { ar: 'https://buyjan.com/ar/cart/restore?token=t', en: 'https://buyjan.com/en/cart/restore?token=t' },
+            reminderNumber: 1,
+        });
+
+        expect(email.subject).toBe('سلتك بانتظارك | Your cart is waiting');
+        expect(email.html).toContain('dir="rtl"');
+        expect(email.html).toContain('سيروم');
+        expect(email.html).toContain('Serum &lt;Gold&gt;');
+        expect(email.html).toContain('https://buyjan.com/ar/cart/restore?token=t');
+        expect(email.text).toContain('https://buyjan.com/en/cart/restore?token=t');
+        expect(email.text).toContain('Serum <Gold> 2 OMR 10.000');
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit Tests for Reorder
+ *
+ * Tests how the lines of a past order are turned back into cart lines at
+ * current prices, and what is reported as changed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getOrderItemName, planReorder } from '@/lib/api/reorder';
+import { CartLineState } from '@/lib/cart/revalidate';
+import { OrderItem } from '@/types/collections';
+import { Product, ProductVariant } from '@/types';
+
+function orderItem(fields: Partial<OrderItem>): OrderItem {
+    return { id: 'i', order: 'o-1', product_name: 'Item', quantity: 1, unit_price: 0, line_total: 0, ...fields } as OrderItem;
+}
+
+function state(fields: Partial<CartLineState>): CartLineState {
+    return {
+        product: '',
+        variant: null,
+        price: 10,
+        sale_price: null,
+        price_adjustment: null,
+        unit_price: 10,
+        stock: null,
+        status: 'available',
+        ...fields,
+    };
+}
+
+const red = { id: 'red', product: 'lipstick', name: 'Red', price_adjustment: 0.5 } as ProductVariant;
+const products = [
+    { id: 'serum', name: 'Serum', price: 12 },
+    { id: 'lipstick', name: 'Lipstick', price: 8, variants: [red] },
+] as Product[];
+
+describe('Reorder: planReorder', () => {
+    it('should add available lines at current prices and report repricing', () => {
+        const { items, issues } = planReorder(
+            [
+                orderItem({ product: 'serum', product_name: 'Serum', quantity: 2, unit_price: 11 }),
+                orderItem({ product: 'lipstick', variation: 'red', product_name: 'Lipstick', variation_name: 'Red', quantity: 1, unit_price: 8.5 }),
+            ],
+            [
+                state({ product: 'serum', price: 12, unit_price: 12 }),
+                state({ product: 'lipstick', variant: 'red', price: 8, price_adjustment: 0.5, unit_price: 8.5 }),
+            ],
+            products,
+            'en'
+        );
+
+        expect(items.map((item) => [item.id, item.quantity, item.product.price])).toEqual([
+            ['serum', 2, 12],
+            ['lipstick:red', 1, 8],
+        ]);
+        expect(items[1].selected_variant?.price_adjustment).toBe(0.5);
+        expect(issues).toEqual([{ type: 'price_changed', name: 'Serum', previous_price: 11, price: 12 }]);
+    });
+
+    it('should leave out unavailable lines and products no longer in the catalog', () => {
+        const { items, issues } = planReorder(
+            [
+                orderItem({ product: 'mask', product_name: 'Mask' }),
+                orderItem({ product: 'gone', product_name: 'Gone' }),
+                orderItem({ product: 'lipstick', variation: 'nude', product_name: 'Lipstick', variation_name: 'Nude', unit_price: 10 }),
+            ],
+            [
+                state({ product: 'mask', status: 'out_of_stock' }),
+                state({ product: 'lipstick', variant: 'nude' }),
+            ],
+            products,
+            'en'
+        );
+
+        expect(items).toEqual([]);
+        expect(issues.map((issue) => issue.type === 'unavailable' && issue.name)).toEqual(['Mask', 'Gone', 'Lipstick - Nude']);
+    });
+
+    it('should combine repeated lines and cap them to what is in stock', () => {
+        const { items, issues } = planReorder(
+            [
+                orderItem({ product: 'serum', product_name: 'Serum', quantity: 2, unit_price: 12 }),
+                orderItem({ product: 'serum', product_name: 'Serum', quantity: 3, unit_price: 12 }),
+            ],
+            [state({ product: 'serum', price: 12, unit_price: 12, stock: 4 })],
+            products,
+            'en'
+        );
+
+        expect(items.map((item) => item.quantity)).toEqual([4]);
+        expect(issues).toEqual([{ type: 'quantity_limited', name: 'Serum', ordered: 5, available: 4 }]);
+    });
+});
+
+describe('Reorder: getOrderItemName', () => {
+    it('should use the Arabic name in Arabic', () => {
+        const item = orderItem({ product_name: 'Rose Serum', product_name_ar: 'سيروم الورد', variation_name: '30ml' });
+        expect(getOrderItemName(item, 'ar')).toBe('سيروم الورد - 30ml');
+        expect(getOrderItemName(item, 'en')).toBe('Rose Serum - 30ml');
+    });
+});
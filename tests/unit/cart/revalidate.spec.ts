@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for Cart Revalidation
+ *
+ * Tests how cart lines are checked against the current products and variants,
+ * and the price and availability notices shown on the cart page.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getCartLineStates, RevalidationProduct } from '@/lib/cart/revalidate';
+import { applyCartLineStates, getCartLineNotices } from '@/lib/api/cart';
+import { CartItem, Product, ProductVariant } from '@/types';
+
+const products: RevalidationProduct[] = [
+    { id: 'serum', name: 'Serum', price: '12.000', sale_price: null, stock: 5, in_stock: true, status: 'published' },
+    { id: 'lipstick', name: 'Lipstick', price: 8, sale_price: 6, stock: null, in_stock: true },
+    { id: 'mask', name: 'Mask', price: 4, stock: 0, in_stock: false },
+    { id: 'old', name: 'Old', price: 4, stock: 10, status: 'archived' },
+];
+
+const variants = [
+    { id: 'red', product: 'lipstick', name: 'Red', price_adjustment: 0.5, stock: 2, is_active: true },
+    { id: 'nude', product: 'lipstick', name: 'Nude', is_active: false },
+] as ProductVariant[];
+
+function cartItem(product: Partial<Product>, quantity: number, variant?: Partial<ProductVariant>): CartItem {
+    return {
+        id: variant ? `${product.id}:${variant.id}` : String(product.id),
+        product: product as Product,
+        quantity,
+        ...(variant && { selected_variant: variant as ProductVariant }),
+    };
+}
+
+describe('Cart Revalidation: getCartLineStates', () => {
+    it('should report current prices and stock', () => {
+        const [serum, red] = getCartLineStates(
+            [{ product: 'serum' }, { product: 'lipstick', variant: 'red' }],
+            products,
+            variants
+        );
+
+        expect(serum).toEqual({
+            product: 'serum', variant: null, price: 12, sale_price: null,
+            price_adjustment: null, unit_price: 12, stock: 5, status: 'available',
+        });
+        expect(red).toMatchObject({ variant: 'red', sale_price: 6, unit_price: 6.5, stock: 2, status: 'available' });
+    });
+
+    it('should mark sold out, unlisted and missing lines', () => {
+        const states = getCartLineStates(
+            [{ product: 'mask' }, { product: 'old' }, { product: 'gone' }, { product: 'lipstick', variant: 'nude' }],
+            products,
+            variants
+        );
+
+        expect(states.map((state) => state.status)).toEqual(['out_of_stock', 'unavailable', 'unavailable', 'unavailable']);
+    });
+});
+
+describe('Cart Revalidation: notices', () => {
+    const items = [
+        cartItem({ id: 'serum', price: 12, sale_price: 9 }, 1),
+        cartItem({ id: 'lipstick', price: 8, sale_price: 6 }, 3, { id: 'red', price_adjustment: 0.5 }),
+        cartItem({ id: 'mask', price: 4 }, 1),
+    ];
+    const states = getCartLineStates(
+        [{ product: 'serum' }, { product: 'lipstick', variant: 'red' }, { product: 'mask' }],
+        products,
+        variants
+    );
+
+    it('should flag price changes, short stock and unavailable lines', () => {
+        expect(getCartLineNotices(items, states)).toEqual({
+            'serum': [{ type: 'price_changed', previous_price: 9, price: 12 }],
+            'lipstick:red': [{ type: 'quantity_limited', available: 2 }],
+            'mask': [{ type: 'unavailable' }],
+        });
+    });
+
+    it('should update line snapshots to current prices', () => {
+        const [serum, red] = applyCartLineStates(items, states);
+        expect(serum.product).toMatchObject({ price: 12, sale_price: undefined, stock: 5 });
+        expect(red.selected_variant?.price_adjustment).toBe(0.5);
+        expect(getCartLineNotices([serum], states)).toEqual({});
+    });
+});
@@ -0,0 +1,38 @@
+/**
+ * Unit Tests for Contact Messages
+ *
+ * Tests the contact form spam checks and how typed order numbers are matched.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSpamReason, normalizeOrderNumber, MIN_SUBMIT_SECONDS } from '@/lib/contact/messages';
+
+const now = new Date('2026-03-01T12:00:00Z').getTime();
+
+describe('Contact Messages: getSpamReason', () => {
+    it('should accept a form filled in at a human pace', () => {
+        expect(getSpamReason({ honeypot: '', startedAt: now - 45_000 }, now)).toBeNull();
+    });
+
+    it('should reject a filled-in honeypot', () => {
+        expect(getSpamReason({ honeypot: 'https://spam.example', startedAt: now - 45_000 }, now)).toBe('honeypot');
+    });
+
+    it('should reject forms sent too soon after being shown', () => {
+        expect(getSpamReason({ startedAt: now - (MIN_SUBMIT_SECONDS * 1000 - 1) }, now)).toBe('too_fast');
+        expect(getSpamReason({ startedAt: now - MIN_SUBMIT_SECONDS * 1000 }, now)).toBeNull();
+    });
+
+    it('should reject forms without a start time or opened more than a day ago', () => {
+        expect(getSpamReason({}, now)).toBe('too_fast');
+        expect(getSpamReason({ startedAt: 'soon' as any }, now)).toBe('too_fast');
+        expect(getSpamReason({ startedAt: now - 25 * 60 * 60 * 1000 }, now)).toBe('stale');
+    });
+});
+
+describe('Contact Messages: normalizeOrderNumber', () => {
+    it('should match order numbers however they are typed', () => {
+        expect(normalizeOrderNumber(' ord-20260301-ab12cd ')).toBe('ORD-20260301-AB12CD');
+        expect(normalizeOrderNumber('#ORD-20260301-AB12CD')).toBe('ORD-20260301-AB12CD');
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for Coupon Validation
+ *
+ * Tests the server-side coupon rules used by /api/coupons and order creation:
+ * activity window, minimum cart amount, usage limits and discount calculation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateDiscount, validateCouponForCart, validateCouponInput } from '@/lib/api/coupons';
+import { Coupon } from '@/types/collections';
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+function makeCoupon(overrides: Partial<Coupon> = {}): Coupon {
+    return {
+        id: 'coupon-1',
+        code: 'SUMMER10',
+        type: 'percentage',
+        value: 10,
+        valid_from: '2025-06-01T00:00:00Z',
+        valid_until: '2025-06-30T23:59:59Z',
+        is_active: true,
+        used_count: 0,
+        ...overrides,
+    };
+}
+
+describe('Coupons: calculateDiscount', () => {
+    it('should apply percentage coupons as whole-number percents', () => {
+        expect(calculateDiscount(makeCoupon({ value: 10 }), 25.5)).toBe(2.55);
+    });
+
+    it('should apply fixed coupons as an OMR amount', () => {
+        expect(calculateDiscount(makeCoupon({ type: 'fixed', value: 5 }), 20)).toBe(5);
+    });
+
+    it('should never discount more than the cart total', () => {
+        expect(calculateDiscount(makeCoupon({ type: 'fixed', value: 50 }), 12.345)).toBe(12.345);
+    });
+
+    it('should round to 3 decimal places', () => {
+        expect(calculateDiscount(makeCoupon({ value: 15 }), 3.333)).toBe(0.5);
+    });
+});
+
+describe('Coupons: validateCouponForCart', () => {
+    it('should accept a coupon inside its validity window', () => {
+        const result = validateCouponForCart(makeCoupon(), 100, NOW);
+        expect(result).toEqual({ valid: true, discount_amount: 10 });
+    });
+
+    it('should reject inactive coupons', () => {
+        const result = validateCouponForCart(makeCoupon({ is_active: false }), 100, NOW);
+        expect(result.valid).toBe(false);
+        expect(result.reason).toBe('inactive');
+        expect(result.discount_amount).toBe(0);
+    });
+
+    it('should reject coupons that have not started yet', () => {
+        const result = validateCouponForCart(makeCoupon({ valid_from: '2025-07-01T00:00:00Z', valid_until: '2025-07-31T00:00:00Z' }), 100, NOW);
+        expect(result.reason).toBe('not_started');
+    });
+
+    it('should reject expired coupons', () => {
+        const result = validateCouponForCart(makeCoupon({ valid_until: '2025-06-10T00:00:00Z' }), 100, NOW);
+        expect(result.reason).toBe('expired');
+    });
+
+    it('should reject coupons that reached max_users', () => {
+        const result = validateCouponForCart(makeCoupon({ max_users: 3, used_count: 3 }), 100, NOW);
+        expect(result.reason).toBe('usage_limit_reached');
+    });
+
+    it('should treat a missing used_count as zero', () => {
+        const result = validateCouponForCart(makeCoupon({ max_users: 1, used_count: undefined }), 100, NOW);
+        expect(result.valid).toBe(true);
+    });
+
+    it('should reject carts below minimum_cart_amount', () => {
+        const result = validateCouponForCart(makeCoupon({ minimum_cart_amount: 30 }), 29.999, NOW);
+        expect(result.reason).toBe('minimum_not_met');
+        expect(result.error).toBeTruthy();
+    });
+});
+
+describe('Coupons: validateCouponInput', () => {
+    it('should require core fields on create', () => {
+        expect(validateCouponInput({ code: 'X' }, true)).toBe('type is required');
+    });
+
+    it('should allow partial updates', () => {
+        expect(validateCouponInput({ is_active: false }, false)).toBeNull();
+    });
+
+    it('should reject percentages above 100', () => {
+        expect(validateCouponInput({ type: 'percentage', value: 150 }, false)).toBe('percentage value cannot exceed 100');
+    });
+
+    it('should reject a validity window that ends before it starts', () => {
+        expect(validateCouponInput({
+            valid_from: '2025-06-30T00:00:00Z',
+            valid_until: '2025-06-01T00:00:00Z',
+        }, false)).toBe('valid_until must be after valid_from');
+    });
+});
@@ -0,0 +1,36 @@
+/**
+ * Unit Tests for Display Currency Formatting
+ *
+ * Tests that OMR prices are converted and formatted with the decimal places
+ * of the shopper's display currency, and fall back to OMR without a rate.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatPrice, formatOMR, isDisplayCurrency, DISPLAY_CURRENCIES } from '@/lib/currency';
+
+describe('Display Currency: formatPrice', () => {
+    it('should use 3 decimals for BHD and KWD and 2 for AED', () => {
+        expect(formatPrice(10, 'en', 'BHD', 0.9779)).toBe('BHD 9.779');
+        expect(formatPrice(10, 'en', 'KWD', 0.7985)).toBe('KWD 7.985');
+        expect(formatPrice(10, 'en', 'AED', 9.5514)).toBe('AED 95.51');
+    });
+
+    it('should use the Arabic symbol after the amount in Arabic, with English digits', () => {
+        const formatted = formatPrice(1000, 'ar', 'QAR', 9.4669);
+        expect(formatted.endsWith(' ر.ق')).toBe(true);
+        expect(formatted).toMatch(/^9.466.90 /);
+        expect(formatted).not.toMatch(/[٠-٩]/);
+    });
+
+    it('should show OMR when the currency is OMR or has no rate', () => {
+        expect(formatPrice(12.5, 'en', 'OMR', 1)).toBe(formatOMR(12.5, 'en'));
+        expect(formatPrice(12.5, 'en', 'USD')).toBe('OMR 12.500');
+    });
+
+    it('should only accept the listed currencies', () => {
+        expect(Object.keys(DISPLAY_CURRENCIES)).toEqual(['OMR', 'AED', 'SAR', 'BHD', 'KWD', 'QAR', 'USD']);
+        expect(isDisplayCurrency('KWD')).toBe(true);
+        expect(isDisplayCurrency('EUR')).toBe(false);
+        expect(isDisplayCurrency('toString')).toBe(false);
+    });
+});
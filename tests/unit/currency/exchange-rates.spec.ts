@@ -0,0 +1,128 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { AddressInfo } from 'net';
+import { clearExchangeRateCache, getExchangeRate, getExchangeRates } from '@/lib/exchange-rates/provider';
+import { convertFromOMR, STATIC_EXCHANGE_RATES } from '@/lib/exchange-rates/rates';
+
+/**
+ * Unit tests for the exchange rate provider
+ *
+ * The feed source is served by a local stub that answers with `feedRates`,
+ * or read from a temporary file.
+ */
+describe('Exchange Rates', () => {
+    let server: http.Server;
+    let feedUrl = '';
+    let feedRequests = 0;
+    let feedRates: Record<string, number> | null = { USD: 2.6 };
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            feedRequests++;
+            if (!feedRates) {
+                res.writeHead(503);
+                res.end();
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ base: 'OMR', rates: feedRates }));
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        feedUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/rates.json`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    afterEach(() => {
+        delete process.env.EXCHANGE_RATE_SOURCE;
+        delete process.env.EXCHANGE_RATE_FEED_URL;
+        delete process.env.EXCHANGE_RATES;
+        feedRates = { USD: 2.6 };
+        feedRequests = 0;
+        clearExchangeRateCache();
+    });
+
+    it('should use the static table by default', async () => {
+        const snapshot = await getExchangeRate('usd');
+
+        expect(snapshot).toMatchObject({ base: 'OMR', quote: 'USD', rate: STATIC_EXCHANGE_RATES.USD, source: 'static' });
+        expect(Date.parse(snapshot.fetched_at)).not.toBeNaN();
+    });
+
+    it('should apply EXCHANGE_RATES overrides to the static table', async () => {
+        process.env.EXCHANGE_RATES = JSON.stringify({ USD: 2.61 });
+
+        expect((await getExchangeRate('USD')).rate).toBe(2.61);
+        expect((await getExchangeRate('AED')).rate).toBe(STATIC_EXCHANGE_RATES.AED);
+    });
+
+    it('should read rates from an HTTP feed and cache them', async () => {
+        process.env.EXCHANGE_RATE_SOURCE = 'feed';
+        process.env.EXCHANGE_RATE_FEED_URL = feedUrl;
+
+        const first = await getExchangeRate('USD');
+        feedRates = { USD: 2.7 };
+        const second = await getExchangeRate('USD');
+
+        expect(first).toMatchObject({ rate: 2.6, source: 'feed' });
+        expect(second).toEqual(first);
+        expect(feedRequests).toBe(1);
+
+        clearExchangeRateCache();
+        expect((await getExchangeRate('USD')).rate).toBe(2.7);
+    });
+
+    it('should read rates from a feed file', async () => {
+        const file = path.join(os.tmpdir(), `exchange-rates-${process.pid}.json`);
+        await fs.writeFile(file, JSON.stringify({ base: 'OMR', rates: { USD: 2.5999, KWD: 0.8 } }));
+        process.env.EXCHANGE_RATE_SOURCE = 'feed';
+        process.env.EXCHANGE_RATE_FEED_URL = `file://${file}`;
+
+        try {
+            expect((await getExchangeRate('KWD')).rate).toBe(0.8);
+        } finally {
+            await fs.unlink(file);
+        }
+    });
+
+    it('should keep the last rates read when the feed fails', async () => {
+        process.env.EXCHANGE_RATE_SOURCE = 'feed';
+        process.env.EXCHANGE_RATE_FEED_URL = feedUrl;
+        process.env.EXCHANGE_RATE_CACHE_SECONDS = '0';
+
+        try {
+            expect((await getExchangeRate('USD')).rate).toBe(2.6);
+            feedRates = null;
+            expect((await getExchangeRate('USD')).rate).toBe(2.6);
+            expect(feedRequests).toBe(2);
+        } finally {
+            delete process.env.EXCHANGE_RATE_CACHE_SECONDS;
+        }
+    });
+
+    it('should fall back to the static table when no rates were read yet', async () => {
+        process.env.EXCHANGE_RATE_SOURCE = 'feed';
+        process.env.EXCHANGE_RATE_FEED_URL = feedUrl;
+        feedRates = null;
+
+        const table = await getExchangeRates();
+        expect(table.source).toBe('static');
+        expect(table.rates.USD).toBe(STATIC_EXCHANGE_RATES.USD);
+    });
+
+    it('should reject currencies without a rate', async () => {
+        await expect(getExchangeRate('XYZ')).rejects.toThrow('No exchange rate for OMR to XYZ');
+    });
+
+    it('should round conversions to the currency decimals', () => {
+        expect(convertFromOMR(45, 2.6008)).toBe('117.04');
+        expect(convertFromOMR(10, 0.7985, 3)).toBe('7.985');
+        expect(convertFromOMR(1.005, 1)).toBe('1.01');
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit Tests for Stock Availability
+ *
+ * Tests how available stock is worked out from tracked counts, in_stock flags
+ * and other customers' reservations.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    findStockShortages,
+    getStockKey,
+    getTrackedQuantity,
+    mergeStockLines,
+    sumReservedQuantities,
+    StockRecord,
+} from '@/lib/inventory/stock';
+
+const records = new Map<string, StockRecord & { product_name?: string }>([
+    ['product:serum', { id: 'serum', name: 'Rose Serum', stock: 3, in_stock: true }],
+    ['product:mask', { id: 'mask', name: 'Clay Mask', stock: null, in_stock: true }],
+    ['product:oil', { id: 'oil', name: 'Argan Oil', stock: null, in_stock: false }],
+    ['variation:v-ruby', { id: 'v-ruby', name: 'Ruby', stock: 1, product_name: 'Velvet Lipstick' }],
+]);
+
+describe('Stock: helpers', () => {
+    it('should key variants separately from their product', () => {
+        expect(getStockKey({ product: 'lipstick' })).toBe('product:lipstick');
+        expect(getStockKey({ product: 'lipstick', variation: 'v-ruby' })).toBe('variation:v-ruby');
+    });
+
+    it('should read the tracked count from stock or a numeric in_stock', () => {
+        expect(getTrackedQuantity({ id: 1, name: 'A', stock: 4 })).toBe(4);
+        expect(getTrackedQuantity({ id: 1, name: 'A', in_stock: 2 })).toBe(2);
+        expect(getTrackedQuantity({ id: 1, name: 'A', in_stock: true })).toBeNull();
+    });
+
+    it('should merge lines drawing from the same stock', () => {
+        expect(mergeStockLines([
+            { product: 'serum', quantity: 1 },
+            { product: 'serum', quantity: 2 },
+            { product: 'lipstick', variation: 'v-ruby', quantity: 1 },
+        ])).toEqual([
+            { product: 'serum', quantity: 3 },
+            { product: 'lipstick', variation: 'v-ruby', quantity: 1 },
+        ]);
+    });
+
+    it('should sum reserved quantities across reservations', () => {
+        const reserved = sumReservedQuantities([
+            { items: [{ product: 'serum', quantity: 1 }] },
+            { items: [{ product: 'serum', quantity: 1 }, { product: 'lipstick', variation: 'v-ruby', quantity: 1 }] },
+            { items: null },
+        ]);
+
+        expect(reserved.get('product:serum')).toBe(2);
+        expect(reserved.get('variation:v-ruby')).toBe(1);
+    });
+});
+
+describe('Stock: findStockShortages', () => {
+    it('should accept lines within the tracked stock', () => {
+        expect(findStockShortages([{ product: 'serum', quantity: 3 }], records)).toEqual([]);
+    });
+
+    it('should report lines above the tracked stock', () => {
+        expect(findStockShortages([{ product: 'serum', quantity: 4 }], records)).toEqual([
+            { product: 'serum', product_name: 'Rose Serum', requested: 4, available: 3 },
+        ]);
+    });
+
+    it('should subtract units reserved by other customers', () => {
+        const reserved = new Map([['variation:v-ruby', 1]]);
+
+        expect(findStockShortages([{ product: 'lipstick', variation: 'v-ruby', quantity: 1 }], records, reserved)).toEqual([
+            {
+                product: 'lipstick',
+                variation: 'v-ruby',
+                product_name: 'Velvet Lipstick',
+                variation_name: 'Ruby',
+                requested: 1,
+                available: 0,
+            },
+        ]);
+    });
+
+    it('should go by the in_stock flag when stock is not tracked', () => {
+        expect(findStockShortages([{ product: 'mask', quantity: 50 }], records)).toEqual([]);
+        expect(findStockShortages([{ product: 'oil', quantity: 1 }], records)[0].available).toBe(0);
+    });
+
+    it('should treat unknown products as unavailable', () => {
+        expect(findStockShortages([{ product: 'missing', quantity: 1 }], records)).toEqual([
+            { product: 'missing', requested: 1, available: 0 },
+        ]);
+    });
+});
@@ -0,0 +1,88 @@
+// @vitest-environment node
+/**
+ * Unit Tests for Invoices
+ *
+ * Tests how mixed Arabic and English lines are split for drawing, who may get
+ * an order's invoice, and that the PDF renders.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Order, OrderItem } from '@/types/collections';
+import { getTextDirection, getVisualRuns } from '@/lib/invoices/bidi';
+import { isOrderOwnedBy } from '@/lib/api/orders';
+import { renderInvoicePdf } from '@/lib/invoices/pdf';
+
+// Invoices are translated with the real next-intl, not the global mock
+vi.unmock('next-intl');
+
+describe('Invoices: bidi', () => {
+    it('should take the direction of the first letter', () => {
+        expect(getTextDirection('سيروم Rose')).toBe('rtl');
+        expect(getTextDirection('112 Muscat')).toBe('ltr');
+        expect(getTextDirection('+968 9123')).toBe('ltr');
+    });
+
+    it('should leave a left-to-right line as one run', () => {
+        expect(getVisualRuns('Rose Serum - 30ml')).toEqual([{ text: 'Rose Serum - 30ml', rtl: false }]);
+    });
+
+    it('should order the runs of an Arabic line from the left, keeping Arabic runs in reading order', () => {
+        // pdfkit flips the Arabic run, so the space ends up between the two
+        expect(getVisualRuns('مسقط 112')).toEqual([
+            { text: '112', rtl: false },
+            { text: 'مسقط ', rtl: true },
+        ]);
+    });
+
+    it('should mirror brackets in right-to-left runs', () => {
+        const runs = getVisualRuns('الخصم (SAVE10)');
+        expect(runs.map((run) => run.text)).toEqual(['(', 'SAVE10', 'الخصم )']);
+    });
+
+    it('should return nothing for an empty line', () => {
+        expect(getVisualRuns('')).toEqual([]);
+    });
+});
+
+describe('Invoices: isOrderOwnedBy', () => {
+    it('should match the customer by ID, expanded or not', () => {
+        expect(isOrderOwnedBy({ customer: 'c-1' }, 'c-1')).toBe(true);
+        expect(isOrderOwnedBy({ customer: { id: 'c-1' } as any }, 'c-1')).toBe(true);
+        expect(isOrderOwnedBy({ customer: 42 as any }, '42')).toBe(true);
+    });
+
+    it('should refuse other customers and guest orders', () => {
+        expect(isOrderOwnedBy({ customer: 'c-2' }, 'c-1')).toBe(false);
+        expect(isOrderOwnedBy({ customer: null as any }, 'c-1')).toBe(false);
+    });
+});
+
+describe('Invoices: renderInvoicePdf', () => {
+    it('should render an order with Arabic and English details', async () => {
+        const order = {
+            id: 'o-1',
+            order_number: 'ORD-20260301-AB12CD',
+            customer: 'c-1',
+            created_at: '2026-03-01T10:00:00Z',
+            payment_method: 'paypal',
+            payment_intent_id: '8AB12345CD678901E',
+            billing_address: { first_name: 'سارة', last_name: 'البلوشي', address_line_1: 'شارع 18 نوفمبر', city: 'مسقط', country: 'OM' },
+            shipping_address: { first_name: 'Sara', last_name: 'Al Balushi', address_line_1: 'Way 3021', city: 'Muscat', country: 'OM' },
+            subtotal: 25,
+            shipping_cost: 2,
+            tax_rate: 0.05,
+            tax_amount: 1.25,
+            discount_amount: 2.5,
+            coupon_code: 'SAVE10',
+            total: 25.75,
+        } as unknown as Order;
+        const items = [
+            { id: 'i-1', order: 'o-1', product_name: 'Rose Serum', product_name_ar: 'سيروم الورد', variation_name: '30ml', quantity: 2, unit_price: 12.5, line_total: 25 },
+        ] as unknown as OrderItem[];
+
+        const pdf = await renderInvoicePdf(order, items);
+
+        expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+        expect(pdf.toString('latin1')).toContain('/FontName /');
+    });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit Tests for Transactional Emails
+ *
+ * Tests the Arabic (RTL) and English order and contact form emails, their
+ * plain-text part, and that the mail queue retries a failing send.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ContactMessage, Order, OrderItem, PaymentRefund } from '@/types/collections';
+import { htmlToText } from '@/lib/mail/render';
+import { flushMailQueue, getMailQueueLength, queueMail } from '@/lib/mail/queue';
+import { setMailTransport, MailMessage } from '@/lib/mail/transport';
+import { renderOrderConfirmationEmail } from '@/lib/mail/templates/OrderConfirmationEmail';
+import { renderOrderShippedEmail } from '@/lib/mail/templates/OrderShippedEmail';
+import { renderRefundIssuedEmail } from '@/lib/mail/templates/RefundIssuedEmail';
+import { renderContactAcknowledgementEmail } from '@/lib/mail/templates/ContactAcknowledgementEmail';
+import { renderContactStaffNotificationEmail } from '@/lib/mail/templates/ContactStaffNotificationEmail';
+
+// Emails are translated with the real next-intl, not the global mock
+vi.unmock('next-intl');
+
+const order = {
+    id: 'o-1',
+    order_number: 'BJ-1001',
+    customer_email: 'sara@example.com',
+    subtotal: 12.5,
+    shipping_cost: 0,
+    discount_amount: 0,
+    total: 12.5,
+    tracking_number: 'OM123456',
+    shipping_address: { first_name: 'Sara' },
+} as unknown as Order;
+
+const items = [
+    { id: 'i-1', order: 'o-1', product_name: 'Rose Serum', product_name_ar: 'سيروم الورد', variation_name: '30ml', quantity: 1, line_total: 12.5 },
+] as unknown as OrderItem[];
+
+describe('Emails: order confirmation', () => {
+    it('should render in Arabic right to left', () => {
+        const email = renderOrderConfirmationEmail({ order, items, locale: 'ar' });
+
+        expect(email.subject).toContain('BJ-1001');
+        expect(email.html.startsWith('<!DOCTYPE html>')).toBe(true);
+        expect(email.html).toContain('<html lang="ar" dir="rtl">');
+        expect(email.html).toContain('سيروم الورد - 30ml');
+        expect(email.html).toContain('https://buyjan.com/ar/account/orders/o-1');
+    });
+
+    it('should render in English with the lines and totals', () => {
+        const email = renderOrderConfirmationEmail({ order, items, locale: 'en' });
+
+        expect(email.subject).toBe('Order BJ-1001 confirmed');
+        expect(email.html).toContain('<html lang="en" dir="ltr">');
+        expect(email.text).toContain('Hi Sara,');
+        expect(email.text).toContain('Rose Serum - 30ml 1 OMR 12.500');
+        expect(email.text).toContain('Shipping Free');
+    });
+});
+
+describe('Emails: order shipped and refund issued', () => {
+    it('should include the tracking number', () => {
+        expect(renderOrderShippedEmail({ order, locale: 'en' }).text).toContain('OM123456');
+    });
+
+    it('should say when there is no tracking number yet', () => {
+        const email = renderOrderShippedEmail({ order: { ...order, tracking_number: null }, locale: 'en' });
+        expect(email.text).toContain('We will share the tracking details with you soon.');
+    });
+
+    it('should state the refunded amount and reason', () => {
+        const refund = { id: 'r-1', order: 'o-1', amount: 5, reason: 'Damaged', status: 'completed' } as unknown as PaymentRefund;
+        const email = renderRefundIssuedEmail({ order, refund, locale: 'en' });
+
+        expect(email.subject).toBe('Refund for order BJ-1001');
+        expect(email.text).toContain('We have refunded OMR 5.000 for order BJ-1001.');
+        expect(email.text).toContain('Reason: Damaged');
+    });
+});
+
+describe('Emails: contact form', () => {
+    const message = {
+        id: 'm-1',
+        full_name: 'Sara Al Balushi',
+        email: 'sara@example.com',
+        phone: '+968 9123 4567',
+        subject: 'shipping_returns',
+        message: 'Where is my order?',
+        order_number: 'ORD-20260301-AB12CD',
+        order: null,
+        locale: 'ar',
+        status: 'new',
+    } as ContactMessage;
+
+    it('should name the topic in the acknowledgement', () => {
+        const email = renderContactAcknowledgementEmail({ name: 'Sara', subject: 'shipping_returns', message: 'Hi', locale: 'ar' });
+        expect(email.text).toContain('الشحن والإرجاع');
+    });
+
+    it('should tell staff who wrote, about what, and link the inbox', () => {
+        const email = renderContactStaffNotificationEmail({ message, inboxUrl: 'https://admin.buyjan.com/admin/content/contact_messages/m-1', locale: 'en' });
+
+        expect(email.subject).toBe('New message: Shipping & Returns from Sara Al Balushi');
+        expect(email.text).toContain('From: Sara Al Balushi <sara@example.com>');
+        expect(email.text).toContain('Order: ORD-20260301-AB12CD (no matching order)');
+        expect(email.text).toContain('Where is my order?');
+        expect(email.text).toContain('https://admin.buyjan.com/admin/content/contact_messages/m-1');
+    });
+});
+
+describe('Emails: htmlToText', () => {
+    it('should keep link targets, break blocks into lines and decode entities', () => {
+        const text = htmlToText('<head><title>x</title></head><p>Fish &amp; chips</p><p><a href="https://buyjan.com">Shop</a></p>');
+        expect(text).toBe('Fish & chips\nShop: https://buyjan.com');
+    });
+});
+
+describe('Emails: queueMail', () => {
+    const message: MailMessage = { to: 'sara@example.com', subject: 'Hello', html: '<p>Hi</p>', text: 'Hi' };
+
+    afterEach(() => {
+        setMailTransport(null);
+    });
+
+    it('should retry a failed send', async () => {
+        let attempts = 0;
+        const sent: MailMessage[] = [];
+        setMailTransport({
+            name: 'flaky',
+            send: async (mail) => {
+                attempts++;
+                if (attempts < 3) throw new Error('Connection refused');
+                sent.push(mail);
+            },
+        });
+
+        queueMail(message, { initialDelay: 1 });
+        await flushMailQueue();
+
+        expect(attempts).toBe(3);
+        expect(sent).toEqual([message]);
+        expect(getMailQueueLength()).toBe(0);
+    });
+
+    it('should give up after the last attempt without throwing', async () => {
+        const send = vi.fn().mockRejectedValue(new Error('Connection refused'));
+        setMailTransport({ name: 'down', send });
+
+        queueMail(message, { maxRetries: 2, initialDelay: 1 });
+        await flushMailQueue();
+
+        expect(send).toHaveBeenCalledTimes(2);
+    });
+});
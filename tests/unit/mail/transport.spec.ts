@@ -0,0 +1,136 @@
+// @vitest-environment node
+/**
+ * Unit Tests for the Mail Transport
+ *
+ * Sends through the SMTP transport to a local catch-all SMTP server and checks
+ * what arrives, that the file transport writes messages to disk, and that a
+ * plugged-in transport replaces SMTP.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, Server, AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createFileTransport, createSmtpTransport, sendMail, setMailTransport, MailMessage } from '@/lib/mail/transport';
+
+/**
+ * Bare SMTP server that accepts every message and keeps its raw DATA
+ */
+function startCatchAllServer(received: string[]): Promise<Server> {
+    const server = createServer((socket) => {
+        let buffer = '';
+        let inData = false;
+
+        socket.write('220 localhost ESMTP test\r\n');
+        socket.on('data', (chunk) => {
+            buffer += chunk.toString('utf8');
+
+            while (true) {
+                if (inData) {
+                    const end = buffer.indexOf('\r\n.\r\n');
+                    if (end === -1) return;
+                    received.push(buffer.slice(0, end));
+                    buffer = buffer.slice(end + 5);
+                    inData = false;
+                    socket.write('250 OK queued\r\n');
+                    continue;
+                }
+
+                const lineEnd = buffer.indexOf('\r\n');
+                if (lineEnd === -1) return;
+                const command = buffer.slice(0, lineEnd).toUpperCase();
+                buffer = buffer.slice(lineEnd + 2);
+
+                if (command.startsWith('EHLO') || command.startsWith('HELO')) {
+                    socket.write('250 localhost\r\n');
+                } else if (command.startsWith('DATA')) {
+                    inData = true;
+                    socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+                } else if (command.startsWith('QUIT')) {
+                    socket.end('221 Bye\r\n');
+                } else {
+                    socket.write('250 OK\r\n');
+                }
+            }
+        });
+    });
+
+    return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+const message: MailMessage = {
+    to: 'customer@example.com',
+    subject: 'سلتك بانتظارك | Your cart is waiting',
+    html: '<p dir="rtl">مرحباً</p><p>Hi</p>',
+    text: 'مرحباً\n\nHi',
+};
+
+describe('Mail Transport: SMTP', () => {
+    const received: string[] = [];
+    let server: Server;
+
+    beforeAll(async () => {
+        server = await startCatchAllServer(received);
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    it('should deliver the message to the SMTP server', async () => {
+        const transport = createSmtpTransport({
+            host: '127.0.0.1',
+            port: (server.address() as AddressInfo).port,
+            from: 'BuyJan <no-reply@buyjan.com>',
+        });
+
+        await transport.send(message);
+
+        expect(received).toHaveLength(1);
+        expect(received[0]).toContain('To: customer@example.com');
+        expect(received[0]).toContain('From: BuyJan <no-reply@buyjan.com>');
+        expect(received[0]).toContain('text/html');
+        expect(received[0]).toContain('Subject: =?UTF-8?');
+    });
+});
+
+describe('Mail Transport: file', () => {
+    let directory: string;
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(tmpdir(), 'buyjan-mail-'));
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write the message as an HTML file and a JSON file', async () => {
+        await createFileTransport(directory).send(message);
+
+        const files = (await fs.readdir(directory)).sort();
+        expect(files).toHaveLength(2);
+        expect(files[0]).toMatch(/customer@example\.com\.html$/);
+        expect(files[1]).toMatch(/customer@example\.com\.json$/);
+
+        expect(await fs.readFile(path.join(directory, files[0]), 'utf8')).toBe(message.html);
+        const meta = JSON.parse(await fs.readFile(path.join(directory, files[1]), 'utf8'));
+        expect(meta).toMatchObject({ to: message.to, subject: message.subject, text: message.text });
+        expect(meta.html).toBeUndefined();
+    });
+});
+
+describe('Mail Transport: setMailTransport', () => {
+    afterEach(() => {
+        setMailTransport(null);
+    });
+
+    it('should send through a plugged-in transport', async () => {
+        const sent: MailMessage[] = [];
+        setMailTransport({ name: 'memory', send: async (mail) => { sent.push(mail); } });
+
+        await sendMail(message);
+        expect(sent).toEqual([message]);
+    });
+});
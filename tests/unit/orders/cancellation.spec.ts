@@ -0,0 +1,156 @@
+/**
+ * Unit Tests for Customer Order Cancellation
+ *
+ * Tests which orders customers may cancel, that a reason is required and
+ * that a paid PayPal order is only cancelled once its refund went through.
+ */
+
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { getCancellationBlocker, getCancellationWindowHours } from '@/lib/api/orders';
+import { cancelCustomerOrder, CancellationError, MAX_CANCELLATION_REASON_LENGTH } from '@/lib/orders/cancellation';
+import { findOrderById, updateOrderIf } from '@/lib/orders/payment';
+import { refundOrder, RefundError } from '@/lib/orders/refunds';
+import { restockLines } from '@/lib/inventory/reservations';
+import { findCouponByCode, releaseCoupon } from '@/lib/coupons/store';
+import { Order } from '@/types/collections';
+
+vi.mock('@/lib/orders/payment', () => ({
+    findOrderById: vi.fn(),
+    fetchOrderStockLines: vi.fn().mockResolvedValue([{ product: 'p-1', quantity: 2 }]),
+    markOrderPaymentFailed: vi.fn(),
+    updateOrderIf: vi.fn(),
+}));
+vi.mock('@/lib/orders/refunds', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@/lib/orders/refunds')>(),
+    refundOrder: vi.fn(),
+}));
+vi.mock('@/lib/orders/history', () => ({ recordOrderHistory: vi.fn() }));
+vi.mock('@/lib/inventory/reservations', () => ({ restockLines: vi.fn() }));
+vi.mock('@/lib/coupons/store', () => ({
+    findCouponByCode: vi.fn().mockResolvedValue({ id: 'coupon-1' }),
+    releaseCoupon: vi.fn(),
+}));
+
+const placedAt = '2026-03-01T10:00:00Z';
+const hoursLater = (hours: number) => new Date(placedAt).getTime() + hours * 60 * 60 * 1000;
+
+describe('Order Cancellation: getCancellationBlocker', () => {
+    it('should allow pending and confirmed orders within the window', () => {
+        expect(getCancellationBlocker({ status: 'pending', created_at: placedAt }, hoursLater(1), 24)).toBeNull();
+        expect(getCancellationBlocker({ status: 'confirmed', created_at: placedAt }, hoursLater(24), 24)).toBeNull();
+        // Orders read straight from Directus
+        expect(getCancellationBlocker({ status: 'confirmed', date_created: placedAt }, hoursLater(2), 24)).toBeNull();
+    });
+
+    it('should refuse orders that are being prepared, shipped or closed', () => {
+        for (const status of ['processing', 'shipped', 'delivered', 'cancelled', 'refunded'] as const) {
+            expect(getCancellationBlocker({ status, created_at: placedAt }, hoursLater(1), 24)).toBe('status');
+        }
+    });
+
+    it('should refuse orders once the window has passed or without a placement time', () => {
+        expect(getCancellationBlocker({ status: 'confirmed', created_at: placedAt }, hoursLater(24.01), 24)).toBe('window_expired');
+        expect(getCancellationBlocker({ status: 'pending' }, hoursLater(1), 24)).toBe('window_expired');
+    });
+});
+
+describe('Order Cancellation: getCancellationWindowHours', () => {
+    const original = process.env.NEXT_PUBLIC_ORDER_CANCELLATION_WINDOW_HOURS;
+
+    afterEach(() => {
+        if (original === undefined) {
+            delete process.env.NEXT_PUBLIC_ORDER_CANCELLATION_WINDOW_HOURS;
+        } else {
+            process.env.NEXT_PUBLIC_ORDER_CANCELLATION_WINDOW_HOURS = original;
+        }
+    });
+
+    it('should read the window from the environment, defaulting to 24 hours', () => {
+        process.env.NEXT_PUBLIC_ORDER_CANCELLATION_WINDOW_HOURS = '2';
+        expect(getCancellationWindowHours()).toBe(2);
+
+        process.env.NEXT_PUBLIC_ORDER_CANCELLATION_WINDOW_HOURS = 'soon';
+        expect(getCancellationWindowHours()).toBe(24);
+    });
+});
+
+describe('Order Cancellation: cancelCustomerOrder', () => {
+    it('should require a reason of reasonable length', async () => {
+        await expect(cancelCustomerOrder('o-1', 'c-1', '  ')).rejects.toMatchObject({ code: 'INVALID_REASON' });
+        await expect(cancelCustomerOrder('o-1', 'c-1', 'x'.repeat(MAX_CANCELLATION_REASON_LENGTH + 1)))
+            .rejects.toBeInstanceOf(CancellationError);
+    });
+
+    describe('paid PayPal orders', () => {
+        const paidOrder = {
+            id: 'o-1',
+            order_number: 'BJ-1001',
+            customer: 'c-1',
+            status: 'confirmed',
+            payment_status: 'completed',
+            payment_method: 'paypal',
+            payment_intent_id: 'CAPTURE-1',
+            coupon_code: 'WELCOME',
+            total: 19.5,
+        } as unknown as Order;
+
+        beforeEach(() => {
+            vi.clearAllMocks();
+            vi.mocked(findOrderById).mockResolvedValue({ ...paidOrder, created_at: new Date().toISOString() });
+            vi.mocked(updateOrderIf).mockResolvedValue(true);
+        });
+
+        it('should cancel the order before refunding it and keep it cancelled', async () => {
+            vi.mocked(refundOrder).mockResolvedValue({
+                refund: {} as any,
+                order: { ...paidOrder, status: 'cancelled', payment_status: 'refunded' },
+            });
+
+            const cancelled = await cancelCustomerOrder('o-1', 'c-1', 'Ordered the wrong shade');
+
+            expect(cancelled).toMatchObject({
+                status: 'cancelled',
+                payment_status: 'refunded',
+                cancellation_reason: 'Ordered the wrong shade',
+            });
+            expect(updateOrderIf).toHaveBeenCalledWith(
+                'o-1',
+                { status: { _eq: 'confirmed' } },
+                expect.objectContaining({ status: 'cancelled' })
+            );
+            expect(vi.mocked(updateOrderIf).mock.invocationCallOrder[0])
+                .toBeLessThan(vi.mocked(refundOrder).mock.invocationCallOrder[0]);
+            expect(restockLines).toHaveBeenCalledWith([{ product: 'p-1', quantity: 2 }]);
+            expect(findCouponByCode).toHaveBeenCalledWith('WELCOME');
+            expect(releaseCoupon).toHaveBeenCalledWith('coupon-1');
+        });
+
+        it('should put the order back when the refund fails', async () => {
+            vi.mocked(refundOrder).mockRejectedValue(new RefundError('REFUND_IN_PROGRESS', 'Another refund is being issued'));
+
+            await expect(cancelCustomerOrder('o-1', 'c-1', 'Ordered the wrong shade'))
+                .rejects.toMatchObject({ code: 'REFUND_IN_PROGRESS' });
+
+            expect(updateOrderIf).toHaveBeenLastCalledWith(
+                'o-1',
+                expect.objectContaining({ status: { _eq: 'cancelled' } }),
+                { status: 'confirmed', cancellation_reason: null, cancelled_at: null }
+            );
+            expect(restockLines).not.toHaveBeenCalled();
+            expect(releaseCoupon).not.toHaveBeenCalled();
+        });
+
+        it('should not refund twice when another cancellation got there first', async () => {
+            vi.mocked(updateOrderIf).mockResolvedValue(false);
+            vi.mocked(findOrderById)
+                .mockResolvedValueOnce({ ...paidOrder, created_at: new Date().toISOString() })
+                .mockResolvedValueOnce({ ...paidOrder, status: 'cancelled', payment_status: 'refunded' });
+
+            const cancelled = await cancelCustomerOrder('o-1', 'c-1', 'Ordered the wrong shade');
+
+            expect(cancelled.status).toBe('cancelled');
+            expect(refundOrder).not.toHaveBeenCalled();
+            expect(restockLines).not.toHaveBeenCalled();
+        });
+    });
+});
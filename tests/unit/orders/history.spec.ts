@@ -0,0 +1,54 @@
+/**
+ * Unit Tests for Order Status History
+ *
+ * Tests which changes are recorded and how the timeline dates are read back.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getHistoryEntries } from '@/lib/orders/history';
+import { getStatusReachedDates } from '@/lib/api/orders';
+
+describe('Order History: getHistoryEntries', () => {
+    it('should record each tracked field that changes, with its old and new value', () => {
+        const entries = getHistoryEntries(
+            'o-1',
+            { status: 'processing', payment_status: 'completed', tracking_number: 'TRK-1' },
+            { status: 'shipped', payment_status: 'completed', tracking_number: 'TRK-2' },
+            { source: 'admin', actor: 'u-1', note: ' Handed to courier ' }
+        );
+
+        expect(entries).toEqual([
+            { order: 'o-1', field: 'status', old_value: 'processing', new_value: 'shipped', source: 'admin', actor: 'u-1', note: 'Handed to courier' },
+            { order: 'o-1', field: 'tracking_number', old_value: 'TRK-1', new_value: 'TRK-2', source: 'admin', actor: 'u-1', note: 'Handed to courier' },
+        ]);
+    });
+
+    it('should ignore untracked fields and record creation with no old value', () => {
+        const entries = getHistoryEntries(
+            'o-1',
+            null,
+            { status: 'pending', payment_intent_id: 'CAP-1' } as any,
+            { source: 'customer' }
+        );
+
+        expect(entries).toEqual([
+            { order: 'o-1', field: 'status', old_value: null, new_value: 'pending', source: 'customer', actor: null, note: null },
+        ]);
+    });
+});
+
+describe('Order History: getStatusReachedDates', () => {
+    it('should give the latest time each status was reached', () => {
+        const dates = getStatusReachedDates([
+            { field: 'status', new_value: 'confirmed', date_created: '2026-03-02T09:00:00Z' },
+            { field: 'status', new_value: 'pending', date_created: '2026-03-01T10:00:00Z' },
+            { field: 'payment_status', new_value: 'completed', date_created: '2026-03-02T09:00:00Z' },
+            { field: 'status', new_value: 'confirmed', date_created: '2026-03-03T12:00:00Z' },
+        ]);
+
+        expect(dates).toEqual({
+            pending: '2026-03-01T10:00:00Z',
+            confirmed: '2026-03-03T12:00:00Z',
+        });
+    });
+});
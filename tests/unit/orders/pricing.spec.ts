@@ -0,0 +1,162 @@
+/**
+ * Unit Tests for Server-Side Order Pricing
+ *
+ * Tests that order lines are priced from product data rather than client input,
+ * and that totals claimed by the browser are checked against the server pricing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    priceLines,
+    calculateOrderPricing,
+    findPricingMismatches,
+    getUnitPrice,
+    isProductSellable,
+    PricingError,
+} from '@/lib/orders/pricing';
+import { getShippingCostForMethod } from '@/lib/api/shipping';
+import { Coupon } from '@/types/collections';
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+const products = [
+    { id: 'lipstick', name: 'Velvet Lipstick', price: 8.5, sale_price: 6.25 },
+    { id: 'serum', name: 'Rose Serum', price: '12.000', sale_price: null },
+];
+
+const coupon: Coupon = {
+    id: 'coupon-1',
+    code: 'SAVE10',
+    type: 'percentage',
+    value: 10,
+    valid_from: '2025-06-01T00:00:00Z',
+    valid_until: '2025-06-30T00:00:00Z',
+    is_active: true,
+};
+
+describe('Order Pricing: priceLines', () => {
+    it('should use the sale price when one is set', () => {
+        expect(getUnitPrice(products[0])).toBe(6.25);
+        expect(getUnitPrice(products[1])).toBe(12);
+    });
+
+    it('should price lines from product data', () => {
+        const lines = priceLines([
+            { product: 'lipstick', quantity: 2 },
+            { product: 'serum', quantity: 1 },
+        ], products);
+
+        expect(lines).toEqual([
+            { product: 'lipstick', product_name: 'Velvet Lipstick', quantity: 2, unit_price: 6.25, line_total: 12.5 },
+            { product: 'serum', product_name: 'Rose Serum', quantity: 1, unit_price: 12, line_total: 12 },
+        ]);
+    });
+
+    it('should ignore prices sent with the line', () => {
+        const lines = priceLines([{ product: 'lipstick', quantity: 1, unit_price: 0.001 } as any], products);
+        expect(lines[0].unit_price).toBe(6.25);
+    });
+
+    it('should reject unknown products', () => {
+        expect(() => priceLines([{ product: 'missing', quantity: 1 }], products)).toThrow(PricingError);
+    });
+
+    it('should reject products that are unpublished or switched off', () => {
+        const draft = [{ id: 'draft', name: 'Draft Balm', price: 4, status: 'draft' }];
+        const inactive = [{ id: 'off', name: 'Old Mask', price: 4, is_active: false }];
+
+        expect(() => priceLines([{ product: 'draft', quantity: 1 }], draft)).toThrow(PricingError);
+        expect(() => priceLines([{ product: 'off', quantity: 1 }], inactive)).toThrow(PricingError);
+        expect(isProductSellable({ id: 'p', name: 'Published Oil', price: 4, status: 'published' })).toBe(true);
+    });
+
+    it('should reject non-positive or fractional quantities', () => {
+        expect(() => priceLines([{ product: 'serum', quantity: 0 }], products)).toThrow(PricingError);
+        expect(() => priceLines([{ product: 'serum', quantity: 1.5 }], products)).toThrow(PricingError);
+    });
+});
+
+describe('Order Pricing: variants', () => {
+    const variants = [
+        { id: 'v-ruby', product: 'lipstick', type: 'shade' as const, name: 'Ruby', value: '#9b111e', price_adjustment: 0.5 },
+        { id: 'v-nude', product: 'lipstick', type: 'shade' as const, name: 'Nude', value: '#e3bc9a', stock: 0 },
+        { id: 'v-50ml', product: 'serum', type: 'size' as const, name: '50ml', value: '50ml', price_adjustment: 4 },
+    ];
+
+    it('should apply the variant price adjustment to the sale price', () => {
+        const lines = priceLines([{ product: 'lipstick', variation: 'v-ruby', quantity: 2 }], products, variants);
+
+        expect(lines[0]).toEqual({
+            product: 'lipstick',
+            product_name: 'Velvet Lipstick',
+            variation: 'v-ruby',
+            variation_name: 'Ruby',
+            quantity: 2,
+            unit_price: 6.75,
+            line_total: 13.5,
+        });
+    });
+
+    it('should reject variants of another product', () => {
+        expect(() => priceLines([{ product: 'lipstick', variation: 'v-50ml', quantity: 1 }], products, variants))
+            .toThrow(PricingError);
+    });
+
+    it('should reject unknown or out-of-stock variants', () => {
+        expect(() => priceLines([{ product: 'lipstick', variation: 'v-missing', quantity: 1 }], products, variants))
+            .toThrow(PricingError);
+        expect(() => priceLines([{ product: 'lipstick', variation: 'v-nude', quantity: 1 }], products, variants))
+            .toThrow(PricingError);
+    });
+});
+
+describe('Order Pricing: calculateOrderPricing', () => {
+    const items = priceLines([{ product: 'serum', quantity: 2 }], products);
+
+    it('should total subtotal and shipping', () => {
+        const pricing = calculateOrderPricing(items, 2, null, NOW);
+        expect(pricing.subtotal).toBe(24);
+        expect(pricing.shipping_cost).toBe(2);
+        expect(pricing.discount_amount).toBe(0);
+        expect(pricing.total).toBe(26);
+    });
+
+    it('should apply a valid coupon', () => {
+        const pricing = calculateOrderPricing(items, 2, coupon, NOW);
+        expect(pricing.discount_amount).toBe(2.4);
+        expect(pricing.total).toBe(23.6);
+    });
+
+    it('should reject a coupon that does not apply', () => {
+        expect(() =>
+            calculateOrderPricing(items, 2, { ...coupon, minimum_cart_amount: 50 }, NOW)
+        ).toThrow(PricingError);
+    });
+});
+
+describe('Order Pricing: findPricingMismatches', () => {
+    const pricing = calculateOrderPricing(priceLines([{ product: 'serum', quantity: 1 }], products), 2, null, NOW);
+
+    it('should accept matching totals within tolerance', () => {
+        expect(findPricingMismatches({ subtotal: '12.000', shipping_cost: 2, total: 14.0005 }, pricing)).toEqual([]);
+    });
+
+    it('should report tampered fields', () => {
+        expect(findPricingMismatches({ subtotal: 0.001, shipping_cost: 2, total: 2.001 }, pricing))
+            .toEqual(['subtotal', 'total']);
+    });
+});
+
+describe('Shipping: getShippingCostForMethod', () => {
+    it('should charge the base cost below the free shipping threshold', () => {
+        expect(getShippingCostForMethod({ cost: 2, free_shipping_threshold: 20 }, 10)).toBe(2);
+    });
+
+    it('should be free at or above the threshold', () => {
+        expect(getShippingCostForMethod({ cost: 2, free_shipping_threshold: 20 }, 20)).toBe(0);
+    });
+
+    it('should add the additional cost above max_value', () => {
+        expect(getShippingCostForMethod({ cost: 2, additional_cost: 1.5, max_value: 30 }, 40)).toBe(3.5);
+    });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for Order Refund Amounts
+ *
+ * Tests that partial refunds are priced from what the customer paid for each
+ * line, that lines can't be refunded twice and that the order's payment status
+ * follows the refunded total.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    calculateRefundLines,
+    getRefundedAmount,
+    getRemainingRefundable,
+    getRefundPaymentStatus,
+    RefundError,
+} from '@/lib/orders/refunds';
+import { PaymentRefund } from '@/types/collections';
+
+const order = {
+    subtotal: 20,
+    discount_amount: 2,
+    tax_rate: 0,
+    total: 19.5, // 20 - 2 discount + 1.5 shipping
+};
+
+const items = [
+    { id: 'item-1', quantity: 2, unit_price: 6 },
+    { id: 'item-2', quantity: 1, unit_price: 8 },
+];
+
+function refund(overrides: Partial<PaymentRefund>): PaymentRefund {
+    return {
+        id: 'refund-1',
+        order: 'order-1',
+        transaction_id: 'CAPTURE-1',
+        amount: 0,
+        currency: 'OMR',
+        status: 'completed',
+        ...overrides,
+    };
+}
+
+describe('Order Refunds: calculateRefundLines', () => {
+    it('should refund a line at its share of the discounted price', () => {
+        const lines = calculateRefundLines(order, items, [], [{ order_item: 'item-1', quantity: 1 }]);
+        expect(lines).toEqual([{ order_item: 'item-1', quantity: 1, amount: 5.4 }]);
+    });
+
+    it('should add tax back to refunded lines', () => {
+        const lines = calculateRefundLines({ ...order, discount_amount: 0, tax_rate: 0.05 }, items, [], [
+            { order_item: 'item-2', quantity: 1 },
+        ]);
+        expect(lines[0].amount).toBe(8.4);
+    });
+
+    it('should reject lines that are not part of the order', () => {
+        expect(() => calculateRefundLines(order, items, [], [{ order_item: 'other', quantity: 1 }]))
+            .toThrow(RefundError);
+    });
+
+    it('should not refund more units than are left', () => {
+        const previous = [refund({ amount: 5.4, items: [{ order_item: 'item-1', quantity: 1, amount: 5.4 }] })];
+
+        expect(() => calculateRefundLines(order, items, previous, [{ order_item: 'item-1', quantity: 2 }]))
+            .toThrow(expect.objectContaining({ code: 'AMOUNT_EXCEEDED' }));
+        expect(calculateRefundLines(order, items, previous, [{ order_item: 'item-1', quantity: 1 }])).toHaveLength(1);
+    });
+
+    it('should ignore failed refunds when counting refunded units', () => {
+        const previous = [refund({ status: 'failed', amount: 10.8, items: [{ order_item: 'item-1', quantity: 2, amount: 10.8 }] })];
+        expect(calculateRefundLines(order, items, previous, [{ order_item: 'item-1', quantity: 2 }])[0].amount).toBe(10.8);
+    });
+});
+
+describe('Order Refunds: totals and status', () => {
+    const refunds = [
+        refund({ id: 'r1', amount: 5.4 }),
+        refund({ id: 'r2', amount: 7.2, status: 'pending' }),
+        refund({ id: 'r3', amount: 19.5, status: 'failed' }),
+    ];
+
+    it('should count completed and pending refunds only', () => {
+        expect(getRefundedAmount(refunds)).toBe(12.6);
+        expect(getRemainingRefundable(order, refunds)).toBe(6.9);
+    });
+
+    it('should mark the payment refunded once the whole total is refunded', () => {
+        expect(getRefundPaymentStatus(order, 12.6)).toBe('partially_refunded');
+        expect(getRefundPaymentStatus(order, 19.5)).toBe('refunded');
+    });
+});
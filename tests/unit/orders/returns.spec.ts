@@ -0,0 +1,100 @@
+/**
+ * Unit Tests for Returns
+ *
+ * Tests which orders and units can be returned, how returns move between
+ * statuses, and validation of the lines and photos of a return request.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getNextReturnStatuses, getReturnableQuantities, isOrderReturnable } from '@/lib/api/returns';
+import { ReturnError, validateReturnLines, validateReturnPhotos } from '@/lib/returns/returns';
+
+const placedAt = '2026-03-01T10:00:00Z';
+const daysLater = (days: number) => new Date(placedAt).getTime() + days * 24 * 60 * 60 * 1000;
+
+const orderItems = [
+    { id: 'i-1', quantity: 2 },
+    { id: 'i-2', quantity: 1 },
+];
+
+describe('Returns: isOrderReturnable', () => {
+    it('should allow delivered orders within 30 days of purchase', () => {
+        expect(isOrderReturnable({ status: 'delivered', created_at: placedAt }, daysLater(30))).toBe(true);
+        expect(isOrderReturnable({ status: 'delivered', date_created: placedAt }, daysLater(3))).toBe(true);
+    });
+
+    it('should refuse orders that are not delivered or past the window', () => {
+        expect(isOrderReturnable({ status: 'shipped', created_at: placedAt }, daysLater(3))).toBe(false);
+        expect(isOrderReturnable({ status: 'delivered', created_at: placedAt }, daysLater(30.1))).toBe(false);
+        expect(isOrderReturnable({ status: 'delivered' }, daysLater(1))).toBe(false);
+    });
+});
+
+describe('Returns: getReturnableQuantities', () => {
+    it('should take off units covered by other returns, except rejected ones', () => {
+        const returns = [
+            { status: 'requested' as const, items: [{ order_item: 'i-1', quantity: 1 }] },
+            { status: 'rejected' as const, items: [{ order_item: 'i-2', quantity: 1 }] },
+        ];
+
+        expect(getReturnableQuantities(orderItems, returns)).toEqual({ 'i-1': 1, 'i-2': 1 });
+    });
+});
+
+describe('Returns: getNextReturnStatuses', () => {
+    it('should follow requested → approved → received → resolution', () => {
+        expect(getNextReturnStatuses({ status: 'requested', resolution: 'refund' })).toEqual(['approved', 'rejected']);
+        expect(getNextReturnStatuses({ status: 'approved', resolution: 'refund' })).toEqual(['received', 'rejected']);
+        expect(getNextReturnStatuses({ status: 'received', resolution: 'refund' })).toEqual(['refunded']);
+        expect(getNextReturnStatuses({ status: 'received', resolution: 'exchange' })).toEqual(['exchanged']);
+        expect(getNextReturnStatuses({ status: 'refunded', resolution: 'refund' })).toEqual([]);
+    });
+});
+
+describe('Returns: validateReturnLines', () => {
+    const submission = { reason: 'wrong_shade', resolution: 'exchange' };
+
+    it('should combine lines for the same item', () => {
+        const lines = validateReturnLines(
+            { ...submission, items: [{ order_item: 'i-1', quantity: 1 }, { order_item: 'i-1', quantity: 1 }] },
+            orderItems,
+            []
+        );
+
+        expect(lines).toEqual([{ order_item: 'i-1', quantity: 2 }]);
+    });
+
+    it('should refuse more units than are left, or items from other orders', () => {
+        const returns = [{ status: 'approved' as const, items: [{ order_item: 'i-2', quantity: 1 }] }];
+
+        expect(() => validateReturnLines({ ...submission, items: [{ order_item: 'i-2', quantity: 1 }] }, orderItems, returns))
+            .toThrow(ReturnError);
+        expect(() => validateReturnLines({ ...submission, items: [{ order_item: 'i-9', quantity: 1 }] }, orderItems, []))
+            .toThrow('does not belong');
+        expect(() => validateReturnLines({ ...submission, items: [{ order_item: 'i-1', quantity: 1.5 }] }, orderItems, []))
+            .toThrow('whole number');
+        expect(() => validateReturnLines({ ...submission, items: [] }, orderItems, []))
+            .toThrow('at least one item');
+    });
+
+    it('should require a known reason and resolution, with details for "other"', () => {
+        const items = [{ order_item: 'i-1', quantity: 1 }];
+
+        expect(() => validateReturnLines({ items, reason: 'bored', resolution: 'refund' }, orderItems, [])).toThrow('Reason');
+        expect(() => validateReturnLines({ items, reason: 'damaged', resolution: 'credit' }, orderItems, [])).toThrow('Resolution');
+        expect(() => validateReturnLines({ items, reason: 'other', resolution: 'refund', details: ' ' }, orderItems, []))
+            .toThrow('Describe');
+    });
+});
+
+describe('Returns: validateReturnPhotos', () => {
+    it('should accept up to 5 small images', () => {
+        expect(() => validateReturnPhotos(Array(5).fill({ type: 'image/jpeg', size: 1024 }))).not.toThrow();
+    });
+
+    it('should refuse too many, too large or non-image files', () => {
+        expect(() => validateReturnPhotos(Array(6).fill({ type: 'image/png', size: 1024 }))).toThrow('At most 5');
+        expect(() => validateReturnPhotos([{ type: 'image/png', size: 6 * 1024 * 1024 }])).toThrow('MB');
+        expect(() => validateReturnPhotos([{ type: 'application/pdf', size: 1024 }])).toThrow('JPEG');
+    });
+});
@@ -0,0 +1,40 @@
+/**
+ * Unit Tests for the Payment Transactions Ledger
+ *
+ * Tests the reference that keeps ledger rows unique and the charge fields
+ * that tie a USD charge back to its OMR amount.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getTransactionReference, getPayPalChargeFields } from '@/lib/orders/transactions';
+import { convertOMRtoUSD } from '@/lib/currency';
+import { STATIC_EXCHANGE_RATES } from '@/lib/exchange-rates/rates';
+
+describe('Payment Transactions: references', () => {
+    it('should key rows by provider, type and provider ID', () => {
+        expect(getTransactionReference('paypal', 'capture', 'CAPTURE-1')).toBe('paypal:capture:CAPTURE-1');
+        expect(getTransactionReference('paypal', 'refund', 'CAPTURE-1')).not.toBe('paypal:capture:CAPTURE-1');
+    });
+});
+
+describe('Payment Transactions: PayPal charge fields', () => {
+    it('should record the OMR amount, the USD charged and the rate used', () => {
+        expect(getPayPalChargeFields({ total: 19.5, exchange_rate: 2.6008 }, '50.72')).toEqual({
+            amount: 19.5,
+            charged_amount: '50.72',
+            charged_currency: 'USD',
+            exchange_rate: 2.6008,
+        });
+    });
+
+    it('should record a refunded amount at the rate stored on the order', () => {
+        const fields = getPayPalChargeFields({ total: 19.5, exchange_rate: 2.59 }, null, 12.345);
+        expect(fields.amount).toBe(12.345);
+        expect(fields.charged_amount).toBeNull();
+        expect((fields.amount * (fields.exchange_rate as number)).toFixed(2)).toBe(convertOMRtoUSD(12.345, 2.59));
+    });
+
+    it('should fall back to the static rate for orders placed before rates were stored', () => {
+        expect(getPayPalChargeFields({ total: 10 }).exchange_rate).toBe(STATIC_EXCHANGE_RATES.USD);
+    });
+});
@@ -0,0 +1,151 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+    PayPalWebhookEvent,
+    verifyWebhookSignature,
+    getWebhookOrderId,
+    getWebhookCaptureId,
+} from '@/lib/paypal/webhooks';
+import { isClaimActive, WEBHOOK_CLAIM_TIMEOUT_MINUTES } from '@/lib/paypal/webhook-events';
+
+/**
+ * Unit tests for PayPal webhook verification
+ *
+ * Verification runs against a local mock of the PayPal REST API
+ * (PAYPAL_API_BASE_URL), which answers with the status set in `verificationStatus`.
+ */
+describe('PayPal Webhooks', () => {
+    let server: http.Server;
+    let verificationStatus = 'SUCCESS';
+    let lastVerifyRequest: any = null;
+
+    const event: PayPalWebhookEvent = {
+        id: 'WH-EVENT-1',
+        event_type: 'PAYMENT.CAPTURE.COMPLETED',
+        resource: { id: 'CAPTURE-1', custom_id: 'order-42' },
+    };
+    const rawEvent = JSON.stringify(event);
+
+    const signedHeaders = () => new Headers({
+        'paypal-auth-algo': 'SHA256withRSA',
+        'paypal-cert-url': 'https://api.sandbox.paypal.com/v1/notifications/certs/CERT-1',
+        'paypal-transmission-id': 'TRANSMISSION-1',
+        'paypal-transmission-sig': 'signature',
+        'paypal-transmission-time': '2026-01-01T00:00:00Z',
+    });
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => { body += chunk; });
+            req.on('end', () => {
+                res.setHeader('Content-Type', 'application/json');
+                if (req.url === '/v1/oauth2/token') {
+                    res.end(JSON.stringify({ access_token: 'test-token' }));
+                } else if (req.url === '/v1/notifications/verify-webhook-signature') {
+                    lastVerifyRequest = { authorization: req.headers.authorization, raw: body, body: JSON.parse(body) };
+                    res.end(JSON.stringify({ verification_status: verificationStatus }));
+                } else {
+                    res.statusCode = 404;
+                    res.end('{}');
+                }
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const { port } = server.address() as AddressInfo;
+        process.env.PAYPAL_API_BASE_URL = `http://127.0.0.1:${port}`;
+    });
+
+    afterAll(async () => {
+        delete process.env.PAYPAL_API_BASE_URL;
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        process.env.NEXT_PUBLIC_PAYPAL_CLIENT_ID = 'test_client_id';
+        process.env.PAYPAL_CLIENT_SECRET = 'test_secret';
+        process.env.PAYPAL_WEBHOOK_ID = 'WEBHOOK-1';
+        verificationStatus = 'SUCCESS';
+        lastVerifyRequest = null;
+    });
+
+    describe('verifyWebhookSignature', () => {
+        it('should accept events PayPal verifies', async () => {
+            await expect(verifyWebhookSignature(signedHeaders(), rawEvent)).resolves.toBe(true);
+            expect(lastVerifyRequest.authorization).toBe('Bearer test-token');
+            expect(lastVerifyRequest.body).toMatchObject({
+                transmission_id: 'TRANSMISSION-1',
+                webhook_id: 'WEBHOOK-1',
+                webhook_event: { id: 'WH-EVENT-1' },
+            });
+        });
+
+        it('should pass the body on exactly as received', async () => {
+            const raw = '{"id":"WH-EVENT-2","event_type":"PAYMENT.CAPTURE.COMPLETED","resource":{"amount":{"value":"10.50"},"total":1.10}}';
+            await expect(verifyWebhookSignature(signedHeaders(), raw)).resolves.toBe(true);
+            expect(lastVerifyRequest.raw.endsWith(`"webhook_event":${raw}}`)).toBe(true);
+        });
+
+        it('should reject events PayPal fails to verify', async () => {
+            verificationStatus = 'FAILURE';
+            await expect(verifyWebhookSignature(signedHeaders(), rawEvent)).resolves.toBe(false);
+        });
+
+        it('should reject deliveries without transmission headers', async () => {
+            const headers = signedHeaders();
+            headers.delete('paypal-transmission-sig');
+            await expect(verifyWebhookSignature(headers, rawEvent)).resolves.toBe(false);
+            expect(lastVerifyRequest).toBeNull();
+        });
+
+        it('should reject events when no webhook ID is configured', async () => {
+            delete process.env.PAYPAL_WEBHOOK_ID;
+            await expect(verifyWebhookSignature(signedHeaders(), rawEvent)).resolves.toBe(false);
+            expect(lastVerifyRequest).toBeNull();
+        });
+    });
+
+    describe('isClaimActive', () => {
+        const now = new Date('2026-01-01T12:00:00Z');
+        const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+
+        it('should hold recent claims of events being processed', () => {
+            expect(isClaimActive({ status: 'processing', claimed_at: minutesAgo(1) }, now)).toBe(true);
+        });
+
+        it('should let claims lapse after the timeout', () => {
+            expect(isClaimActive({ status: 'processing', claimed_at: minutesAgo(WEBHOOK_CLAIM_TIMEOUT_MINUTES + 1) }, now)).toBe(false);
+            expect(isClaimActive({ status: 'processing', claimed_at: null }, now)).toBe(false);
+            expect(isClaimActive({ status: 'failed', claimed_at: minutesAgo(1) }, now)).toBe(false);
+        });
+    });
+
+    describe('event references', () => {
+        it('should read the order ID from custom_id', () => {
+            expect(getWebhookOrderId(event)).toBe('order-42');
+            expect(getWebhookOrderId({
+                id: 'WH-2',
+                event_type: 'CHECKOUT.ORDER.APPROVED',
+                resource: { id: 'PAYPAL-ORDER', purchase_units: [{ custom_id: 'order-7' }] },
+            })).toBe('order-7');
+        });
+
+        it('should read the capture ID of capture and refund events', () => {
+            expect(getWebhookCaptureId(event)).toBe('CAPTURE-1');
+            expect(getWebhookCaptureId({
+                id: 'WH-3',
+                event_type: 'PAYMENT.CAPTURE.REFUNDED',
+                resource: {
+                    id: 'REFUND-1',
+                    links: [
+                        { rel: 'self', href: 'https://api.paypal.com/v2/payments/refunds/REFUND-1' },
+                        { rel: 'up', href: 'https://api.paypal.com/v2/payments/captures/CAPTURE-9' },
+                    ],
+                },
+            })).toBe('CAPTURE-9');
+            expect(getWebhookCaptureId({ id: 'WH-4', event_type: 'CHECKOUT.ORDER.APPROVED', resource: { id: 'X' } })).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit Tests for Product Listings
+ *
+ * Tests the Directus filter built for product listings and which items
+ * each page of a listing shows in page and scroll modes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildProductFilter } from '@/lib/api/products';
+import { getListingWindow, getShownRange, getTotalPages, MAX_SCROLL_PAGES, parseListingMode, parsePage } from '@/lib/pagination';
+
+describe('Product Listings: buildProductFilter', () => {
+    it('should combine every filter so none replaces another', () => {
+        expect(buildProductFilter({
+            category: 'skincare,makeup',
+            brand: ['lumi'],
+            min_price: 5,
+            max_price: 20,
+            in_stock: true,
+            search: 'serum',
+        })).toEqual({
+            _and: [
+                { category: { slug: { _in: ['skincare', 'makeup'] } } },
+                { brand: { slug: { _in: ['lumi'] } } },
+                { price: { _gte: 5 } },
+                { price: { _lte: 20 } },
+                { _or: [{ in_stock: { _eq: true } }, { in_stock: { _gt: 0 } }] },
+                {
+                    _or: [
+                        { name: { _icontains: 'serum' } },
+                        { name_ar: { _icontains: 'serum' } },
+                        { description: { _icontains: 'serum' } },
+                        { description_ar: { _icontains: 'serum' } },
+                    ],
+                },
+            ],
+        });
+    });
+
+    it('should filter by the stored average rating', () => {
+        expect(buildProductFilter({ min_rating: 4 })).toEqual({
+            _and: [{ rating_average: { _gte: 4 } }],
+        });
+    });
+
+    it('should leave out the filter when nothing is filtered', () => {
+        expect(buildProductFilter({ category: '', brand: [] })).toBeUndefined();
+    });
+});
+
+describe('Product Listings: pagination', () => {
+    it('should read the page and mode from the URL', () => {
+        expect(parsePage('3')).toBe(3);
+        expect(parsePage('0')).toBe(1);
+        expect(parsePage(undefined)).toBe(1);
+        expect(parseListingMode('scroll')).toBe('scroll');
+        expect(parseListingMode('grid')).toBe('pages');
+    });
+
+    it('should fetch one page in page mode and every page so far in scroll mode', () => {
+        expect(getListingWindow(3, 'pages', 12)).toEqual({ page: 3, limit: 12 });
+        expect(getListingWindow(3, 'scroll', 12)).toEqual({ page: 1, limit: 36 });
+        expect(getListingWindow(MAX_SCROLL_PAGES + 1, 'scroll', 12)).toEqual({ page: MAX_SCROLL_PAGES + 1, limit: 12 });
+    });
+
+    it('should count pages and the items shown from the total', () => {
+        expect(getTotalPages(25, 12)).toBe(3);
+        expect(getTotalPages(0, 12)).toBe(0);
+        expect(getShownRange(3, 'pages', 12, 30)).toEqual({ from: 25, to: 30 });
+        expect(getShownRange(2, 'scroll', 12, 30)).toEqual({ from: 1, to: 24 });
+    });
+});
@@ -0,0 +1,52 @@
+/**
+ * Unit Tests for Product Rating Aggregates
+ *
+ * Tests how the stored rating_average and rating_count of products are
+ * counted from their reviews, and which products need them updated.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getRatingAggregates, getRatingUpdates, toProductId } from '@/lib/reviews/ratings';
+
+describe('Product Ratings: getRatingAggregates', () => {
+    it('should average published reviews only', () => {
+        expect(getRatingAggregates([
+            { rating: 5, status: 'published' },
+            { rating: 4, status: 'approved' },
+            { rating: 4, status: 'published' },
+            { rating: 1, status: 'draft' },
+        ])).toEqual({ rating_average: 4.3, rating_count: 3 });
+    });
+
+    it('should be zero without published reviews', () => {
+        expect(getRatingAggregates([{ rating: 2, status: 'archived' }])).toEqual({ rating_average: 0, rating_count: 0 });
+    });
+});
+
+describe('Product Ratings: getRatingUpdates', () => {
+    it('should only update products whose stored rating is out of date', () => {
+        const products = [
+            { id: 1, rating_average: '4.5', rating_count: 2 },
+            { id: 2, rating_average: 5, rating_count: 1 },
+            { id: 3, rating_average: null, rating_count: null },
+        ];
+        const reviews = [
+            { product: 1, rating: 4, status: 'published' },
+            { product: 1, rating: 5, status: 'published' },
+            { product: { id: 2 }, rating: 3, status: 'published' },
+        ];
+
+        expect(getRatingUpdates(products, reviews)).toEqual([
+            { id: '2', rating_average: 3, rating_count: 1 },
+            { id: '3', rating_average: 0, rating_count: 0 },
+        ]);
+    });
+});
+
+describe('Product Ratings: toProductId', () => {
+    it('should read the product key or the expanded product', () => {
+        expect(toProductId(12)).toBe('12');
+        expect(toProductId({ id: 'abc', name: 'Serum' })).toBe('abc');
+        expect(toProductId(null)).toBeNull();
+    });
+});
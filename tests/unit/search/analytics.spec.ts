@@ -0,0 +1,57 @@
+/**
+ * Unit Tests for Search Analytics
+ *
+ * Tests which queries are logged and how logged events are aggregated into
+ * trending, zero-result and popular queries.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateSearchQueries, getPopularQueries, toLoggedQuery } from '@/lib/search/analytics';
+
+describe('Search Analytics: toLoggedQuery', () => {
+    it('should trim, collapse spaces and lower-case queries', () => {
+        expect(toLoggedQuery('  Rose   LIPSTICK ')).toBe('rose lipstick');
+        expect(toLoggedQuery('أحمر  شفاه')).toBe('أحمر شفاه');
+    });
+
+    it('should not log queries that are too short or look like personal details', () => {
+        expect(toLoggedQuery(' a ')).toBeNull();
+        expect(toLoggedQuery('sara@example.com')).toBeNull();
+        expect(toLoggedQuery('order 96891234567')).toBeNull();
+        expect(toLoggedQuery('spf 50')).toBe('spf 50');
+    });
+});
+
+describe('Search Analytics: aggregateSearchQueries', () => {
+    const events = [
+        { query: 'lipstick', event: 'search' as const, result_count: 4, date_created: '2026-05-01T10:00:00Z' },
+        { query: 'lipsticks', event: 'search' as const, result_count: 4, date_created: '2026-05-02T10:00:00Z' },
+        { query: 'lipstick', event: 'click' as const, result_count: 5, date_created: '2026-05-03T10:00:00Z' },
+        { query: 'glitter', event: 'search' as const, result_count: 0, date_created: '2026-05-01T12:00:00Z' },
+        { query: 'glitter', event: 'search' as const, result_count: 0, date_created: '2026-05-02T12:00:00Z' },
+        { query: 'glitter', event: 'search' as const, result_count: 0, date_created: '2026-05-03T12:00:00Z' },
+        { query: 'serum', event: 'search' as const, result_count: 2, date_created: '2026-05-01T09:00:00Z' },
+    ];
+
+    it('should group word forms under the most used spelling', () => {
+        const lipstick = aggregateSearchQueries(events).find((stat) => stat.query.startsWith('lipstick'));
+
+        expect(lipstick).toEqual({
+            query: 'lipstick',
+            searches: 2,
+            clicks: 1,
+            zero_results: 0,
+            click_through_rate: 0.33,
+            last_seen: '2026-05-03T10:00:00Z',
+        });
+    });
+
+    it('should count searches that found nothing', () => {
+        const glitter = aggregateSearchQueries(events).find((stat) => stat.query === 'glitter');
+        expect(glitter).toMatchObject({ searches: 3, zero_results: 3 });
+    });
+
+    it('should only suggest queries seen often enough that find something', () => {
+        expect(getPopularQueries(aggregateSearchQueries(events), 6)).toEqual(['lipstick']);
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for the Catalog Search Index
+ *
+ * Tests Arabic and English normalization, and matching and ranking of
+ * products in an index built from catalog rows.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSearchTerms, normalizeArabic } from '@/lib/search/normalize';
+import { createSearchIndex, searchIndex, toCategoryDocuments, toProductDocuments } from '@/lib/search/catalog';
+
+const directusUrl = 'https://admin.example.com';
+
+function buildIndex() {
+    const index = createSearchIndex();
+    index.addAll([
+        ...toProductDocuments([
+            {
+                id: 1, slug: 'hydra-moisturizer', name: 'Hydra Moisturizer', name_ar: 'كريم مرطب هيدرا',
+                description: '<p>Daily face cream</p>', price: 12, in_stock: 5,
+                brand: { name: 'Lumi', slug: 'lumi' }, category: { name: 'Skincare', name_ar: 'العناية بالبشرة', slug: 'skincare' },
+            },
+            {
+                id: 2, slug: 'rose-lipstick', name: 'Rose Lipstick', name_ar: 'أحمر شفاه وردي',
+                description: 'Creamy colour with a hydra finish', price: 8, in_stock: 0,
+                brand: { name: 'Hydra Beauty', slug: 'hydra-beauty' }, category: { name: 'Makeup', slug: 'makeup' },
+            },
+            {
+                id: 3, slug: 'night-serum', name: 'Night Serum', name_ar: 'سيروم ليلي',
+                description: 'With hydra complex', price: 20, in_stock: true,
+                category: { name: 'Skincare', slug: 'skincare' },
+            },
+        ], directusUrl),
+        ...toCategoryDocuments([{ id: 7, slug: 'skincare', name: 'Skincare', name_ar: 'العناية بالبشرة' }], directusUrl),
+    ]);
+    return index;
+}
+
+describe('Search: normalization', () => {
+    it('should drop Arabic diacritics and tatweel and unify letter variants', () => {
+        expect(normalizeArabic('كريمٌ')).toBe('كريم');
+        expect(normalizeArabic('كـــريم')).toBe('كريم');
+        expect(normalizeArabic('أحمر إثمد آمن')).toBe('احمر اثمد امن');
+        expect(normalizeArabic('عناية')).toBe(normalizeArabic('عنايه'));
+        expect(normalizeArabic('مستشفى ٣٠')).toBe('مستشفي 30');
+    });
+
+    it('should take off the Arabic definite article', () => {
+        expect(getSearchTerms('الكريم')).toEqual(getSearchTerms('كريم'));
+        expect(getSearchTerms('بالبشرة')).toEqual(['بشره']);
+    });
+
+    it('should bring British and American spellings and word forms together', () => {
+        expect(getSearchTerms('Moisturiser')).toEqual(getSearchTerms('moisturizer'));
+        expect(getSearchTerms('colours')).toEqual(getSearchTerms('color'));
+        expect(getSearchTerms('Crème lipsticks')).toEqual(['creme', 'lipstick']);
+    });
+});
+
+describe('Search: catalog index', () => {
+    const index = buildIndex();
+    const productSlugs = (query: string) => searchIndex(index, query, { type: 'product' }).map((hit) => hit.slug);
+
+    it('should match Arabic spelling variants', () => {
+        expect(productSlugs('كريمٌ')).toEqual(['hydra-moisturizer']);
+        expect(productSlugs('احمر')).toEqual(['rose-lipstick']);
+    });
+
+    it('should match English word forms, spellings and small typos', () => {
+        expect(productSlugs('moisturisers')).toEqual(['hydra-moisturizer']);
+        expect(productSlugs('lipstik')).toEqual(['rose-lipstick']);
+        expect(productSlugs('seru')).toEqual(['night-serum']);
+    });
+
+    it('should rank name matches over brand over description', () => {
+        expect(productSlugs('hydra')).toEqual(['hydra-moisturizer', 'rose-lipstick', 'night-serum']);
+    });
+
+    it('should keep product details for filtering and limit categories by type', () => {
+        const [hit] = searchIndex(index, 'lipstick', { type: 'product' });
+        expect(hit).toMatchObject({ item_id: '2', brand_slug: 'hydra-beauty', category_slug: 'makeup', price: 8, in_stock: false });
+
+        expect(searchIndex(index, 'العناية', { type: 'category' }).map((hit) => hit.item_id)).toEqual(['7']);
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for Faceted Search
+ *
+ * Tests URL option parsing, filtering, sorting, paging and facet counts
+ * over catalog search hits.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { facetedSearch, getSearchFacets, parseSearchOptions } from '@/lib/search/facets';
+import { SearchHit } from '@/lib/search/catalog';
+
+function hit(id: string, fields: Partial<SearchHit>): SearchHit {
+    return { id: `product:${id}`, type: 'product', item_id: id, slug: `p-${id}`, name: `Product ${id}`, score: 1, ...fields };
+}
+
+// In search ranking order
+const hits = [
+    hit('1', { category_slug: 'skincare', brand_slug: 'lumi', price: 12, rating: 4.5, in_stock: true, name: 'Moisturizer', name_ar: 'مرطب' }),
+    hit('2', { category_slug: 'makeup', brand_slug: 'lumi', price: 4, rating: 3.2, in_stock: false, name: 'Lipstick', name_ar: 'أحمر شفاه' }),
+    hit('3', { category_slug: 'skincare', brand_slug: 'rosa', price: 60, rating: 0, in_stock: true, name: 'Serum', name_ar: 'سيروم' }),
+    hit('4', { category_slug: 'skincare', brand_slug: 'rosa', price: 8, rating: 4, in_stock: true, name: 'Cleanser', name_ar: 'غسول' }),
+];
+
+describe('Faceted Search: parseSearchOptions', () => {
+    it('should read filters, sort and paging from URL parameters', () => {
+        const options = parseSearchOptions(new URLSearchParams(
+            'category=skincare,makeup&brand=lumi&min_price=5&max_price=abc&rating=4&in_stock=true&sort=price_low&page=2&limit=500'
+        ));
+
+        expect(options).toEqual({
+            filters: {
+                category: ['skincare', 'makeup'],
+                brand: ['lumi'],
+                min_price: 5,
+                max_price: undefined,
+                min_rating: 4,
+                in_stock: true,
+            },
+            sort: 'price_low',
+            page: 2,
+            limit: 100,
+        });
+    });
+
+    it('should fall back to relevance and the first page', () => {
+        const options = parseSearchOptions(new URLSearchParams('sort=cheapest&page=-1'));
+        expect(options.sort).toBe('relevant');
+        expect(options.page).toBe(1);
+        expect(options.limit).toBe(24);
+    });
+});
+
+describe('Faceted Search: getSearchFacets', () => {
+    it('should count each facet with the other filters applied but not its own', () => {
+        const facets = getSearchFacets(hits, { category: ['skincare'], brand: ['rosa'] });
+
+        // Categories among rosa products; brands among skincare products
+        expect(facets.category).toEqual([{ value: 'skincare', count: 2 }]);
+        expect(facets.brand).toEqual([{ value: 'rosa', count: 2 }, { value: 'lumi', count: 1 }]);
+        expect(facets.in_stock).toBe(2);
+    });
+
+    it('should count price buckets inclusively and ratings as minimums', () => {
+        const facets = getSearchFacets(hits, {});
+
+        expect(facets.price.map((bucket) => bucket.count)).toEqual([1, 1, 1, 0, 1]);
+        expect(facets.rating).toEqual([
+            { value: 4, count: 2 },
+            { value: 3, count: 3 },
+            { value: 2, count: 3 },
+            { value: 1, count: 3 },
+        ]);
+    });
+});
+
+describe('Faceted Search: facetedSearch', () => {
+    it('should filter, keep the ranking and page the results', () => {
+        const result = facetedSearch(hits, {
+            filters: { category: ['skincare'], in_stock: true },
+            sort: 'relevant',
+            page: 2,
+            limit: 2,
+        }, 'en');
+
+        expect(result.hits.map((h) => h.item_id)).toEqual(['4']);
+        expect(result.meta).toEqual({ total: 3, page: 2, limit: 2, total_pages: 2 });
+    });
+
+    it('should sort by price, rating and localized name', () => {
+        const ids = (sort: any, locale: any = 'en') =>
+            facetedSearch(hits, { filters: {}, sort, page: 1, limit: 24 }, locale).hits.map((h) => h.item_id);
+
+        expect(ids('price_low')).toEqual(['2', '4', '1', '3']);
+        expect(ids('rating')).toEqual(['1', '4', '2', '3']);
+        expect(ids('name')).toEqual(['4', '2', '1', '3']);
+        expect(ids('name', 'ar')).toEqual(['2', '3', '4', '1']);
+    });
+});